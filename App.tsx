@@ -14,13 +14,19 @@ import { View, Text, TouchableOpacity, StyleSheet, AccessibilityInfo } from 'rea
 import OverviewScreen from './src/screens/OverviewScreen';
 import TasksScreen from './src/screens/TasksScreen';
 import CollectionsScreen from './src/screens/CollectionsScreen';
+import CalendarScreen from './src/screens/CalendarScreen';
+import SearchScreen from './src/screens/SearchScreen';
 import ExpensesScreen from './src/screens/ExpensesScreen';
 import SettingsScreen from './src/screens/SettingsScreen';
 import { NotebookModeContext } from './src/context/NotebookModeContext';
 import { useNotebookMode } from './src/hooks/useNotebookMode';
+import { UndoContext } from './src/context/UndoContext';
+import { useUndo } from './src/hooks/useUndo';
+import UndoSnackbar from './src/components/UndoSnackbar';
 import type { TaskFilter } from './src/types/filters';
+import type { EntryLink, SearchResult } from './src/types/models';
 
-type Tab = 'overview' | 'tasks' | 'collections' | 'expenses' | 'settings';
+type Tab = 'overview' | 'tasks' | 'collections' | 'calendar' | 'search' | 'expenses' | 'settings';
 
 // Global initialization state
 let dbInitialized = false;
@@ -72,6 +78,39 @@ async function initializeApp(): Promise<void> {
         console.log(`✅ Unsorted list already exists (${status})`);
       }
       
+      // Step 4: Permanently delete trash older than the retention window
+      console.log('📊 Step 4: Purge expired trash');
+      const { purgeExpiredTrash } = await import('./src/db/operations');
+      await purgeExpiredTrash();
+      
+      // Step 5: Catch up on recurring expenses that came due while the app was closed
+      // (best-effort, a broken template must not stop the app from starting)
+      console.log('📊 Step 5: Generate due recurring expenses');
+      try {
+        const { generateDueRecurringExpenses } = await import('./src/db/operations');
+        const generated = await generateDueRecurringExpenses();
+        if (generated > 0) {
+          console.log(`✅ Generated ${generated} recurring expense(s)`);
+        }
+      } catch (error) {
+        console.error('❌ Failed to generate recurring expenses:', error);
+      }
+      
+      // Step 6: Reminder notifications (best-effort, app works without them)
+      console.log('📊 Step 6: Schedule reminder notifications');
+      try {
+        const { configureNotifications } = await import('./src/notifications/expoNotificationDriver');
+        const { syncReminderNotifications } = await import('./src/db/operations');
+        const granted = await configureNotifications();
+        if (granted) {
+          await syncReminderNotifications();
+        } else {
+          console.log('🔕 Notification permission not granted, reminders will not fire');
+        }
+      } catch (error) {
+        console.warn('⚠️ Reminder notifications unavailable:', error);
+      }
+      
       dbInitialized = true;
       console.log('✅ App initialization complete');
       
@@ -90,6 +129,7 @@ async function initializeApp(): Promise<void> {
 function AppContent() {
   const [tab, setTab] = useState<Tab>('overview');
   const [selectedCollectionId, setSelectedCollectionId] = useState<string | undefined>(undefined);
+  const [entryToOpen, setEntryToOpen] = useState<EntryLink | null>(null);
   const [appReady, setAppReady] = useState(false);
   const insets = useSafeAreaInsets();
   
@@ -98,6 +138,9 @@ function AppContent() {
   
   // TICKET 18A: Notebook mode preference
   const notebookMode = useNotebookMode();
+
+  // Undo snackbar for deletes, completions and moves
+  const undo = useUndo();
   
   // TICKET 17F: Task filter state - using simple state, not object
   const [taskFilter, setTaskFilter] = useState<TaskFilter>('all');
@@ -117,6 +160,38 @@ function AppContent() {
       });
   }, []);
   
+  // Reminder notification actions (Snooze / Dismiss / tap)
+  useEffect(() => {
+    if (!appReady) return;
+
+    let unsubscribe: (() => void) | undefined;
+    // Cleanup may run before the import resolves
+    let cancelled = false;
+
+    import('./src/notifications/expoNotificationDriver').then(({ addReminderResponseListener }) => {
+      if (cancelled) return;
+
+      unsubscribe = addReminderResponseListener(async (reminderId, action) => {
+        const { snoozeReminder, dismissReminder } = await import('./src/db/operations');
+        try {
+          if (action === 'snooze') {
+            await snoozeReminder(reminderId);
+          } else {
+            // Tapping the notification counts as seeing it
+            await dismissReminder(reminderId);
+          }
+        } catch (error) {
+          console.error('Failed to handle reminder action:', error);
+        }
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [appReady]);
+  
   // TICKET 17F: Check reduced motion preference + listen for changes
   useEffect(() => {
     AccessibilityInfo.isReduceMotionEnabled().then(enabled => {
@@ -156,6 +231,24 @@ function AppContent() {
     setTab('collections');
   }, []);
 
+  // Search result → open the entry in its collection
+  const handleOpenSearchResult = useCallback((result: SearchResult) => {
+    if (!result.collection_id) return;
+
+    setEntryToOpen({
+      collection_id: result.collection_id,
+      // Subtasks are shown inside their parent's row
+      entry_id: result.parent_task_id ?? result.entry_id,
+      entry_type: result.entry_type,
+      requested_at: Date.now(),
+    });
+    setTab('collections');
+  }, []);
+
+  const handleEntryOpened = useCallback(() => {
+    setEntryToOpen(null);
+  }, []);
+
   const renderScreen = () => {
     // Show loading until database is ready
     if (!appReady) {
@@ -192,12 +285,25 @@ function AppContent() {
           <CollectionsScreen 
             initialCollectionId={selectedCollectionId}
             onListIdChange={setSelectedCollectionId}
+            entryToOpen={entryToOpen}
+            onEntryOpened={handleEntryOpened}
             isActive={tab === 'collections'}
           />
         </View>
         
+        <View style={tab === 'calendar' ? styles.activeScreen : styles.hiddenScreen}>
+          <CalendarScreen isActive={tab === 'calendar'} />
+        </View>
+        
+        <View style={tab === 'search' ? styles.activeScreen : styles.hiddenScreen}>
+          <SearchScreen
+            onOpenResult={handleOpenSearchResult}
+            isActive={tab === 'search'}
+          />
+        </View>
+        
         <View style={tab === 'expenses' ? styles.activeScreen : styles.hiddenScreen}>
-          <ExpensesScreen />
+          <ExpensesScreen isActive={tab === 'expenses'} />
         </View>
         
         <View style={tab === 'settings' ? styles.activeScreen : styles.hiddenScreen}>
@@ -209,10 +315,14 @@ function AppContent() {
 
   return (
     <NotebookModeContext.Provider value={notebookMode}>
+      <UndoContext.Provider value={undo}>
       <SafeAreaView style={styles.safeArea} edges={['top', 'bottom']}>
         <View style={styles.container}>
           {/* Main content */}
-          <View style={styles.content}>{renderScreen()}</View>
+          <View style={styles.content}>
+            {renderScreen()}
+            <UndoSnackbar />
+          </View>
 
           {/* Bottom tab bar */}
           <View
@@ -221,7 +331,7 @@ function AppContent() {
               { paddingBottom: Math.max(insets.bottom, 8) },
             ]}
           >
-            {(['overview', 'tasks', 'collections', 'expenses', 'settings'] as Tab[]).map(
+            {(['overview', 'tasks', 'collections', 'calendar', 'search', 'expenses', 'settings'] as Tab[]).map(
               t => (
                 <TouchableOpacity
                   key={t}
@@ -240,6 +350,7 @@ function AppContent() {
           </View>
         </View>
       </SafeAreaView>
+      </UndoContext.Provider>
     </NotebookModeContext.Provider>
   );
 }
@@ -0,0 +1,139 @@
+/**
+ * Backup and export files (expo-file-system, expo-sharing, expo-document-picker)
+ *
+ * Exports (backups, Markdown, expense reports, .ics calendars, record
+ * values as CSV) are written to the cache directory and handed to the
+ * share sheet (save to Files / Drive, AirDrop, mail...). Imports read a file picked by the user
+ * (backups, CSV, .ics). Validation and the database side are elsewhere:
+ * utils/backup.ts (parseBackup), utils/currency.ts (parseRatesCsv),
+ * utils/ics.ts (parseIcs) and db/operations.ts (exportBackup /
+ * importBackup / importExchangeRates / importIcsTasks).
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { getBackupFileName } from '../utils/backup';
+import type { BackupDocument } from '../types/models';
+
+/**
+ * Write text to a file in the cache directory and open the share sheet
+ * @throws Error if sharing is not available on this device
+ */
+async function shareTextFile(
+  fileName: string,
+  content: string,
+  options: Sharing.SharingOptions
+): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(content);
+
+  await Sharing.shareAsync(file.uri, options);
+}
+
+/**
+ * Write a backup to a JSON file and open the share sheet
+ */
+export async function shareBackup(doc: BackupDocument): Promise<void> {
+  await shareTextFile(getBackupFileName(doc.exported_at), JSON.stringify(doc), {
+    mimeType: 'application/json',
+    UTI: 'public.json',
+    dialogTitle: 'Save Tetradio backup',
+  });
+}
+
+/**
+ * Write a Markdown export to a .md file and open the share sheet
+ */
+export async function shareMarkdown(fileName: string, markdown: string): Promise<void> {
+  await shareTextFile(fileName, markdown, {
+    mimeType: 'text/markdown',
+    UTI: 'net.daringfireball.markdown',
+    dialogTitle: 'Export notebook',
+  });
+}
+
+/**
+ * Write an expense report export (utils/reports.ts) and open the share sheet
+ * @param fileName - .csv or .json, as from getReportFileName
+ */
+export async function shareReport(fileName: string, content: string): Promise<void> {
+  const options: Sharing.SharingOptions = fileName.endsWith('.csv')
+    ? { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text', dialogTitle: 'Export report' }
+    : { mimeType: 'application/json', UTI: 'public.json', dialogTitle: 'Export report' };
+
+  await shareTextFile(fileName, content, options);
+}
+
+/**
+ * Write an .ics calendar (utils/ics.ts) and open the share sheet
+ */
+export async function shareIcs(fileName: string, content: string): Promise<void> {
+  await shareTextFile(fileName, content, {
+    mimeType: 'text/calendar',
+    UTI: 'com.apple.ical.ics',
+    dialogTitle: 'Export calendar',
+  });
+}
+
+/**
+ * Write a record's values as CSV (utils/records.ts) and open the share sheet
+ */
+export async function shareRecordCsv(fileName: string, content: string): Promise<void> {
+  await shareTextFile(fileName, content, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle: 'Export values',
+  });
+}
+
+/**
+ * Let the user pick a file and read it as text
+ * @returns The file's text, or null if the picker was cancelled
+ */
+async function pickTextFile(type: string[]): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type,
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  return new File(result.assets[0].uri).text();
+}
+
+/**
+ * Let the user pick a backup file
+ * @returns The file's text, or null if the picker was cancelled
+ */
+export async function pickBackupText(): Promise<string | null> {
+  return pickTextFile(['application/json', 'text/plain']);
+}
+
+/**
+ * Let the user pick a CSV file (exchange rates, bank statements)
+ * @returns The file's text, or null if the picker was cancelled
+ */
+export async function pickCsvText(): Promise<string | null> {
+  return pickTextFile([
+    'text/csv',
+    'text/comma-separated-values',
+    'application/vnd.ms-excel',
+    'text/plain',
+  ]);
+}
+
+/**
+ * Let the user pick an .ics calendar file
+ * @returns The file's text, or null if the picker was cancelled
+ */
+export async function pickIcsText(): Promise<string | null> {
+  return pickTextFile(['text/calendar', 'application/ics', 'text/plain']);
+}
@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import ModalShell from './ModalShell';
+import Chip from './Chip';
+import { DEFAULT_CURRENCY, EXPENSE_CURRENCIES, formatAmountInput, parseAmount } from '../utils/expenses';
+import type { BudgetCategory } from '../types/models';
+
+/**
+ * Create / edit payload
+ * '' for icon and parent_category_id and null for monthly_limit mean "none"
+ * (updateBudgetCategory clears them).
+ */
+export interface BudgetCategoryPayload {
+  name: string;
+  icon: string;
+  parent_category_id: string;
+  monthly_limit: number | null;
+  limit_currency: string;
+}
+
+interface BudgetCategoryModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (payload: BudgetCategoryPayload) => void;
+  // Active categories - top-level ones are offered as parents
+  categories: BudgetCategory[];
+  // Edit mode when set
+  category?: BudgetCategory | null;
+}
+
+export default function BudgetCategoryModal({
+  visible,
+  onClose,
+  onSubmit,
+  categories,
+  category,
+}: BudgetCategoryModalProps) {
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState('');
+  const [parentId, setParentId] = useState('');
+  const [limitText, setLimitText] = useState('');
+  const [limitCurrency, setLimitCurrency] = useState(DEFAULT_CURRENCY);
+
+  // Reset fields each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+
+    setName(category?.name ?? '');
+    setIcon(category?.icon ?? '');
+    setParentId(category?.parent_category_id ?? '');
+    setLimitText(category?.monthly_limit ? formatAmountInput(category.monthly_limit) : '');
+    setLimitCurrency(category?.limit_currency ?? DEFAULT_CURRENCY);
+  }, [visible, category]);
+
+  // Categories nest one level deep: a category with subcategories stays top-level
+  const hasChildren = !!category && categories.some(other => other.parent_category_id === category.id);
+  const parentOptions = categories.filter(
+    other => !other.parent_category_id && other.id !== category?.id
+  );
+
+  const limit = limitText.trim() ? parseAmount(limitText) : null;
+  const isDisabled = !name.trim() || (limitText.trim() !== '' && limit === null);
+
+  const handleSubmit = () => {
+    if (isDisabled) return;
+
+    onSubmit({
+      name: name.trim(),
+      icon: icon.trim(),
+      parent_category_id: parentId,
+      monthly_limit: limit,
+      limit_currency: limitCurrency,
+    });
+    onClose();
+  };
+
+  return (
+    <ModalShell
+      visible={visible}
+      onClose={onClose}
+      header={<Text style={styles.title}>{category ? 'Edit Category' : 'New Category'}</Text>}
+      footer={
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.buttonCancel]}
+            onPress={onClose}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.buttonCancelText}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.button,
+              styles.buttonSubmit,
+              isDisabled && styles.buttonDisabled,
+            ]}
+            onPress={handleSubmit}
+            activeOpacity={0.7}
+            disabled={isDisabled}
+          >
+            <Text style={styles.buttonSubmitText}>{category ? 'Save' : 'Create'}</Text>
+          </TouchableOpacity>
+        </View>
+      }
+    >
+      <View style={styles.body}>
+        <View style={styles.nameRow}>
+          <TextInput
+            style={[styles.input, styles.iconInput]}
+            placeholder="🏷️"
+            value={icon}
+            onChangeText={setIcon}
+            maxLength={4}
+          />
+          <TextInput
+            style={[styles.input, styles.nameInput]}
+            placeholder="Category name"
+            value={name}
+            onChangeText={setName}
+            autoFocus={!category}
+            returnKeyType="done"
+          />
+        </View>
+
+        {!hasChildren && parentOptions.length > 0 && (
+          <>
+            <Text style={styles.label}>Inside</Text>
+            <View style={styles.chipRow}>
+              <Chip label="Top level" selected={parentId === ''} onPress={() => setParentId('')} />
+              {parentOptions.map(parent => (
+                <Chip
+                  key={parent.id}
+                  label={parent.icon ? `${parent.icon} ${parent.name}` : parent.name}
+                  selected={parentId === parent.id}
+                  onPress={() => setParentId(parent.id)}
+                />
+              ))}
+            </View>
+          </>
+        )}
+
+        <Text style={styles.label}>Monthly limit</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="No limit"
+          value={limitText}
+          onChangeText={setLimitText}
+          keyboardType="decimal-pad"
+        />
+
+        <View style={styles.chipRow}>
+          {EXPENSE_CURRENCIES.map(code => (
+            <Chip
+              key={code}
+              label={code}
+              selected={limitCurrency === code}
+              onPress={() => setLimitCurrency(code)}
+            />
+          ))}
+        </View>
+      </View>
+    </ModalShell>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    color: '#1a1a1a',
+    marginTop: 8,
+  },
+
+  body: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+
+  nameRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    backgroundColor: '#fff',
+  },
+
+  iconInput: {
+    width: 56,
+    textAlign: 'center',
+  },
+
+  nameInput: {
+    flex: 1,
+  },
+
+  label: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+
+  buttonCancel: {
+    backgroundColor: '#f3f4f6',
+  },
+
+  buttonCancelText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonSubmit: {
+    backgroundColor: '#3b82f6',
+  },
+
+  buttonSubmitText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,260 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import ModalShell from './ModalShell';
+import Chip from './Chip';
+import { PAYMENT_METHODS, formatAmountInput, parseAmount } from '../utils/expenses';
+import { hasRuleAction, hasRuleCondition } from '../utils/rules';
+import type { BudgetCategory, CategoryRule, CreateCategoryRule } from '../types/models';
+
+interface CategoryRuleModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (rule: CreateCategoryRule) => void;
+  // Active categories to pick from
+  categories: BudgetCategory[];
+  // Edit mode when set
+  rule?: CategoryRule | null;
+}
+
+export default function CategoryRuleModal({
+  visible,
+  onClose,
+  onSubmit,
+  categories,
+  rule,
+}: CategoryRuleModalProps) {
+  const [merchant, setMerchant] = useState('');
+  const [minText, setMinText] = useState('');
+  const [maxText, setMaxText] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState('');
+
+  // Reset fields each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+
+    setMerchant(rule?.merchant_contains ?? '');
+    setMinText(rule?.min_amount !== undefined ? formatAmountInput(rule.min_amount) : '');
+    setMaxText(rule?.max_amount !== undefined ? formatAmountInput(rule.max_amount) : '');
+    setCategoryId(rule?.category_id ?? '');
+    setPaymentMethod(rule?.payment_method ?? '');
+  }, [visible, rule]);
+
+  const minAmount = minText.trim() ? parseAmount(minText) : undefined;
+  const maxAmount = maxText.trim() ? parseAmount(maxText) : undefined;
+
+  const payload: CreateCategoryRule = {
+    merchant_contains: merchant.trim() || undefined,
+    min_amount: minAmount ?? undefined,
+    max_amount: maxAmount ?? undefined,
+    category_id: categoryId || undefined,
+    payment_method: paymentMethod || undefined,
+  };
+
+  const isDisabled =
+    minAmount === null ||
+    maxAmount === null ||
+    !hasRuleCondition(payload) ||
+    !hasRuleAction(payload) ||
+    (payload.min_amount !== undefined &&
+      payload.max_amount !== undefined &&
+      payload.min_amount > payload.max_amount);
+
+  const handleSubmit = () => {
+    if (isDisabled) return;
+
+    onSubmit(payload);
+    onClose();
+  };
+
+  return (
+    <ModalShell
+      visible={visible}
+      onClose={onClose}
+      header={<Text style={styles.title}>{rule ? 'Edit Rule' : 'New Rule'}</Text>}
+      footer={
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.buttonCancel]}
+            onPress={onClose}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.buttonCancelText}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.button,
+              styles.buttonSubmit,
+              isDisabled && styles.buttonDisabled,
+            ]}
+            onPress={handleSubmit}
+            activeOpacity={0.7}
+            disabled={isDisabled}
+          >
+            <Text style={styles.buttonSubmitText}>{rule ? 'Save' : 'Create'}</Text>
+          </TouchableOpacity>
+        </View>
+      }
+    >
+      <View style={styles.body}>
+        <Text style={styles.sectionLabel}>WHEN</Text>
+
+        <Text style={styles.label}>Merchant contains</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Any merchant"
+          value={merchant}
+          onChangeText={setMerchant}
+          autoCapitalize="none"
+          autoFocus={!rule}
+        />
+
+        <Text style={styles.label}>Amount</Text>
+        <View style={styles.amountRow}>
+          <TextInput
+            style={[styles.input, styles.amountInput]}
+            placeholder="From"
+            value={minText}
+            onChangeText={setMinText}
+            keyboardType="decimal-pad"
+          />
+          <TextInput
+            style={[styles.input, styles.amountInput]}
+            placeholder="To"
+            value={maxText}
+            onChangeText={setMaxText}
+            keyboardType="decimal-pad"
+          />
+        </View>
+
+        <Text style={styles.sectionLabel}>THEN SET</Text>
+
+        <Text style={styles.label}>Category</Text>
+        <View style={styles.chipRow}>
+          <Chip label="Keep empty" selected={categoryId === ''} onPress={() => setCategoryId('')} />
+          {categories.map(category => (
+            <Chip
+              key={category.id}
+              label={category.icon ? `${category.icon} ${category.name}` : category.name}
+              selected={categoryId === category.id}
+              onPress={() => setCategoryId(category.id)}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.label}>Payment method</Text>
+        <View style={styles.chipRow}>
+          <Chip label="Keep empty" selected={paymentMethod === ''} onPress={() => setPaymentMethod('')} />
+          {PAYMENT_METHODS.map(method => (
+            <Chip
+              key={method.value}
+              label={method.label}
+              selected={paymentMethod === method.value}
+              onPress={() => setPaymentMethod(method.value)}
+            />
+          ))}
+        </View>
+      </View>
+    </ModalShell>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    color: '#1a1a1a',
+    marginTop: 8,
+  },
+
+  body: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#9ca3af',
+    letterSpacing: 0.5,
+    marginBottom: 12,
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    backgroundColor: '#fff',
+  },
+
+  amountRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+
+  amountInput: {
+    flex: 1,
+  },
+
+  label: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+
+  buttonCancel: {
+    backgroundColor: '#f3f4f6',
+  },
+
+  buttonCancelText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonSubmit: {
+    backgroundColor: '#3b82f6',
+  },
+
+  buttonSubmitText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
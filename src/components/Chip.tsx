@@ -0,0 +1,51 @@
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet } from 'react-native';
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  onLongPress?: () => void;
+}
+
+/**
+ * Selectable option in a wrapping row of choices (currency, category...)
+ * Same look as the PrioritySelector buttons.
+ */
+export default function Chip({ label, selected, onPress, onLongPress }: ChipProps) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.chipActive]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+  },
+
+  chipActive: {
+    backgroundColor: '#3b82f6',
+  },
+
+  chipText: {
+    fontSize: 14,
+    color: '#6b7280',
+    fontWeight: '600',
+  },
+
+  chipTextActive: {
+    color: '#fff',
+  },
+});
@@ -12,6 +12,9 @@ import PrioritySelector, { Priority } from './PrioritySelector';
 import ChecklistItemsEditor from './ChecklistItemsEditor';
 import CollectionSelector from './CollectionSelector';
 import DatePickerButton from './DatePickerButton';
+import RepeatSelector from './RepeatSelector';
+import ReminderButton from './ReminderButton';
+import TagEditor from './TagEditor';
 import type { Collection } from '../types/models';
 
 // ✅ Extensible Entry Type Configuration
@@ -21,6 +24,7 @@ interface EntryTypeConfig {
   hasPriority: boolean;
   hasBody: boolean;
   hasChecklist: boolean;
+  hasUnit: boolean;
 }
 
 const ENTRY_TYPE_CONFIG: Record<EntryType, EntryTypeConfig> = {
@@ -30,6 +34,7 @@ const ENTRY_TYPE_CONFIG: Record<EntryType, EntryTypeConfig> = {
     hasPriority: true,
     hasBody: false,
     hasChecklist: false,
+    hasUnit: false,
   },
   [EntryType.NOTE]: {
     titlePlaceholder: 'Note title',
@@ -37,6 +42,7 @@ const ENTRY_TYPE_CONFIG: Record<EntryType, EntryTypeConfig> = {
     hasPriority: false,
     hasBody: true,
     hasChecklist: false,
+    hasUnit: false,
   },
   [EntryType.CHECKLIST]: {
     titlePlaceholder: 'Checklist title',
@@ -44,6 +50,15 @@ const ENTRY_TYPE_CONFIG: Record<EntryType, EntryTypeConfig> = {
     hasPriority: false,
     hasBody: false,
     hasChecklist: true,
+    hasUnit: false,
+  },
+  [EntryType.RECORD]: {
+    titlePlaceholder: 'Record name (e.g. Weight)',
+    hasDatePicker: false,
+    hasPriority: false,
+    hasBody: false,
+    hasChecklist: false,
+    hasUnit: true,
   },
 };
 
@@ -53,9 +68,13 @@ export interface CreateEntryPayload {
   title: string;
   collectionId?: string | null;
   dueDate?: number | null;
+  repeatRule?: string;
+  reminderTime?: number;
   priority?: Priority;
   checklistItems?: string[];
   noteBody?: string;
+  recordUnit?: string;
+  tags?: string[];  // Tag names (all types); inline #tags in the title are parsed on save
 }
 
 interface CreateEntryModalProps {
@@ -88,9 +107,12 @@ export default function CreateEntryModal({
   
   // Common fields
   const [title, setTitle] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
   
   // Task-specific fields
   const [dueDate, setDueDate] = useState<number | undefined>(undefined);
+  const [repeatRule, setRepeatRule] = useState<string | undefined>(undefined);
+  const [reminderTime, setReminderTime] = useState<number | undefined>(undefined);
   const [priority, setPriority] = useState<Priority>(Priority.NORMAL);
   
   // Note-specific fields
@@ -98,6 +120,9 @@ export default function CreateEntryModal({
   
   // Checklist-specific fields
   const [checklistItems, setChecklistItems] = useState<string[]>(['', '', '']);
+  
+  // Record-specific fields
+  const [recordUnit, setRecordUnit] = useState('');
 
   // Get current type config
   const config = ENTRY_TYPE_CONFIG[entryType];
@@ -108,6 +133,8 @@ export default function CreateEntryModal({
     // Reset incompatible fields
     if (!config.hasDatePicker) {
       setDueDate(undefined);
+      setRepeatRule(undefined);
+      setReminderTime(undefined);
     }
     if (!config.hasPriority) {
       setPriority(Priority.NORMAL);
@@ -118,16 +145,23 @@ export default function CreateEntryModal({
     if (!config.hasChecklist) {
       setChecklistItems(['', '', '']);
     }
+    if (!config.hasUnit) {
+      setRecordUnit('');
+    }
   }, [entryType]);
 
   // Reset form on close
   const handleClose = () => {
     setEntryType(EntryType.TASK);
     setTitle('');
+    setTags([]);
     setDueDate(undefined);
+    setRepeatRule(undefined);
+    setReminderTime(undefined);
     setPriority(Priority.NORMAL);
     setNoteBody('');
     setChecklistItems(['', '', '']);
+    setRecordUnit('');
     onClose();
   };
 
@@ -153,6 +187,10 @@ export default function CreateEntryModal({
       title: title.trim(),
     };
 
+    if (tags.length > 0) {
+      payload.tags = tags;
+    }
+
     // Add collection ID
     if (fixedCollectionId) {
       payload.collectionId = fixedCollectionId;
@@ -163,6 +201,14 @@ export default function CreateEntryModal({
     // Add type-specific fields
     if (config.hasDatePicker && dueDate) {
       payload.dueDate = dueDate;
+
+      // Repeats and reminders are anchored to the due date
+      if (repeatRule) {
+        payload.repeatRule = repeatRule;
+      }
+      if (reminderTime) {
+        payload.reminderTime = reminderTime;
+      }
     }
     
     if (config.hasPriority) {
@@ -178,6 +224,10 @@ export default function CreateEntryModal({
       payload.checklistItems = validItems;
     }
 
+    if (config.hasUnit && recordUnit.trim()) {
+      payload.recordUnit = recordUnit.trim();
+    }
+
     onSubmit(payload);
     handleClose();
   };
@@ -249,7 +299,30 @@ export default function CreateEntryModal({
         {config.hasDatePicker && (
           <DatePickerButton
             value={dueDate}
-            onChange={(timestamp) => setDueDate(timestamp ?? undefined)}
+            onChange={(timestamp) => {
+              setDueDate(timestamp ?? undefined);
+              // Reminder presets are relative to the due date - pick again
+              setReminderTime(undefined);
+              if (!timestamp) {
+                setRepeatRule(undefined);
+              }
+            }}
+          />
+        )}
+
+        {config.hasDatePicker && dueDate && (
+          <ReminderButton
+            value={reminderTime}
+            dueDate={dueDate}
+            onChange={(timestamp) => setReminderTime(timestamp ?? undefined)}
+          />
+        )}
+
+        {config.hasDatePicker && dueDate && (
+          <RepeatSelector
+            value={repeatRule}
+            dueDate={dueDate}
+            onChange={setRepeatRule}
           />
         )}
 
@@ -278,6 +351,21 @@ export default function CreateEntryModal({
             onItemsChange={setChecklistItems}
           />
         )}
+
+        {config.hasUnit && (
+          <TextInput
+            style={styles.input}
+            placeholder="Unit (optional, e.g. kg, km)"
+            value={recordUnit}
+            onChangeText={setRecordUnit}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="done"
+            onSubmitEditing={handleSubmit}
+          />
+        )}
+
+        <TagEditor value={tags} onChange={setTags} />
       </View>
     </ModalShell>
   );
@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import ModalShell from './ModalShell';
+import TagEditor from './TagEditor';
+
+interface EditTagsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSave: (names: string[]) => void;
+  initialTags: string[];
+  entryTitle?: string;
+}
+
+/**
+ * Edit the tags of an existing entry ("Edit Tags" action)
+ * Saving replaces the entry's tags with the edited list.
+ */
+export default function EditTagsModal({
+  visible,
+  onClose,
+  onSave,
+  initialTags,
+  entryTitle,
+}: EditTagsModalProps) {
+  const [tags, setTags] = useState<string[]>(initialTags);
+
+  // Start from the entry's current tags each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setTags(initialTags);
+    }
+  }, [visible]);
+
+  return (
+    <ModalShell
+      visible={visible}
+      onClose={onClose}
+      header={
+        <View>
+          <Text style={styles.title}>Edit Tags</Text>
+          {entryTitle && (
+            <Text style={styles.subtitle} numberOfLines={1}>{entryTitle}</Text>
+          )}
+        </View>
+      }
+      footer={
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.buttonCancel]}
+            onPress={onClose}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.buttonCancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, styles.buttonSubmit]}
+            onPress={() => {
+              onSave(tags);
+              onClose();
+            }}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.buttonSubmitText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      }
+    >
+      <View style={styles.body}>
+        <TagEditor value={tags} onChange={setTags} />
+      </View>
+    </ModalShell>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    color: '#1a1a1a',
+  },
+
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+
+  body: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+
+  buttonCancel: {
+    backgroundColor: '#f3f4f6',
+  },
+
+  buttonCancelText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonSubmit: {
+    backgroundColor: '#3b82f6',
+  },
+
+  buttonSubmitText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import ModalShell from './ModalShell';
+import Chip from './Chip';
+import { EXPENSE_CURRENCIES, formatExpenseDay, startOfDay } from '../utils/expenses';
+import type { ExchangeRateInput } from '../utils/currency';
+
+interface ExchangeRateModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (rate: ExchangeRateInput) => void;
+  // Preselected "to" currency (the base currency)
+  baseCurrency: string;
+}
+
+export default function ExchangeRateModal({
+  visible,
+  onClose,
+  onSubmit,
+  baseCurrency,
+}: ExchangeRateModalProps) {
+  const [fromCurrency, setFromCurrency] = useState('');
+  const [toCurrency, setToCurrency] = useState(baseCurrency);
+  const [rateText, setRateText] = useState('');
+  const [date, setDate] = useState(() => startOfDay(Date.now()));
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  // Reset fields each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+
+    setFromCurrency(EXPENSE_CURRENCIES.find(code => code !== baseCurrency) ?? '');
+    setToCurrency(baseCurrency);
+    setRateText('');
+    setDate(startOfDay(Date.now()));
+    setShowDatePicker(false);
+  }, [visible, baseCurrency]);
+
+  // Rates have more precision than amounts - not rounded to cents like parseAmount
+  const rateValue = Number(rateText.trim().replace(',', '.'));
+  const rate = Number.isFinite(rateValue) && rateValue > 0 ? rateValue : null;
+  const isDisabled = rate === null || !fromCurrency || fromCurrency === toCurrency;
+
+  const currencies = EXPENSE_CURRENCIES.includes(baseCurrency)
+    ? EXPENSE_CURRENCIES
+    : [...EXPENSE_CURRENCIES, baseCurrency];
+
+  const handleDateChange = (_: any, selected?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowDatePicker(false);
+    }
+
+    if (selected) {
+      setDate(startOfDay(selected.getTime()));
+    }
+  };
+
+  const handleSubmit = () => {
+    if (isDisabled || rate === null) return;
+
+    onSubmit({
+      from_currency: fromCurrency,
+      to_currency: toCurrency,
+      rate,
+      effective_date: date,
+    });
+    onClose();
+  };
+
+  return (
+    <ModalShell
+      visible={visible}
+      onClose={onClose}
+      header={<Text style={styles.title}>Add Exchange Rate</Text>}
+      footer={
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.buttonCancel]}
+            onPress={onClose}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.buttonCancelText}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.button,
+              styles.buttonSubmit,
+              isDisabled && styles.buttonDisabled,
+            ]}
+            onPress={handleSubmit}
+            activeOpacity={0.7}
+            disabled={isDisabled}
+          >
+            <Text style={styles.buttonSubmitText}>Add</Text>
+          </TouchableOpacity>
+        </View>
+      }
+    >
+      <View style={styles.body}>
+        <Text style={styles.label}>1 unit of</Text>
+        <View style={styles.chipRow}>
+          {currencies.map(code => (
+            <Chip
+              key={code}
+              label={code}
+              selected={fromCurrency === code}
+              onPress={() => setFromCurrency(code)}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.label}>is worth</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="1.0000"
+          value={rateText}
+          onChangeText={setRateText}
+          keyboardType="decimal-pad"
+        />
+
+        <View style={styles.chipRow}>
+          {currencies.map(code => (
+            <Chip
+              key={code}
+              label={code}
+              selected={toCurrency === code}
+              onPress={() => setToCurrency(code)}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.label}>From</Text>
+        <View style={styles.chipRow}>
+          <Chip
+            label={formatExpenseDay(date)}
+            selected
+            onPress={() => setShowDatePicker(true)}
+          />
+        </View>
+
+        {showDatePicker && (
+          <DateTimePicker
+            value={new Date(date)}
+            mode="date"
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={handleDateChange}
+          />
+        )}
+      </View>
+    </ModalShell>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    color: '#1a1a1a',
+    marginTop: 8,
+  },
+
+  body: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    backgroundColor: '#fff',
+  },
+
+  label: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+
+  buttonCancel: {
+    backgroundColor: '#f3f4f6',
+  },
+
+  buttonCancelText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonSubmit: {
+    backgroundColor: '#3b82f6',
+  },
+
+  buttonSubmitText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,487 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+  Image,
+  Alert,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import ModalShell from './ModalShell';
+import Chip from './Chip';
+import {
+  DEFAULT_CURRENCY,
+  EXPENSE_CURRENCIES,
+  PAYMENT_METHODS,
+  formatAmountInput,
+  formatExpenseDay,
+  parseAmount,
+  startOfDay,
+} from '../utils/expenses';
+import { isPdfReceipt } from '../utils/receipts';
+import { PickedReceipt, pickReceiptFile, getReceiptUri, openReceipt } from '../receipts/storage';
+import type { BudgetCategory, Expense } from '../types/models';
+
+/**
+ * Create / edit payload
+ * Optional fields are '' when empty so an edit can clear them
+ * (createExpense and updateExpense store '' as NULL).
+ * receipt: a newly picked file, null to remove the receipt, undefined to keep it
+ */
+export interface ExpensePayload {
+  amount: number;
+  currency: string;
+  transaction_date: number;
+  merchant_name: string;
+  payment_method: string;
+  category_id: string;
+  note: string;
+  receipt?: PickedReceipt | null;
+}
+
+interface ExpenseModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (payload: ExpensePayload) => void;
+  categories: BudgetCategory[];
+  // Edit mode when set
+  expense?: Expense | null;
+  onDelete?: () => void;
+  // Currency of a new expense (usually the last one used)
+  defaultCurrency?: string;
+}
+
+export default function ExpenseModal({
+  visible,
+  onClose,
+  onSubmit,
+  categories,
+  expense,
+  onDelete,
+  defaultCurrency = DEFAULT_CURRENCY,
+}: ExpenseModalProps) {
+  const [amountText, setAmountText] = useState('');
+  const [currency, setCurrency] = useState(defaultCurrency);
+  const [date, setDate] = useState(() => startOfDay(Date.now()));
+  const [merchant, setMerchant] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [note, setNote] = useState('');
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [pickedReceipt, setPickedReceipt] = useState<PickedReceipt | null>(null);
+  const [receiptRemoved, setReceiptRemoved] = useState(false);
+
+  // Reset fields each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+
+    setAmountText(expense ? formatAmountInput(expense.amount) : '');
+    setCurrency(expense?.currency ?? defaultCurrency);
+    setDate(startOfDay(expense?.transaction_date ?? Date.now()));
+    setMerchant(expense?.merchant_name ?? '');
+    setPaymentMethod(expense?.payment_method ?? '');
+    setCategoryId(expense?.category_id ?? '');
+    setNote(expense?.note ?? '');
+    setShowDatePicker(false);
+    setPickedReceipt(null);
+    setReceiptRemoved(false);
+  }, [visible, expense, defaultCurrency]);
+
+  // The stored receipt, unless it was removed or replaced in this edit
+  const storedReceipt = !receiptRemoved && !pickedReceipt ? expense?.receipt_photo_path : undefined;
+  const hasReceipt = !!pickedReceipt || !!storedReceipt;
+  const receiptIsPdf = pickedReceipt
+    ? pickedReceipt.mimeType === 'application/pdf' || isPdfReceipt(pickedReceipt.name)
+    : !!storedReceipt && isPdfReceipt(storedReceipt);
+
+  const amount = parseAmount(amountText);
+  const today = startOfDay(Date.now());
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+  const isOtherDay = date !== today && date !== yesterday.getTime();
+
+  // Keep a currency that isn't in the list (e.g. from a backup) selectable
+  const currencies = EXPENSE_CURRENCIES.includes(currency)
+    ? EXPENSE_CURRENCIES
+    : [...EXPENSE_CURRENCIES, currency];
+
+  const handleDateChange = (_: any, selected?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowDatePicker(false);
+    }
+
+    if (selected) {
+      setDate(startOfDay(selected.getTime()));
+    }
+  };
+
+  const handlePickReceipt = async () => {
+    try {
+      const picked = await pickReceiptFile();
+      if (picked) {
+        setPickedReceipt(picked);
+      }
+    } catch (error) {
+      console.error('Failed to pick receipt:', error);
+      Alert.alert('Error', 'Unable to attach the file. Please try again.');
+    }
+  };
+
+  const handleRemoveReceipt = () => {
+    setPickedReceipt(null);
+    setReceiptRemoved(true);
+  };
+
+  const handleOpenReceipt = async () => {
+    if (!storedReceipt) return;
+
+    try {
+      await openReceipt(storedReceipt);
+    } catch (error) {
+      console.error('Failed to open receipt:', error);
+      Alert.alert('Error', 'Unable to open the receipt.');
+    }
+  };
+
+  const handleSubmit = () => {
+    if (amount === null) return;
+
+    onSubmit({
+      amount,
+      currency,
+      transaction_date: date,
+      merchant_name: merchant.trim(),
+      payment_method: paymentMethod,
+      category_id: categoryId,
+      note: note.trim(),
+      receipt: pickedReceipt ?? (receiptRemoved && expense?.receipt_photo_path ? null : undefined),
+    });
+    onClose();
+  };
+
+  const isDisabled = amount === null;
+
+  return (
+    <ModalShell
+      visible={visible}
+      onClose={onClose}
+      header={<Text style={styles.title}>{expense ? 'Edit Expense' : 'New Expense'}</Text>}
+      footer={
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.buttonCancel]}
+            onPress={onClose}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.buttonCancelText}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.button,
+              styles.buttonSubmit,
+              isDisabled && styles.buttonDisabled,
+            ]}
+            onPress={handleSubmit}
+            activeOpacity={0.7}
+            disabled={isDisabled}
+          >
+            <Text style={styles.buttonSubmitText}>{expense ? 'Save' : 'Add'}</Text>
+          </TouchableOpacity>
+        </View>
+      }
+    >
+      <View style={styles.body}>
+        <TextInput
+          style={[styles.input, styles.amountInput]}
+          placeholder="0.00"
+          value={amountText}
+          onChangeText={setAmountText}
+          keyboardType="decimal-pad"
+          autoFocus={!expense}
+        />
+
+        <Text style={styles.label}>Currency</Text>
+        <View style={styles.chipRow}>
+          {currencies.map(code => (
+            <Chip
+              key={code}
+              label={code}
+              selected={currency === code}
+              onPress={() => setCurrency(code)}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.label}>Date</Text>
+        <View style={styles.chipRow}>
+          <Chip label="Today" selected={date === today} onPress={() => setDate(today)} />
+          <Chip
+            label="Yesterday"
+            selected={date === yesterday.getTime()}
+            onPress={() => setDate(yesterday.getTime())}
+          />
+          <Chip
+            label={isOtherDay ? formatExpenseDay(date) : 'Other…'}
+            selected={isOtherDay}
+            onPress={() => setShowDatePicker(true)}
+          />
+        </View>
+
+        {showDatePicker && (
+          <DateTimePicker
+            value={new Date(date)}
+            mode="date"
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={handleDateChange}
+            maximumDate={new Date()}
+          />
+        )}
+
+        <TextInput
+          style={styles.input}
+          placeholder="Merchant (optional)"
+          value={merchant}
+          onChangeText={setMerchant}
+          returnKeyType="done"
+        />
+
+        <Text style={styles.label}>Payment method</Text>
+        <View style={styles.chipRow}>
+          {PAYMENT_METHODS.map(method => (
+            <Chip
+              key={method.value}
+              label={method.label}
+              selected={paymentMethod === method.value}
+              // Tapping the selected method clears it
+              onPress={() => setPaymentMethod(paymentMethod === method.value ? '' : method.value)}
+            />
+          ))}
+        </View>
+
+        {categories.length > 0 && (
+          <>
+            <Text style={styles.label}>Category</Text>
+            <View style={styles.chipRow}>
+              <Chip label="None" selected={categoryId === ''} onPress={() => setCategoryId('')} />
+              {categories.map(category => (
+                <Chip
+                  key={category.id}
+                  label={category.icon ? `${category.icon} ${category.name}` : category.name}
+                  selected={categoryId === category.id}
+                  onPress={() => setCategoryId(category.id)}
+                />
+              ))}
+            </View>
+          </>
+        )}
+
+        <TextInput
+          style={[styles.input, styles.noteInput]}
+          placeholder="Note (optional)"
+          value={note}
+          onChangeText={setNote}
+          multiline
+          textAlignVertical="top"
+        />
+
+        <Text style={styles.label}>Receipt</Text>
+        {hasReceipt ? (
+          <View style={styles.receiptRow}>
+            <TouchableOpacity
+              onPress={handleOpenReceipt}
+              disabled={!storedReceipt}
+              activeOpacity={0.7}
+              accessibilityLabel="Open receipt"
+            >
+              {receiptIsPdf ? (
+                <View style={[styles.receiptThumbnail, styles.receiptPdf]}>
+                  <Text style={styles.receiptPdfText}>PDF</Text>
+                </View>
+              ) : (
+                <Image
+                  source={{ uri: pickedReceipt ? pickedReceipt.uri : getReceiptUri(storedReceipt!) }}
+                  style={styles.receiptThumbnail}
+                />
+              )}
+            </TouchableOpacity>
+
+            <View style={styles.receiptActions}>
+              <TouchableOpacity onPress={handlePickReceipt} activeOpacity={0.7}>
+                <Text style={styles.receiptActionText}>Replace</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleRemoveReceipt} activeOpacity={0.7}>
+                <Text style={[styles.receiptActionText, styles.receiptRemoveText]}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.attachButton} onPress={handlePickReceipt} activeOpacity={0.7}>
+            <Text style={styles.attachButtonText}>Attach Photo or PDF</Text>
+          </TouchableOpacity>
+        )}
+
+        {expense && onDelete && (
+          <TouchableOpacity style={styles.deleteButton} onPress={onDelete} activeOpacity={0.7}>
+            <Text style={styles.deleteButtonText}>Delete Expense</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ModalShell>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    color: '#1a1a1a',
+    marginTop: 8,
+  },
+
+  body: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    backgroundColor: '#fff',
+  },
+
+  amountInput: {
+    fontSize: 24,
+    fontWeight: '600',
+  },
+
+  noteInput: {
+    minHeight: 72,
+  },
+
+  label: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+
+  receiptRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginBottom: 16,
+  },
+
+  receiptThumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+  },
+
+  receiptPdf: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  receiptPdfText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#6b7280',
+  },
+
+  receiptActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+
+  receiptActionText: {
+    fontSize: 14,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+
+  receiptRemoveText: {
+    color: '#ef4444',
+  },
+
+  attachButton: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+
+  attachButtonText: {
+    fontSize: 14,
+    color: '#6b7280',
+    fontWeight: '600',
+  },
+
+  deleteButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+
+  deleteButtonText: {
+    fontSize: 14,
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+
+  buttonCancel: {
+    backgroundColor: '#f3f4f6',
+  },
+
+  buttonCancelText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonSubmit: {
+    backgroundColor: '#3b82f6',
+  },
+
+  buttonSubmitText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import ModalShell from './ModalShell';
+import Chip from './Chip';
+import type { Collection } from '../types/models';
+
+interface IcsImportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (collectionId: string) => void;
+  // Active collections to import into
+  collections: Collection[];
+  // Items read from the file, and items parseIcs left out
+  itemCount: number;
+  skipped: number;
+}
+
+export default function IcsImportModal({
+  visible,
+  onClose,
+  onSubmit,
+  collections,
+  itemCount,
+  skipped,
+}: IcsImportModalProps) {
+  const [collectionId, setCollectionId] = useState('');
+
+  // Preselect Unsorted each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setCollectionId(collections.find(collection => collection.is_system)?.id ?? '');
+  }, [visible, collections]);
+
+  const isDisabled = !collectionId;
+
+  const handleSubmit = () => {
+    if (isDisabled) return;
+
+    onSubmit(collectionId);
+    onClose();
+  };
+
+  return (
+    <ModalShell
+      visible={visible}
+      onClose={onClose}
+      header={<Text style={styles.title}>Import Calendar</Text>}
+      footer={
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.buttonCancel]}
+            onPress={onClose}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.buttonCancelText}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.button,
+              styles.buttonSubmit,
+              isDisabled && styles.buttonDisabled,
+            ]}
+            onPress={handleSubmit}
+            activeOpacity={0.7}
+            disabled={isDisabled}
+          >
+            <Text style={styles.buttonSubmitText}>Import</Text>
+          </TouchableOpacity>
+        </View>
+      }
+    >
+      <View style={styles.body}>
+        <Text style={styles.summary}>
+          {itemCount} {itemCount === 1 ? 'item' : 'items'} in this file
+          {skipped > 0 ? `, ${skipped} left out (cancelled, untitled or repeated in the file)` : ''}.
+          Items imported before are skipped.
+        </Text>
+
+        <Text style={styles.label}>Add to collection</Text>
+        <View style={styles.chipRow}>
+          {collections.map(collection => (
+            <Chip
+              key={collection.id}
+              label={collection.icon ? `${collection.icon} ${collection.name}` : collection.name}
+              selected={collectionId === collection.id}
+              onPress={() => setCollectionId(collection.id)}
+            />
+          ))}
+        </View>
+      </View>
+    </ModalShell>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    color: '#1a1a1a',
+    marginTop: 8,
+  },
+
+  body: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+
+  summary: {
+    fontSize: 15,
+    color: '#1a1a1a',
+    marginBottom: 16,
+  },
+
+  label: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+
+  buttonCancel: {
+    backgroundColor: '#f3f4f6',
+  },
+
+  buttonCancelText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonSubmit: {
+    backgroundColor: '#3b82f6',
+  },
+
+  buttonSubmitText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
@@ -1,5 +1,6 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import TagChips from './TagChips';
 import type { Note } from '../types/models';
 
 interface NoteCardProps {
@@ -17,6 +18,7 @@ interface NoteCardProps {
  * - No due date (notes are not schedulable)
  * - Text-focused design
  * - Visual distinction from tasks (icon)
+ * - Tags below the body
  */
 export default function NoteCard({ note, onPress, onLongPress }: NoteCardProps) {
   return (
@@ -40,6 +42,7 @@ export default function NoteCard({ note, onPress, onLongPress }: NoteCardProps)
             {note.notes}
           </Text>
         )}
+        <TagChips tags={note.tags} />
       </View>
     </TouchableOpacity>
   );
@@ -10,11 +10,12 @@ import {
   ScrollView,
   Alert,
 } from 'react-native';
+import TagEditor from './TagEditor';
 import type { Note } from '../types/models';
 
 interface NoteEditorProps {
   note: Note;
-  onSave: (title: string, body: string) => Promise<void>;
+  onSave: (title: string, body: string, tags: string[]) => Promise<void>;
   onCancel: () => void;
 }
 
@@ -23,13 +24,14 @@ interface NoteEditorProps {
  * 
  * Features:
  * - Read full note content (unlimited scrolling)
- * - Edit title and body
+ * - Edit title, body and tags
  * - Save/Cancel buttons
  * - Keyboard-aware layout
  */
 export default function NoteEditor({ note, onSave, onCancel }: NoteEditorProps) {
   const [title, setTitle] = useState(note.title);
   const [body, setBody] = useState(note.notes || '');
+  const [tags, setTags] = useState<string[]>((note.tags ?? []).map(tag => tag.name));
   const [saving, setSaving] = useState(false);
   
   const bodyInputRef = useRef<TextInput>(null);
@@ -44,7 +46,7 @@ export default function NoteEditor({ note, onSave, onCancel }: NoteEditorProps)
 
     try {
       setSaving(true);
-      await onSave(trimmedTitle, body.trim());
+      await onSave(trimmedTitle, body.trim(), tags);
     } catch (error) {
       console.error('Failed to save note:', error);
       Alert.alert('Error', 'Unable to save note. Please try again.');
@@ -95,6 +97,9 @@ export default function NoteEditor({ note, onSave, onCancel }: NoteEditorProps)
             onSubmitEditing={() => bodyInputRef.current?.focus()}
           />
 
+          <Text style={styles.label}>Tags</Text>
+          <TagEditor value={tags} onChange={setTags} />
+
           <Text style={styles.label}>Content</Text>
           <TextInput
             ref={bodyInputRef}
@@ -170,7 +175,7 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     padding: 12,
     fontSize: 16,
-    marginBottom: 24,
+    marginBottom: 16,
     minHeight: 48,
   },
   bodyInput: {
@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import ModalShell from './ModalShell';
+import Chip from './Chip';
+import { formatExpenseDay, startOfDay } from '../utils/expenses';
+import { addDays, moveToDay } from '../utils/calendar';
+import { formatRecordInput, parseRecordValue } from '../utils/records';
+import type { RecordValue } from '../types/models';
+
+/**
+ * Create / edit payload
+ * note is '' when empty so an edit can clear it
+ */
+export interface RecordValuePayload {
+  value: number;
+  recorded_at: number;
+  note: string;
+}
+
+interface RecordValueModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (payload: RecordValuePayload) => void;
+  unit?: string;
+  // Edit mode when set
+  recordValue?: RecordValue | null;
+  onDelete?: () => void;
+}
+
+export default function RecordValueModal({
+  visible,
+  onClose,
+  onSubmit,
+  unit,
+  recordValue,
+  onDelete,
+}: RecordValueModalProps) {
+  const [valueText, setValueText] = useState('');
+  const [recordedAt, setRecordedAt] = useState(() => Date.now());
+  const [note, setNote] = useState('');
+  const [picker, setPicker] = useState<'date' | 'time' | null>(null);
+
+  // Reset fields each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+
+    setValueText(recordValue ? formatRecordInput(recordValue.value) : '');
+    setRecordedAt(recordValue?.recorded_at ?? Date.now());
+    setNote(recordValue?.note ?? '');
+    setPicker(null);
+  }, [visible, recordValue]);
+
+  const value = parseRecordValue(valueText);
+  const day = startOfDay(recordedAt);
+  const today = startOfDay(Date.now());
+  const yesterday = addDays(today, -1);
+  const isOtherDay = day !== today && day !== yesterday;
+  const time = new Date(recordedAt).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+
+  const handlePickerChange = (_: any, selected?: Date) => {
+    const mode = picker;
+    if (Platform.OS === 'android') {
+      setPicker(null);
+    }
+
+    if (!selected) return;
+
+    if (mode === 'date') {
+      setRecordedAt(moveToDay(recordedAt, selected.getTime()));
+    } else {
+      const next = new Date(recordedAt);
+      next.setHours(selected.getHours(), selected.getMinutes(), 0, 0);
+      setRecordedAt(next.getTime());
+    }
+  };
+
+  const handleSubmit = () => {
+    if (value === null) return;
+
+    onSubmit({
+      value,
+      recorded_at: recordedAt,
+      note: note.trim(),
+    });
+    onClose();
+  };
+
+  const isDisabled = value === null;
+
+  return (
+    <ModalShell
+      visible={visible}
+      onClose={onClose}
+      header={<Text style={styles.title}>{recordValue ? 'Edit Value' : 'New Value'}</Text>}
+      footer={
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.buttonCancel]}
+            onPress={onClose}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.buttonCancelText}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.button,
+              styles.buttonSubmit,
+              isDisabled && styles.buttonDisabled,
+            ]}
+            onPress={handleSubmit}
+            activeOpacity={0.7}
+            disabled={isDisabled}
+          >
+            <Text style={styles.buttonSubmitText}>{recordValue ? 'Save' : 'Add'}</Text>
+          </TouchableOpacity>
+        </View>
+      }
+    >
+      <View style={styles.body}>
+        <View style={styles.valueRow}>
+          <TextInput
+            style={[styles.input, styles.valueInput]}
+            placeholder="0"
+            value={valueText}
+            onChangeText={setValueText}
+            keyboardType={Platform.OS === 'ios' ? 'numbers-and-punctuation' : 'numeric'}
+            autoFocus={!recordValue}
+          />
+          {unit ? <Text style={styles.unit}>{unit}</Text> : null}
+        </View>
+
+        <Text style={styles.label}>Date</Text>
+        <View style={styles.chipRow}>
+          <Chip
+            label="Today"
+            selected={day === today}
+            onPress={() => setRecordedAt(moveToDay(recordedAt, today))}
+          />
+          <Chip
+            label="Yesterday"
+            selected={day === yesterday}
+            onPress={() => setRecordedAt(moveToDay(recordedAt, yesterday))}
+          />
+          <Chip
+            label={isOtherDay ? formatExpenseDay(day) : 'Other…'}
+            selected={isOtherDay}
+            onPress={() => setPicker('date')}
+          />
+          <Chip label={time} selected={false} onPress={() => setPicker('time')} />
+        </View>
+
+        {picker && (
+          <DateTimePicker
+            value={new Date(recordedAt)}
+            mode={picker}
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={handlePickerChange}
+            maximumDate={picker === 'date' ? new Date() : undefined}
+          />
+        )}
+
+        <TextInput
+          style={[styles.input, styles.noteInput]}
+          placeholder="Note (optional)"
+          value={note}
+          onChangeText={setNote}
+          multiline
+          textAlignVertical="top"
+        />
+
+        {recordValue && onDelete && (
+          <TouchableOpacity style={styles.deleteButton} onPress={onDelete} activeOpacity={0.7}>
+            <Text style={styles.deleteButtonText}>Delete Value</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ModalShell>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    color: '#1a1a1a',
+    marginTop: 8,
+  },
+
+  body: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    backgroundColor: '#fff',
+  },
+
+  valueRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+
+  valueInput: {
+    flex: 1,
+    fontSize: 24,
+    fontWeight: '600',
+  },
+
+  unit: {
+    fontSize: 18,
+    color: '#6b7280',
+    marginTop: 16,
+  },
+
+  noteInput: {
+    minHeight: 72,
+  },
+
+  label: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+
+  deleteButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+
+  deleteButtonText: {
+    fontSize: 14,
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+
+  buttonCancel: {
+    backgroundColor: '#f3f4f6',
+  },
+
+  buttonCancelText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonSubmit: {
+    backgroundColor: '#3b82f6',
+  },
+
+  buttonSubmitText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
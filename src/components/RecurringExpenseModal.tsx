@@ -0,0 +1,366 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import ModalShell from './ModalShell';
+import Chip from './Chip';
+import {
+  DEFAULT_CURRENCY,
+  EXPENSE_CURRENCIES,
+  PAYMENT_METHODS,
+  formatAmountInput,
+  formatExpenseDay,
+  parseAmount,
+  startOfDay,
+} from '../utils/expenses';
+import {
+  SubscriptionSchedule,
+  buildScheduleRule,
+  getScheduleFromRule,
+} from '../utils/subscriptions';
+import { describeRepeatRule } from '../utils/recurrence';
+import type { BudgetCategory, CreateRecurringExpense, RecurringExpense } from '../types/models';
+
+interface RecurringExpenseModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (template: CreateRecurringExpense) => void;
+  categories: BudgetCategory[];
+  // Edit mode when set
+  template?: RecurringExpense | null;
+  // Currency of a new template
+  defaultCurrency?: string;
+}
+
+const SCHEDULES: { value: SubscriptionSchedule; label: string }[] = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'weekly', label: 'Every N weeks' },
+];
+
+export default function RecurringExpenseModal({
+  visible,
+  onClose,
+  onSubmit,
+  categories,
+  template,
+  defaultCurrency = DEFAULT_CURRENCY,
+}: RecurringExpenseModalProps) {
+  const [name, setName] = useState('');
+  const [amountText, setAmountText] = useState('');
+  const [currency, setCurrency] = useState(defaultCurrency);
+  const [schedule, setSchedule] = useState<SubscriptionSchedule>('monthly');
+  const [weeksText, setWeeksText] = useState('1');
+  const [nextDue, setNextDue] = useState(() => startOfDay(Date.now()));
+  const [paymentMethod, setPaymentMethod] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  // Reset fields each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+
+    const current = template ? getScheduleFromRule(template.repeat_rule) : null;
+
+    setName(template?.name ?? '');
+    setAmountText(template ? formatAmountInput(template.amount) : '');
+    setCurrency(template?.currency ?? defaultCurrency);
+    setSchedule(current?.schedule ?? 'monthly');
+    setWeeksText(String(current?.weeks ?? 1));
+    setNextDue(startOfDay(template?.next_due_date ?? Date.now()));
+    setPaymentMethod(template?.payment_method ?? '');
+    setCategoryId(template?.category_id ?? '');
+    setShowDatePicker(false);
+  }, [visible, template, defaultCurrency]);
+
+  const amount = parseAmount(amountText);
+  const weeks = parseInt(weeksText, 10);
+  const hasValidWeeks = schedule !== 'weekly' || (Number.isInteger(weeks) && weeks >= 1 && weeks <= 52);
+  const repeatRule = buildScheduleRule(schedule, nextDue, hasValidWeeks ? weeks : 1);
+
+  // Keep a currency that isn't in the list (e.g. from a backup) selectable
+  const currencies = EXPENSE_CURRENCIES.includes(currency)
+    ? EXPENSE_CURRENCIES
+    : [...EXPENSE_CURRENCIES, currency];
+
+  const handleDateChange = (_: any, selected?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowDatePicker(false);
+    }
+
+    if (selected) {
+      setNextDue(startOfDay(selected.getTime()));
+    }
+  };
+
+  const isDisabled = amount === null || !name.trim() || !hasValidWeeks;
+
+  const handleSubmit = () => {
+    if (isDisabled || amount === null) return;
+
+    onSubmit({
+      name: name.trim(),
+      amount,
+      currency,
+      category_id: categoryId || undefined,
+      payment_method: paymentMethod || undefined,
+      repeat_rule: repeatRule,
+      next_due_date: nextDue,
+    });
+    onClose();
+  };
+
+  return (
+    <ModalShell
+      visible={visible}
+      onClose={onClose}
+      header={<Text style={styles.title}>{template ? 'Edit Recurring Expense' : 'New Recurring Expense'}</Text>}
+      footer={
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.buttonCancel]}
+            onPress={onClose}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.buttonCancelText}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.button,
+              styles.buttonSubmit,
+              isDisabled && styles.buttonDisabled,
+            ]}
+            onPress={handleSubmit}
+            activeOpacity={0.7}
+            disabled={isDisabled}
+          >
+            <Text style={styles.buttonSubmitText}>{template ? 'Save' : 'Create'}</Text>
+          </TouchableOpacity>
+        </View>
+      }
+    >
+      <View style={styles.body}>
+        <TextInput
+          style={styles.input}
+          placeholder="Name (e.g. Rent, Netflix)"
+          value={name}
+          onChangeText={setName}
+          autoFocus={!template}
+          returnKeyType="done"
+        />
+
+        <TextInput
+          style={[styles.input, styles.amountInput]}
+          placeholder="0.00"
+          value={amountText}
+          onChangeText={setAmountText}
+          keyboardType="decimal-pad"
+        />
+
+        <Text style={styles.label}>Currency</Text>
+        <View style={styles.chipRow}>
+          {currencies.map(code => (
+            <Chip
+              key={code}
+              label={code}
+              selected={currency === code}
+              onPress={() => setCurrency(code)}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.label}>Repeats</Text>
+        <View style={styles.chipRow}>
+          {SCHEDULES.map(option => (
+            <Chip
+              key={option.value}
+              label={option.label}
+              selected={schedule === option.value}
+              onPress={() => setSchedule(option.value)}
+            />
+          ))}
+        </View>
+
+        {schedule === 'weekly' && (
+          <View style={styles.weeksRow}>
+            <Text style={styles.weeksText}>Every</Text>
+            <TextInput
+              style={[styles.input, styles.weeksInput]}
+              value={weeksText}
+              onChangeText={setWeeksText}
+              keyboardType="number-pad"
+              maxLength={2}
+            />
+            <Text style={styles.weeksText}>{weeks === 1 ? 'week' : 'weeks'}</Text>
+          </View>
+        )}
+
+        <Text style={styles.label}>{template ? 'Next charge' : 'First charge'}</Text>
+        <View style={styles.chipRow}>
+          <Chip
+            label={formatExpenseDay(nextDue)}
+            selected
+            onPress={() => setShowDatePicker(true)}
+          />
+        </View>
+
+        {showDatePicker && (
+          <DateTimePicker
+            value={new Date(nextDue)}
+            mode="date"
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={handleDateChange}
+          />
+        )}
+
+        {hasValidWeeks && (
+          <Text style={styles.hint}>
+            {describeRepeatRule(repeatRule)}
+            {nextDue < startOfDay(Date.now()) ? ' · past charges are logged on save' : ''}
+          </Text>
+        )}
+
+        <Text style={styles.label}>Payment method</Text>
+        <View style={styles.chipRow}>
+          {PAYMENT_METHODS.map(method => (
+            <Chip
+              key={method.value}
+              label={method.label}
+              selected={paymentMethod === method.value}
+              // Tapping the selected method clears it
+              onPress={() => setPaymentMethod(paymentMethod === method.value ? '' : method.value)}
+            />
+          ))}
+        </View>
+
+        {categories.length > 0 && (
+          <>
+            <Text style={styles.label}>Category</Text>
+            <View style={styles.chipRow}>
+              <Chip label="None" selected={categoryId === ''} onPress={() => setCategoryId('')} />
+              {categories.map(category => (
+                <Chip
+                  key={category.id}
+                  label={category.icon ? `${category.icon} ${category.name}` : category.name}
+                  selected={categoryId === category.id}
+                  onPress={() => setCategoryId(category.id)}
+                />
+              ))}
+            </View>
+          </>
+        )}
+      </View>
+    </ModalShell>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    color: '#1a1a1a',
+    marginTop: 8,
+  },
+
+  body: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+    backgroundColor: '#fff',
+  },
+
+  amountInput: {
+    fontSize: 24,
+    fontWeight: '600',
+  },
+
+  label: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+
+  hint: {
+    fontSize: 13,
+    color: '#9ca3af',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+
+  weeksRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 8,
+  },
+
+  weeksInput: {
+    width: 64,
+    textAlign: 'center',
+  },
+
+  weeksText: {
+    fontSize: 16,
+    color: '#1a1a1a',
+  },
+
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+
+  buttonCancel: {
+    backgroundColor: '#f3f4f6',
+  },
+
+  buttonCancelText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonSubmit: {
+    backgroundColor: '#3b82f6',
+  },
+
+  buttonSubmitText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
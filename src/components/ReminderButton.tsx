@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import SelectionMenu, { SelectionOption } from './SelectionMenu';
+import { formatRelativeDate, hasTimeComponent } from '../utils/timeClassification';
+
+interface Props {
+  value?: number;
+  dueDate: number;
+  onChange: (triggerTime: number | null) => void;
+  disabled?: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const NO_REMINDER = 'none';
+
+function atTimeOfDay(timestamp: number, hours: number, dayOffset: number = 0): number {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + dayOffset);
+  date.setHours(hours, 0, 0, 0);
+  return date.getTime();
+}
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const hours = date.getHours().toString().padStart(2, '0');
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
+
+export function formatReminderTime(timestamp: number): string {
+  return `🔔 ${formatRelativeDate(timestamp)}, ${formatTime(timestamp)}`;
+}
+
+/**
+ * Reminder presets relative to the due date (past ones are left out)
+ * Timed tasks: at / before the due time. Date-only tasks: morning of / day before.
+ */
+function getReminderPresets(dueDate: number): { label: string; value: number }[] {
+  const presets = hasTimeComponent(dueDate)
+    ? [
+        { label: 'At due time', value: dueDate },
+        { label: '10 minutes before', value: dueDate - 10 * MINUTE_MS },
+        { label: '1 hour before', value: dueDate - HOUR_MS },
+        { label: '1 day before', value: dueDate - 24 * HOUR_MS },
+      ]
+    : [
+        { label: 'Morning of (09:00)', value: atTimeOfDay(dueDate, 9) },
+        { label: 'Day before (09:00)', value: atTimeOfDay(dueDate, 9, -1) },
+        { label: 'Day before (18:00)', value: atTimeOfDay(dueDate, 18, -1) },
+      ];
+
+  const now = Date.now();
+  return presets.filter(preset => preset.value > now);
+}
+
+/**
+ * "Remind me" link for tasks, shown next to DatePickerButton
+ * Reminders are offered relative to the task's due date.
+ */
+export default function ReminderButton({ value, dueDate, onChange, disabled }: Props) {
+  const [menuVisible, setMenuVisible] = useState(false);
+
+  const presets = getReminderPresets(dueDate);
+  const options: SelectionOption[] = presets.map(preset => ({
+    label: preset.label,
+    value: preset.value,
+    description: formatReminderTime(preset.value),
+  }));
+
+  if (value) {
+    options.push({ label: 'No reminder', value: NO_REMINDER });
+  }
+
+  const handleSelect = (selected: number | string) => {
+    onChange(selected === NO_REMINDER ? null : (selected as number));
+  };
+
+  // Nothing to offer: due date too close and no reminder to remove
+  if (!value && presets.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        onPress={() => !disabled && setMenuVisible(true)}
+        disabled={disabled}
+      >
+        <Text style={[value ? styles.valueText : styles.add, disabled && styles.disabled]}>
+          {value ? formatReminderTime(value) : '+ Remind me'}
+        </Text>
+      </TouchableOpacity>
+
+      <SelectionMenu
+        visible={menuVisible}
+        onClose={() => setMenuVisible(false)}
+        title="Remind me"
+        options={options}
+        onSelect={handleSelect}
+        selectedValue={value}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+  },
+  valueText: {
+    color: '#3b82f6',
+    fontSize: 14,
+  },
+  add: {
+    color: '#9ca3af',
+    fontSize: 14,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
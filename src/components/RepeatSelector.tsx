@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import SelectionMenu, { SelectionOption } from './SelectionMenu';
+import {
+  describeRepeatRule,
+  formatRepeatRule,
+  getRepeatPresets,
+  parseRepeatRule,
+} from '../utils/recurrence';
+
+interface RepeatSelectorProps {
+  value?: string;
+  dueDate: number;
+  onChange: (repeatRule: string | undefined) => void;
+}
+
+const NEVER = 'never';
+const MAX_INTERVAL = 30;
+
+/**
+ * Repeat picker for tasks
+ *
+ * Presets are derived from the due date (weekday, day of month).
+ * Daily and weekly rules get an "every N" stepper for custom intervals.
+ */
+export default function RepeatSelector({
+  value,
+  dueDate,
+  onChange,
+}: RepeatSelectorProps) {
+  const [menuVisible, setMenuVisible] = useState(false);
+
+  const rule = parseRepeatRule(value);
+  const canChangeInterval = rule?.freq === 'DAILY'
+    || (rule?.freq === 'WEEKLY' && (rule.byDay?.length ?? 0) <= 1);
+
+  const options: SelectionOption[] = [
+    { label: 'Never', value: NEVER },
+    ...getRepeatPresets(dueDate),
+  ];
+
+  // Keep a custom interval selectable even though it is not a preset
+  if (value && !options.some(option => option.value === value)) {
+    options.push({ label: describeRepeatRule(value), value });
+  }
+
+  const handleSelect = (selected: string) => {
+    onChange(selected === NEVER ? undefined : selected);
+  };
+
+  const handleIntervalChange = (delta: number) => {
+    if (!rule) return;
+    const interval = Math.min(MAX_INTERVAL, Math.max(1, rule.interval + delta));
+    onChange(formatRepeatRule({ ...rule, interval }));
+  };
+
+  const unit = rule?.freq === 'DAILY' ? 'day' : 'week';
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Repeat</Text>
+
+      <TouchableOpacity
+        style={styles.button}
+        onPress={() => setMenuVisible(true)}
+        activeOpacity={0.7}
+      >
+        <Text style={[styles.buttonText, !value && styles.buttonTextPlaceholder]}>
+          {value ? `🔁 ${describeRepeatRule(value)}` : 'Never'}
+        </Text>
+        <Text style={styles.chevron}>›</Text>
+      </TouchableOpacity>
+
+      {rule && canChangeInterval && (
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            style={styles.stepperButton}
+            onPress={() => handleIntervalChange(-1)}
+            disabled={rule.interval <= 1}
+          >
+            <Text style={[styles.stepperButtonText, rule.interval <= 1 && styles.stepperDisabled]}>−</Text>
+          </TouchableOpacity>
+          <Text style={styles.stepperText}>
+            every {rule.interval} {rule.interval === 1 ? unit : `${unit}s`}
+          </Text>
+          <TouchableOpacity
+            style={styles.stepperButton}
+            onPress={() => handleIntervalChange(1)}
+            disabled={rule.interval >= MAX_INTERVAL}
+          >
+            <Text style={[styles.stepperButtonText, rule.interval >= MAX_INTERVAL && styles.stepperDisabled]}>+</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <SelectionMenu
+        visible={menuVisible}
+        onClose={() => setMenuVisible(false)}
+        title="Repeat"
+        options={options}
+        onSelect={handleSelect}
+        selectedValue={value ?? NEVER}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+    marginBottom: 16,
+  },
+
+  label: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+  },
+
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1a1a1a',
+  },
+
+  buttonTextPlaceholder: {
+    color: '#6b7280',
+  },
+
+  chevron: {
+    fontSize: 18,
+    color: '#9ca3af',
+  },
+
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+    gap: 16,
+  },
+
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  stepperButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+
+  stepperDisabled: {
+    opacity: 0.3,
+  },
+
+  stepperText: {
+    fontSize: 14,
+    color: '#6b7280',
+    minWidth: 110,
+    textAlign: 'center',
+  },
+});
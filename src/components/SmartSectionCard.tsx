@@ -13,6 +13,9 @@
  * - Notebook-inspired visual design
  * - WCAG AA accessible
  * - Subtle press animations (17D)
+ * - Optional 💤 snooze button per preview (clears Today without rescheduling)
+ * - Optional events of imported calendars above the tasks (read-only: teal
+ *   bar instead of a priority circle, never completable or snoozable)
  * 
  * Design inspired by classic blue A4 tetradio notebooks with
  * clean lines, subtle shadows, and calm color palette.
@@ -42,6 +45,15 @@ interface TaskPreview {
   list_name?: string;  // FIX 2: Collection name for Unsorted detection
 }
 
+// Event of an imported calendar (CalendarOccurrence subset)
+interface EventPreview {
+  key: string;
+  title: string;
+  start: number;
+  end?: number;
+  is_all_day: boolean;
+}
+
 interface SmartSectionCardProps {
   title: string;
   count: number;
@@ -51,6 +63,8 @@ interface SmartSectionCardProps {
   accent?: 'normal' | 'urgent';
   emptyMessage?: string;
   subtitle?: string; // For Organize section: "32 completed tasks"
+  onSnoozeTask?: (taskId: string) => void; // Shows a 💤 button on each preview
+  events?: EventPreview[]; // Listed before the tasks, not counted in the badge
 }
 
 /**
@@ -101,6 +115,25 @@ function formatDueDate(timestamp: number | undefined): string | null {
   }
 }
 
+/**
+ * Event time for the preview, same 12-hour style as due dates
+ * - "All day", "8:00 PM", "8:00 PM – 9:30 PM"
+ */
+function formatEventTime(event: EventPreview): string {
+  if (event.is_all_day) return 'All day';
+
+  const format = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const hours = date.getHours();
+    const ampm = hours >= 12 ? 'PM' : 'AM';
+    return `${hours % 12 || 12}:${date.getMinutes().toString().padStart(2, '0')} ${ampm}`;
+  };
+
+  return event.end !== undefined && event.end > event.start
+    ? `${format(event.start)} – ${format(event.end)}`
+    : format(event.start);
+}
+
 /**
  * TICKET 17C: Generate descriptive accessibility label for card
  * 
@@ -131,6 +164,8 @@ export default function SmartSectionCard({
   accent = 'normal',
   emptyMessage,
   subtitle,
+  onSnoozeTask,
+  events = [],
 }: SmartSectionCardProps) {
   
   // TICKET 17B: Memoize preview tasks (first 3 only)
@@ -138,8 +173,12 @@ export default function SmartSectionCard({
     return tasks.slice(0, 3);
   }, [tasks]);
   
+  const previewEvents = useMemo(() => {
+    return events.slice(0, 3);
+  }, [events]);
+  
   const hasMore = tasks.length > 3;
-  const isEmpty = tasks.length === 0;
+  const isEmpty = tasks.length === 0 && previewEvents.length === 0;
   const isUrgent = accent === 'urgent';
   
   // TICKET 17D: Press animation (scale + shadow)
@@ -268,6 +307,24 @@ export default function SmartSectionCard({
           </Text>
         ) : (
           <>
+            {/* Event Previews (read-only) */}
+            {previewEvents.map(event => (
+              <View
+                key={event.key}
+                style={[styles.taskPreview, styles.eventPreview]}
+                accessible
+                accessibilityLabel={`${event.title}, ${formatEventTime(event)}, calendar event`}
+              >
+                <View style={styles.eventBar} />
+                <Text style={styles.taskTitle} numberOfLines={1}>
+                  {event.title}
+                </Text>
+                <View style={styles.taskMetaContainer}>
+                  <Text style={styles.eventTime}>{formatEventTime(event)}</Text>
+                </View>
+              </View>
+            ))}
+            
             {/* Task Previews */}
             {previewTasks.map((task, index) => {
               // FIX 3: Determine priority circle color
@@ -324,6 +381,19 @@ export default function SmartSectionCard({
                     <Text style={styles.taskNoDate}>No date</Text>
                   )}
                 </View>
+
+                {onSnoozeTask && !task.completed && (
+                  <TouchableOpacity
+                    style={styles.snoozeButton}
+                    onPress={() => onSnoozeTask(task.id)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                    activeOpacity={opacity.touchActive}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Snooze ${task.title}`}
+                  >
+                    <Text style={styles.snoozeIcon}>💤</Text>
+                  </TouchableOpacity>
+                )}
               </View>
             );
             })}
@@ -460,6 +530,25 @@ const styles = StyleSheet.create({
     backgroundColor: colors.priorityCompleted,
   },
   
+  // Event Preview (imported calendars)
+  eventPreview: {
+    marginBottom: spacing.taskPreviewGap,
+    paddingRight: spacing.taskPreviewPadding,
+    borderRadius: borderRadius.small,
+    backgroundColor: colors.calendarEventBackground,
+  },
+  eventBar: {
+    width: 4,
+    alignSelf: 'stretch',
+    borderRadius: 2,
+    backgroundColor: colors.calendarEvent,
+    marginRight: spacing.priorityCircleMargin,
+  },
+  eventTime: {
+    ...typography.meta,
+    color: colors.calendarEvent,
+  },
+  
   taskTitle: {
     ...typography.body,
     color: colors.textPrimary,
@@ -496,6 +585,15 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
   },
   
+  snoozeButton: {
+    marginLeft: spacing.metadataMarginLeft,
+    paddingHorizontal: 4,
+  },
+  snoozeIcon: {
+    ...typography.meta,
+    color: colors.textSecondary,
+  },
+  
   // TICKET 17C: View More Link with 44px touch target
   viewMoreButton: {
     marginTop: 10,
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import SelectionMenu, { SelectionOption } from './SelectionMenu';
+import ModalShell from './ModalShell';
+import { getSnoozePresets, getSnoozeUntilForDay, formatSnoozeTime } from '../utils/snooze';
+
+interface SnoozeMenuProps {
+  visible: boolean;
+  onClose: () => void;
+  /** Snooze until the given time, or null to unsnooze */
+  onSelect: (until: number | null) => void;
+  taskTitle?: string;
+  isSnoozed?: boolean;
+}
+
+const PICK_DATE = 'pick_date';
+const UNSNOOZE = 'unsnooze';
+
+function getTomorrow(): Date {
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  tomorrow.setHours(0, 0, 0, 0);
+  return tomorrow;
+}
+
+/**
+ * Snooze presets (later today, tomorrow morning, next week) + pick a date
+ * Picked dates snooze until the morning of that day.
+ */
+export default function SnoozeMenu({
+  visible,
+  onClose,
+  onSelect,
+  taskTitle,
+  isSnoozed = false,
+}: SnoozeMenuProps) {
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [pickedDate, setPickedDate] = useState<Date>(getTomorrow());
+
+  const options: SelectionOption[] = getSnoozePresets().map(preset => ({
+    label: preset.label,
+    value: preset.until,
+    description: formatSnoozeTime(preset.until),
+  }));
+
+  options.push({ label: 'Pick a date…', value: PICK_DATE });
+
+  if (isSnoozed) {
+    options.push({ label: 'Unsnooze', value: UNSNOOZE, primary: true });
+  }
+
+  const handleSelect = (value: number | string) => {
+    if (value === PICK_DATE) {
+      setPickedDate(getTomorrow());
+      setShowDatePicker(true);
+    } else if (value === UNSNOOZE) {
+      onSelect(null);
+    } else {
+      onSelect(value as number);
+    }
+  };
+
+  const handleAndroidDateChange = (_: any, selected?: Date) => {
+    setShowDatePicker(false);
+    if (selected) {
+      onSelect(getSnoozeUntilForDay(selected.getTime()));
+    }
+  };
+
+  const handleConfirmIosDate = () => {
+    setShowDatePicker(false);
+    onSelect(getSnoozeUntilForDay(pickedDate.getTime()));
+  };
+
+  return (
+    <>
+      <SelectionMenu
+        visible={visible}
+        onClose={onClose}
+        title="Snooze until"
+        subtitle={taskTitle}
+        options={options}
+        onSelect={handleSelect}
+      />
+
+      {showDatePicker && Platform.OS === 'android' && (
+        <DateTimePicker
+          value={pickedDate}
+          mode="date"
+          display="default"
+          minimumDate={getTomorrow()}
+          onChange={handleAndroidDateChange}
+        />
+      )}
+
+      {Platform.OS === 'ios' && (
+        <ModalShell
+          visible={showDatePicker}
+          onClose={() => setShowDatePicker(false)}
+          header={<Text style={styles.title}>Snooze until</Text>}
+          footer={
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.button, styles.buttonCancel]}
+                onPress={() => setShowDatePicker(false)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.buttonCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.buttonSubmit]}
+                onPress={handleConfirmIosDate}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.buttonSubmitText}>Snooze</Text>
+              </TouchableOpacity>
+            </View>
+          }
+        >
+          <DateTimePicker
+            value={pickedDate}
+            mode="date"
+            display="inline"
+            minimumDate={getTomorrow()}
+            onChange={(_, selected) => selected && setPickedDate(selected)}
+          />
+        </ModalShell>
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    color: '#1a1a1a',
+  },
+
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+
+  buttonCancel: {
+    backgroundColor: '#f3f4f6',
+  },
+
+  buttonCancelText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  buttonSubmit: {
+    backgroundColor: '#3b82f6',
+  },
+
+  buttonSubmitText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,77 @@
+import React from 'react';
+import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { getSparklinePoints, getSparklineSegments } from '../utils/records';
+
+interface SparklineProps {
+  values: number[];  // Oldest first
+  width: number;
+  height: number;
+  color?: string;
+  strokeWidth?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Trend line of a record's values (record cards, RecordScreen)
+ * Drawn with rotated Views, so it needs no SVG library; the latest value
+ * gets a dot. Renders nothing with fewer than two values.
+ */
+export default function Sparkline({
+  values,
+  width,
+  height,
+  color = '#0d9488',
+  strokeWidth = 2,
+  style,
+}: SparklineProps) {
+  if (values.length < 2) {
+    return null;
+  }
+
+  // Inset by the dot radius so the line's ends aren't clipped
+  const inset = strokeWidth * 1.5;
+  const points = getSparklinePoints(values, width - inset * 2, height - inset * 2)
+    .map(point => ({ x: point.x + inset, y: point.y + inset }));
+  const last = points[points.length - 1];
+
+  return (
+    <View style={[{ width, height }, style]} pointerEvents="none">
+      {getSparklineSegments(points).map((segment, index) => (
+        <View
+          key={index}
+          style={[
+            styles.segment,
+            {
+              left: segment.cx - segment.length / 2,
+              top: segment.cy - strokeWidth / 2,
+              width: segment.length,
+              height: strokeWidth,
+              borderRadius: strokeWidth / 2,
+              backgroundColor: color,
+              transform: [{ rotate: `${segment.angle}deg` }],
+            },
+          ]}
+        />
+      ))}
+      <View
+        style={[
+          styles.segment,
+          {
+            left: last.x - inset,
+            top: last.y - inset,
+            width: inset * 2,
+            height: inset * 2,
+            borderRadius: inset,
+            backgroundColor: color,
+          },
+        ]}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  segment: {
+    position: 'absolute',
+  },
+});
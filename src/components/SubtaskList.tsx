@@ -0,0 +1,117 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import type { Task } from '../types/models';
+
+interface SubtaskListProps {
+  subtasks: Task[];
+  onToggle: (subtask: Task) => void;
+  onLongPress: (subtask: Task) => void;
+  onAdd?: () => void;
+}
+
+/**
+ * Subtasks rendered indented under their parent task
+ * (CollectionsScreen and TasksScreen)
+ *
+ * Shows:
+ * - Checkbox + title per subtask
+ * - "+ Add subtask" link (when onAdd is given)
+ *
+ * Interaction:
+ * - Tap → toggle completion
+ * - Long press → actions (delete)
+ */
+export default function SubtaskList({ subtasks, onToggle, onLongPress, onAdd }: SubtaskListProps) {
+  if (subtasks.length === 0 && !onAdd) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {subtasks.map(subtask => (
+        <TouchableOpacity
+          key={subtask.id}
+          style={styles.subtaskRow}
+          onPress={() => onToggle(subtask)}
+          onLongPress={() => onLongPress(subtask)}
+          delayLongPress={500}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.checkbox, subtask.completed && styles.checkboxChecked]}>
+            {subtask.completed && <Text style={styles.checkmark}>✓</Text>}
+          </View>
+          <Text
+            style={[styles.title, subtask.completed && styles.titleCompleted]}
+            numberOfLines={2}
+          >
+            {subtask.title}
+          </Text>
+        </TouchableOpacity>
+      ))}
+
+      {onAdd && (
+        <TouchableOpacity onPress={onAdd} style={styles.addButton} activeOpacity={0.7}>
+          <Text style={styles.addText}>+ Add subtask</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+/**
+ * "2 / 5" progress for a task with subtasks (null when it has none)
+ */
+export function formatSubtaskProgress(task: Pick<Task, 'subtask_count' | 'subtask_completed_count'>): string | null {
+  if (!task.subtask_count) {
+    return null;
+  }
+  return `${task.subtask_completed_count ?? 0} / ${task.subtask_count}`;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginLeft: 36,
+    marginTop: 4,
+  },
+  subtaskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  checkbox: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: '#d1d5db',
+    marginRight: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  checkmark: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  title: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  titleCompleted: {
+    textDecorationLine: 'line-through',
+    color: '#9ca3af',
+  },
+  addButton: {
+    paddingVertical: 6,
+    alignSelf: 'flex-start',
+  },
+  addText: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+});
@@ -0,0 +1,48 @@
+import React from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { formatTag } from '../utils/tags';
+import type { Tag } from '../types/models';
+
+interface TagChipsProps {
+  tags?: Tag[];
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Read-only "#tag" pills shown on entry rows (tasks, notes, checklists)
+ * Renders nothing when there are no tags.
+ */
+export default function TagChips({ tags, style }: TagChipsProps) {
+  if (!tags || tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.row, style]}>
+      {tags.map(tag => (
+        <View key={tag.id} style={styles.chip}>
+          <Text style={styles.chipText}>{formatTag(tag.name)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginTop: 4,
+  },
+  chip: {
+    backgroundColor: '#eff6ff',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#2563eb',
+  },
+});
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { getAllTags } from '../db/operations';
+import { normalizeTagName, normalizeTagNames, formatTag } from '../utils/tags';
+import type { Tag } from '../types/models';
+
+interface TagEditorProps {
+  value: string[];
+  onChange: (names: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * Tag input used by CreateEntryModal, NoteEditor and EditTagsModal
+ *
+ * - Selected tags as removable chips (tap ✕)
+ * - Type a name and press return (or space / comma) to add it
+ * - Suggestions: existing tags starting with the typed text,
+ *   or the most used ones while the input is empty
+ *
+ * Works on tag names; tags are created when the entry is saved.
+ */
+export default function TagEditor({ value, onChange }: TagEditorProps) {
+  const [input, setInput] = useState('');
+  const [allTags, setAllTags] = useState<Tag[]>([]);
+
+  useEffect(() => {
+    getAllTags()
+      .then(setAllTags)
+      .catch(error => console.error('Failed to load tags:', error));
+  }, []);
+
+  const addTags = (names: string[]) => {
+    const next = normalizeTagNames([...value, ...names]);
+    if (next.length !== value.length) {
+      onChange(next);
+    }
+  };
+
+  const handleChangeText = (text: string) => {
+    // Space or comma finishes a tag
+    if (/[\s,]$/.test(text)) {
+      addTags(text.split(/[\s,]+/));
+      setInput('');
+    } else {
+      setInput(text);
+    }
+  };
+
+  const handleSubmit = () => {
+    addTags([input]);
+    setInput('');
+  };
+
+  const prefix = normalizeTagName(input);
+  const suggestions = allTags
+    .filter(tag => !value.includes(tag.name))
+    .filter(tag => (prefix ? tag.name.startsWith(prefix) && tag.name !== prefix : true))
+    .sort((a, b) => (prefix ? 0 : (b.usage_count ?? 0) - (a.usage_count ?? 0)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <View style={styles.container}>
+      {value.length > 0 && (
+        <View style={styles.chipRow}>
+          {value.map(name => (
+            <TouchableOpacity
+              key={name}
+              style={styles.chip}
+              onPress={() => onChange(value.filter(tag => tag !== name))}
+              activeOpacity={0.7}
+              accessibilityLabel={`Remove tag ${name}`}
+            >
+              <Text style={styles.chipText}>{formatTag(name)}</Text>
+              <Text style={styles.chipRemove}>✕</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <TextInput
+        style={styles.input}
+        placeholder="Add tags (e.g. work, home)"
+        value={input}
+        onChangeText={handleChangeText}
+        onSubmitEditing={handleSubmit}
+        onBlur={() => {
+          if (input.trim()) handleSubmit();
+        }}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+        blurOnSubmit={false}
+      />
+
+      {suggestions.length > 0 && (
+        <View style={styles.chipRow}>
+          {suggestions.map(tag => (
+            <TouchableOpacity
+              key={tag.id}
+              style={[styles.chip, styles.suggestion]}
+              onPress={() => {
+                addTags([tag.name]);
+                setInput('');
+              }}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.suggestionText}>{formatTag(tag.name)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#eff6ff',
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#2563eb',
+  },
+  chipRemove: {
+    fontSize: 11,
+    color: '#60a5fa',
+    marginLeft: 6,
+  },
+  suggestion: {
+    backgroundColor: '#f3f4f6',
+  },
+  suggestionText: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 8,
+    backgroundColor: '#fff',
+  },
+});
@@ -0,0 +1,85 @@
+import React from 'react';
+import { ScrollView, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { formatTag } from '../utils/tags';
+import type { Tag } from '../types/models';
+
+interface TagFilterBarProps {
+  tags: Tag[];
+  selectedTagId: string | null;
+  onSelect: (tagId: string | null) => void;
+}
+
+/**
+ * Horizontal tag filter chips ("All" + one per tag)
+ * Used by TasksScreen and CollectionsScreen; renders nothing without tags.
+ */
+export default function TagFilterBar({ tags, selectedTagId, onSelect }: TagFilterBarProps) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.bar}
+      contentContainerStyle={styles.content}
+    >
+      <TouchableOpacity
+        style={[styles.chip, !selectedTagId && styles.chipActive]}
+        onPress={() => onSelect(null)}
+        activeOpacity={0.7}
+      >
+        <Text style={[styles.chipText, !selectedTagId && styles.chipTextActive]}>All</Text>
+      </TouchableOpacity>
+
+      {tags.map(tag => {
+        const selected = tag.id === selectedTagId;
+        return (
+          <TouchableOpacity
+            key={tag.id}
+            style={[styles.chip, selected && styles.chipActive]}
+            onPress={() => onSelect(selected ? null : tag.id)}
+            activeOpacity={0.7}
+            accessibilityState={{ selected }}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+              {formatTag(tag.name)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexGrow: 0,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  chipActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
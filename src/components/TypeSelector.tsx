@@ -5,6 +5,7 @@ export enum EntryType {
   TASK = 'task',
   NOTE = 'note',
   CHECKLIST = 'checklist',
+  RECORD = 'record',
 }
 
 interface TypeSelectorProps {
@@ -16,12 +17,14 @@ const TYPE_LABELS: Record<EntryType, string> = {
   [EntryType.TASK]: 'Task',
   [EntryType.NOTE]: 'Note',
   [EntryType.CHECKLIST]: 'Checklist',
+  [EntryType.RECORD]: 'Record',
 };
 
 const TYPE_ORDER: EntryType[] = [
   EntryType.TASK,
   EntryType.NOTE,
   EntryType.CHECKLIST,
+  EntryType.RECORD,
 ];
 
 export default function TypeSelector({
@@ -0,0 +1,85 @@
+import React, { useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, AccessibilityInfo } from 'react-native';
+import { useUndoContext } from '../context/UndoContext';
+
+/**
+ * Bar with the last change and an Undo button (App.tsx, above the tab bar)
+ * Hidden when there's nothing to undo; see hooks/useUndo.ts.
+ */
+export default function UndoSnackbar() {
+  const { pending, undo } = useUndoContext();
+
+  // Screen readers don't notice a bar appearing on its own
+  useEffect(() => {
+    if (pending) {
+      AccessibilityInfo.announceForAccessibility(`${pending.message}. Undo available`);
+    }
+  }, [pending]);
+
+  if (!pending) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <View style={styles.bar} accessibilityLiveRegion="polite">
+        <Text style={styles.message} numberOfLines={2}>
+          {pending.message}
+        </Text>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={undo}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityLabel="Undo"
+        >
+          <Text style={styles.buttonText}>Undo</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 12,
+    paddingHorizontal: 12,
+  },
+
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1f2937',
+    borderRadius: 8,
+    paddingLeft: 16,
+    paddingRight: 4,
+    minHeight: 48,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+
+  message: {
+    flex: 1,
+    fontSize: 14,
+    color: '#fff',
+    paddingVertical: 12,
+  },
+
+  button: {
+    paddingHorizontal: 12,
+    minHeight: 44, // WCAG AA touch target
+    justifyContent: 'center',
+  },
+
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#93c5fd',
+  },
+});
@@ -0,0 +1,26 @@
+/**
+ * UndoContext
+ *
+ * Shares the Undo snackbar (hooks/useUndo.ts) with the screens. Provided
+ * once in App.tsx, which also renders the snackbar above the tab bar.
+ */
+
+import { createContext, useContext } from 'react';
+import type { UndoValue } from '../hooks/useUndo';
+
+const defaultValue: UndoValue = {
+  pending: null,
+  showUndo: () => {},
+  undo: async () => {},
+  dismiss: () => {},
+};
+
+export const UndoContext = createContext<UndoValue>(defaultValue);
+
+/**
+ * Usage:
+ *   const { showUndo } = useUndoContext();
+ */
+export function useUndoContext() {
+  return useContext(UndoContext);
+}
@@ -1,5 +1,5 @@
 import * as SQLite from 'expo-sqlite';
-import { INIT_SCHEMA, SCHEMA_VERSION, MIGRATE_V1_TO_V2, MIGRATE_V2_TO_V3, MIGRATE_V3_TO_V4, MIGRATE_V4_TO_V5, MIGRATE_V5_TO_V6 } from './schema';
+import { INIT_SCHEMA, SCHEMA_VERSION, MIGRATE_V1_TO_V2, MIGRATE_V2_TO_V3, MIGRATE_V3_TO_V4, MIGRATE_V4_TO_V5, MIGRATE_V5_TO_V6, MIGRATE_V6_TO_V7, MIGRATE_V7_TO_V8, MIGRATE_V8_TO_V9, MIGRATE_V9_TO_V10, MIGRATE_V10_TO_V11, MIGRATE_V11_TO_V12, MIGRATE_V12_TO_V13, MIGRATE_V13_TO_V14, MIGRATE_V14_TO_V15, MIGRATE_V15_TO_V16, MIGRATE_V16_TO_V17, MIGRATE_V17_TO_V18, TIMESTAMP_COLUMNS } from './schema';
 
 let dbInstance: SQLite.SQLiteDatabase | null = null;
 
@@ -326,6 +326,527 @@ async function migrateV5ToV6(db: SQLite.SQLiteDatabase): Promise<void> {
   }
 }
 
+/**
+ * Run migration from version 6 to version 7
+ * Normalize all timestamps to epoch milliseconds
+ * 
+ * CHANGES:
+ * 1. Converts legacy archive-as-delete collections to real deletions
+ * 2. Converts every TEXT timestamp (datetime('now')) to epoch ms
+ * 
+ * SAFETY GUARANTEES:
+ * - Runs in transaction (automatic rollback on error)
+ * - Preserves ALL rows (active + soft-deleted)
+ * - Verifies row counts before/after
+ * - Reports any TEXT timestamps that could not be parsed
+ * - Idempotent (safe to run multiple times)
+ */
+async function migrateV6ToV7(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log('Running migration: V6 → V7 (Normalize timestamps to epoch ms)');
+  
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+    
+    // Count rows before migration
+    const countsBefore: Record<string, number> = {};
+    for (const table of Object.keys(TIMESTAMP_COLUMNS)) {
+      const result = await db.getFirstAsync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM ${table}`
+      );
+      countsBefore[table] = result?.count ?? 0;
+    }
+    
+    // Run migration SQL
+    await db.execAsync(MIGRATE_V6_TO_V7);
+    
+    for (const [table, columns] of Object.entries(TIMESTAMP_COLUMNS)) {
+      // Verify no rows were lost
+      const countAfter = await db.getFirstAsync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM ${table}`
+      );
+      
+      if ((countAfter?.count ?? 0) !== countsBefore[table]) {
+        throw new Error(
+          `Migration verification failed: ${table} row count changed (${countsBefore[table]} → ${countAfter?.count})`
+        );
+      }
+      
+      // Report TEXT values that strftime could not parse (left untouched)
+      for (const column of columns) {
+        const leftover = await db.getFirstAsync<{ count: number }>(
+          `SELECT COUNT(*) as count FROM ${table} WHERE typeof(${column}) = 'text'`
+        );
+        
+        if (leftover && leftover.count > 0) {
+          console.warn(`⚠️ ${leftover.count} unparseable TEXT value(s) left in ${table}.${column}`);
+        }
+      }
+    }
+    
+    console.log('Migration V6→V7 successful: timestamps normalized to epoch ms');
+    
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('Migration V6→V7 failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run migration from version 7 to version 8
+ * Add repeat_rule and series_id to entries (recurring tasks)
+ * 
+ * SAFETY GUARANTEES:
+ * - Runs in transaction (automatic rollback on error)
+ * - Nullable columns, existing rows untouched
+ * - Verifies both columns exist after migration
+ */
+async function migrateV7ToV8(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log('Running migration: V7 → V8 (Add repeat_rule, series_id to entries)');
+  
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+    
+    // Run migration SQL
+    await db.execAsync(MIGRATE_V7_TO_V8);
+    
+    // Verify columns were added
+    const columnCheck = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM pragma_table_info('entries') WHERE name IN ('repeat_rule', 'series_id')"
+    );
+    
+    if (!columnCheck || columnCheck.count !== 2) {
+      throw new Error('Migration verification failed: repeat_rule/series_id columns not added');
+    }
+    
+    console.log('Migration V7→V8 successful: repeat_rule and series_id added to entries');
+    
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('Migration V7→V8 failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run migration from version 8 to version 9
+ * Full-text search index
+ * 
+ * CHANGES:
+ * - Creates search_index FTS5 table and its sync triggers
+ * - Indexes all existing entries and checklist items
+ * 
+ * SAFETY GUARANTEES:
+ * - Runs in transaction (automatic rollback on error)
+ * - Verifies every entry and checklist item was indexed
+ * - Idempotent (index is cleared before the backfill)
+ */
+async function migrateV8ToV9(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log('Running migration: V8 → V9 (Add search_index)');
+  
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+    
+    // Run migration SQL
+    await db.execAsync(MIGRATE_V8_TO_V9);
+    
+    // Verify every row was indexed
+    const sourceCount = await db.getFirstAsync<{ count: number }>(
+      'SELECT (SELECT COUNT(*) FROM entries) + (SELECT COUNT(*) FROM checklist_items) as count'
+    );
+    const indexCount = await db.getFirstAsync<{ count: number }>(
+      'SELECT COUNT(*) as count FROM search_index'
+    );
+    
+    if (sourceCount?.count !== indexCount?.count) {
+      throw new Error('Migration verification failed: search_index row count mismatch');
+    }
+    
+    console.log(`Migration V8→V9 successful: ${indexCount?.count ?? 0} rows indexed`);
+    
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('Migration V8→V9 failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run migration from version 9 to version 10
+ * Tags
+ * 
+ * CHANGES:
+ * - Creates tags and entry_tags tables
+ * 
+ * SAFETY GUARANTEES:
+ * - Runs in transaction (automatic rollback on error)
+ * - Only adds tables, existing rows untouched
+ * - Verifies both tables exist after migration
+ */
+async function migrateV9ToV10(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log('Running migration: V9 → V10 (Add tags, entry_tags)');
+  
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+    
+    // Run migration SQL
+    await db.execAsync(MIGRATE_V9_TO_V10);
+    
+    // Verify tables were created
+    const tableCheck = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name IN ('tags', 'entry_tags')"
+    );
+    
+    if (!tableCheck || tableCheck.count !== 2) {
+      throw new Error('Migration verification failed: tags/entry_tags tables not created');
+    }
+    
+    console.log('Migration V9→V10 successful: tags and entry_tags created');
+    
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('Migration V9→V10 failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run migration from version 10 to version 11
+ * Exchange rates
+ * 
+ * CHANGES:
+ * - Creates exchange_rates table
+ * 
+ * SAFETY GUARANTEES:
+ * - Runs in transaction (automatic rollback on error)
+ * - Only adds a table, existing rows untouched
+ * - Verifies the table exists after migration
+ */
+async function migrateV10ToV11(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log('Running migration: V10 → V11 (Add exchange_rates)');
+  
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+    
+    // Run migration SQL
+    await db.execAsync(MIGRATE_V10_TO_V11);
+    
+    // Verify table was created
+    const tableCheck = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name = 'exchange_rates'"
+    );
+    
+    if (!tableCheck || tableCheck.count !== 1) {
+      throw new Error('Migration verification failed: exchange_rates table not created');
+    }
+    
+    console.log('Migration V10→V11 successful: exchange_rates created');
+    
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('Migration V10→V11 failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run migration from version 11 to version 12
+ * Statement import profiles
+ * 
+ * CHANGES:
+ * - Creates import_profiles table
+ * 
+ * SAFETY GUARANTEES:
+ * - Runs in transaction (automatic rollback on error)
+ * - Only adds a table, existing rows untouched
+ * - Verifies the table exists after migration
+ */
+async function migrateV11ToV12(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log('Running migration: V11 → V12 (Add import_profiles)');
+  
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+    
+    // Run migration SQL
+    await db.execAsync(MIGRATE_V11_TO_V12);
+    
+    // Verify table was created
+    const tableCheck = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name = 'import_profiles'"
+    );
+    
+    if (!tableCheck || tableCheck.count !== 1) {
+      throw new Error('Migration verification failed: import_profiles table not created');
+    }
+    
+    console.log('Migration V11→V12 successful: import_profiles created');
+    
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('Migration V11→V12 failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run migration from version 12 to version 13
+ * Auto-categorization rules
+ * 
+ * CHANGES:
+ * - Creates category_rules table
+ * 
+ * SAFETY GUARANTEES:
+ * - Runs in transaction (automatic rollback on error)
+ * - Only adds a table, existing rows untouched
+ * - Verifies the table exists after migration
+ */
+async function migrateV12ToV13(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log('Running migration: V12 → V13 (Add category_rules)');
+  
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+    
+    // Run migration SQL
+    await db.execAsync(MIGRATE_V12_TO_V13);
+    
+    // Verify table was created
+    const tableCheck = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name = 'category_rules'"
+    );
+    
+    if (!tableCheck || tableCheck.count !== 1) {
+      throw new Error('Migration verification failed: category_rules table not created');
+    }
+    
+    console.log('Migration V12→V13 successful: category_rules created');
+    
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('Migration V12→V13 failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run migration from version 13 to version 14
+ * Recurring expenses
+ * 
+ * CHANGES:
+ * - Creates recurring_expenses table
+ * - Adds recurring_expense_id to expenses
+ * 
+ * SAFETY GUARANTEES:
+ * - Runs in transaction (automatic rollback on error)
+ * - Only adds a table and a nullable column, existing rows untouched
+ * - Verifies the table and column exist after migration
+ */
+async function migrateV13ToV14(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log('Running migration: V13 → V14 (Add recurring_expenses)');
+  
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+    
+    // Run migration SQL
+    await db.execAsync(MIGRATE_V13_TO_V14);
+    
+    // Verify table and column were created
+    const tableCheck = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name = 'recurring_expenses'"
+    );
+    const columnCheck = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM pragma_table_info('expenses') WHERE name = 'recurring_expense_id'"
+    );
+    
+    if (!tableCheck || tableCheck.count !== 1 || !columnCheck || columnCheck.count !== 1) {
+      throw new Error('Migration verification failed: recurring_expenses not created');
+    }
+    
+    console.log('Migration V13→V14 successful: recurring_expenses created');
+    
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('Migration V13→V14 failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run migration from version 14 to version 15
+ * Calendar (.ics) import
+ * 
+ * CHANGES:
+ * - Adds ics_uid to entries
+ * 
+ * SAFETY GUARANTEES:
+ * - Runs in transaction (automatic rollback on error)
+ * - Only adds a nullable column, existing rows untouched
+ * - Verifies the column exists after migration
+ */
+async function migrateV14ToV15(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log('Running migration: V14 → V15 (Add entries.ics_uid)');
+  
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+    
+    // Run migration SQL
+    await db.execAsync(MIGRATE_V14_TO_V15);
+    
+    // Verify column was created
+    const columnCheck = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM pragma_table_info('entries') WHERE name = 'ics_uid'"
+    );
+    
+    if (!columnCheck || columnCheck.count !== 1) {
+      throw new Error('Migration verification failed: ics_uid column not created');
+    }
+    
+    console.log('Migration V14→V15 successful: ics_uid added');
+    
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('Migration V14→V15 failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run migration from version 15 to version 16
+ * External calendars
+ * 
+ * CHANGES:
+ * - Creates calendar_feeds and calendar_events tables
+ * 
+ * SAFETY GUARANTEES:
+ * - Runs in transaction (automatic rollback on error)
+ * - Only adds tables, existing data untouched
+ * - Verifies both tables exist after migration
+ */
+async function migrateV15ToV16(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log('Running migration: V15 → V16 (Add calendar_feeds, calendar_events)');
+  
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+    
+    // Run migration SQL
+    await db.execAsync(MIGRATE_V15_TO_V16);
+    
+    // Verify tables were created
+    const tableCheck = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name IN ('calendar_feeds', 'calendar_events')"
+    );
+    
+    if (!tableCheck || tableCheck.count !== 2) {
+      throw new Error('Migration verification failed: calendar tables not created');
+    }
+    
+    console.log('Migration V15→V16 successful: calendar tables created');
+    
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('Migration V15→V16 failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run migration from version 16 to version 17
+ * Simple list mode for collections
+ * 
+ * CHANGES:
+ * - Adds is_simple_list to collections
+ * 
+ * SAFETY GUARANTEES:
+ * - Runs in transaction (automatic rollback on error)
+ * - Only adds a column with a default, existing rows untouched
+ * - Verifies the column exists after migration
+ */
+async function migrateV16ToV17(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log('Running migration: V16 → V17 (Add collections.is_simple_list)');
+  
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+    
+    // Run migration SQL
+    await db.execAsync(MIGRATE_V16_TO_V17);
+    
+    // Verify column was created
+    const columnCheck = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM pragma_table_info('collections') WHERE name = 'is_simple_list'"
+    );
+    
+    if (!columnCheck || columnCheck.count !== 1) {
+      throw new Error('Migration verification failed: is_simple_list column not created');
+    }
+    
+    console.log('Migration V16→V17 successful: is_simple_list added');
+    
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('Migration V16→V17 failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run migration from version 17 to version 18
+ * Records
+ * 
+ * CHANGES:
+ * - Adds unit to entries
+ * - Creates record_values table
+ * 
+ * SAFETY GUARANTEES:
+ * - Runs in transaction (automatic rollback on error)
+ * - Only adds a nullable column and a table, existing data untouched
+ * - Verifies both exist after migration
+ */
+async function migrateV17ToV18(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log('Running migration: V17 → V18 (Add entries.unit, record_values)');
+  
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+    
+    // Run migration SQL
+    await db.execAsync(MIGRATE_V17_TO_V18);
+    
+    // Verify column and table were created
+    const columnCheck = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM pragma_table_info('entries') WHERE name = 'unit'"
+    );
+    
+    if (!columnCheck || columnCheck.count !== 1) {
+      throw new Error('Migration verification failed: unit column not created');
+    }
+    
+    const tableCheck = await db.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name = 'record_values'"
+    );
+    
+    if (!tableCheck || tableCheck.count !== 1) {
+      throw new Error('Migration verification failed: record_values table not created');
+    }
+    
+    console.log('Migration V17→V18 successful: unit and record_values added');
+    
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('Migration V17→V18 failed:', error);
+    throw error;
+  }
+}
+
 /**
  * Initialize SQLite database with schema
  * Creates all tables and indexes, runs migrations if needed
@@ -389,6 +910,54 @@ export async function initDatabase(): Promise<SQLite.SQLiteDatabase> {
         await migrateV5ToV6(db);
       }
       
+      if (currentVersion < 7) {
+        await migrateV6ToV7(db);
+      }
+      
+      if (currentVersion < 8) {
+        await migrateV7ToV8(db);
+      }
+      
+      if (currentVersion < 9) {
+        await migrateV8ToV9(db);
+      }
+      
+      if (currentVersion < 10) {
+        await migrateV9ToV10(db);
+      }
+      
+      if (currentVersion < 11) {
+        await migrateV10ToV11(db);
+      }
+      
+      if (currentVersion < 12) {
+        await migrateV11ToV12(db);
+      }
+      
+      if (currentVersion < 13) {
+        await migrateV12ToV13(db);
+      }
+      
+      if (currentVersion < 14) {
+        await migrateV13ToV14(db);
+      }
+      
+      if (currentVersion < 15) {
+        await migrateV14ToV15(db);
+      }
+      
+      if (currentVersion < 16) {
+        await migrateV15ToV16(db);
+      }
+      
+      if (currentVersion < 17) {
+        await migrateV16ToV17(db);
+      }
+      
+      if (currentVersion < 18) {
+        await migrateV17ToV18(db);
+      }
+      
       await updateVersion(db, SCHEMA_VERSION);
       console.log(`Schema updated to version ${SCHEMA_VERSION}`);
     } else {
@@ -455,6 +1024,16 @@ export async function resetDatabase(): Promise<void> {
     await db.execAsync('DROP TABLE IF EXISTS reminders;');
     await db.execAsync('DROP TABLE IF EXISTS budget_categories;');
     await db.execAsync('DROP TABLE IF EXISTS expenses;');
+    await db.execAsync('DROP TABLE IF EXISTS search_index;');
+    await db.execAsync('DROP TABLE IF EXISTS entry_tags;');
+    await db.execAsync('DROP TABLE IF EXISTS tags;');
+    await db.execAsync('DROP TABLE IF EXISTS exchange_rates;');
+    await db.execAsync('DROP TABLE IF EXISTS import_profiles;');
+    await db.execAsync('DROP TABLE IF EXISTS category_rules;');
+    await db.execAsync('DROP TABLE IF EXISTS recurring_expenses;');
+    await db.execAsync('DROP TABLE IF EXISTS calendar_events;');
+    await db.execAsync('DROP TABLE IF EXISTS calendar_feeds;');
+    await db.execAsync('DROP TABLE IF EXISTS record_values;');
     await db.execAsync('DROP TABLE IF EXISTS app_metadata;');
     
     await db.execAsync('COMMIT;');
@@ -1,13 +1,61 @@
 import * as Crypto from 'expo-crypto';
 import { getDatabase } from './database';
+import { SCHEMA_VERSION } from './schema';
 import type { 
-  Task, Collection, Note, Checklist, ChecklistItem, ChecklistWithStats,
-  CreateNote, UpdateNote, CreateChecklist, UpdateChecklist, CreateChecklistItem, UpdateChecklistItem 
+  Task, Collection, CollectionItem, Note, Checklist, ChecklistItem, ChecklistWithStats,
+  RecordEntry, RecordValue, RecordWithStats,
+  CreateNote, UpdateNote, CreateChecklist, UpdateChecklist, CreateChecklistItem, UpdateChecklistItem,
+  TrashItem, TrashGroup, Reminder, UpdateReminder, SearchFilters, SearchResult, Tag,
+  BackupDocument, BackupRow, BackupTable, BackupImportMode, BackupImportResult, CollectionExport,
+  Expense, CreateExpense, UpdateExpense, BudgetCategory, CreateBudgetCategory, UpdateBudgetCategory,
+  CategorySpend, ExchangeRate, ExchangeRateImportResult,
+  ImportProfile, StatementMapping, StatementImportResult, CategoryRule, CreateCategoryRule,
+  RecurringExpense, CreateRecurringExpense, IcsImportResult,
+  CalendarFeed, CalendarEvent, CalendarOccurrence, CreateCalendarEvent, CalendarFeedImportResult,
+  UndoSnapshot
 } from '../types/models';
 import { normalizeNameCanonical, normalizeNameDisplay } from '../utils/validation';
+import { getCurrentTimestamp } from '../utils/uuid';
+import { formatCurrency } from '../utils/formatting';
+import { DEFAULT_CURRENCY } from '../utils/expenses';
+import type { ExchangeRateInput } from '../utils/currency';
+import { findDuplicates, StatementRow } from '../utils/statement';
+import { applyRules, hasRuleAction, hasRuleCondition } from '../utils/rules';
+import { anchorRepeatRule, getNextOccurrence, parseRepeatRule } from '../utils/recurrence';
+import { getDueCharges, getNextChargeFrom } from '../utils/subscriptions';
+import { buildFtsQuery, hasHighlight } from '../utils/search';
+import { getTaskIcsUid, IcsTask } from '../utils/ics';
+import { getEventOccurrences } from '../utils/calendarEvents';
+import { extractInlineTags, normalizeTagName, normalizeTagNames } from '../utils/tags';
+import { RECORD_SPARKLINE_POINTS } from '../utils/records';
+import { BACKUP_FORMAT, BACKUP_TABLES } from '../utils/backup';
+import { getReminderScheduler } from '../notifications/scheduler';
+import {
+  PickedReceipt,
+  saveReceiptFile,
+  deleteReceiptFile,
+  readReceiptFiles,
+  writeReceiptFiles,
+  deleteUnusedReceiptFiles,
+} from '../receipts/storage';
 
 export interface TaskWithCollectionName extends Task {
   collection_name?: string;
+  subtasks?: TaskWithCollectionName[];  // Tree mode only (getAllActiveTasks({ tree: true }))
+}
+
+export interface ExpenseWithCategory extends Expense {
+  category_name?: string;
+  category_icon?: string;
+}
+
+export interface RecurringExpenseWithCategory extends RecurringExpense {
+  category_name?: string;
+  category_icon?: string;
+}
+
+export interface CalendarFeedWithCount extends CalendarFeed {
+  event_count: number;
 }
 
 // ========== SORT ORDER HELPERS (TICKET 16) ==========
@@ -19,18 +67,21 @@ export interface TaskWithCollectionName extends Task {
  * TICKET 16: Drag & Drop Entry Reordering
  */
 async function shiftEntriesDown(db: any, collectionId: string | null | undefined): Promise<void> {
+  const now = getCurrentTimestamp();
+
   if (collectionId) {
     await db.runAsync(
       `UPDATE entries 
-       SET sort_order = sort_order + 1, updated_at = datetime('now')
+       SET sort_order = sort_order + 1, updated_at = ?
        WHERE collection_id = ? AND deleted_at IS NULL`,
-      [collectionId]
+      [now, collectionId]
     );
   } else {
     await db.runAsync(
       `UPDATE entries 
-       SET sort_order = sort_order + 1, updated_at = datetime('now')
-       WHERE collection_id IS NULL AND deleted_at IS NULL`
+       SET sort_order = sort_order + 1, updated_at = ?
+       WHERE collection_id IS NULL AND deleted_at IS NULL`,
+      [now]
     );
   }
 }
@@ -45,6 +96,7 @@ export async function updateEntrySortOrders(
   updates: { id: string; sort_order: number }[]
 ): Promise<void> {
   const db = await getDatabase();
+  const now = getCurrentTimestamp();
   
   await db.execAsync('BEGIN TRANSACTION;');
   
@@ -52,9 +104,9 @@ export async function updateEntrySortOrders(
     for (const { id, sort_order } of updates) {
       await db.runAsync(
         `UPDATE entries 
-         SET sort_order = ?, updated_at = datetime('now')
+         SET sort_order = ?, updated_at = ?
          WHERE id = ?`,
-        [sort_order, id]
+        [sort_order, now, id]
       );
     }
     
@@ -67,19 +119,47 @@ export async function updateEntrySortOrders(
 
 // ========== TASK OPERATIONS ==========
 
+/**
+ * Soonest pending reminder of a task, for SELECTs over entries aliased `alias`
+ */
+const PENDING_REMINDER_TIME_SQL = (alias: string) => `(
+  SELECT MIN(r.trigger_time) FROM reminders r
+  WHERE r.task_id = ${alias}.id AND r.is_dismissed = 0 AND r.deleted_at IS NULL
+)`;
+
+/**
+ * Rolled-up subtask progress, for SELECTs over entries aliased `alias`
+ * Adds subtask_count and subtask_completed_count columns
+ */
+const SUBTASK_COUNTS_SQL = (alias: string) => `(
+  SELECT COUNT(*) FROM entries s
+  WHERE s.parent_task_id = ${alias}.id AND s.type = 'task' AND s.deleted_at IS NULL
+) AS subtask_count, (
+  SELECT COUNT(*) FROM entries s
+  WHERE s.parent_task_id = ${alias}.id AND s.type = 'task' AND s.deleted_at IS NULL AND s.completed = 1
+) AS subtask_completed_count`;
+
 /**
  * Get all tasks for a specific list
  * Returns tasks sorted by: completed status → sort_order → created date
  * 
  * VERSION 2: Updated to query entries table with type filter
  * VERSION 6 (TICKET 16): Updated to order by sort_order
+ * Flat list: subtasks are included (parent_task_id set) with their parents'
+ * rolled-up subtask_count / subtask_completed_count
  */
 export async function getTasksByCollectionId(collectionId: string): Promise<Task[]> {
   const db = await getDatabase();
   const rows = await db.getAllAsync<any>(
-    `SELECT * FROM entries 
-     WHERE collection_id = ? AND type = 'task' AND deleted_at IS NULL 
-     ORDER BY completed ASC, sort_order ASC, created_at DESC`,
+    `SELECT e.*, ${PENDING_REMINDER_TIME_SQL('e')} AS reminder_time, ${SUBTASK_COUNTS_SQL('e')}
+     FROM entries e
+     WHERE e.collection_id = ? AND e.type = 'task' AND e.deleted_at IS NULL 
+     ORDER BY e.completed ASC, e.sort_order ASC, e.created_at DESC`,
+    [collectionId]
+  );
+  const tagMap = await getEntryTagMap(
+    db,
+    `e.collection_id = ? AND e.type = 'task' AND e.deleted_at IS NULL`,
     [collectionId]
   );
   
@@ -95,6 +175,13 @@ export async function getTasksByCollectionId(collectionId: string): Promise<Task
     collection_id: row.collection_id,
     parent_task_id: row.parent_task_id,
     snoozed_until: row.snoozed_until,
+    repeat_rule: row.repeat_rule ?? undefined,
+    series_id: row.series_id ?? undefined,
+    ics_uid: row.ics_uid ?? undefined,
+    reminder_time: row.reminder_time ?? undefined,
+    subtask_count: row.subtask_count ?? 0,
+    subtask_completed_count: row.subtask_completed_count ?? 0,
+    tags: tagMap.get(row.id) ?? [],
     sort_order: row.sort_order,
     created_at: row.created_at,
     updated_at: row.updated_at,
@@ -125,6 +212,7 @@ export async function getAllCollections(): Promise<Collection[]> {
     is_pinned: row.is_pinned === 1,
     is_archived: row.is_archived === 1,
     is_system: row.is_system === 1,
+    is_simple_list: row.is_simple_list === 1,
     created_at: row.created_at,
     updated_at: row.updated_at,
     deleted_at: row.deleted_at,
@@ -191,7 +279,7 @@ export async function createCollection(input: {
     throw new Error('A collection with this name already exists');
   }
   
-  const now = Date.now();
+  const now = getCurrentTimestamp();
   const id = Crypto.randomUUID();
 
   await db.runAsync(
@@ -220,6 +308,7 @@ export async function createCollection(input: {
     is_pinned: input.is_pinned,
     is_archived: input.is_archived,
     is_system: input.is_system ?? false,
+    is_simple_list: false,
     created_at: now,
     updated_at: now,
   };
@@ -253,7 +342,7 @@ export async function renameCollection(collectionId: string, newName: string): P
     throw new Error('A collection with this name already exists');
   }
   
-  const now = Date.now();
+  const now = getCurrentTimestamp();
   
   await db.runAsync(
     'UPDATE collections SET name = ?, updated_at = ? WHERE id = ? AND is_system = 0',
@@ -262,12 +351,20 @@ export async function renameCollection(collectionId: string, newName: string): P
 }
 
 /**
- * Soft-delete a list and all its entries
+ * Soft-delete a collection and all its entries
  * 
  * VERSION 2: Updated to reference entries table
+ * 
+ * Deletion is separate from archiving (see archiveCollection):
+ * the collection gets deleted_at and moves to Trash.
+ * 
+ * The collection, its active entries, their checklist items and pending reminders all share the
+ * SAME deleted_at value. restoreCollection relies on this to bring back exactly
+ * the entries this deletion took down - entries deleted earlier stay in Trash.
  */
 export async function deleteCollection(collectionId: string): Promise<void> {
   const db = await getDatabase();
+  const now = getCurrentTimestamp();
 
   // Use transaction to ensure atomicity
   await db.execAsync('BEGIN TRANSACTION;');
@@ -276,24 +373,138 @@ export async function deleteCollection(collectionId: string): Promise<void> {
     // Soft-delete the collection
     await db.runAsync(
       `UPDATE collections
-       SET is_archived = 1, updated_at = datetime('now')
-       WHERE id = ?`,
-      [collectionId]
+       SET deleted_at = ?, updated_at = ?
+       WHERE id = ? AND is_system = 0 AND deleted_at IS NULL`,
+      [now, now, collectionId]
+    );
+
+    // Soft-delete active checklist items of checklists in this collection
+    await db.runAsync(
+      `UPDATE checklist_items
+       SET deleted_at = ?, updated_at = ?
+       WHERE deleted_at IS NULL
+         AND checklist_id IN (
+           SELECT id FROM entries
+           WHERE collection_id = ? AND type = 'checklist' AND deleted_at IS NULL
+         )`,
+      [now, now, collectionId]
     );
 
-    // Soft-delete all entries in this list (tasks, notes, checklists)
+    // Soft-delete all entries in this collection (tasks, notes, checklists)
     await db.runAsync(
       `UPDATE entries
-       SET deleted_at = datetime('now'), updated_at = datetime('now')
+       SET deleted_at = ?, updated_at = ?
        WHERE collection_id = ? AND deleted_at IS NULL`,
-      [collectionId]
+      [now, now, collectionId]
+    );
+
+    // Take down reminders of those tasks with the same deleted_at,
+    // so restoreCollection can bring them back
+    await db.runAsync(
+      `UPDATE reminders
+       SET deleted_at = ?, updated_at = ?
+       WHERE is_dismissed = 0 AND deleted_at IS NULL
+         AND task_id IN (SELECT id FROM entries WHERE collection_id = ? AND deleted_at = ?)`,
+      [now, now, collectionId, now]
     );
 
     await db.execAsync('COMMIT;');
+    console.log(`🗑️ Deleted collection ${collectionId} (moved to Trash)`);
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    throw error;
+  }
+
+  await syncReminderNotifications();
+}
+
+/**
+ * Restore a deleted collection together with the entries it took down
+ * 
+ * Only entries (and checklist items, reminders) whose deleted_at matches the collection's
+ * deleted_at are restored - see deleteCollection.
+ * 
+ * If another collection took the name in the meantime, the restored one is
+ * renamed to "Name (restored)" to keep names unique (Ticket 12 contract).
+ * 
+ * @param collectionId - ID of the deleted collection
+ */
+export async function restoreCollection(collectionId: string): Promise<void> {
+  const db = await getDatabase();
+
+  await db.execAsync('BEGIN TRANSACTION;');
+
+  try {
+    await restoreCollectionRows(db, collectionId, getCurrentTimestamp());
+    await db.execAsync('COMMIT;');
+    console.log(`♻️ Restored collection ${collectionId}`);
   } catch (error) {
     await db.execAsync('ROLLBACK;');
     throw error;
   }
+
+  await syncReminderNotifications();
+}
+
+/**
+ * Restore collection rows (no transaction - callers own it)
+ * Shared by restoreCollection and restoreTrashItems
+ */
+async function restoreCollectionRows(db: any, collectionId: string, now: number): Promise<void> {
+  const collection = await db.getFirstAsync(
+    'SELECT name, deleted_at FROM collections WHERE id = ? AND deleted_at IS NOT NULL',
+    [collectionId]
+  ) as { name: string; deleted_at: number } | null;
+
+  if (!collection) {
+    return;
+  }
+
+  let name = collection.name;
+  let attempt = 1;
+  while (await collectionNameExists(name)) {
+    name = attempt === 1
+      ? `${collection.name} (restored)`
+      : `${collection.name} (restored ${attempt})`;
+    attempt++;
+  }
+
+  await db.runAsync(
+    `UPDATE collections
+     SET deleted_at = NULL, name = ?, updated_at = ?
+     WHERE id = ?`,
+    [name, now, collectionId]
+  );
+
+  await db.runAsync(
+    `UPDATE checklist_items
+     SET deleted_at = NULL, updated_at = ?
+     WHERE deleted_at = ?
+       AND checklist_id IN (
+         SELECT id FROM entries
+         WHERE collection_id = ? AND type = 'checklist' AND deleted_at = ?
+       )`,
+    [now, collection.deleted_at, collectionId, collection.deleted_at]
+  );
+
+  // Before the entries, which the match relies on
+  await db.runAsync(
+    `UPDATE reminders
+     SET deleted_at = NULL, updated_at = ?
+     WHERE deleted_at = ?
+       AND task_id IN (
+         SELECT id FROM entries
+         WHERE collection_id = ? AND deleted_at = ?
+       )`,
+    [now, collection.deleted_at, collectionId, collection.deleted_at]
+  );
+
+  await db.runAsync(
+    `UPDATE entries
+     SET deleted_at = NULL, updated_at = ?
+     WHERE collection_id = ? AND deleted_at = ?`,
+    [now, collectionId, collection.deleted_at]
+  );
 }
 
 // ========== TASK OPERATIONS ==========
@@ -302,14 +513,23 @@ export async function deleteCollection(collectionId: string): Promise<void> {
  * Create a new task
  * 
  * VERSION 2: Updated to insert into entries table with type='task'
+ * VERSION 8: Optional repeat_rule - a recurring task starts its own series
+ * VERSION 10: Optional tags (names); inline #tags are moved from the title to tags
+ * Optional reminder_time creates a linked reminder ("Remind me")
  */
 export async function createTask(input: {
   title: string;
   collection_id: string;
   due_date?: number;
   calm_priority?: number;
+  repeat_rule?: string;
+  reminder_time?: number;
+  tags?: string[];
 }): Promise<void> {
   const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  const id = Crypto.randomUUID();
+  const { title, tags } = extractInlineTags(input.title);
 
   // Shift existing entries down (new entry goes to top)
   await shiftEntriesDown(db, input.collection_id);
@@ -323,24 +543,191 @@ export async function createTask(input: {
       due_date,
       calm_priority,
       completed,
+      repeat_rule,
+      series_id,
       sort_order,
       created_at,
       updated_at
-    ) VALUES (?, 'task', ?, ?, ?, ?, 0, 0, datetime('now'), datetime('now'))`,
+    ) VALUES (?, 'task', ?, ?, ?, ?, 0, ?, ?, 0, ?, ?)`,
     [
-      Crypto.randomUUID(),
-      input.title,
+      id,
+      title,
       input.collection_id,
       input.due_date ?? null,
       input.calm_priority ?? 2,
+      input.repeat_rule ?? null,
+      input.repeat_rule ? id : null,
+      now,
+      now,
+    ]
+  );
+
+  await saveEntryTags(db, id, [...tags, ...(input.tags ?? [])], now);
+
+  if (input.reminder_time) {
+    await insertReminder(db, { title, trigger_time: input.reminder_time, task_id: id }, now);
+    await syncReminderNotifications();
+  }
+}
+
+/**
+ * Create a subtask under a task
+ * 
+ * - Subtasks live in the parent's collection and are listed after their
+ *   siblings (they are not top-level entries, so nothing is shifted)
+ * - One level only: a subtask of a subtask is attached to the top-level parent
+ * - Inline #tags are moved from the title to tags
+ */
+export async function createSubtask(input: {
+  parent_task_id: string;
+  title: string;
+}): Promise<void> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  const parent = await db.getFirstAsync<any>(
+    `SELECT id, collection_id, parent_task_id FROM entries
+     WHERE id = ? AND type = 'task' AND deleted_at IS NULL`,
+    [input.parent_task_id]
+  );
+
+  if (!parent) {
+    throw new Error('Parent task not found');
+  }
+
+  const parentId: string = parent.parent_task_id ?? parent.id;
+  const id = Crypto.randomUUID();
+  const { title, tags } = extractInlineTags(input.title);
+
+  const last = await db.getFirstAsync<{ max_order: number | null }>(
+    `SELECT MAX(sort_order) as max_order FROM entries
+     WHERE parent_task_id = ? AND deleted_at IS NULL`,
+    [parentId]
+  );
+
+  await db.runAsync(
+    `INSERT INTO entries (
+      id, type, title, collection_id, parent_task_id, calm_priority,
+      completed, sort_order, created_at, updated_at
+    ) VALUES (?, 'task', ?, ?, ?, 2, 0, ?, ?, ?)`,
+    [
+      id,
+      title,
+      parent.collection_id,
+      parentId,
+      (last?.max_order ?? -1) + 1,
+      now,
+      now,
+    ]
+  );
+
+  await saveEntryTags(db, id, tags, now);
+}
+
+/**
+ * Create the next occurrence of a recurring task
+ * Called by updateTask (inside its transaction) when a recurring task is completed
+ * 
+ * - Copies title, notes, priority, collection, tags and rule; new entry goes to top
+ * - Next due_date follows the rule from the completed occurrence's due_date,
+ *   skipping occurrences already in the past (completing a task that is
+ *   3 days overdue does not create 3 more overdue copies)
+ * - Skipped when the series already has a pending occurrence
+ *   (complete → un-complete → complete again)
+ */
+async function createNextOccurrence(db: any, task: any, now: number): Promise<void> {
+  const seriesId: string = task.series_id ?? task.id;
+
+  const pending = await db.getFirstAsync(
+    `SELECT id FROM entries
+     WHERE series_id = ? AND id != ? AND type = 'task' AND completed = 0 AND deleted_at IS NULL
+     LIMIT 1`,
+    [seriesId, task.id]
+  ) as { id: string } | null;
+
+  if (pending) {
+    return;
+  }
+
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+
+  const dueDate = getNextOccurrence(
+    task.repeat_rule,
+    task.due_date ?? startOfToday.getTime(),
+    startOfToday.getTime()
+  );
+
+  if (dueDate === null) {
+    console.warn(`Invalid repeat_rule "${task.repeat_rule}" on task ${task.id}, not repeating`);
+    return;
+  }
+
+  if (!task.series_id) {
+    await db.runAsync('UPDATE entries SET series_id = ? WHERE id = ?', [seriesId, task.id]);
+  }
+
+  await shiftEntriesDown(db, task.collection_id);
+
+  const nextId = Crypto.randomUUID();
+
+  await db.runAsync(
+    `INSERT INTO entries (
+      id, type, title, notes, collection_id, due_date, calm_priority,
+      completed, repeat_rule, series_id, sort_order, created_at, updated_at
+    ) VALUES (?, 'task', ?, ?, ?, ?, ?, 0, ?, ?, 0, ?, ?)`,
+    [
+      nextId,
+      task.title,
+      task.notes ?? null,
+      task.collection_id ?? null,
+      dueDate,
+      task.calm_priority ?? 2,
+      // Pinned to this occurrence's day, so a Feb 28 next year doesn't become the series' day
+      anchorRepeatRule(task.repeat_rule, task.due_date ?? startOfToday.getTime()) ?? task.repeat_rule,
+      seriesId,
+      now,
+      now,
     ]
   );
+
+  await db.runAsync(
+    `INSERT INTO entry_tags (entry_id, tag_id, created_at)
+     SELECT ?, tag_id, ? FROM entry_tags WHERE entry_id = ?`,
+    [nextId, now, task.id]
+  );
+
+  // Carry the reminder over, same offset from the due date
+  const reminder = await db.getFirstAsync(
+    `SELECT trigger_time FROM reminders
+     WHERE task_id = ? AND is_dismissed = 0 AND deleted_at IS NULL
+     ORDER BY trigger_time ASC LIMIT 1`,
+    [task.id]
+  ) as { trigger_time: number } | null;
+
+  if (reminder && task.due_date) {
+    await insertReminder(db, {
+      title: task.title,
+      trigger_time: dueDate - (task.due_date - reminder.trigger_time),
+      task_id: nextId,
+    }, now);
+  }
 }
 
 /**
- * Update task (supports completion toggle, title edit, due date, and priority)
+ * Update task (supports completion toggle, title edit, due date, priority and repeat)
  * 
  * VERSION 2: Updated to query entries table with type filter
+ * VERSION 8: Completing a recurring task creates its next occurrence.
+ *            Removing the due date also stops the repeat (rules are anchored to it).
+ * 
+ * Reminders: completing the task cancels them, moving the due date moves them
+ * by the same amount, removing the due date cancels them.
+ * 
+ * Tags: `tags` replaces the task's tags; inline #tags in a new title are
+ * moved from the title to tags (added to the existing ones).
+ * 
+ * @returns An undo snapshot when `completed` is given (see undoChange), else null
  */
 export async function updateTask(input: {
   id: string;
@@ -348,8 +735,25 @@ export async function updateTask(input: {
   title?: string;
   due_date?: number | null;
   calm_priority?: number;
-}): Promise<void> {
+  repeat_rule?: string | null;
+  snoozed_until?: number | null;
+  include_subtasks?: boolean;  // Completing: also complete the task's open subtasks
+  tags?: string[];
+}): Promise<UndoSnapshot | null> {
   const db = await getDatabase();
+  // Taken first: occurrences created below are newer than the snapshot
+  const snapshot = input.completed !== undefined ? await captureUndoSnapshot(db, input.id) : null;
+  const now = getCurrentTimestamp();
+  const inline = input.title !== undefined ? extractInlineTags(input.title) : null;
+
+  // Read the current row only when completing (next occurrence, reminders)
+  // or rescheduling (reminders follow the due date)
+  const current = input.completed || input.due_date !== undefined
+    ? await db.getFirstAsync<any>(
+        `SELECT * FROM entries WHERE id = ? AND type = 'task' AND deleted_at IS NULL`,
+        [input.id]
+      )
+    : null;
 
   // Build dynamic update query based on provided fields
   const updates: string[] = [];
@@ -360,15 +764,16 @@ export async function updateTask(input: {
     values.push(input.completed ? 1 : 0);
     
     if (input.completed) {
-      updates.push("completed_at = datetime('now')");
+      updates.push('completed_at = ?');
+      values.push(now);
     } else {
       updates.push('completed_at = NULL');
     }
   }
 
-  if (input.title !== undefined) {
+  if (inline) {
     updates.push('title = ?');
-    values.push(input.title);
+    values.push(inline.title);
   }
 
   if (input.due_date !== undefined) {
@@ -381,36 +786,127 @@ export async function updateTask(input: {
     values.push(input.calm_priority);
   }
 
+  if (input.repeat_rule !== undefined) {
+    updates.push('repeat_rule = ?');
+    values.push(input.repeat_rule);
+
+    if (input.repeat_rule) {
+      updates.push('series_id = COALESCE(series_id, id)');
+    }
+  } else if (input.due_date === null) {
+    updates.push('repeat_rule = NULL');
+  }
+
+  // Snoozing hides the task without touching due_date (null = unsnooze)
+  if (input.snoozed_until !== undefined) {
+    updates.push('snoozed_until = ?');
+    values.push(input.snoozed_until);
+  }
+
   // Always update the updated_at timestamp
-  updates.push("updated_at = datetime('now')");
+  updates.push('updated_at = ?');
+  values.push(getCurrentTimestamp());
 
   // Add the id at the end for WHERE clause
   values.push(input.id);
 
-  await db.runAsync(
-    `UPDATE entries
-     SET ${updates.join(', ')}
-     WHERE id = ? AND type = 'task'`,
-    values
-  );
+  await db.execAsync('BEGIN TRANSACTION;');
+
+  try {
+    await db.runAsync(
+      `UPDATE entries
+       SET ${updates.join(', ')}
+       WHERE id = ? AND type = 'task'`,
+      values
+    );
+
+    if (input.tags !== undefined || inline?.tags.length) {
+      await saveEntryTags(db, input.id, [...(input.tags ?? []), ...(inline?.tags ?? [])], now, input.tags !== undefined);
+    }
+
+    if (current && input.completed && current.completed === 0) {
+      if (current.repeat_rule) {
+        await createNextOccurrence(db, current, now);
+      }
+      await cancelTaskReminders(db, input.id, now);
+
+      if (input.include_subtasks) {
+        const openSubtasks = await db.getAllAsync<{ id: string }>(
+          `SELECT id FROM entries
+           WHERE parent_task_id = ? AND type = 'task' AND completed = 0 AND deleted_at IS NULL`,
+          [input.id]
+        );
+
+        for (const subtask of openSubtasks) {
+          await db.runAsync(
+            `UPDATE entries SET completed = 1, completed_at = ?, updated_at = ? WHERE id = ?`,
+            [now, now, subtask.id]
+          );
+          await cancelTaskReminders(db, subtask.id, now);
+        }
+      }
+    } else if (current && input.due_date === null) {
+      await cancelTaskReminders(db, input.id, now);
+    } else if (current && input.due_date && current.due_date) {
+      await db.runAsync(
+        `UPDATE reminders
+         SET trigger_time = trigger_time + ?, updated_at = ?
+         WHERE task_id = ? AND is_dismissed = 0 AND deleted_at IS NULL`,
+        [input.due_date - current.due_date, now, input.id]
+      );
+    }
+
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    throw error;
+  }
+
+  if (current) {
+    await syncReminderNotifications();
+  }
+
+  return snapshot;
 }
 
 /**
  * Soft-delete a task
  * 
  * VERSION 2: Updated to reference entries table with type filter
+ * Its pending reminders and its subtasks go to Trash with it (same deleted_at).
+ * @returns Undo snapshot (see undoChange)
  */
-export async function deleteTask(taskId: string): Promise<void> {
+export async function deleteTask(taskId: string): Promise<UndoSnapshot> {
   const db = await getDatabase();
+  const snapshot = await captureUndoSnapshot(db, taskId);
+  const now = getCurrentTimestamp();
+
+  const subtasks = await db.getAllAsync<{ id: string }>(
+    `SELECT id FROM entries
+     WHERE parent_task_id = ? AND type = 'task' AND deleted_at IS NULL`,
+    [taskId]
+  );
 
   await db.runAsync(
     `UPDATE entries
-     SET deleted_at = datetime('now'), updated_at = datetime('now')
-     WHERE id = ? AND type = 'task'`,
-    [taskId]
+     SET deleted_at = ?, updated_at = ?
+     WHERE (id = ? OR (parent_task_id = ? AND deleted_at IS NULL)) AND type = 'task'`,
+    [now, now, taskId, taskId]
   );
+
+  // Same deleted_at as the tasks, so restoreTrashItems can bring them back
+  const taskIds = [taskId, ...subtasks.map(subtask => subtask.id)];
+  await db.runAsync(
+    `UPDATE reminders
+     SET deleted_at = ?, updated_at = ?
+     WHERE is_dismissed = 0 AND deleted_at IS NULL
+       AND task_id IN (${taskIds.map(() => '?').join(', ')})`,
+    [now, now, ...taskIds]
+  );
+  await syncReminderNotifications();
   
   await cleanupUnsortedCollectionIfEmpty();
+  return snapshot;
 }
 
 /**
@@ -418,20 +914,35 @@ export async function deleteTask(taskId: string): Promise<void> {
  * Includes collection name via JOIN
  * 
  * VERSION 2: Updated to query entries table with type filter
+ * 
+ * Tasks in archived collections are hidden. Unsorted is exempt: it is
+ * auto-archived when it has no active entries, but its completed tasks stay visible.
+ * 
+ * Subtasks:
+ * - Flat (default): parents and subtasks side by side
+ * - Tree ({ tree: true }): top-level tasks only, each with its `subtasks`.
+ *   Use this for counts so subtasks are not counted twice. Subtasks whose
+ *   parent is not in the result (e.g. deleted) are returned as top-level.
  */
-export async function getAllActiveTasks(): Promise<TaskWithCollectionName[]> {
+export async function getAllActiveTasks(
+  options: { tree?: boolean } = {}
+): Promise<TaskWithCollectionName[]> {
   const db = await getDatabase();
   const rows = await db.getAllAsync<any>(
     `SELECT 
       t.*,
-      l.name as list_name
+      l.name as list_name,
+      ${PENDING_REMINDER_TIME_SQL('t')} AS reminder_time,
+      ${SUBTASK_COUNTS_SQL('t')}
      FROM entries t
      LEFT JOIN collections l ON t.collection_id = l.id
      WHERE t.type = 'task' AND t.deleted_at IS NULL
+       AND (l.id IS NULL OR l.is_archived = 0 OR l.is_system = 1)
      ORDER BY t.completed ASC, t.sort_order ASC, t.created_at DESC`
   );
+  const tagMap = await getEntryTagMap(db, `e.type = 'task' AND e.deleted_at IS NULL`, []);
   
-  return rows.map(row => ({
+  const tasks: TaskWithCollectionName[] = rows.map(row => ({
     id: row.id,
     type: 'task' as const,
     title: row.title,
@@ -443,12 +954,45 @@ export async function getAllActiveTasks(): Promise<TaskWithCollectionName[]> {
     collection_id: row.collection_id,
     parent_task_id: row.parent_task_id,
     snoozed_until: row.snoozed_until,
+    repeat_rule: row.repeat_rule ?? undefined,
+    series_id: row.series_id ?? undefined,
+    ics_uid: row.ics_uid ?? undefined,
+    reminder_time: row.reminder_time ?? undefined,
+    subtask_count: row.subtask_count ?? 0,
+    subtask_completed_count: row.subtask_completed_count ?? 0,
+    tags: tagMap.get(row.id) ?? [],
     sort_order: row.sort_order,
     created_at: row.created_at,
     updated_at: row.updated_at,
     deleted_at: row.deleted_at,
     list_name: row.list_name,
   }));
+
+  return options.tree ? nestSubtasks(tasks) : tasks;
+}
+
+/**
+ * Group subtasks under their parents (one level)
+ * Subtasks keep their sibling order (sort_order); orphans become top-level.
+ */
+function nestSubtasks(tasks: TaskWithCollectionName[]): TaskWithCollectionName[] {
+  const byId = new Map(tasks.map(task => [task.id, { ...task, subtasks: [] as TaskWithCollectionName[] }]));
+  const roots: TaskWithCollectionName[] = [];
+
+  for (const task of byId.values()) {
+    const parent = task.parent_task_id ? byId.get(task.parent_task_id) : undefined;
+    if (parent) {
+      parent.subtasks.push(task);
+    } else {
+      roots.push(task);
+    }
+  }
+
+  for (const task of byId.values()) {
+    task.subtasks.sort((a, b) => a.sort_order - b.sort_order);
+  }
+
+  return roots;
 }
 
 // ========== NOTE OPERATIONS ==========
@@ -457,9 +1001,13 @@ export async function getAllActiveTasks(): Promise<TaskWithCollectionName[]> {
  * Create a new note
  * 
  * VERSION 2.1: First non-task entry type (Ticket 8B)
+ * VERSION 10: Optional tags (names); inline #tags are moved from the title to tags
  */
-export async function createNote(input: CreateNote): Promise<void> {
+export async function createNote(input: CreateNote & { tags?: string[] }): Promise<void> {
   const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  const id = Crypto.randomUUID();
+  const { title, tags } = extractInlineTags(input.title);
 
   // Shift existing entries down (new entry goes to top)
   await shiftEntriesDown(db, input.collection_id);
@@ -474,28 +1022,35 @@ export async function createNote(input: CreateNote): Promise<void> {
       sort_order,
       created_at,
       updated_at
-    ) VALUES (?, 'note', ?, ?, ?, 0, datetime('now'), datetime('now'))`,
+    ) VALUES (?, 'note', ?, ?, ?, 0, ?, ?)`,
     [
-      Crypto.randomUUID(),
-      input.title,
+      id,
+      title,
       input.notes ?? null,
       input.collection_id ?? null,
+      now,
+      now,
     ]
   );
+
+  await saveEntryTags(db, id, [...tags, ...(input.tags ?? [])], now);
 }
 
 /**
- * Update note (title and/or body)
+ * Update note (title, body and/or tags)
+ * `tags` replaces the note's tags; inline #tags in a new title are added
  */
-export async function updateNote(input: UpdateNote): Promise<void> {
+export async function updateNote(input: UpdateNote & { tags?: string[] }): Promise<void> {
   const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  const inline = input.title !== undefined ? extractInlineTags(input.title) : null;
 
   const updates: string[] = [];
   const values: any[] = [];
 
-  if (input.title !== undefined) {
+  if (inline) {
     updates.push('title = ?');
-    values.push(input.title);
+    values.push(inline.title);
   }
 
   if (input.notes !== undefined) {
@@ -504,7 +1059,8 @@ export async function updateNote(input: UpdateNote): Promise<void> {
   }
 
   // Always update the updated_at timestamp
-  updates.push("updated_at = datetime('now')");
+  updates.push('updated_at = ?');
+  values.push(now);
 
   // Add the id at the end for WHERE clause
   values.push(input.id);
@@ -515,22 +1071,30 @@ export async function updateNote(input: UpdateNote): Promise<void> {
      WHERE id = ? AND type = 'note'`,
     values
   );
+
+  if (input.tags !== undefined || inline?.tags.length) {
+    await saveEntryTags(db, input.id, [...(input.tags ?? []), ...(inline?.tags ?? [])], now, input.tags !== undefined);
+  }
 }
 
 /**
  * Soft-delete a note
+ * @returns Undo snapshot (see undoChange)
  */
-export async function deleteNote(noteId: string): Promise<void> {
+export async function deleteNote(noteId: string): Promise<UndoSnapshot> {
   const db = await getDatabase();
+  const snapshot = await captureUndoSnapshot(db, noteId);
+  const now = getCurrentTimestamp();
 
   await db.runAsync(
     `UPDATE entries
-     SET deleted_at = datetime('now'), updated_at = datetime('now')
+     SET deleted_at = ?, updated_at = ?
      WHERE id = ? AND type = 'note'`,
-    [noteId]
+    [now, now, noteId]
   );
   
   await cleanupUnsortedCollectionIfEmpty();
+  return snapshot;
 }
 
 /**
@@ -544,6 +1108,11 @@ export async function getNotesByCollectionId(collectionId: string): Promise<Note
      ORDER BY sort_order ASC, created_at DESC`,
     [collectionId]
   );
+  const tagMap = await getEntryTagMap(
+    db,
+    `e.collection_id = ? AND e.type = 'note' AND e.deleted_at IS NULL`,
+    [collectionId]
+  );
   
   return rows.map(row => ({
     id: row.id,
@@ -551,6 +1120,7 @@ export async function getNotesByCollectionId(collectionId: string): Promise<Note
     title: row.title,
     notes: row.notes,
     collection_id: row.collection_id,
+    tags: tagMap.get(row.id) ?? [],
     sort_order: row.sort_order,
     created_at: row.created_at,
     updated_at: row.updated_at,
@@ -571,15 +1141,19 @@ export async function getNotesByCollectionId(collectionId: string): Promise<Note
  * @param input.title - Checklist title
  * @param input.collection_id - Parent list ID
  * @param input.items - Array of item titles (strings)
+ * @param input.tags - Tag names (inline #tags in the title are added too)
  * @returns The created checklist ID
  */
 export async function createChecklistWithItems(input: {
   title: string;
   collection_id?: string;
   items: string[];
+  tags?: string[];
 }): Promise<string> {
   const db = await getDatabase();
   const checklistId = Crypto.randomUUID();
+  const now = getCurrentTimestamp();
+  const { title, tags } = extractInlineTags(input.title);
 
   await db.execAsync('BEGIN TRANSACTION;');
 
@@ -597,10 +1171,12 @@ export async function createChecklistWithItems(input: {
         sort_order,
         created_at,
         updated_at
-      ) VALUES (?, 'checklist', ?, ?, 0, datetime('now'), datetime('now'))`,
-      [checklistId, input.title, input.collection_id ?? null]
+      ) VALUES (?, 'checklist', ?, ?, 0, ?, ?)`,
+      [checklistId, title, input.collection_id ?? null, now, now]
     );
 
+    await saveEntryTags(db, checklistId, [...tags, ...(input.tags ?? [])], now);
+
     // 3. Create all checklist items
     for (const itemTitle of input.items) {
       if (itemTitle.trim()) {  // Skip empty items
@@ -612,8 +1188,8 @@ export async function createChecklistWithItems(input: {
             checked,
             created_at,
             updated_at
-          ) VALUES (?, ?, ?, 0, datetime('now'), datetime('now'))`,
-          [Crypto.randomUUID(), checklistId, itemTitle.trim()]
+          ) VALUES (?, ?, ?, 0, ?, ?)`,
+          [Crypto.randomUUID(), checklistId, itemTitle.trim(), now, now]
         );
       }
     }
@@ -635,6 +1211,7 @@ export async function createChecklist(input: {
 }): Promise<string> {
   const db = await getDatabase();
   const checklistId = Crypto.randomUUID();
+  const now = getCurrentTimestamp();
 
   try {
     await db.runAsync(
@@ -645,8 +1222,8 @@ export async function createChecklist(input: {
         collection_id,
         created_at,
         updated_at
-      ) VALUES (?, 'checklist', ?, ?, datetime('now'), datetime('now'))`,
-      [checklistId, input.title, input.collection_id ?? null]
+      ) VALUES (?, 'checklist', ?, ?, ?, ?)`,
+      [checklistId, input.title, input.collection_id ?? null, now, now]
     );
 
     return checklistId;
@@ -657,21 +1234,25 @@ export async function createChecklist(input: {
 }
 
 /**
- * Update checklist (title only)
+ * Update checklist (title and/or tags)
+ * `tags` replaces the checklist's tags; inline #tags in a new title are added
  */
-export async function updateChecklist(input: UpdateChecklist): Promise<void> {
+export async function updateChecklist(input: UpdateChecklist & { tags?: string[] }): Promise<void> {
   const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  const inline = input.title !== undefined ? extractInlineTags(input.title) : null;
 
   const updates: string[] = [];
   const values: any[] = [];
 
-  if (input.title !== undefined) {
+  if (inline) {
     updates.push('title = ?');
-    values.push(input.title);
+    values.push(inline.title);
   }
 
   // Always update the updated_at timestamp
-  updates.push("updated_at = datetime('now')");
+  updates.push('updated_at = ?');
+  values.push(now);
 
   // Add the id at the end for WHERE clause
   values.push(input.id);
@@ -682,15 +1263,26 @@ export async function updateChecklist(input: UpdateChecklist): Promise<void> {
      WHERE id = ? AND type = 'checklist'`,
     values
   );
+
+  if (input.tags !== undefined || inline?.tags.length) {
+    await saveEntryTags(db, input.id, [...(input.tags ?? []), ...(inline?.tags ?? [])], now, input.tags !== undefined);
+  }
 }
 
 /**
  * Soft-delete a checklist and all its items
  * 
  * Cascades to checklist_items table
+ * 
+ * The checklist and its items share the SAME deleted_at value.
+ * Trash relies on this to restore exactly the items that were taken down
+ * with the checklist (items deleted earlier on their own stay in Trash).
+ * @returns Undo snapshot (see undoChange)
  */
-export async function deleteChecklist(checklistId: string): Promise<void> {
+export async function deleteChecklist(checklistId: string): Promise<UndoSnapshot> {
   const db = await getDatabase();
+  const snapshot = await captureUndoSnapshot(db, checklistId);
+  const now = getCurrentTimestamp();
 
   await db.execAsync('BEGIN TRANSACTION;');
 
@@ -698,17 +1290,17 @@ export async function deleteChecklist(checklistId: string): Promise<void> {
     // Soft-delete checklist entry
     await db.runAsync(
       `UPDATE entries
-       SET deleted_at = datetime('now'), updated_at = datetime('now')
+       SET deleted_at = ?, updated_at = ?
        WHERE id = ? AND type = 'checklist'`,
-      [checklistId]
+      [now, now, checklistId]
     );
 
     // Soft-delete all checklist items
     await db.runAsync(
       `UPDATE checklist_items
-       SET deleted_at = datetime('now'), updated_at = datetime('now')
+       SET deleted_at = ?, updated_at = ?
        WHERE checklist_id = ? AND deleted_at IS NULL`,
-      [checklistId]
+      [now, now, checklistId]
     );
 
     await db.execAsync('COMMIT;');
@@ -719,6 +1311,7 @@ export async function deleteChecklist(checklistId: string): Promise<void> {
   
   // Cleanup AFTER transaction is complete
   await cleanupUnsortedCollectionIfEmpty();
+  return snapshot;
 }
 
 /**
@@ -742,12 +1335,18 @@ export async function getChecklistsByCollectionId(collectionId: string): Promise
      ORDER BY e.sort_order ASC, e.created_at DESC`,
     [collectionId]
   );
+  const tagMap = await getEntryTagMap(
+    db,
+    `e.collection_id = ? AND e.type = 'checklist' AND e.deleted_at IS NULL`,
+    [collectionId]
+  );
   
   return rows.map(row => ({
     id: row.id,
     type: 'checklist' as const,
     title: row.title,
     collection_id: row.collection_id,
+    tags: tagMap.get(row.id) ?? [],
     sort_order: row.sort_order,
     created_at: row.created_at,
     updated_at: row.updated_at,
@@ -815,6 +1414,7 @@ export async function getChecklistItems(checklistId: string): Promise<ChecklistI
  */
 export async function createChecklistItem(input: CreateChecklistItem): Promise<void> {
   const db = await getDatabase();
+  const now = getCurrentTimestamp();
 
   await db.runAsync(
     `INSERT INTO checklist_items (
@@ -824,8 +1424,8 @@ export async function createChecklistItem(input: CreateChecklistItem): Promise<v
       checked,
       created_at,
       updated_at
-    ) VALUES (?, ?, ?, 0, datetime('now'), datetime('now'))`,
-    [Crypto.randomUUID(), input.checklist_id, input.title]
+    ) VALUES (?, ?, ?, 0, ?, ?)`,
+    [Crypto.randomUUID(), input.checklist_id, input.title, now, now]
   );
 }
 
@@ -837,9 +1437,9 @@ export async function toggleChecklistItem(itemId: string, currentChecked: boolea
 
   await db.runAsync(
     `UPDATE checklist_items
-     SET checked = ?, updated_at = datetime('now')
+     SET checked = ?, updated_at = ?
      WHERE id = ?`,
-    [currentChecked ? 0 : 1, itemId]
+    [currentChecked ? 0 : 1, getCurrentTimestamp(), itemId]
   );
 }
 
@@ -863,7 +1463,8 @@ export async function updateChecklistItem(input: UpdateChecklistItem): Promise<v
   }
 
   // Always update the updated_at timestamp
-  updates.push("updated_at = datetime('now')");
+  updates.push('updated_at = ?');
+  values.push(getCurrentTimestamp());
 
   // Add the id at the end for WHERE clause
   values.push(input.id);
@@ -881,12 +1482,13 @@ export async function updateChecklistItem(input: UpdateChecklistItem): Promise<v
  */
 export async function deleteChecklistItem(itemId: string): Promise<void> {
   const db = await getDatabase();
+  const now = getCurrentTimestamp();
 
   await db.runAsync(
     `UPDATE checklist_items
-     SET deleted_at = datetime('now'), updated_at = datetime('now')
+     SET deleted_at = ?, updated_at = ?
      WHERE id = ?`,
-    [itemId]
+    [now, now, itemId]
   );
 }
 /**
@@ -911,7 +1513,7 @@ export async function getOrCreateUnsortedCollection(): Promise<Collection> {
     // If it's archived, un-archive it (user is adding an entry)
     if (existing.is_archived === 1) {
       console.log('📥 Un-archiving Unsorted collection (new entry being added)');
-      const now = Date.now();
+      const now = getCurrentTimestamp();
       await db.runAsync(
         'UPDATE collections SET is_archived = 0, updated_at = ? WHERE id = ?',
         [now, existing.id]
@@ -926,6 +1528,7 @@ export async function getOrCreateUnsortedCollection(): Promise<Collection> {
         is_pinned: existing.is_pinned === 1,
         is_archived: false, // Now un-archived
         is_system: existing.is_system === 1,
+        is_simple_list: existing.is_simple_list === 1,
         created_at: existing.created_at,
         updated_at: now,
         deleted_at: existing.deleted_at,
@@ -941,6 +1544,7 @@ export async function getOrCreateUnsortedCollection(): Promise<Collection> {
       is_pinned: existing.is_pinned === 1,
       is_archived: existing.is_archived === 1,
       is_system: existing.is_system === 1,
+      is_simple_list: existing.is_simple_list === 1,
       created_at: existing.created_at,
       updated_at: existing.updated_at,
       deleted_at: existing.deleted_at,
@@ -949,7 +1553,7 @@ export async function getOrCreateUnsortedCollection(): Promise<Collection> {
   
   // Create Unsorted collection
   const id = Crypto.randomUUID();
-  const now = Date.now();
+  const now = getCurrentTimestamp();
   
   console.log('📥 Creating new Unsorted collection');
   await db.runAsync(
@@ -980,6 +1584,7 @@ export async function getOrCreateUnsortedCollection(): Promise<Collection> {
     is_pinned: false,
     is_archived: false,
     is_system: true,
+    is_simple_list: false,
     created_at: now,
     updated_at: now,
   };
@@ -1011,6 +1616,7 @@ export async function getCollectionByName(name: string): Promise<List | null> {
     is_pinned: row.is_pinned === 1,
     is_archived: row.is_archived === 1,
     is_system: row.is_system === 1,
+    is_simple_list: row.is_simple_list === 1,
     created_at: row.created_at,
     updated_at: row.updated_at,
     deleted_at: row.deleted_at,
@@ -1049,7 +1655,7 @@ export async function getActiveEntriesCountByCollectionId(collectionId: string):
  */
 export async function unarchiveCollection(collectionId: string): Promise<void> {
   const db = await getDatabase();
-  const now = Date.now();
+  const now = getCurrentTimestamp();
   
   console.log('📥 Un-archiving collection:', collectionId);
   await db.runAsync(
@@ -1063,10 +1669,13 @@ export async function unarchiveCollection(collectionId: string): Promise<void> {
  * 
  * TICKET 9C: Completion logic helper
  * Used when completing the last Unsorted task to hide the Unsorted collection
+ * 
+ * Also the user-facing "Archive" action: hides a collection and its entries
+ * (see getAllActiveTasks) without deleting anything. Undo with unarchiveCollection.
  */
 export async function archiveCollection(collectionId: string): Promise<void> {
   const db = await getDatabase();
-  const now = Date.now();
+  const now = getCurrentTimestamp();
   
   console.log('📦 Archiving collection:', collectionId);
   await db.runAsync(
@@ -1108,7 +1717,7 @@ export async function cleanupUnsortedCollectionIfEmpty(): Promise<void> {
       console.log('🗑️ Unsorted collection is empty, archiving...');
       await db.runAsync(
         'UPDATE collections SET is_archived = 1, updated_at = ? WHERE id = ?',
-        [Date.now(), unsortedList.id]
+        [getCurrentTimestamp(), unsortedList.id]
       );
       console.log('✅ Unsorted collection archived');
     }
@@ -1128,14 +1737,17 @@ export async function cleanupUnsortedCollectionIfEmpty(): Promise<void> {
  * @param entryId - The ID of the entry to move
  * @param newListId - The ID of the destination list
  * @param sourceListId - Optional: The ID of the source list (for Unsorted cleanup)
+ * @returns Undo snapshot (see undoChange)
  */
 export async function moveEntryToCollection(input: {
   entryId: string;
   newCollectionId: string;
   sourceCollectionId?: string;
-}): Promise<void> {
+}): Promise<UndoSnapshot> {
   const db = await getDatabase();
-  const now = Date.now();
+  // Both collections: the target's entries are shifted down
+  const snapshot = await captureUndoSnapshot(db, input.entryId, [input.newCollectionId]);
+  const now = getCurrentTimestamp();
   
   try {
     // TICKET 16: Shift existing entries down in target collection
@@ -1148,6 +1760,14 @@ export async function moveEntryToCollection(input: {
        WHERE id = ? AND deleted_at IS NULL`,
       [input.newCollectionId, now, input.entryId]
     );
+
+    // Subtasks move with their parent
+    await db.runAsync(
+      `UPDATE entries 
+       SET collection_id = ?, updated_at = ? 
+       WHERE parent_task_id = ? AND deleted_at IS NULL`,
+      [input.newCollectionId, now, input.entryId]
+    );
     
     console.log(`📦 Moved entry ${input.entryId} to collection ${input.newCollectionId}`);
     
@@ -1163,6 +1783,8 @@ export async function moveEntryToCollection(input: {
         await cleanupUnsortedCollectionIfEmpty();
       }
     }
+
+    return snapshot;
   } catch (error) {
     console.error('❌ Failed to move entry:', error);
     throw error;
@@ -1182,7 +1804,7 @@ export async function moveEntryToCollection(input: {
  */
 export async function toggleCollectionPin(collectionId: string, isPinned: boolean): Promise<void> {
   const db = await getDatabase();
-  const now = Date.now();
+  const now = getCurrentTimestamp();
   
   try {
     // SQL-level defense: Only allow pinning non-system collections
@@ -1218,7 +1840,7 @@ export async function updateCollectionSortOrders(
   updates: { id: string; sort_order: number; is_pinned: boolean }[]
 ): Promise<void> {
   const db = await getDatabase();
-  const now = Date.now();
+  const now = getCurrentTimestamp();
   
   try {
     await db.execAsync('BEGIN TRANSACTION;');
@@ -1241,3 +1863,3310 @@ export async function updateCollectionSortOrders(
     throw error;
   }
 }
+
+// ========== COLLECTION ITEM (SIMPLE LIST) OPERATIONS ==========
+
+/**
+ * Switch a collection between entries and simple list mode
+ * 
+ * Entries and items are kept either way; the mode only picks which one
+ * CollectionsScreen shows. Unsorted always shows entries.
+ */
+export async function setCollectionSimpleList(collectionId: string, isSimpleList: boolean): Promise<void> {
+  const db = await getDatabase();
+
+  await db.runAsync(
+    'UPDATE collections SET is_simple_list = ?, updated_at = ? WHERE id = ? AND is_system = 0',
+    [isSimpleList ? 1 : 0, getCurrentTimestamp(), collectionId]
+  );
+}
+
+/**
+ * Get a collection's simple list items, in list order (checked ones included)
+ */
+export async function getCollectionItems(collectionId: string): Promise<CollectionItem[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<any>(
+    `SELECT * FROM collection_items
+     WHERE collection_id = ? AND deleted_at IS NULL
+     ORDER BY position ASC, created_at ASC`,
+    [collectionId]
+  );
+
+  return rows.map(row => ({
+    id: row.id,
+    collection_id: row.collection_id,
+    text: row.text,
+    checked: row.checked === 1,
+    checked_at: row.checked_at ?? undefined,
+    position: row.position,
+    created_at: row.created_at,
+    deleted_at: row.deleted_at ?? undefined,
+  }));
+}
+
+/**
+ * Add an item at the end of a simple list
+ */
+export async function createCollectionItem(collectionId: string, text: string): Promise<void> {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('Item text cannot be empty');
+  }
+
+  const db = await getDatabase();
+  const last = await db.getFirstAsync<{ max_position: number | null }>(
+    `SELECT MAX(position) AS max_position FROM collection_items
+     WHERE collection_id = ? AND deleted_at IS NULL`,
+    [collectionId]
+  );
+
+  await db.runAsync(
+    `INSERT INTO collection_items (id, collection_id, text, checked, position, created_at)
+     VALUES (?, ?, ?, 0, ?, ?)`,
+    [Crypto.randomUUID(), collectionId, trimmed, (last?.max_position ?? -1) + 1, getCurrentTimestamp()]
+  );
+}
+
+/**
+ * Check / uncheck a simple list item
+ */
+export async function toggleCollectionItem(itemId: string, currentChecked: boolean): Promise<void> {
+  const db = await getDatabase();
+
+  await db.runAsync(
+    'UPDATE collection_items SET checked = ?, checked_at = ? WHERE id = ?',
+    [currentChecked ? 0 : 1, currentChecked ? null : getCurrentTimestamp(), itemId]
+  );
+}
+
+/**
+ * Change a simple list item's text
+ */
+export async function updateCollectionItemText(itemId: string, text: string): Promise<void> {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('Item text cannot be empty');
+  }
+
+  const db = await getDatabase();
+  await db.runAsync('UPDATE collection_items SET text = ? WHERE id = ?', [trimmed, itemId]);
+}
+
+/**
+ * Batch update item positions after drag & drop
+ */
+export async function updateCollectionItemPositions(
+  updates: { id: string; position: number }[]
+): Promise<void> {
+  const db = await getDatabase();
+
+  await db.execAsync('BEGIN TRANSACTION;');
+
+  try {
+    for (const { id, position } of updates) {
+      await db.runAsync('UPDATE collection_items SET position = ? WHERE id = ?', [position, id]);
+    }
+
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('❌ Failed to reorder collection items:', error);
+    throw error;
+  }
+}
+
+/**
+ * Soft-delete a simple list item
+ */
+export async function deleteCollectionItem(itemId: string): Promise<void> {
+  const db = await getDatabase();
+
+  await db.runAsync(
+    'UPDATE collection_items SET deleted_at = ? WHERE id = ?',
+    [getCurrentTimestamp(), itemId]
+  );
+}
+
+/**
+ * Soft-delete every checked item of a simple list ("Clear checked")
+ * @returns Number of items cleared
+ */
+export async function clearCheckedCollectionItems(collectionId: string): Promise<number> {
+  const db = await getDatabase();
+
+  const result = await db.runAsync(
+    `UPDATE collection_items SET deleted_at = ?
+     WHERE collection_id = ? AND checked = 1 AND deleted_at IS NULL`,
+    [getCurrentTimestamp(), collectionId]
+  );
+
+  return result.changes;
+}
+
+// ========== RECORD OPERATIONS ==========
+
+/**
+ * Records are entries (type='record') holding a named series of values;
+ * the values live in record_values. Deleting a record leaves its values
+ * alone: they are hidden with it, come back with it from Trash and are
+ * purged with it (purgeExpiredTrash).
+ */
+
+function mapRecordRow(row: any, tags: Tag[]): RecordEntry {
+  return {
+    id: row.id,
+    type: 'record' as const,
+    title: row.title,
+    unit: row.unit ?? undefined,
+    collection_id: row.collection_id,
+    tags,
+    sort_order: row.sort_order,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    deleted_at: row.deleted_at,
+  };
+}
+
+function mapRecordValueRow(row: any): RecordValue {
+  return {
+    id: row.id,
+    record_id: row.record_id,
+    value: row.value,
+    recorded_at: row.recorded_at,
+    note: row.note ?? undefined,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    deleted_at: row.deleted_at ?? undefined,
+  };
+}
+
+function normalizeUnit(unit?: string): string | null {
+  const trimmed = unit?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Create a record (weight, blood pressure, mileage...)
+ * 
+ * @param input.unit - Free text ("kg", "km"), optional
+ * @param input.tags - Tag names (inline #tags in the title are added too)
+ * @returns The created record ID
+ */
+export async function createRecord(input: {
+  title: string;
+  unit?: string;
+  collection_id?: string;
+  tags?: string[];
+}): Promise<string> {
+  const db = await getDatabase();
+  const id = Crypto.randomUUID();
+  const now = getCurrentTimestamp();
+  const { title, tags } = extractInlineTags(input.title);
+
+  // Shift existing entries down (new entry goes to top)
+  await shiftEntriesDown(db, input.collection_id);
+
+  await db.runAsync(
+    `INSERT INTO entries (
+      id,
+      type,
+      title,
+      unit,
+      collection_id,
+      sort_order,
+      created_at,
+      updated_at
+    ) VALUES (?, 'record', ?, ?, ?, 0, ?, ?)`,
+    [id, title, normalizeUnit(input.unit), input.collection_id ?? null, now, now]
+  );
+
+  await saveEntryTags(db, id, [...tags, ...(input.tags ?? [])], now);
+
+  return id;
+}
+
+/**
+ * Update a record (title, unit and/or tags)
+ * `tags` replaces the record's tags; inline #tags in a new title are added
+ */
+export async function updateRecord(input: {
+  id: string;
+  title?: string;
+  unit?: string;
+  tags?: string[];
+}): Promise<void> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  const inline = input.title !== undefined ? extractInlineTags(input.title) : null;
+
+  const updates: string[] = [];
+  const values: any[] = [];
+
+  if (inline) {
+    updates.push('title = ?');
+    values.push(inline.title);
+  }
+
+  if (input.unit !== undefined) {
+    updates.push('unit = ?');
+    values.push(normalizeUnit(input.unit));
+  }
+
+  updates.push('updated_at = ?');
+  values.push(now);
+
+  values.push(input.id);
+
+  await db.runAsync(
+    `UPDATE entries
+     SET ${updates.join(', ')}
+     WHERE id = ? AND type = 'record'`,
+    values
+  );
+
+  if (input.tags !== undefined || inline?.tags.length) {
+    await saveEntryTags(db, input.id, [...(input.tags ?? []), ...(inline?.tags ?? [])], now, input.tags !== undefined);
+  }
+}
+
+/**
+ * Soft-delete a record (its values stay, see above)
+ * @returns Undo snapshot (see undoChange)
+ */
+export async function deleteRecord(recordId: string): Promise<UndoSnapshot> {
+  const db = await getDatabase();
+  const snapshot = await captureUndoSnapshot(db, recordId);
+  const now = getCurrentTimestamp();
+
+  await db.runAsync(
+    `UPDATE entries
+     SET deleted_at = ?, updated_at = ?
+     WHERE id = ? AND type = 'record'`,
+    [now, now, recordId]
+  );
+
+  await cleanupUnsortedCollectionIfEmpty();
+  return snapshot;
+}
+
+/**
+ * Get all records of a collection with their latest values
+ * 
+ * recent_values holds up to RECORD_SPARKLINE_POINTS values, oldest first
+ */
+export async function getRecordsByCollectionId(collectionId: string): Promise<RecordWithStats[]> {
+  const db = await getDatabase();
+  const recordFilter = `e.collection_id = ? AND e.type = 'record' AND e.deleted_at IS NULL`;
+
+  const rows = await db.getAllAsync<any>(
+    `SELECT e.* FROM entries e
+     WHERE ${recordFilter}
+     ORDER BY e.sort_order ASC, e.created_at DESC`,
+    [collectionId]
+  );
+  const valueRows = await db.getAllAsync<{ record_id: string; value: number; recorded_at: number }>(
+    `SELECT rv.record_id, rv.value, rv.recorded_at
+     FROM record_values rv
+     JOIN entries e ON rv.record_id = e.id
+     WHERE ${recordFilter} AND rv.deleted_at IS NULL
+     ORDER BY rv.recorded_at DESC`,
+    [collectionId]
+  );
+  const tagMap = await getEntryTagMap(db, recordFilter, [collectionId]);
+
+  // Newest first per record
+  const valuesByRecord = new Map<string, { value: number; recorded_at: number }[]>();
+  for (const row of valueRows) {
+    const list = valuesByRecord.get(row.record_id) ?? [];
+    list.push(row);
+    valuesByRecord.set(row.record_id, list);
+  }
+
+  return rows.map(row => {
+    const values = valuesByRecord.get(row.id) ?? [];
+
+    return {
+      ...mapRecordRow(row, tagMap.get(row.id) ?? []),
+      value_count: values.length,
+      latest_value: values[0]?.value,
+      latest_recorded_at: values[0]?.recorded_at,
+      recent_values: values
+        .slice(0, RECORD_SPARKLINE_POINTS)
+        .map(value => value.value)
+        .reverse(),
+    };
+  });
+}
+
+/**
+ * Get single record by ID
+ */
+export async function getRecord(recordId: string): Promise<RecordEntry | null> {
+  const db = await getDatabase();
+
+  const row = await db.getFirstAsync<any>(
+    `SELECT * FROM entries
+     WHERE id = ? AND type = 'record' AND deleted_at IS NULL`,
+    [recordId]
+  );
+
+  return row ? mapRecordRow(row, []) : null;
+}
+
+/**
+ * Get a record's values, newest first
+ */
+export async function getRecordValues(recordId: string): Promise<RecordValue[]> {
+  const db = await getDatabase();
+
+  const rows = await db.getAllAsync<any>(
+    `SELECT * FROM record_values
+     WHERE record_id = ? AND deleted_at IS NULL
+     ORDER BY recorded_at DESC, created_at DESC`,
+    [recordId]
+  );
+
+  return rows.map(mapRecordValueRow);
+}
+
+/**
+ * Add a value to a record
+ * @param input.recorded_at - When it was measured (epoch ms)
+ */
+export async function addRecordValue(input: {
+  record_id: string;
+  value: number;
+  recorded_at: number;
+  note?: string;
+}): Promise<void> {
+  if (!Number.isFinite(input.value)) {
+    throw new Error('Value must be a number');
+  }
+
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  await db.runAsync(
+    `INSERT INTO record_values (id, record_id, value, recorded_at, note, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      Crypto.randomUUID(),
+      input.record_id,
+      input.value,
+      input.recorded_at,
+      input.note?.trim() || null,
+      now,
+      now,
+    ]
+  );
+}
+
+/**
+ * Change a value, its time and/or its note
+ */
+export async function updateRecordValue(input: {
+  id: string;
+  value?: number;
+  recorded_at?: number;
+  note?: string;
+}): Promise<void> {
+  if (input.value !== undefined && !Number.isFinite(input.value)) {
+    throw new Error('Value must be a number');
+  }
+
+  const db = await getDatabase();
+  const updates: string[] = [];
+  const values: any[] = [];
+
+  if (input.value !== undefined) {
+    updates.push('value = ?');
+    values.push(input.value);
+  }
+
+  if (input.recorded_at !== undefined) {
+    updates.push('recorded_at = ?');
+    values.push(input.recorded_at);
+  }
+
+  if (input.note !== undefined) {
+    updates.push('note = ?');
+    values.push(input.note.trim() || null);
+  }
+
+  updates.push('updated_at = ?');
+  values.push(getCurrentTimestamp());
+
+  values.push(input.id);
+
+  await db.runAsync(
+    `UPDATE record_values SET ${updates.join(', ')} WHERE id = ?`,
+    values
+  );
+}
+
+/**
+ * Soft-delete a single value
+ */
+export async function deleteRecordValue(valueId: string): Promise<void> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  await db.runAsync(
+    'UPDATE record_values SET deleted_at = ?, updated_at = ? WHERE id = ?',
+    [now, now, valueId]
+  );
+}
+
+// ========== UNDO OPERATIONS ==========
+
+/**
+ * Undo for deleting an entry, completing a task and moving an entry
+ * 
+ * Those operations take a snapshot of every row they may change before
+ * changing anything and return it; the UI keeps the latest one while its
+ * Undo snackbar is shown (hooks/useUndo.ts). undoChange puts the rows back.
+ */
+
+/**
+ * Snapshot the rows an entry operation may change
+ * 
+ * - The entry and its subtasks, checklist items and reminders (full rows)
+ * - Positions of the other active entries of its collection and of
+ *   `extraCollectionIds` (inserting at the top shifts their sort_order)
+ * - is_archived of those collections, and of Unsorted (archived when it empties)
+ */
+async function captureUndoSnapshot(
+  db: any,
+  entryId: string,
+  extraCollectionIds: string[] = []
+): Promise<UndoSnapshot> {
+  const takenAt = getCurrentTimestamp();
+  const entry = await db.getFirstAsync(
+    'SELECT * FROM entries WHERE id = ?',
+    [entryId]
+  ) as BackupRow | null;
+
+  const collectionIds = [...new Set(
+    [entry?.collection_id, ...extraCollectionIds].filter((id): id is string => typeof id === 'string')
+  )];
+  const inCollections = collectionIds.map(() => '?').join(', ');
+
+  const entries = await db.getAllAsync(
+    'SELECT * FROM entries WHERE id = ? OR parent_task_id = ?',
+    [entryId, entryId]
+  ) as BackupRow[];
+
+  const entryPositions = await db.getAllAsync(
+    `SELECT id, collection_id, sort_order FROM entries
+     WHERE collection_id IN (${inCollections}) AND deleted_at IS NULL
+       AND id != ? AND (parent_task_id IS NULL OR parent_task_id != ?)`,
+    [...collectionIds, entryId, entryId]
+  ) as BackupRow[];
+
+  const checklistItems = await db.getAllAsync(
+    'SELECT * FROM checklist_items WHERE checklist_id = ?',
+    [entryId]
+  ) as BackupRow[];
+
+  const reminders = await db.getAllAsync(
+    `SELECT * FROM reminders
+     WHERE deleted_at IS NULL
+       AND task_id IN (SELECT id FROM entries WHERE id = ? OR parent_task_id = ?)`,
+    [entryId, entryId]
+  ) as BackupRow[];
+
+  const collections = await db.getAllAsync(
+    `SELECT id, is_archived FROM collections WHERE id IN (${inCollections}) OR is_system = 1`,
+    collectionIds
+  ) as BackupRow[];
+
+  return {
+    taken_at: takenAt,
+    entries,
+    entry_positions: entryPositions,
+    checklist_items: checklistItems,
+    reminders,
+    collections,
+    series_id: entry?.repeat_rule ? String(entry.series_id ?? entry.id) : undefined,
+  };
+}
+
+/**
+ * Write a snapshot row back over the current one (the columns it has)
+ * Plain UPDATE, so the search index triggers keep up.
+ */
+async function putBackRow(db: any, table: string, row: BackupRow): Promise<void> {
+  const names = Object.keys(row).filter(name => name !== 'id');
+  if (names.length === 0) return;
+
+  await db.runAsync(
+    `UPDATE ${table} SET ${names.map(name => `${name} = ?`).join(', ')} WHERE id = ?`,
+    [...names.map(name => row[name]), row.id]
+  );
+}
+
+/**
+ * Undo a change: put back what its snapshot holds (see UndoSnapshot)
+ * 
+ * Rows created by the change (the next occurrence of a completed recurring
+ * task, with its tags and reminder) are removed. Runs in one transaction.
+ */
+export async function undoChange(snapshot: UndoSnapshot): Promise<void> {
+  const db = await getDatabase();
+
+  await db.execAsync('BEGIN TRANSACTION;');
+
+  const puts: [string, BackupRow[]][] = [
+    ['collections', snapshot.collections],
+    ['entries', snapshot.entry_positions],
+    ['entries', snapshot.entries],
+    ['checklist_items', snapshot.checklist_items],
+    ['reminders', snapshot.reminders],
+  ];
+
+  try {
+    for (const [table, rows] of puts) {
+      for (const row of rows) {
+        await putBackRow(db, table, row);
+      }
+    }
+
+    if (snapshot.series_id) {
+      const knownIds = [...snapshot.entries, ...snapshot.entry_positions].map(row => row.id);
+      const created = await db.getAllAsync<{ id: string }>(
+        `SELECT id FROM entries
+         WHERE series_id = ? AND created_at >= ?
+           AND id NOT IN (${knownIds.map(() => '?').join(', ')})`,
+        [snapshot.series_id, snapshot.taken_at, ...knownIds]
+      );
+
+      for (const { id } of created) {
+        await db.runAsync('DELETE FROM entry_tags WHERE entry_id = ?', [id]);
+        await db.runAsync('DELETE FROM reminders WHERE task_id = ?', [id]);
+        await db.runAsync('DELETE FROM entries WHERE id = ?', [id]);
+      }
+    }
+
+    await db.execAsync('COMMIT;');
+    console.log('↩️ Undid last change');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('❌ Failed to undo:', error);
+    throw error;
+  }
+
+  await syncReminderNotifications();
+}
+
+// ========== TRASH OPERATIONS ==========
+
+/**
+ * How long soft-deleted rows stay recoverable in Trash
+ * Matches the "30-day recovery" promise in schema.ts
+ */
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Oldest deletion time (epoch ms) still inside the retention window
+ */
+function getTrashCutoff(): number {
+  return getCurrentTimestamp() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Get everything soft-deleted within the retention window, grouped by collection
+ * 
+ * Lists deleted collections, entries (tasks, notes, checklists, records), checklist
+ * items deleted on their own, and expenses (grouped under "Expenses"). Rows taken down together with a parent are folded
+ * into the parent row (item_count) because they can only come back with it:
+ * - entries deleted with their collection
+ * - checklist items deleted with their checklist
+ * 
+ * Groups are ordered by most recent deletion; items inside a group likewise.
+ */
+export async function getTrashGroups(): Promise<TrashGroup[]> {
+  const db = await getDatabase();
+  const cutoff = getTrashCutoff();
+
+  const collectionRows = await db.getAllAsync<any>(
+    `SELECT
+      c.id, c.name, c.deleted_at,
+      (SELECT COUNT(*) FROM entries e
+        WHERE e.collection_id = c.id AND e.deleted_at = c.deleted_at) as item_count
+     FROM collections c
+     WHERE c.deleted_at IS NOT NULL AND c.deleted_at >= ?`,
+    [cutoff]
+  );
+
+  const entryRows = await db.getAllAsync<any>(
+    `SELECT
+      e.id, e.type, e.title, e.collection_id, e.deleted_at,
+      c.name as collection_name,
+      (SELECT COUNT(*) FROM checklist_items ci
+        WHERE ci.checklist_id = e.id AND ci.deleted_at = e.deleted_at) as item_count,
+      (SELECT COUNT(*) FROM entries s
+        WHERE s.parent_task_id = e.id AND s.deleted_at = e.deleted_at) as subtask_count
+     FROM entries e
+     LEFT JOIN collections c ON e.collection_id = c.id
+     WHERE e.deleted_at IS NOT NULL AND e.deleted_at >= ?
+       AND (c.deleted_at IS NULL OR c.deleted_at != e.deleted_at)
+       AND NOT EXISTS (
+         SELECT 1 FROM entries p
+         WHERE p.id = e.parent_task_id AND p.deleted_at = e.deleted_at
+       )`,
+    [cutoff]
+  );
+
+  // Only items whose checklist is still active - the rest travel with their checklist
+  const itemRows = await db.getAllAsync<any>(
+    `SELECT
+      ci.id, ci.title, ci.checklist_id, ci.deleted_at,
+      e.title as checklist_title,
+      e.collection_id,
+      c.name as collection_name
+     FROM checklist_items ci
+     JOIN entries e ON ci.checklist_id = e.id AND e.deleted_at IS NULL
+     LEFT JOIN collections c ON e.collection_id = c.id
+     WHERE ci.deleted_at IS NOT NULL AND ci.deleted_at >= ?`,
+    [cutoff]
+  );
+
+  const expenseRows = await db.getAllAsync<any>(
+    `SELECT id, amount, currency, merchant_name, note, deleted_at
+     FROM expenses
+     WHERE deleted_at IS NOT NULL AND deleted_at >= ?`,
+    [cutoff]
+  );
+
+  const items: TrashItem[] = [
+    ...collectionRows.map(row => ({
+      id: row.id,
+      kind: 'collection' as const,
+      title: row.name,
+      deleted_at: row.deleted_at,
+      collection_id: row.id,
+      collection_name: row.name,
+      item_count: row.item_count,
+    })),
+    ...entryRows.map(row => ({
+      id: row.id,
+      kind: 'entry' as const,
+      entry_type: row.type,
+      title: row.title,
+      deleted_at: row.deleted_at,
+      collection_id: row.collection_id ?? undefined,
+      collection_name: row.collection_name ?? undefined,
+      item_count: row.type === 'checklist' ? row.item_count
+        : row.type === 'task' && row.subtask_count > 0 ? row.subtask_count
+        : undefined,
+    })),
+    ...itemRows.map(row => ({
+      id: row.id,
+      kind: 'checklist_item' as const,
+      title: row.title,
+      deleted_at: row.deleted_at,
+      collection_id: row.collection_id ?? undefined,
+      collection_name: row.collection_name ?? undefined,
+      checklist_id: row.checklist_id,
+      checklist_title: row.checklist_title,
+    })),
+    ...expenseRows.map(row => ({
+      id: row.id,
+      kind: 'expense' as const,
+      title: [formatCurrency(row.amount, row.currency), row.merchant_name || row.note]
+        .filter(Boolean)
+        .join(' · '),
+      deleted_at: row.deleted_at,
+    })),
+  ].sort((a, b) => b.deleted_at - a.deleted_at);
+
+  // Group by original collection (items are already newest-first);
+  // expenses have no collection and get a group of their own
+  const groups = new Map<string, TrashGroup>();
+  for (const item of items) {
+    const isExpense = item.kind === 'expense';
+    const key = isExpense ? 'expenses' : item.collection_id ?? '';
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        collection_id: item.collection_id,
+        collection_name: isExpense ? 'Expenses' : item.collection_name ?? 'No collection',
+        items: [],
+      };
+      groups.set(key, group);
+    }
+    group.items.push(item);
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Resolve where a restored entry should live
+ * 
+ * Returns the original collection when it still exists (archived collections
+ * included - archiving hides, it does not delete).
+ * Un-archives Unsorted if that was the origin (same as getOrCreateUnsortedCollection).
+ * Entries whose collection is deleted fall back to Unsorted.
+ */
+async function resolveRestoreCollectionId(db: any, collectionId?: string | null): Promise<string> {
+  if (collectionId) {
+    const collection = await db.getFirstAsync(
+      'SELECT id, is_archived, is_system FROM collections WHERE id = ? AND deleted_at IS NULL',
+      [collectionId]
+    ) as { id: string; is_archived: number; is_system: number } | null;
+
+    if (collection) {
+      if (collection.is_system === 1 && collection.is_archived === 1) {
+        await unarchiveCollection(collection.id);
+      }
+      return collection.id;
+    }
+  }
+
+  const unsorted = await getOrCreateUnsortedCollection();
+  return unsorted.id;
+}
+
+/**
+ * Restore one or more items from Trash
+ * 
+ * - Collections come back with the entries they took down (restoreCollection)
+ * - Entries return to the top of their original collection (or Unsorted, see above)
+ * - Checklists come back together with the items deleted alongside them
+ *   (matched by identical deleted_at, see deleteChecklist)
+ * - Checklist items return to their (still active) checklist
+ * - Expenses simply come back (they have no collection)
+ * 
+ * Runs in a single transaction: a batch restores completely or not at all.
+ * 
+ * @param items - Trash rows to restore (id + kind is enough)
+ */
+export async function restoreTrashItems(
+  items: Pick<TrashItem, 'id' | 'kind'>[]
+): Promise<void> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  await db.execAsync('BEGIN TRANSACTION;');
+
+  try {
+    // Collections first, so entries picked alongside them return home
+    const collectionItems = items.filter(item => item.kind === 'collection');
+    const otherItems = items.filter(item => item.kind !== 'collection');
+
+    for (const item of collectionItems) {
+      await restoreCollectionRows(db, item.id, now);
+    }
+
+    for (const item of otherItems) {
+      if (item.kind === 'checklist_item') {
+        await db.runAsync(
+          `UPDATE checklist_items
+           SET deleted_at = NULL, updated_at = ?
+           WHERE id = ? AND deleted_at IS NOT NULL`,
+          [now, item.id]
+        );
+        continue;
+      }
+
+      if (item.kind === 'expense') {
+        await db.runAsync(
+          `UPDATE expenses
+           SET deleted_at = NULL, updated_at = ?
+           WHERE id = ? AND deleted_at IS NOT NULL`,
+          [now, item.id]
+        );
+        continue;
+      }
+
+      const entry = await db.getFirstAsync<any>(
+        'SELECT id, type, collection_id, deleted_at FROM entries WHERE id = ? AND deleted_at IS NOT NULL',
+        [item.id]
+      );
+
+      if (!entry) {
+        continue;
+      }
+
+      const collectionId = await resolveRestoreCollectionId(db, entry.collection_id);
+
+      // Restored entry goes to the top, like a newly created one
+      await shiftEntriesDown(db, collectionId);
+
+      await db.runAsync(
+        `UPDATE entries
+         SET deleted_at = NULL, collection_id = ?, sort_order = 0, updated_at = ?
+         WHERE id = ?`,
+        [collectionId, now, entry.id]
+      );
+
+      if (entry.type === 'checklist') {
+        await db.runAsync(
+          `UPDATE checklist_items
+           SET deleted_at = NULL, updated_at = ?
+           WHERE checklist_id = ? AND deleted_at = ?`,
+          [now, entry.id, entry.deleted_at]
+        );
+      }
+
+      // Subtasks deleted with their parent come back with it, and so do
+      // their reminders (before the subtasks, which the match relies on)
+      if (entry.type === 'task') {
+        await db.runAsync(
+          `UPDATE reminders
+           SET deleted_at = NULL, updated_at = ?
+           WHERE deleted_at = ?
+             AND task_id IN (
+               SELECT id FROM entries
+               WHERE id = ? OR (parent_task_id = ? AND deleted_at = ?)
+             )`,
+          [now, entry.deleted_at, entry.id, entry.id, entry.deleted_at]
+        );
+
+        await db.runAsync(
+          `UPDATE entries
+           SET deleted_at = NULL, collection_id = ?, updated_at = ?
+           WHERE parent_task_id = ? AND deleted_at = ?`,
+          [collectionId, now, entry.id, entry.deleted_at]
+        );
+      }
+    }
+
+    await db.execAsync('COMMIT;');
+    console.log(`♻️ Restored ${items.length} item(s) from Trash`);
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('❌ Failed to restore from Trash:', error);
+    throw error;
+  }
+
+  await syncReminderNotifications();
+}
+
+/**
+ * Permanently delete soft-deleted rows older than the retention window
+ * 
+ * Runs once on app startup (see initializeApp in App.tsx).
+ * Foreign keys are not enforced, so dependants are removed explicitly:
+ * items of purged checklists, values of purged records, reminders of
+ * purged tasks, tag links of purged entries and collection_items of
+ * purged collections. Record values deleted on their own expire too.
+ * Expired expenses are purged too, with their receipt files.
+ * 
+ * Never throws - a failed purge is retried on next launch.
+ * 
+ * @returns Number of entries permanently deleted
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const db = await getDatabase();
+  const cutoff = getTrashCutoff();
+  const expiredEntries = `SELECT id FROM entries
+    WHERE deleted_at IS NOT NULL AND deleted_at < ?`;
+
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+
+    await db.runAsync(
+      `DELETE FROM checklist_items WHERE checklist_id IN (${expiredEntries})`,
+      [cutoff]
+    );
+
+    await db.runAsync(
+      `DELETE FROM checklist_items
+       WHERE deleted_at IS NOT NULL AND deleted_at < ?`,
+      [cutoff]
+    );
+
+    await db.runAsync(
+      `DELETE FROM record_values WHERE record_id IN (${expiredEntries})`,
+      [cutoff]
+    );
+
+    await db.runAsync(
+      `DELETE FROM record_values
+       WHERE deleted_at IS NOT NULL AND deleted_at < ?`,
+      [cutoff]
+    );
+
+    await db.runAsync(
+      `DELETE FROM reminders WHERE task_id IN (${expiredEntries})`,
+      [cutoff]
+    );
+
+    await db.runAsync(
+      `DELETE FROM entry_tags WHERE entry_id IN (${expiredEntries})`,
+      [cutoff]
+    );
+
+    const result = await db.runAsync(
+      `DELETE FROM entries
+       WHERE deleted_at IS NOT NULL AND deleted_at < ?`,
+      [cutoff]
+    );
+
+    // Deleted collections expire together with the entries they took down
+    const expiredCollections = `SELECT id FROM collections
+      WHERE deleted_at IS NOT NULL AND deleted_at < ?`;
+
+    await db.runAsync(
+      `DELETE FROM collection_items WHERE collection_id IN (${expiredCollections})`,
+      [cutoff]
+    );
+
+    await db.runAsync(
+      `DELETE FROM collections
+       WHERE deleted_at IS NOT NULL AND deleted_at < ?`,
+      [cutoff]
+    );
+
+    const expiredReceipts = await db.getAllAsync<{ receipt_photo_path: string }>(
+      `SELECT receipt_photo_path FROM expenses
+       WHERE deleted_at IS NOT NULL AND deleted_at < ? AND receipt_photo_path IS NOT NULL`,
+      [cutoff]
+    );
+
+    await db.runAsync(
+      `DELETE FROM expenses
+       WHERE deleted_at IS NOT NULL AND deleted_at < ?`,
+      [cutoff]
+    );
+
+    await db.execAsync('COMMIT;');
+
+    // Files go after the commit: a rolled-back purge keeps its receipts
+    expiredReceipts.forEach(row => deleteReceiptFile(row.receipt_photo_path));
+
+    console.log(`🗑️ Purged ${result.changes} expired entries from Trash`);
+    return result.changes;
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('❌ Failed to purge Trash:', error);
+    return 0;
+  }
+}
+
+// ========== REMINDER OPERATIONS ==========
+
+/**
+ * Reminders are rows in the reminders table; the OS notifications are kept
+ * in sync by the scheduler (notifications/scheduler.ts). Every write below
+ * ends with syncReminderNotifications().
+ * 
+ * - Dismissed: is_dismissed = 1, dismissed_at set (also used to cancel a
+ *   reminder when its task is completed or deleted)
+ * - Snoozed: trigger_time moved forward, snooze_minutes records the snooze
+ */
+
+export const DEFAULT_SNOOZE_MINUTES = 10;
+
+function mapReminderRow(row: any): Reminder {
+  return {
+    id: row.id,
+    title: row.title,
+    trigger_time: row.trigger_time,
+    is_dismissed: row.is_dismissed === 1,
+    dismissed_at: row.dismissed_at ?? undefined,
+    repeat_rule: row.repeat_rule ?? undefined,
+    snooze_minutes: row.snooze_minutes ?? undefined,
+    location: row.location ?? undefined,
+    location_radius: row.location_radius ?? undefined,
+    task_id: row.task_id ?? undefined,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    deleted_at: row.deleted_at ?? undefined,
+  };
+}
+
+async function insertReminder(
+  db: any,
+  input: { title: string; trigger_time: number; task_id?: string | null },
+  now: number
+): Promise<string> {
+  const id = Crypto.randomUUID();
+
+  await db.runAsync(
+    `INSERT INTO reminders (id, title, trigger_time, is_dismissed, task_id, created_at, updated_at)
+     VALUES (?, ?, ?, 0, ?, ?, ?)`,
+    [id, input.title, input.trigger_time, input.task_id ?? null, now, now]
+  );
+
+  return id;
+}
+
+/**
+ * Cancel all pending reminders of a task (no notification sync - callers do it)
+ */
+async function cancelTaskReminders(db: any, taskId: string, now: number): Promise<void> {
+  await db.runAsync(
+    `UPDATE reminders
+     SET is_dismissed = 1, dismissed_at = ?, updated_at = ?
+     WHERE task_id = ? AND is_dismissed = 0 AND deleted_at IS NULL`,
+    [now, now, taskId]
+  );
+}
+
+/**
+ * Re-sync scheduled notifications with pending reminders
+ * Never throws: notifications are best-effort (permission denied, no native module)
+ */
+export async function syncReminderNotifications(): Promise<void> {
+  try {
+    const pending = await getPendingReminders();
+    await getReminderScheduler().reconcile(pending);
+  } catch (error) {
+    console.warn('⚠️ Failed to sync reminder notifications:', error);
+  }
+}
+
+/**
+ * Get a single reminder (including dismissed)
+ */
+export async function getReminderById(reminderId: string): Promise<Reminder | null> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<any>(
+    'SELECT * FROM reminders WHERE id = ? AND deleted_at IS NULL',
+    [reminderId]
+  );
+
+  return row ? mapReminderRow(row) : null;
+}
+
+/**
+ * Get all pending reminders (not dismissed, not deleted), soonest first
+ */
+export async function getPendingReminders(): Promise<Reminder[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<any>(
+    `SELECT * FROM reminders
+     WHERE is_dismissed = 0 AND deleted_at IS NULL
+     ORDER BY trigger_time ASC`
+  );
+
+  return rows.map(mapReminderRow);
+}
+
+/**
+ * Get the pending reminder of a task (soonest if several)
+ */
+export async function getTaskReminder(taskId: string): Promise<Reminder | null> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<any>(
+    `SELECT * FROM reminders
+     WHERE task_id = ? AND is_dismissed = 0 AND deleted_at IS NULL
+     ORDER BY trigger_time ASC
+     LIMIT 1`,
+    [taskId]
+  );
+
+  return row ? mapReminderRow(row) : null;
+}
+
+/**
+ * Create a reminder (optionally linked to a task)
+ */
+export async function createReminder(input: {
+  title: string;
+  trigger_time: number;
+  task_id?: string;
+}): Promise<string> {
+  const db = await getDatabase();
+  const id = await insertReminder(db, input, getCurrentTimestamp());
+
+  await syncReminderNotifications();
+  return id;
+}
+
+/**
+ * Update a reminder (title, trigger time, ...)
+ */
+export async function updateReminder(input: UpdateReminder): Promise<void> {
+  const db = await getDatabase();
+
+  const updates: string[] = [];
+  const values: any[] = [];
+
+  if (input.title !== undefined) {
+    updates.push('title = ?');
+    values.push(input.title);
+  }
+
+  if (input.trigger_time !== undefined) {
+    updates.push('trigger_time = ?');
+    values.push(input.trigger_time);
+  }
+
+  if (input.is_dismissed !== undefined) {
+    updates.push('is_dismissed = ?');
+    values.push(input.is_dismissed ? 1 : 0);
+  }
+
+  if (input.dismissed_at !== undefined) {
+    updates.push('dismissed_at = ?');
+    values.push(input.dismissed_at);
+  }
+
+  if (input.snooze_minutes !== undefined) {
+    updates.push('snooze_minutes = ?');
+    values.push(input.snooze_minutes);
+  }
+
+  if (input.task_id !== undefined) {
+    updates.push('task_id = ?');
+    values.push(input.task_id);
+  }
+
+  updates.push('updated_at = ?');
+  values.push(getCurrentTimestamp());
+
+  values.push(input.id);
+
+  await db.runAsync(
+    `UPDATE reminders SET ${updates.join(', ')} WHERE id = ?`,
+    values
+  );
+
+  await syncReminderNotifications();
+}
+
+/**
+ * Set, move or remove the reminder of a task
+ * Used by "Remind me" in CreateEntryModal and task rows.
+ * 
+ * @param triggerTime - New reminder time, or null to remove the reminder
+ */
+export async function setTaskReminder(taskId: string, triggerTime: number | null): Promise<void> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  const task = await db.getFirstAsync<{ title: string }>(
+    `SELECT title FROM entries WHERE id = ? AND type = 'task' AND deleted_at IS NULL`,
+    [taskId]
+  );
+
+  if (!task) {
+    throw new Error('Task not found');
+  }
+
+  const existing = await getTaskReminder(taskId);
+
+  if (triggerTime === null) {
+    if (existing) {
+      await db.runAsync(
+        'UPDATE reminders SET deleted_at = ?, updated_at = ? WHERE task_id = ? AND is_dismissed = 0 AND deleted_at IS NULL',
+        [now, now, taskId]
+      );
+    }
+  } else if (existing) {
+    await db.runAsync(
+      'UPDATE reminders SET trigger_time = ?, snooze_minutes = NULL, title = ?, updated_at = ? WHERE id = ?',
+      [triggerTime, task.title, now, existing.id]
+    );
+  } else {
+    await insertReminder(db, { title: task.title, trigger_time: triggerTime, task_id: taskId }, now);
+  }
+
+  await syncReminderNotifications();
+}
+
+/**
+ * Dismiss a reminder (notification action or in-app)
+ */
+export async function dismissReminder(reminderId: string): Promise<void> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  await db.runAsync(
+    `UPDATE reminders
+     SET is_dismissed = 1, dismissed_at = ?, updated_at = ?
+     WHERE id = ?`,
+    [now, now, reminderId]
+  );
+
+  await syncReminderNotifications();
+}
+
+/**
+ * Snooze a reminder: fires again `minutes` from now
+ * 
+ * @returns New trigger time
+ */
+export async function snoozeReminder(
+  reminderId: string,
+  minutes: number = DEFAULT_SNOOZE_MINUTES
+): Promise<number> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  const triggerTime = now + minutes * 60 * 1000;
+
+  await db.runAsync(
+    `UPDATE reminders
+     SET trigger_time = ?, snooze_minutes = ?, is_dismissed = 0, dismissed_at = NULL, updated_at = ?
+     WHERE id = ?`,
+    [triggerTime, minutes, now, reminderId]
+  );
+
+  await syncReminderNotifications();
+  return triggerTime;
+}
+
+/**
+ * Soft-delete a reminder
+ */
+export async function deleteReminder(reminderId: string): Promise<void> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  await db.runAsync(
+    'UPDATE reminders SET deleted_at = ?, updated_at = ? WHERE id = ?',
+    [now, now, reminderId]
+  );
+
+  await syncReminderNotifications();
+}
+
+// ========== TAG OPERATIONS ==========
+
+/**
+ * Tags of the entries matched by `entryFilterSql` (a condition on entries aliased `e`)
+ * Returns entry id → tags, each list sorted by name
+ */
+async function getEntryTagMap(db: any, entryFilterSql: string, params: any[]): Promise<Map<string, Tag[]>> {
+  const rows = await db.getAllAsync(
+    `SELECT et.entry_id, t.id, t.name, t.created_at, t.updated_at
+     FROM entry_tags et
+     JOIN tags t ON t.id = et.tag_id
+     JOIN entries e ON e.id = et.entry_id
+     WHERE ${entryFilterSql}
+     ORDER BY t.name ASC`,
+    params
+  ) as any[];
+
+  const tagMap = new Map<string, Tag[]>();
+  for (const row of rows) {
+    const tags = tagMap.get(row.entry_id) ?? [];
+    tags.push({ id: row.id, name: row.name, created_at: row.created_at, updated_at: row.updated_at });
+    tagMap.set(row.entry_id, tags);
+  }
+  return tagMap;
+}
+
+/**
+ * Attach tags to an entry by name, creating tags that don't exist yet
+ * Names are normalized (utils/tags.ts). With `replace`, the entry ends up
+ * with exactly these tags; otherwise they are added to its current ones.
+ */
+async function saveEntryTags(
+  db: any,
+  entryId: string,
+  names: string[],
+  now: number,
+  replace = false
+): Promise<void> {
+  if (replace) {
+    await db.runAsync('DELETE FROM entry_tags WHERE entry_id = ?', [entryId]);
+  }
+
+  for (const name of normalizeTagNames(names)) {
+    const existing = await db.getFirstAsync(
+      'SELECT id FROM tags WHERE name = ?',
+      [name]
+    ) as { id: string } | null;
+
+    const tagId = existing?.id ?? Crypto.randomUUID();
+
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO tags (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)',
+        [tagId, name, now, now]
+      );
+    }
+
+    await db.runAsync(
+      'INSERT OR IGNORE INTO entry_tags (entry_id, tag_id, created_at) VALUES (?, ?, ?)',
+      [entryId, tagId, now]
+    );
+  }
+}
+
+/**
+ * Touch every entry using a tag (rename/merge/delete change what they show)
+ */
+async function touchTaggedEntries(db: any, tagId: string, now: number): Promise<void> {
+  await db.runAsync(
+    `UPDATE entries SET updated_at = ?
+     WHERE id IN (SELECT entry_id FROM entry_tags WHERE tag_id = ?)`,
+    [now, tagId]
+  );
+}
+
+/**
+ * Get all tags by name, with usage_count (active entries only)
+ * Unused tags are included (TagsScreen lists them so they can be deleted)
+ */
+export async function getAllTags(): Promise<Tag[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<any>(
+    `SELECT t.*, (
+       SELECT COUNT(*) FROM entry_tags et
+       JOIN entries e ON e.id = et.entry_id
+       WHERE et.tag_id = t.id AND e.deleted_at IS NULL
+     ) AS usage_count
+     FROM tags t
+     ORDER BY t.name ASC`
+  );
+
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    usage_count: row.usage_count ?? 0,
+  }));
+}
+
+/**
+ * Rename a tag - every entry using it shows the new name
+ * 
+ * @throws Error if the name is invalid or another tag already has it
+ *         (combine the two with mergeTags instead)
+ */
+export async function renameTag(tagId: string, newName: string): Promise<void> {
+  const db = await getDatabase();
+  const name = normalizeTagName(newName);
+
+  if (!name) {
+    throw new Error('Tag name cannot be empty');
+  }
+
+  const duplicate = await db.getFirstAsync<{ id: string }>(
+    'SELECT id FROM tags WHERE name = ? AND id != ?',
+    [name, tagId]
+  );
+
+  if (duplicate) {
+    throw new Error('A tag with this name already exists');
+  }
+
+  const now = getCurrentTimestamp();
+
+  await db.execAsync('BEGIN TRANSACTION;');
+
+  try {
+    await db.runAsync(
+      'UPDATE tags SET name = ?, updated_at = ? WHERE id = ?',
+      [name, now, tagId]
+    );
+    await touchTaggedEntries(db, tagId, now);
+
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    throw error;
+  }
+}
+
+/**
+ * Merge one tag into another
+ * Every entry tagged `sourceTagId` gets `targetTagId` instead; the source tag is removed.
+ */
+export async function mergeTags(sourceTagId: string, targetTagId: string): Promise<void> {
+  if (sourceTagId === targetTagId) {
+    return;
+  }
+
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  await db.execAsync('BEGIN TRANSACTION;');
+
+  try {
+    await touchTaggedEntries(db, sourceTagId, now);
+
+    // Entries that already have both tags keep a single link
+    await db.runAsync(
+      `INSERT OR IGNORE INTO entry_tags (entry_id, tag_id, created_at)
+       SELECT entry_id, ?, created_at FROM entry_tags WHERE tag_id = ?`,
+      [targetTagId, sourceTagId]
+    );
+    await db.runAsync('DELETE FROM entry_tags WHERE tag_id = ?', [sourceTagId]);
+    await db.runAsync('DELETE FROM tags WHERE id = ?', [sourceTagId]);
+    await db.runAsync('UPDATE tags SET updated_at = ? WHERE id = ?', [now, targetTagId]);
+
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    throw error;
+  }
+}
+
+/**
+ * Delete a tag (hard delete) - removed from every entry, the entries stay
+ */
+export async function deleteTag(tagId: string): Promise<void> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  await db.execAsync('BEGIN TRANSACTION;');
+
+  try {
+    await touchTaggedEntries(db, tagId, now);
+    await db.runAsync('DELETE FROM entry_tags WHERE tag_id = ?', [tagId]);
+    await db.runAsync('DELETE FROM tags WHERE id = ?', [tagId]);
+
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    throw error;
+  }
+}
+
+// ========== SEARCH OPERATIONS ==========
+
+const DEFAULT_SEARCH_LIMIT = 50;
+
+/**
+ * Full-text search over tasks, notes, checklists and checklist items
+ * 
+ * VERSION 9: Uses the search_index FTS5 table (kept in sync by triggers)
+ * 
+ * - Every word must match, as a prefix (see buildFtsQuery)
+ * - Ranked by bm25, title matches weighted above body matches
+ * - Deleted entries/items and entries of deleted collections are excluded
+ *   (archived collections are included - archiving hides, it does not delete)
+ * 
+ * @returns Best matches first, at most filters.limit (default 50)
+ */
+export async function searchEntries(
+  query: string,
+  filters: SearchFilters = {}
+): Promise<SearchResult[]> {
+  const match = buildFtsQuery(query);
+  if (!match) {
+    return [];
+  }
+
+  const db = await getDatabase();
+  const conditions: string[] = [];
+  const params: any[] = [match];
+
+  if (filters.entry_type) {
+    conditions.push('e.type = ?');
+    params.push(filters.entry_type);
+  }
+
+  if (filters.collection_id) {
+    conditions.push('e.collection_id = ?');
+    params.push(filters.collection_id);
+  }
+
+  // Completion: task rows use entries.completed, item rows checklist_items.checked
+  if (filters.completion === 'done') {
+    conditions.push(`(CASE WHEN ci.id IS NOT NULL THEN ci.checked = 1 ELSE (e.type = 'task' AND e.completed = 1) END)`);
+  } else if (filters.completion === 'open') {
+    conditions.push(`(CASE WHEN ci.id IS NOT NULL THEN ci.checked = 0 ELSE (e.type != 'task' OR e.completed = 0) END)`);
+  }
+
+  params.push(filters.limit ?? DEFAULT_SEARCH_LIMIT);
+
+  const rows = await db.getAllAsync<any>(
+    `SELECT
+      search_index.entry_id,
+      search_index.item_id,
+      highlight(search_index, 0, char(1), char(2)) as title_match,
+      snippet(search_index, 1, char(1), char(2), '…', 12) as body_match,
+      e.type,
+      e.title as entry_title,
+      e.completed,
+      e.parent_task_id,
+      e.collection_id,
+      c.name as collection_name,
+      ci.checked
+     FROM search_index
+     JOIN entries e ON e.id = search_index.entry_id AND e.deleted_at IS NULL
+     LEFT JOIN checklist_items ci ON ci.id = search_index.item_id
+     LEFT JOIN collections c ON c.id = e.collection_id
+     WHERE search_index MATCH ?
+       AND (search_index.item_id IS NULL OR (ci.id IS NOT NULL AND ci.deleted_at IS NULL))
+       AND (c.id IS NULL OR c.deleted_at IS NULL)
+       ${conditions.map(condition => `AND ${condition}`).join('\n       ')}
+     ORDER BY bm25(search_index, 10.0, 1.0)
+     LIMIT ?`,
+    params
+  );
+
+  return rows.map(row => {
+    const isItem = !!row.item_id;
+    return {
+      entry_id: row.entry_id,
+      entry_type: row.type,
+      item_id: row.item_id ?? undefined,
+      parent_task_id: row.parent_task_id ?? undefined,
+      title: row.title_match,
+      snippet: hasHighlight(row.body_match) ? row.body_match : undefined,
+      checklist_title: isItem ? row.entry_title : undefined,
+      completed: isItem ? row.checked === 1 : row.completed === 1,
+      collection_id: row.collection_id ?? undefined,
+      collection_name: row.collection_name ?? undefined,
+    };
+  });
+}
+
+// ========== EXPENSE OPERATIONS ==========
+
+/**
+ * Expenses use the same soft delete as entries: deleteExpense sets
+ * deleted_at, Trash lists and restores them, purgeExpiredTrash removes
+ * them for good after TRASH_RETENTION_DAYS.
+ * 
+ * transaction_date: epoch ms (local midnight of the day picked in ExpenseModal)
+ */
+
+function mapExpenseRow(row: any): ExpenseWithCategory {
+  return {
+    id: row.id,
+    amount: row.amount,
+    currency: row.currency,
+    transaction_date: row.transaction_date,
+    note: row.note ?? undefined,
+    category_id: row.category_id ?? undefined,
+    merchant_name: row.merchant_name ?? undefined,
+    payment_method: row.payment_method ?? undefined,
+    receipt_photo_path: row.receipt_photo_path ?? undefined,
+    recurring_expense_id: row.recurring_expense_id ?? undefined,
+    category_name: row.category_name ?? undefined,
+    category_icon: row.category_icon ?? undefined,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    deleted_at: row.deleted_at ?? undefined,
+  };
+}
+
+function assertValidAmount(amount: number): void {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error('Amount must be greater than zero');
+  }
+}
+
+/**
+ * Get active expenses, newest first, with their category
+ * 
+ * @param range - Optional transaction_date window: from (inclusive), to (exclusive)
+ */
+export async function getExpenses(
+  range: { from?: number; to?: number } = {}
+): Promise<ExpenseWithCategory[]> {
+  const db = await getDatabase();
+  const conditions = ['x.deleted_at IS NULL'];
+  const params: number[] = [];
+
+  if (range.from !== undefined) {
+    conditions.push('x.transaction_date >= ?');
+    params.push(range.from);
+  }
+
+  if (range.to !== undefined) {
+    conditions.push('x.transaction_date < ?');
+    params.push(range.to);
+  }
+
+  const rows = await db.getAllAsync<any>(
+    `SELECT x.*, bc.name as category_name, bc.icon as category_icon
+     FROM expenses x
+     LEFT JOIN budget_categories bc ON bc.id = x.category_id AND bc.deleted_at IS NULL
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY x.transaction_date DESC, x.created_at DESC`,
+    params
+  );
+
+  return rows.map(mapExpenseRow);
+}
+
+/**
+ * Get a single active expense
+ */
+export async function getExpenseById(expenseId: string): Promise<ExpenseWithCategory | null> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<any>(
+    `SELECT x.*, bc.name as category_name, bc.icon as category_icon
+     FROM expenses x
+     LEFT JOIN budget_categories bc ON bc.id = x.category_id AND bc.deleted_at IS NULL
+     WHERE x.id = ? AND x.deleted_at IS NULL`,
+    [expenseId]
+  );
+
+  return row ? mapExpenseRow(row) : null;
+}
+
+/**
+ * Create an expense ('' for an optional field is stored as NULL)
+ * An empty category or payment method is filled by the category rules.
+ * @throws Error if the amount is not a positive number
+ * @returns The new expense id
+ */
+export async function createExpense(input: CreateExpense): Promise<string> {
+  assertValidAmount(input.amount);
+
+  const db = await getDatabase();
+  const id = Crypto.randomUUID();
+  const now = getCurrentTimestamp();
+  const filled = input.category_id && input.payment_method
+    ? {}
+    : applyRules(await getActiveCategoryRules(db), input);
+
+  await db.runAsync(
+    `INSERT INTO expenses (
+      id, amount, currency, transaction_date, note, category_id,
+      merchant_name, payment_method, receipt_photo_path, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      input.amount,
+      input.currency,
+      input.transaction_date,
+      input.note || null,
+      input.category_id || filled.category_id || null,
+      input.merchant_name || null,
+      input.payment_method || filled.payment_method || null,
+      input.receipt_photo_path || null,
+      now,
+      now,
+    ]
+  );
+
+  return id;
+}
+
+/**
+ * Update an expense (only the fields given; '' clears an optional field)
+ * @throws Error if a new amount is not a positive number
+ */
+export async function updateExpense(input: UpdateExpense): Promise<void> {
+  if (input.amount !== undefined) {
+    assertValidAmount(input.amount);
+  }
+
+  const db = await getDatabase();
+  const fields: string[] = [];
+  const values: any[] = [];
+
+  const columns = [
+    'amount', 'currency', 'transaction_date', 'note', 'category_id',
+    'merchant_name', 'payment_method', 'receipt_photo_path',
+  ] as const;
+
+  for (const column of columns) {
+    if (input[column] !== undefined) {
+      fields.push(`${column} = ?`);
+      values.push(input[column] === '' ? null : input[column]);
+    }
+  }
+
+  if (fields.length === 0) {
+    return;
+  }
+
+  fields.push('updated_at = ?');
+  values.push(getCurrentTimestamp());
+  values.push(input.id);
+
+  await db.runAsync(
+    `UPDATE expenses SET ${fields.join(', ')} WHERE id = ? AND deleted_at IS NULL`,
+    values
+  );
+}
+
+/**
+ * Attach a receipt (image or PDF) to an expense, replacing any previous one
+ * The file is copied into receipt storage (receipts/storage.ts).
+ */
+export async function setExpenseReceipt(expenseId: string, picked: PickedReceipt): Promise<void> {
+  const db = await getDatabase();
+  const current = await db.getFirstAsync<{ receipt_photo_path: string | null }>(
+    'SELECT receipt_photo_path FROM expenses WHERE id = ?',
+    [expenseId]
+  );
+
+  const path = saveReceiptFile(expenseId, picked);
+
+  await db.runAsync(
+    'UPDATE expenses SET receipt_photo_path = ?, updated_at = ? WHERE id = ?',
+    [path, getCurrentTimestamp(), expenseId]
+  );
+
+  // Same expense, other file type (photo replaced by a PDF)
+  if (current?.receipt_photo_path && current.receipt_photo_path !== path) {
+    deleteReceiptFile(current.receipt_photo_path);
+  }
+}
+
+/**
+ * Remove an expense's receipt and its file
+ */
+export async function removeExpenseReceipt(expenseId: string): Promise<void> {
+  const db = await getDatabase();
+  const current = await db.getFirstAsync<{ receipt_photo_path: string | null }>(
+    'SELECT receipt_photo_path FROM expenses WHERE id = ?',
+    [expenseId]
+  );
+
+  if (!current?.receipt_photo_path) return;
+
+  await db.runAsync(
+    'UPDATE expenses SET receipt_photo_path = NULL, updated_at = ? WHERE id = ?',
+    [getCurrentTimestamp(), expenseId]
+  );
+
+  deleteReceiptFile(current.receipt_photo_path);
+}
+
+/**
+ * Delete an expense (soft delete - recoverable from Trash)
+ * The receipt file is kept until the expense is purged.
+ */
+export async function deleteExpense(expenseId: string): Promise<void> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  await db.runAsync(
+    'UPDATE expenses SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+    [now, now, expenseId]
+  );
+}
+
+// ========== BUDGET CATEGORY OPERATIONS ==========
+
+function mapBudgetCategoryRow(row: any): BudgetCategory {
+  return {
+    id: row.id,
+    name: row.name,
+    icon: row.icon ?? undefined,
+    color_hint: row.color_hint ?? undefined,
+    parent_category_id: row.parent_category_id ?? undefined,
+    sort_order: row.sort_order,
+    is_archived: row.is_archived === 1,
+    monthly_limit: row.monthly_limit ?? undefined,
+    limit_currency: row.limit_currency,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    deleted_at: row.deleted_at ?? undefined,
+  };
+}
+
+/**
+ * Get budget categories in list order
+ * 
+ * Categories nest one level deep: parent_category_id always points at a
+ * top-level category. Children follow their parent's sort_order in the UI,
+ * sort_order orders siblings.
+ * 
+ * @param options.includeArchived - Also return archived categories
+ *   (the budget view shows them for months they had spending in)
+ */
+export async function getBudgetCategories(
+  options: { includeArchived?: boolean } = {}
+): Promise<BudgetCategory[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<any>(
+    `SELECT * FROM budget_categories
+     WHERE deleted_at IS NULL${options.includeArchived ? '' : ' AND is_archived = 0'}
+     ORDER BY sort_order ASC, name ASC`
+  );
+
+  return rows.map(mapBudgetCategoryRow);
+}
+
+/**
+ * Check a parent for a category (one level of nesting)
+ * @throws Error if the parent is missing, is itself a child, or would
+ *   nest a category that has children of its own
+ */
+async function assertValidParent(
+  db: any,
+  parentId: string,
+  categoryId?: string
+): Promise<void> {
+  if (parentId === categoryId) {
+    throw new Error('A category cannot be its own parent');
+  }
+
+  const parent = await db.getFirstAsync(
+    'SELECT parent_category_id FROM budget_categories WHERE id = ? AND deleted_at IS NULL',
+    [parentId]
+  ) as { parent_category_id: string | null } | null;
+
+  if (!parent) {
+    throw new Error('Parent category not found');
+  }
+
+  if (parent.parent_category_id) {
+    throw new Error('Categories can only be nested one level deep');
+  }
+
+  if (categoryId) {
+    const child = await db.getFirstAsync(
+      'SELECT id FROM budget_categories WHERE parent_category_id = ? AND deleted_at IS NULL',
+      [categoryId]
+    );
+
+    if (child) {
+      throw new Error('A category with subcategories cannot be nested');
+    }
+  }
+}
+
+/**
+ * Create a budget category (added at the end of its siblings)
+ * @throws Error if the name is empty or the parent is not valid
+ * @returns The new category id
+ */
+export async function createBudgetCategory(
+  input: Pick<CreateBudgetCategory, 'name'> & Partial<CreateBudgetCategory>
+): Promise<string> {
+  const name = normalizeNameDisplay(input.name);
+  if (name.length === 0) {
+    throw new Error('Category name cannot be empty');
+  }
+
+  if (input.monthly_limit !== undefined) {
+    assertValidAmount(input.monthly_limit);
+  }
+
+  const db = await getDatabase();
+
+  if (input.parent_category_id) {
+    await assertValidParent(db, input.parent_category_id);
+  }
+
+  const last = await db.getFirstAsync<{ max_order: number | null }>(
+    `SELECT MAX(sort_order) as max_order FROM budget_categories
+     WHERE deleted_at IS NULL AND parent_category_id IS ?`,
+    [input.parent_category_id || null]
+  );
+
+  const id = Crypto.randomUUID();
+  const now = getCurrentTimestamp();
+
+  await db.runAsync(
+    `INSERT INTO budget_categories (
+      id, name, icon, color_hint, parent_category_id, sort_order,
+      is_archived, monthly_limit, limit_currency, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      name,
+      input.icon || null,
+      input.color_hint || null,
+      input.parent_category_id || null,
+      (last?.max_order ?? -1) + 1,
+      input.is_archived ? 1 : 0,
+      input.monthly_limit ?? null,
+      input.limit_currency || 'EUR',
+      now,
+      now,
+    ]
+  );
+
+  return id;
+}
+
+/**
+ * Update a budget category (only the fields given)
+ * 
+ * - '' clears icon, color_hint and parent_category_id; null clears monthly_limit
+ * - Moving a category to another parent puts it at the end of its new siblings
+ * 
+ * @throws Error if the name is empty, the limit is not positive or the parent is not valid
+ */
+export async function updateBudgetCategory(
+  input: Omit<UpdateBudgetCategory, 'monthly_limit'> & { monthly_limit?: number | null }
+): Promise<void> {
+  const db = await getDatabase();
+  const fields: string[] = [];
+  const values: any[] = [];
+
+  if (input.name !== undefined) {
+    const name = normalizeNameDisplay(input.name);
+    if (name.length === 0) {
+      throw new Error('Category name cannot be empty');
+    }
+    fields.push('name = ?');
+    values.push(name);
+  }
+
+  if (input.monthly_limit !== undefined) {
+    if (input.monthly_limit !== null) {
+      assertValidAmount(input.monthly_limit);
+    }
+    fields.push('monthly_limit = ?');
+    values.push(input.monthly_limit);
+  }
+
+  if (input.parent_category_id !== undefined) {
+    const parentId = input.parent_category_id || null;
+    const current = await db.getFirstAsync<{ parent_category_id: string | null }>(
+      'SELECT parent_category_id FROM budget_categories WHERE id = ?',
+      [input.id]
+    );
+
+    if (parentId !== (current?.parent_category_id ?? null)) {
+      if (parentId) {
+        await assertValidParent(db, parentId, input.id);
+      }
+
+      const last = await db.getFirstAsync<{ max_order: number | null }>(
+        `SELECT MAX(sort_order) as max_order FROM budget_categories
+         WHERE deleted_at IS NULL AND parent_category_id IS ?`,
+        [parentId]
+      );
+
+      fields.push('parent_category_id = ?', 'sort_order = ?');
+      values.push(parentId, (last?.max_order ?? -1) + 1);
+    }
+  }
+
+  for (const column of ['icon', 'color_hint', 'limit_currency'] as const) {
+    if (input[column] !== undefined) {
+      fields.push(`${column} = ?`);
+      values.push(input[column] === '' ? null : input[column]);
+    }
+  }
+
+  if (input.sort_order !== undefined) {
+    fields.push('sort_order = ?');
+    values.push(input.sort_order);
+  }
+
+  if (input.is_archived !== undefined) {
+    fields.push('is_archived = ?');
+    values.push(input.is_archived ? 1 : 0);
+  }
+
+  if (fields.length === 0) {
+    return;
+  }
+
+  fields.push('updated_at = ?');
+  values.push(getCurrentTimestamp());
+  values.push(input.id);
+
+  await db.runAsync(
+    `UPDATE budget_categories SET ${fields.join(', ')} WHERE id = ? AND deleted_at IS NULL`,
+    values
+  );
+}
+
+/**
+ * Archive or unarchive a category together with its subcategories
+ * Archived categories are hidden from pickers; their expenses keep them
+ * and past months still show them in the budget view.
+ */
+export async function setBudgetCategoryArchived(
+  categoryId: string,
+  archived: boolean
+): Promise<void> {
+  const db = await getDatabase();
+
+  await db.runAsync(
+    `UPDATE budget_categories SET is_archived = ?, updated_at = ?
+     WHERE (id = ? OR parent_category_id = ?) AND deleted_at IS NULL`,
+    [archived ? 1 : 0, getCurrentTimestamp(), categoryId, categoryId]
+  );
+}
+
+/**
+ * Save a new order for sibling categories (sort_order = position in the list)
+ */
+export async function reorderBudgetCategories(categoryIds: string[]): Promise<void> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+
+    for (let index = 0; index < categoryIds.length; index++) {
+      await db.runAsync(
+        'UPDATE budget_categories SET sort_order = ?, updated_at = ? WHERE id = ?',
+        [index, now, categoryIds[index]]
+      );
+    }
+
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('❌ Failed to reorder budget categories:', error);
+    throw error;
+  }
+}
+
+/**
+ * Spending per category, currency and day for a transaction_date window
+ * from (inclusive), to (exclusive). Uncategorized expenses have category_id null.
+ * Per day so each row can be converted with the rate of its day (utils/currency.ts).
+ */
+export async function getCategorySpending(range: {
+  from: number;
+  to: number;
+}): Promise<CategorySpend[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<any>(
+    `SELECT category_id, currency, transaction_date, SUM(amount) as total
+     FROM expenses
+     WHERE deleted_at IS NULL AND transaction_date >= ? AND transaction_date < ?
+     GROUP BY category_id, currency, transaction_date`,
+    [range.from, range.to]
+  );
+
+  return rows.map(row => ({
+    category_id: row.category_id ?? null,
+    currency: row.currency,
+    transaction_date: row.transaction_date,
+    total: row.total,
+  }));
+}
+
+// ========== CATEGORY RULE OPERATIONS ==========
+
+/**
+ * VERSION 13: Auto-categorization rules (category_rules table).
+ * Matching is pure - see utils/rules.ts. Rules run on createExpense,
+ * on statement import and on demand (applyRulesToUncategorized).
+ * Rules are settings: hard delete, no Trash.
+ */
+
+function mapCategoryRuleRow(row: any): CategoryRule {
+  return {
+    id: row.id,
+    merchant_contains: row.merchant_contains ?? undefined,
+    min_amount: row.min_amount ?? undefined,
+    max_amount: row.max_amount ?? undefined,
+    category_id: row.category_id ?? undefined,
+    payment_method: row.payment_method ?? undefined,
+    sort_order: row.sort_order,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Rules to run, in priority order
+ * Rules pointing at an archived or deleted category are skipped.
+ */
+async function getActiveCategoryRules(db: any): Promise<CategoryRule[]> {
+  const rows = await db.getAllAsync(
+    `SELECT r.* FROM category_rules r
+     LEFT JOIN budget_categories bc ON bc.id = r.category_id
+     WHERE r.category_id IS NULL OR (bc.deleted_at IS NULL AND bc.is_archived = 0)
+     ORDER BY r.sort_order ASC, r.created_at ASC`
+  ) as any[];
+
+  return rows.map(mapCategoryRuleRow);
+}
+
+/**
+ * Get every rule in priority order
+ */
+export async function getCategoryRules(): Promise<CategoryRule[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<any>(
+    'SELECT * FROM category_rules ORDER BY sort_order ASC, created_at ASC'
+  );
+
+  return rows.map(mapCategoryRuleRow);
+}
+
+function assertValidRule(input: CreateCategoryRule): void {
+  if (!hasRuleCondition(input)) {
+    throw new Error('A rule needs a merchant or an amount to match');
+  }
+
+  if (!hasRuleAction(input)) {
+    throw new Error('A rule needs a category or a payment method to set');
+  }
+
+  if (
+    input.min_amount !== undefined &&
+    input.max_amount !== undefined &&
+    input.min_amount > input.max_amount
+  ) {
+    throw new Error('Minimum amount is above the maximum');
+  }
+}
+
+/**
+ * Create a rule (last priority) or replace an existing one when id is given
+ * @throws Error if the rule has no condition or no action
+ * @returns The rule id
+ */
+export async function saveCategoryRule(
+  input: CreateCategoryRule & { id?: string }
+): Promise<string> {
+  assertValidRule(input);
+
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  const values = [
+    input.merchant_contains?.trim() || null,
+    input.min_amount ?? null,
+    input.max_amount ?? null,
+    input.category_id || null,
+    input.payment_method || null,
+  ];
+
+  if (input.id) {
+    await db.runAsync(
+      `UPDATE category_rules SET
+        merchant_contains = ?, min_amount = ?, max_amount = ?, category_id = ?, payment_method = ?,
+        updated_at = ?
+       WHERE id = ?`,
+      [...values, now, input.id]
+    );
+    return input.id;
+  }
+
+  const last = await db.getFirstAsync<{ max_order: number | null }>(
+    'SELECT MAX(sort_order) as max_order FROM category_rules'
+  );
+
+  const id = Crypto.randomUUID();
+  await db.runAsync(
+    `INSERT INTO category_rules (
+      merchant_contains, min_amount, max_amount, category_id, payment_method,
+      id, sort_order, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [...values, id, (last?.max_order ?? -1) + 1, now, now]
+  );
+
+  return id;
+}
+
+/**
+ * Save a rule learned from a correction (getRuleSuggestion), first priority
+ * so it beats broader rules. A merchant-only rule for the same merchant is
+ * updated rather than duplicated.
+ */
+export async function learnCategoryRule(input: CreateCategoryRule): Promise<void> {
+  assertValidRule(input);
+
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  const merchant = input.merchant_contains?.trim() ?? '';
+
+  const first = await db.getFirstAsync<{ min_order: number | null }>(
+    'SELECT MIN(sort_order) as min_order FROM category_rules'
+  );
+  const sortOrder = (first?.min_order ?? 1) - 1;
+
+  const existing = await db.getFirstAsync<{ id: string }>(
+    `SELECT id FROM category_rules
+     WHERE LOWER(merchant_contains) = LOWER(?) AND min_amount IS NULL AND max_amount IS NULL`,
+    [merchant]
+  );
+
+  if (existing) {
+    await db.runAsync(
+      'UPDATE category_rules SET category_id = ?, sort_order = ?, updated_at = ? WHERE id = ?',
+      [input.category_id || null, sortOrder, now, existing.id]
+    );
+    return;
+  }
+
+  await db.runAsync(
+    `INSERT INTO category_rules (
+      id, merchant_contains, min_amount, max_amount, category_id, payment_method,
+      sort_order, created_at, updated_at
+    ) VALUES (?, ?, NULL, NULL, ?, ?, ?, ?, ?)`,
+    [
+      Crypto.randomUUID(),
+      merchant,
+      input.category_id || null,
+      input.payment_method || null,
+      sortOrder,
+      now,
+      now,
+    ]
+  );
+}
+
+/**
+ * Delete a rule (hard delete)
+ */
+export async function deleteCategoryRule(ruleId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync('DELETE FROM category_rules WHERE id = ?', [ruleId]);
+}
+
+/**
+ * Save a new rule priority order
+ * @param ruleIds - Every rule id, first to run first
+ */
+export async function reorderCategoryRules(ruleIds: string[]): Promise<void> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+
+    for (let index = 0; index < ruleIds.length; index++) {
+      await db.runAsync(
+        'UPDATE category_rules SET sort_order = ?, updated_at = ? WHERE id = ?',
+        [index, now, ruleIds[index]]
+      );
+    }
+
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('❌ Failed to reorder category rules:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run the rules over every active expense without a category
+ * (an empty payment method is filled too)
+ * @returns Number of expenses that got a category
+ */
+export async function applyRulesToUncategorized(): Promise<number> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  let categorized = 0;
+
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+
+    const rules = await getActiveCategoryRules(db);
+    const expenses = await db.getAllAsync<any>(
+      `SELECT id, amount, merchant_name, payment_method FROM expenses
+       WHERE category_id IS NULL AND deleted_at IS NULL`
+    );
+
+    for (const expense of expenses) {
+      const filled = applyRules(rules, expense);
+      if (!filled.category_id && !filled.payment_method) continue;
+
+      // A rule may only set the payment method; the expense stays uncategorized
+      await db.runAsync(
+        `UPDATE expenses SET category_id = ?, payment_method = COALESCE(payment_method, ?), updated_at = ?
+         WHERE id = ?`,
+        [filled.category_id ?? null, filled.payment_method ?? null, now, expense.id]
+      );
+      if (filled.category_id) {
+        categorized++;
+      }
+    }
+
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('❌ Failed to apply category rules:', error);
+    throw error;
+  }
+
+  return categorized;
+}
+
+// ========== RECURRING EXPENSE OPERATIONS ==========
+
+/**
+ * VERSION 14: Recurring expense templates (recurring_expenses table).
+ * generateDueRecurringExpenses turns due charges into expenses and moves
+ * next_due_date forward; App runs it on start so missed periods are caught up.
+ * Schedules and costs are pure - see utils/subscriptions.ts.
+ * Templates are settings: hard delete, no Trash (generated expenses stay).
+ */
+
+function mapRecurringExpenseRow(row: any): RecurringExpenseWithCategory {
+  return {
+    id: row.id,
+    name: row.name,
+    amount: row.amount,
+    currency: row.currency,
+    category_id: row.category_id ?? undefined,
+    payment_method: row.payment_method ?? undefined,
+    repeat_rule: row.repeat_rule,
+    next_due_date: row.next_due_date,
+    is_paused: row.is_paused === 1,
+    category_name: row.category_name ?? undefined,
+    category_icon: row.category_icon ?? undefined,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function assertValidRecurringExpense(input: CreateRecurringExpense): void {
+  if (!input.name.trim()) {
+    throw new Error('Name is required');
+  }
+
+  assertValidAmount(input.amount);
+
+  if (!parseRepeatRule(input.repeat_rule)) {
+    throw new Error('Invalid schedule');
+  }
+}
+
+/**
+ * Get every template with its category, next charge first
+ */
+export async function getRecurringExpenses(): Promise<RecurringExpenseWithCategory[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<any>(
+    `SELECT r.*, bc.name as category_name, bc.icon as category_icon
+     FROM recurring_expenses r
+     LEFT JOIN budget_categories bc ON bc.id = r.category_id AND bc.deleted_at IS NULL
+     ORDER BY r.is_paused ASC, r.next_due_date ASC, r.name COLLATE NOCASE ASC`
+  );
+
+  return rows.map(mapRecurringExpenseRow);
+}
+
+/**
+ * Create a template or replace an existing one when id is given
+ * A next_due_date in the past is charged by the next generateDueRecurringExpenses.
+ * @throws Error if the name is empty, the amount is not positive or the schedule is invalid
+ * @returns The template id
+ */
+export async function saveRecurringExpense(
+  input: CreateRecurringExpense & { id?: string }
+): Promise<string> {
+  assertValidRecurringExpense(input);
+
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  const values = [
+    input.name.trim(),
+    input.amount,
+    input.currency,
+    input.category_id || null,
+    input.payment_method || null,
+    input.repeat_rule,
+    input.next_due_date,
+  ];
+
+  if (input.id) {
+    await db.runAsync(
+      `UPDATE recurring_expenses SET
+        name = ?, amount = ?, currency = ?, category_id = ?, payment_method = ?,
+        repeat_rule = ?, next_due_date = ?, updated_at = ?
+       WHERE id = ?`,
+      [...values, now, input.id]
+    );
+    return input.id;
+  }
+
+  const id = Crypto.randomUUID();
+  await db.runAsync(
+    `INSERT INTO recurring_expenses (
+      name, amount, currency, category_id, payment_method, repeat_rule, next_due_date,
+      id, is_paused, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?)`,
+    [...values, id, now, now]
+  );
+
+  return id;
+}
+
+/**
+ * Pause or resume a template
+ * Resuming skips the charges missed while paused (next charge today or later).
+ */
+export async function setRecurringExpensePaused(templateId: string, isPaused: boolean): Promise<void> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  const template = await db.getFirstAsync<any>(
+    'SELECT repeat_rule, next_due_date FROM recurring_expenses WHERE id = ?',
+    [templateId]
+  );
+  if (!template) return;
+
+  const nextDue = isPaused
+    ? template.next_due_date
+    : getNextChargeFrom(template.repeat_rule, template.next_due_date, now);
+
+  await db.runAsync(
+    'UPDATE recurring_expenses SET is_paused = ?, next_due_date = ?, updated_at = ? WHERE id = ?',
+    [isPaused ? 1 : 0, nextDue, now, templateId]
+  );
+}
+
+/**
+ * Delete a template (hard delete); expenses it generated are kept
+ */
+export async function deleteRecurringExpense(templateId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync('DELETE FROM recurring_expenses WHERE id = ?', [templateId]);
+}
+
+/**
+ * Create an expense for every charge that came due (up to today) on active
+ * templates, and move their next_due_date past today.
+ * Empty category / payment method are filled by the category rules.
+ * Safe to call repeatedly: a charge is generated once.
+ * @returns Number of expenses created
+ */
+export async function generateDueRecurringExpenses(): Promise<number> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  let created = 0;
+
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+
+    const templates = await db.getAllAsync<any>(
+      `SELECT * FROM recurring_expenses WHERE is_paused = 0 AND next_due_date <= ?`,
+      [now]
+    );
+    const rules = templates.length > 0 ? await getActiveCategoryRules(db) : [];
+
+    for (const template of templates) {
+      const { dates, nextDue } = getDueCharges(template.repeat_rule, template.next_due_date, now);
+      if (nextDue === null) continue;
+
+      const filled = template.category_id && template.payment_method
+        ? {}
+        : applyRules(rules, { ...template, merchant_name: template.name });
+
+      for (const date of dates) {
+        await db.runAsync(
+          `INSERT INTO expenses (
+            id, amount, currency, transaction_date, category_id, merchant_name,
+            payment_method, recurring_expense_id, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            Crypto.randomUUID(),
+            template.amount,
+            template.currency,
+            date,
+            template.category_id || filled.category_id || null,
+            template.name,
+            template.payment_method || filled.payment_method || null,
+            template.id,
+            now,
+            now,
+          ]
+        );
+        created++;
+      }
+
+      await db.runAsync(
+        'UPDATE recurring_expenses SET next_due_date = ?, updated_at = ? WHERE id = ?',
+        [nextDue, now, template.id]
+      );
+    }
+
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('❌ Failed to generate recurring expenses:', error);
+    throw error;
+  }
+
+  return created;
+}
+
+// ========== EXCHANGE RATE OPERATIONS ==========
+
+/**
+ * VERSION 11: Offline exchange rates (exchange_rates table) and the base
+ * currency totals are converted to (app_metadata key 'base_currency').
+ * Conversion itself is pure - see utils/currency.ts.
+ */
+
+const BASE_CURRENCY_KEY = 'base_currency';
+
+function mapExchangeRateRow(row: any): ExchangeRate {
+  return {
+    id: row.id,
+    from_currency: row.from_currency,
+    to_currency: row.to_currency,
+    rate: row.rate,
+    effective_date: row.effective_date,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Currency that totals and budgets are shown in (EUR until one is chosen)
+ */
+export async function getBaseCurrency(): Promise<string> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<{ value: string }>(
+    'SELECT value FROM app_metadata WHERE key = ?',
+    [BASE_CURRENCY_KEY]
+  );
+
+  return row?.value ?? DEFAULT_CURRENCY;
+}
+
+export async function setBaseCurrency(currency: string): Promise<void> {
+  const db = await getDatabase();
+
+  await db.runAsync(
+    'INSERT OR REPLACE INTO app_metadata (key, value) VALUES (?, ?)',
+    [BASE_CURRENCY_KEY, currency]
+  );
+}
+
+/**
+ * Get every exchange rate, newest first
+ */
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<any>(
+    `SELECT * FROM exchange_rates
+     ORDER BY effective_date DESC, from_currency ASC, to_currency ASC`
+  );
+
+  return rows.map(mapExchangeRateRow);
+}
+
+/**
+ * Write one rate, replacing the rate for the same pair and day if there is one
+ * @returns true if a rate was added, false if one was replaced
+ */
+async function upsertExchangeRate(db: any, input: ExchangeRateInput, now: number): Promise<boolean> {
+  const result = await db.runAsync(
+    `UPDATE exchange_rates SET rate = ?, updated_at = ?
+     WHERE from_currency = ? AND to_currency = ? AND effective_date = ?`,
+    [input.rate, now, input.from_currency, input.to_currency, input.effective_date]
+  ) as { changes: number };
+
+  if (result.changes > 0) {
+    return false;
+  }
+
+  await db.runAsync(
+    `INSERT INTO exchange_rates (
+      id, from_currency, to_currency, rate, effective_date, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [Crypto.randomUUID(), input.from_currency, input.to_currency, input.rate, input.effective_date, now, now]
+  );
+
+  return true;
+}
+
+function assertValidRate(input: ExchangeRateInput): void {
+  if (input.from_currency === input.to_currency) {
+    throw new Error('Pick two different currencies');
+  }
+
+  if (!Number.isFinite(input.rate) || input.rate <= 0) {
+    throw new Error('Rate must be greater than zero');
+  }
+}
+
+/**
+ * Add a rate (or replace the rate for the same pair and day)
+ * @throws Error if the currencies are the same or the rate is not positive
+ */
+export async function saveExchangeRate(input: ExchangeRateInput): Promise<void> {
+  assertValidRate(input);
+
+  const db = await getDatabase();
+  await upsertExchangeRate(db, input, getCurrentTimestamp());
+}
+
+/**
+ * Delete a rate (hard delete - rates are reference data, no Trash)
+ */
+export async function deleteExchangeRate(rateId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync('DELETE FROM exchange_rates WHERE id = ?', [rateId]);
+}
+
+/**
+ * Import rates read from a CSV file (parseRatesCsv), all or nothing
+ */
+export async function importExchangeRates(
+  rates: ExchangeRateInput[]
+): Promise<ExchangeRateImportResult> {
+  rates.forEach(assertValidRate);
+
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  const result: ExchangeRateImportResult = { added: 0, updated: 0 };
+
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+
+    for (const rate of rates) {
+      if (await upsertExchangeRate(db, rate, now)) {
+        result.added++;
+      } else {
+        result.updated++;
+      }
+    }
+
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('❌ Failed to import exchange rates:', error);
+    throw error;
+  }
+
+  return result;
+}
+
+// ========== STATEMENT IMPORT OPERATIONS ==========
+
+/**
+ * VERSION 12: Bank statement CSV import. Parsing, column mapping and
+ * duplicate detection are pure - see utils/statement.ts. Saved mappings
+ * (import_profiles) are settings: hard delete, no Trash.
+ */
+
+function mapImportProfileRow(row: any): ImportProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    has_header: row.has_header === 1,
+    date_column: row.date_column,
+    amount_column: row.amount_column,
+    merchant_column: row.merchant_column ?? undefined,
+    note_column: row.note_column ?? undefined,
+    currency_column: row.currency_column ?? undefined,
+    default_currency: row.default_currency,
+    expenses_negative: row.expenses_negative === 1,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Get saved import profiles, by name
+ */
+export async function getImportProfiles(): Promise<ImportProfile[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<any>(
+    'SELECT * FROM import_profiles ORDER BY name COLLATE NOCASE ASC'
+  );
+
+  return rows.map(mapImportProfileRow);
+}
+
+/**
+ * Save a column mapping under a name (updates the profile when id is given)
+ * @throws Error if the name is empty
+ * @returns The profile id
+ */
+export async function saveImportProfile(
+  input: StatementMapping & { id?: string; name: string }
+): Promise<string> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Profile name cannot be empty');
+  }
+
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  const values = [
+    name,
+    input.has_header ? 1 : 0,
+    input.date_column,
+    input.amount_column,
+    input.merchant_column ?? null,
+    input.note_column ?? null,
+    input.currency_column ?? null,
+    input.default_currency,
+    input.expenses_negative ? 1 : 0,
+  ];
+
+  if (input.id) {
+    await db.runAsync(
+      `UPDATE import_profiles SET
+        name = ?, has_header = ?, date_column = ?, amount_column = ?, merchant_column = ?,
+        note_column = ?, currency_column = ?, default_currency = ?, expenses_negative = ?,
+        updated_at = ?
+       WHERE id = ?`,
+      [...values, now, input.id]
+    );
+    return input.id;
+  }
+
+  const id = Crypto.randomUUID();
+  await db.runAsync(
+    `INSERT INTO import_profiles (
+      name, has_header, date_column, amount_column, merchant_column,
+      note_column, currency_column, default_currency, expenses_negative,
+      id, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [...values, id, now, now]
+  );
+
+  return id;
+}
+
+/**
+ * Delete an import profile (hard delete)
+ */
+export async function deleteImportProfile(profileId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync('DELETE FROM import_profiles WHERE id = ?', [profileId]);
+}
+
+/**
+ * Import statement rows as expenses, all or nothing
+ * Rows matching an active expense (same day, amount and merchant) are
+ * skipped, so importing the same statement twice adds nothing.
+ * Category and payment method come from the category rules.
+ */
+export async function importStatementExpenses(
+  rows: StatementRow[]
+): Promise<StatementImportResult> {
+  if (rows.length === 0) {
+    return { imported: 0, duplicates: 0 };
+  }
+
+  rows.forEach(row => assertValidAmount(row.amount));
+
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+  const dates = rows.map(row => row.transaction_date);
+
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+
+    // Rows are local midnights; the day after the last one covers any time of day
+    const existing = await db.getAllAsync<any>(
+      `SELECT transaction_date, amount, merchant_name FROM expenses
+       WHERE deleted_at IS NULL AND transaction_date >= ? AND transaction_date < ?`,
+      [Math.min(...dates), Math.max(...dates) + 24 * 60 * 60 * 1000]
+    );
+    const duplicates = findDuplicates(rows, existing);
+    const rules = await getActiveCategoryRules(db);
+
+    for (const row of rows) {
+      if (duplicates.has(row.line)) continue;
+
+      const filled = applyRules(rules, row);
+
+      await db.runAsync(
+        `INSERT INTO expenses (
+          id, amount, currency, transaction_date, note, category_id, merchant_name,
+          payment_method, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          Crypto.randomUUID(),
+          row.amount,
+          row.currency,
+          row.transaction_date,
+          row.note || null,
+          filled.category_id ?? null,
+          row.merchant_name || null,
+          filled.payment_method ?? null,
+          now,
+          now,
+        ]
+      );
+    }
+
+    await db.execAsync('COMMIT;');
+
+    return { imported: rows.length - duplicates.size, duplicates: duplicates.size };
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('❌ Failed to import statement:', error);
+    throw error;
+  }
+}
+
+// ========== CALENDAR (ICS) IMPORT OPERATIONS ==========
+
+/**
+ * UIDs of the active tasks, as they are exported (utils/ics.ts)
+ */
+async function getActiveIcsUids(db: any): Promise<Set<string>> {
+  const rows = await db.getAllAsync(
+    `SELECT id, ics_uid FROM entries WHERE type = 'task' AND deleted_at IS NULL`
+  ) as { id: string; ics_uid: string | null }[];
+
+  return new Set(rows.map(row => getTaskIcsUid({ id: row.id, ics_uid: row.ics_uid ?? undefined })));
+}
+
+/**
+ * Import tasks read from an .ics file into a collection, all or nothing
+ * 
+ * - Items whose UID matches an active task (imported before, or exported
+ *   from this notebook) are skipped, so re-importing a file adds nothing
+ * - New tasks go to the top of the collection, in file order
+ * - Inline #tags in titles become tags, as in createTask
+ */
+export async function importIcsTasks(
+  tasks: IcsTask[],
+  collectionId: string
+): Promise<IcsImportResult> {
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+
+    const existing = await getActiveIcsUids(db);
+    const fresh = tasks.filter(task => !existing.has(task.uid));
+
+    if (fresh.length > 0) {
+      await db.runAsync(
+        `UPDATE entries 
+         SET sort_order = sort_order + ?, updated_at = ?
+         WHERE collection_id = ? AND deleted_at IS NULL`,
+        [fresh.length, now, collectionId]
+      );
+    }
+
+    for (const [index, task] of fresh.entries()) {
+      const id = Crypto.randomUUID();
+      const { title, tags } = extractInlineTags(task.title);
+
+      await db.runAsync(
+        `INSERT INTO entries (
+          id, type, title, notes, collection_id, due_date, calm_priority,
+          completed, completed_at, repeat_rule, series_id, ics_uid,
+          sort_order, created_at, updated_at
+        ) VALUES (?, 'task', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          title || task.title,
+          task.notes ?? null,
+          collectionId,
+          task.due_date ?? null,
+          task.calm_priority ?? 2,
+          task.completed ? 1 : 0,
+          task.completed ? task.completed_at ?? now : null,
+          task.repeat_rule ?? null,
+          task.repeat_rule ? id : null,
+          task.uid,
+          index,
+          now,
+          now,
+        ]
+      );
+
+      await saveEntryTags(db, id, tags, now);
+    }
+
+    await db.execAsync('COMMIT;');
+
+    return { imported: fresh.length, duplicates: tasks.length - fresh.length };
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('❌ Failed to import calendar:', error);
+    throw error;
+  }
+}
+
+// ========== CALENDAR FEED OPERATIONS ==========
+
+/**
+ * External calendars, by name, with their number of events
+ */
+export async function getCalendarFeeds(): Promise<CalendarFeedWithCount[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<any>(
+    `SELECT f.*, (SELECT COUNT(*) FROM calendar_events e WHERE e.feed_id = f.id) AS event_count
+     FROM calendar_feeds f
+     ORDER BY f.name COLLATE NOCASE ASC`
+  );
+
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    event_count: row.event_count ?? 0,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }));
+}
+
+/**
+ * Store an external calendar read from an .ics file (parseIcsEvents)
+ * A calendar with the same name is refreshed: its events are replaced.
+ */
+export async function importCalendarFeed(
+  name: string,
+  events: CreateCalendarEvent[]
+): Promise<CalendarFeedImportResult> {
+  const feedName = name.trim();
+  if (!feedName) {
+    throw new Error('Calendar name is required');
+  }
+
+  const db = await getDatabase();
+  const now = getCurrentTimestamp();
+
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+
+    const existing = await db.getFirstAsync<{ id: string }>(
+      'SELECT id FROM calendar_feeds WHERE name = ? COLLATE NOCASE',
+      [feedName]
+    );
+    const feedId = existing?.id ?? Crypto.randomUUID();
+
+    if (existing) {
+      await db.runAsync('DELETE FROM calendar_events WHERE feed_id = ?', [feedId]);
+      await db.runAsync('UPDATE calendar_feeds SET updated_at = ? WHERE id = ?', [now, feedId]);
+    } else {
+      await db.runAsync(
+        'INSERT INTO calendar_feeds (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)',
+        [feedId, feedName, now, now]
+      );
+    }
+
+    for (const event of events) {
+      await db.runAsync(
+        `INSERT INTO calendar_events (
+          id, feed_id, uid, title, notes, location, start_time, end_time, is_all_day,
+          repeat_rule, repeat_until, repeat_count, exdates, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          Crypto.randomUUID(),
+          feedId,
+          event.uid,
+          event.title,
+          event.notes ?? null,
+          event.location ?? null,
+          event.start_time,
+          event.end_time ?? null,
+          event.is_all_day ? 1 : 0,
+          event.repeat_rule ?? null,
+          event.repeat_until ?? null,
+          event.repeat_count ?? null,
+          event.exdates.length > 0 ? event.exdates.join(',') : null,
+          now,
+          now,
+        ]
+      );
+    }
+
+    await db.execAsync('COMMIT;');
+
+    return { name: feedName, events: events.length, replaced: !!existing };
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('❌ Failed to import calendar feed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove an external calendar and its events (hard delete)
+ */
+export async function deleteCalendarFeed(feedId: string): Promise<void> {
+  const db = await getDatabase();
+
+  try {
+    await db.execAsync('BEGIN TRANSACTION;');
+    await db.runAsync('DELETE FROM calendar_events WHERE feed_id = ?', [feedId]);
+    await db.runAsync('DELETE FROM calendar_feeds WHERE id = ?', [feedId]);
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    console.error('❌ Failed to delete calendar feed:', error);
+    throw error;
+  }
+}
+
+function mapCalendarEventRow(row: any): CalendarEvent & { feed_name?: string } {
+  return {
+    id: row.id,
+    feed_id: row.feed_id,
+    feed_name: row.feed_name ?? undefined,
+    uid: row.uid,
+    title: row.title,
+    notes: row.notes ?? undefined,
+    location: row.location ?? undefined,
+    start_time: row.start_time,
+    end_time: row.end_time ?? undefined,
+    is_all_day: row.is_all_day === 1,
+    repeat_rule: row.repeat_rule ?? undefined,
+    repeat_until: row.repeat_until ?? undefined,
+    repeat_count: row.repeat_count ?? undefined,
+    exdates: row.exdates ? String(row.exdates).split(',').map(Number) : [],
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Occurrences of external calendar events overlapping [from, to)
+ * Recurring events are expanded (utils/calendarEvents.ts).
+ */
+export async function getCalendarOccurrences(
+  range: { from: number; to: number }
+): Promise<CalendarOccurrence[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<any>(
+    `SELECT e.*, f.name AS feed_name
+     FROM calendar_events e
+     JOIN calendar_feeds f ON f.id = e.feed_id
+     WHERE e.start_time < ?
+       AND (e.repeat_rule IS NOT NULL OR COALESCE(e.end_time, e.start_time) >= ?)`,
+    [range.to, range.from]
+  );
+
+  return getEventOccurrences(rows.map(mapCalendarEventRow), range.from, range.to);
+}
+
+// ========== EXPORT OPERATIONS ==========
+
+/**
+ * Load a collection's entries for Markdown export
+ * Same rows as CollectionsScreen shows (active entries, completed included)
+ */
+export async function getCollectionExport(collection: Collection): Promise<CollectionExport> {
+  const [tasks, notes, checklists, items, records] = await Promise.all([
+    getTasksByCollectionId(collection.id),
+    getNotesByCollectionId(collection.id),
+    getChecklistsByCollectionId(collection.id),
+    getCollectionItems(collection.id),
+    getRecordsByCollectionId(collection.id),
+  ]);
+
+  const checklistsWithItems = await Promise.all(
+    checklists.map(async checklist => ({
+      ...checklist,
+      items: await getChecklistItems(checklist.id),
+    }))
+  );
+
+  const recordsWithValues = await Promise.all(
+    records.map(async record => ({
+      ...record,
+      values: await getRecordValues(record.id),
+    }))
+  );
+
+  return {
+    collection,
+    tasks,
+    notes,
+    checklists: checklistsWithItems,
+    items,
+    records: recordsWithValues,
+  };
+}
+
+/**
+ * Load every collection for a whole-notebook Markdown export
+ * Active collections first (in list order), then archived ones
+ */
+export async function getNotebookExport(): Promise<CollectionExport[]> {
+  const collections = await getAllCollections();
+  const ordered = [
+    ...collections.filter(collection => !collection.is_archived),
+    ...collections.filter(collection => collection.is_archived),
+  ];
+
+  const exports: CollectionExport[] = [];
+  for (const collection of ordered) {
+    exports.push(await getCollectionExport(collection));
+  }
+  return exports;
+}
+
+// ========== BACKUP OPERATIONS ==========
+
+// Foreign key columns remapped when a merge matches a backup row to a local row
+const BACKUP_REFERENCE_COLUMNS = ['collection_id', 'tag_id'];
+
+/**
+ * Export the whole database as a backup document (see utils/backup.ts)
+ * 
+ * - Soft-deleted rows are included (Trash survives a restore)
+ * - Receipt files are included (base64), so restored expenses keep them
+ * - The search index is not exported: its triggers rebuild it on import
+ * - schema_version in app_metadata is exported but never imported
+ */
+export async function exportBackup(): Promise<BackupDocument> {
+  const db = await getDatabase();
+  const tables = {} as BackupDocument['tables'];
+
+  for (const table of BACKUP_TABLES) {
+    tables[table] = await db.getAllAsync<BackupRow>(`SELECT * FROM ${table}`);
+  }
+
+  const receiptPaths = tables.expenses
+    .map(row => row.receipt_photo_path)
+    .filter((path): path is string => typeof path === 'string');
+
+  return {
+    format: BACKUP_FORMAT,
+    schema_version: SCHEMA_VERSION,
+    exported_at: getCurrentTimestamp(),
+    tables,
+    files: await readReceiptFiles(receiptPaths),
+  };
+}
+
+/**
+ * Import a backup document (from parseBackup)
+ * 
+ * MERGE:
+ * - Rows with a new id are added
+ * - Rows with a known id replace the local row only if their updated_at is newer
+ * - Tags with a local tag's name, and the Unsorted collection, are matched to
+ *   the local row (their entries are linked to it) instead of being duplicated
+ * - Local app settings are kept
+ * 
+ * REPLACE:
+ * - Every backed-up table is emptied first, then the backup is restored as-is
+ * 
+ * Runs in one transaction: a failing row leaves the database untouched.
+ * Receipt files are written after the commit (replace also removes the
+ * receipts no restored expense points at). Reminder notifications are
+ * re-synced afterwards.
+ */
+export async function importBackup(
+  doc: BackupDocument,
+  mode: BackupImportMode
+): Promise<BackupImportResult> {
+  const db = await getDatabase();
+  let imported = 0;
+  let skipped = 0;
+
+  await db.execAsync('BEGIN TRANSACTION;');
+
+  try {
+    if (mode === 'replace') {
+      for (const table of [...BACKUP_TABLES].reverse()) {
+        await db.runAsync(
+          table === 'app_metadata'
+            ? `DELETE FROM app_metadata WHERE key != 'schema_version'`
+            : `DELETE FROM ${table}`
+        );
+      }
+    }
+
+    const idMap = mode === 'merge' ? await getBackupMergeIdMap(db, doc) : new Map<string, string>();
+
+    for (const table of BACKUP_TABLES) {
+      const columnRows = (await db.getAllAsync(`PRAGMA table_info(${table})`)) as { name: string }[];
+      const columns = new Set(columnRows.map(column => column.name));
+
+      for (const row of doc.tables[table]) {
+        if (table === 'app_metadata' && row.key === 'schema_version') continue;
+
+        // Matched to a local row - only its references are imported
+        if (typeof row.id === 'string' && idMap.has(row.id)) {
+          skipped++;
+          continue;
+        }
+
+        const changed = await insertBackupRow(db, table, columns, remapBackupRow(row, idMap), mode);
+        if (changed) {
+          imported++;
+        } else {
+          skipped++;
+        }
+      }
+    }
+
+    await db.execAsync('COMMIT;');
+  } catch (error) {
+    await db.execAsync('ROLLBACK;');
+    throw error;
+  }
+
+  // The rows are in - a file that fails to write only loses that receipt
+  try {
+    writeReceiptFiles(doc.files ?? {});
+
+    if (mode === 'replace') {
+      const receipts = await db.getAllAsync<{ receipt_photo_path: string }>(
+        'SELECT receipt_photo_path FROM expenses WHERE receipt_photo_path IS NOT NULL'
+      );
+      deleteUnusedReceiptFiles(new Set(receipts.map(row => row.receipt_photo_path)));
+    }
+  } catch (error) {
+    console.error('❌ Failed to restore receipt files:', error);
+  }
+
+  await syncReminderNotifications();
+
+  return { mode, imported, skipped };
+}
+
+/**
+ * Backup ids that stand for an existing local row under another id
+ * (merge only): tags with the same name, the Unsorted collection
+ */
+async function getBackupMergeIdMap(db: any, doc: BackupDocument): Promise<Map<string, string>> {
+  const idMap = new Map<string, string>();
+
+  const localTags = (await db.getAllAsync('SELECT id, name FROM tags')) as { id: string; name: string }[];
+  const localTagIds = new Map(localTags.map(tag => [tag.name, tag.id]));
+
+  for (const tag of doc.tables.tags) {
+    const localId = localTagIds.get(String(tag.name));
+    if (localId && localId !== tag.id) {
+      idMap.set(String(tag.id), localId);
+    }
+  }
+
+  const unsorted = (await db.getFirstAsync(
+    'SELECT id FROM collections WHERE is_system = 1 AND deleted_at IS NULL'
+  )) as { id: string } | null;
+
+  if (unsorted) {
+    for (const collection of doc.tables.collections) {
+      if (collection.is_system === 1 && collection.id !== unsorted.id) {
+        idMap.set(String(collection.id), unsorted.id);
+      }
+    }
+  }
+
+  return idMap;
+}
+
+function remapBackupRow(row: BackupRow, idMap: Map<string, string>): BackupRow {
+  if (idMap.size === 0) return row;
+
+  const remapped = { ...row };
+  for (const column of BACKUP_REFERENCE_COLUMNS) {
+    const value = remapped[column];
+    if (typeof value === 'string' && idMap.has(value)) {
+      remapped[column] = idMap.get(value)!;
+    }
+  }
+  return remapped;
+}
+
+/**
+ * Write one backup row; columns the table doesn't have are dropped
+ * @returns true if a row was inserted or updated
+ */
+async function insertBackupRow(
+  db: any,
+  table: BackupTable,
+  columns: Set<string>,
+  row: BackupRow,
+  mode: BackupImportMode
+): Promise<boolean> {
+  const names = Object.keys(row).filter(name => columns.has(name));
+  if (names.length === 0) return false;
+
+  const placeholders = names.map(() => '?').join(', ');
+  const values = names.map(name => row[name]);
+  let sql: string;
+
+  if (mode === 'replace') {
+    sql = `INSERT OR REPLACE INTO ${table} (${names.join(', ')}) VALUES (${placeholders})`;
+  } else if (columns.has('id') && columns.has('updated_at') && names.includes('updated_at')) {
+    // Newer edit wins
+    const updates = names
+      .filter(name => name !== 'id')
+      .map(name => `${name} = excluded.${name}`)
+      .join(', ');
+    sql = `INSERT INTO ${table} (${names.join(', ')}) VALUES (${placeholders})
+           ON CONFLICT(id) DO UPDATE SET ${updates}
+           WHERE excluded.updated_at > ${table}.updated_at`;
+  } else {
+    sql = `INSERT OR IGNORE INTO ${table} (${names.join(', ')}) VALUES (${placeholders})`;
+  }
+
+  const result = await db.runAsync(sql, values);
+  return result.changes > 0;
+}
@@ -1,6 +1,52 @@
 /**
  * SQLite schema definitions for Tetradio
  * 
+ * VERSION 18 CHANGES (Records):
+ * - Added unit to entries (record entries: "kg", "km", "mmHg")
+ * - Added record_values table (timestamped numeric values of a record)
+ * 
+ * VERSION 17 CHANGES (Simple Lists):
+ * - Added is_simple_list to collections (collection shows one-line
+ *   collection_items instead of entries)
+ * 
+ * VERSION 16 CHANGES (External Calendars):
+ * - Added calendar_feeds table (calendars imported from .ics files)
+ * - Added calendar_events table (their read-only events)
+ * 
+ * VERSION 15 CHANGES (Calendar Import):
+ * - Added ics_uid to entries (UID of a task imported from an .ics file)
+ * 
+ * VERSION 14 CHANGES (Recurring Expenses):
+ * - Added recurring_expenses table (templates: rent, phone, subscriptions)
+ * - Added recurring_expense_id to expenses (template that generated the row)
+ * 
+ * VERSION 13 CHANGES (Categorization Rules):
+ * - Added category_rules table (merchant / amount conditions → category, payment method)
+ * 
+ * VERSION 12 CHANGES (Statement Import):
+ * - Added import_profiles table (saved CSV column mappings per bank)
+ * 
+ * VERSION 11 CHANGES (Exchange Rates):
+ * - Added exchange_rates table (user-maintained rates with effective dates)
+ * 
+ * VERSION 10 CHANGES (Tags):
+ * - Added tags table (lowercase names, unique)
+ * - Added entry_tags join table (many-to-many entries ↔ tags)
+ * 
+ * VERSION 9 CHANGES (Full-Text Search):
+ * - Added search_index FTS5 table (entry titles/bodies + checklist item titles)
+ * - Kept in sync by triggers on entries and checklist_items
+ * - Existing rows indexed during migration
+ * 
+ * VERSION 8 CHANGES (Recurring Tasks):
+ * - Added repeat_rule column to entries (RRULE-style string, tasks only)
+ * - Added series_id column to entries (links occurrences of one recurring task)
+ * 
+ * VERSION 7 CHANGES (Timestamp Normalization):
+ * - Every timestamp column holds epoch milliseconds (INTEGER)
+ * - Existing datetime('now') TEXT values converted in place
+ * - Collections "deleted" by the old archive-as-delete flow get a real deleted_at
+ * 
  * VERSION 6 CHANGES (Ticket 16 - Drag & Drop Entry Reordering):
  * - Added sort_order column to entries table
  * - New entries inserted at top (sort_order = 0, shift others down)
@@ -36,7 +82,7 @@
  * - No AI fields in main schema (separate intelligence tables for future)
  */
 
-export const SCHEMA_VERSION = 6;
+export const SCHEMA_VERSION = 18;
 
 /**
  * Entries Table (formerly Tasks)
@@ -45,6 +91,9 @@ export const SCHEMA_VERSION = 6;
  * VERSION 2: Added type column, renamed from tasks
  * VERSION 3: Checklists now containers (completion NOT stored here, derived from items)
  * VERSION 5: Renamed list_id → collection_id
+ * VERSION 8: Added repeat_rule, series_id
+ * VERSION 15: Added ics_uid
+ * VERSION 18: Added unit (records)
  * 
  * FIELD USAGE BY TYPE:
  * - type: ALL (required discriminator)
@@ -52,6 +101,14 @@ export const SCHEMA_VERSION = 6;
  * - completed, completed_at, due_date: task ONLY (NOT checklist anymore)
  * - calm_priority: task ONLY
  * - parent_task_id, snoozed_until: task ONLY (legacy fields, not used by other types)
+ * - repeat_rule, series_id: task ONLY (see utils/recurrence.ts)
+ * - ics_uid: task ONLY - UID from an imported .ics file, kept for
+ *   re-imports and exports (NULL for tasks made here, see utils/ics.ts)
+ * - unit: record ONLY - unit of its values, free text (optional)
+ * 
+ * RECORD ENTRIES (VERSION 18):
+ * - A named series (weight, blood pressure, mileage); its values live in
+ *   record_values
  * 
  * CHECKLIST CHANGES (VERSION 3):
  * - Checklist entries do NOT use: completed, completed_at, due_date, calm_priority
@@ -59,8 +116,8 @@ export const SCHEMA_VERSION = 6;
  * - Checklist entry is just a container with title + collection_id
  * 
  * LEGACY FIELDS (task-only, unchanged from v1):
- * - parent_task_id: Subtask hierarchy (POWER feature, inactive in v1)
- * - snoozed_until: Task snoozing (POWER feature, inactive in v1)
+ * - parent_task_id: Subtask hierarchy (active: one level, see createSubtask)
+ * - snoozed_until: Task snoozing (active: hidden from time-based views until then, see utils/snooze.ts)
  * 
  * SOFT DELETES:
  * - deleted_at IS NOT NULL marks soft-deleted entries
@@ -81,6 +138,10 @@ export const CREATE_ENTRIES_TABLE = `
     parent_task_id TEXT,
     snoozed_until INTEGER,
     sort_order INTEGER DEFAULT 0 NOT NULL,
+    repeat_rule TEXT,
+    series_id TEXT,
+    ics_uid TEXT,
+    unit TEXT,
     created_at INTEGER NOT NULL,
     updated_at INTEGER NOT NULL,
     deleted_at INTEGER,
@@ -95,6 +156,8 @@ export const CREATE_ENTRIES_INDEXES = `
   CREATE INDEX IF NOT EXISTS idx_entries_due_date ON entries(due_date) WHERE deleted_at IS NULL AND completed = 0;
   CREATE INDEX IF NOT EXISTS idx_entries_completed ON entries(completed, completed_at) WHERE deleted_at IS NULL;
   CREATE INDEX IF NOT EXISTS idx_entries_sort_order ON entries(collection_id, sort_order) WHERE deleted_at IS NULL;
+  CREATE INDEX IF NOT EXISTS idx_entries_series ON entries(series_id) WHERE deleted_at IS NULL AND series_id IS NOT NULL;
+  CREATE INDEX IF NOT EXISTS idx_entries_ics_uid ON entries(ics_uid) WHERE ics_uid IS NOT NULL;
 `;
 
 /**
@@ -156,6 +219,7 @@ export const CREATE_COLLECTIONS_TABLE = `
     is_pinned INTEGER DEFAULT 0 NOT NULL,
     is_archived INTEGER DEFAULT 0 NOT NULL,
     is_system INTEGER DEFAULT 0 NOT NULL,
+    is_simple_list INTEGER DEFAULT 0 NOT NULL,
     created_at INTEGER NOT NULL,
     updated_at INTEGER NOT NULL,
     deleted_at INTEGER
@@ -172,6 +236,7 @@ export const CREATE_COLLECTIONS_INDEXES = `
  * Simple checklist items within collections
  * 
  * VERSION 5: Renamed from list_items → collection_items, list_id → collection_id
+ * VERSION 17: Shown by collections with is_simple_list (shopping, packing)
  */
 export const CREATE_COLLECTION_ITEMS_TABLE = `
   CREATE TABLE IF NOT EXISTS collection_items (
@@ -194,6 +259,14 @@ export const CREATE_COLLECTION_ITEMS_INDEXES = `
 /**
  * Reminders Table
  * Time-based and location-based reminders
+ * 
+ * ACTIVE FIELDS (task reminders, "Remind me"):
+ * - trigger_time: when the notification fires (moved forward on snooze)
+ * - is_dismissed/dismissed_at: dismissed, or cancelled with its task
+ * - snooze_minutes: length of the last snooze
+ * - task_id: linked task (optional)
+ * 
+ * OS notifications mirror pending rows (notifications/scheduler.ts).
  */
 export const CREATE_REMINDERS_TABLE = `
   CREATE TABLE IF NOT EXISTS reminders (
@@ -249,6 +322,9 @@ export const CREATE_BUDGET_CATEGORIES_INDEXES = `
 /**
  * Expenses Table
  * Financial transactions and spending tracking
+ * 
+ * VERSION 14: recurring_expense_id - set on rows generated from a
+ * recurring_expenses template (NULL for expenses entered by hand)
  */
 export const CREATE_EXPENSES_TABLE = `
   CREATE TABLE IF NOT EXISTS expenses (
@@ -261,6 +337,7 @@ export const CREATE_EXPENSES_TABLE = `
     merchant_name TEXT,
     payment_method TEXT,
     receipt_photo_path TEXT,
+    recurring_expense_id TEXT,
     created_at INTEGER NOT NULL,
     updated_at INTEGER NOT NULL,
     deleted_at INTEGER,
@@ -272,6 +349,295 @@ export const CREATE_EXPENSES_INDEXES = `
   CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(transaction_date) WHERE deleted_at IS NULL;
   CREATE INDEX IF NOT EXISTS idx_expenses_category ON expenses(category_id) WHERE deleted_at IS NULL;
   CREATE INDEX IF NOT EXISTS idx_expenses_month ON expenses(transaction_date) WHERE deleted_at IS NULL;
+  CREATE INDEX IF NOT EXISTS idx_expenses_recurring ON expenses(recurring_expense_id) WHERE recurring_expense_id IS NOT NULL;
+`;
+
+/**
+ * Full-text search index (VERSION 9)
+ * 
+ * One row per entry (title + notes) and one per checklist item (title).
+ * - entry_id: the entry, or the item's checklist
+ * - item_id: checklist item id (NULL for entry rows)
+ * 
+ * Soft-deleted rows stay indexed; searchEntries joins the source tables
+ * and filters on deleted_at (so restore from Trash needs no re-indexing).
+ * Hard deletes (purge) remove index rows via the *_ad triggers.
+ */
+export const CREATE_SEARCH_INDEX_TABLE = `
+  CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+    title,
+    body,
+    entry_id UNINDEXED,
+    item_id UNINDEXED,
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+`;
+
+export const CREATE_SEARCH_INDEX_TRIGGERS = `
+  CREATE TRIGGER IF NOT EXISTS entries_search_ai AFTER INSERT ON entries BEGIN
+    INSERT INTO search_index (title, body, entry_id, item_id)
+    VALUES (new.title, COALESCE(new.notes, ''), new.id, NULL);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS entries_search_au AFTER UPDATE OF title, notes ON entries BEGIN
+    DELETE FROM search_index WHERE entry_id = old.id AND item_id IS NULL;
+    INSERT INTO search_index (title, body, entry_id, item_id)
+    VALUES (new.title, COALESCE(new.notes, ''), new.id, NULL);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS entries_search_ad AFTER DELETE ON entries BEGIN
+    DELETE FROM search_index WHERE entry_id = old.id AND item_id IS NULL;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS checklist_items_search_ai AFTER INSERT ON checklist_items BEGIN
+    INSERT INTO search_index (title, body, entry_id, item_id)
+    VALUES (new.title, '', new.checklist_id, new.id);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS checklist_items_search_au AFTER UPDATE OF title, checklist_id ON checklist_items BEGIN
+    DELETE FROM search_index WHERE item_id = old.id;
+    INSERT INTO search_index (title, body, entry_id, item_id)
+    VALUES (new.title, '', new.checklist_id, new.id);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS checklist_items_search_ad AFTER DELETE ON checklist_items BEGIN
+    DELETE FROM search_index WHERE item_id = old.id;
+  END;
+`;
+
+/**
+ * Tags Table (VERSION 10)
+ * Free-form labels that cut across collections
+ * 
+ * - name: lowercase, no leading '#' (see utils/tags.ts), unique
+ * - No soft delete: deleting a tag removes it and its entry links
+ *   (the entries themselves are untouched)
+ * - Renaming a tag renames it everywhere (entries reference tag_id)
+ */
+export const CREATE_TAGS_TABLE = `
+  CREATE TABLE IF NOT EXISTS tags (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`;
+
+export const CREATE_TAGS_INDEXES = `
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_name ON tags(name);
+`;
+
+/**
+ * Entry Tags Table (VERSION 10)
+ * Many-to-many: entries ↔ tags
+ * 
+ * - Links of soft-deleted entries are kept (restore from Trash brings
+ *   the tags back); queries join entries and filter on deleted_at
+ * - Purging an entry removes its links (purgeExpiredTrash)
+ */
+export const CREATE_ENTRY_TAGS_TABLE = `
+  CREATE TABLE IF NOT EXISTS entry_tags (
+    entry_id TEXT NOT NULL,
+    tag_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (entry_id, tag_id),
+    FOREIGN KEY (entry_id) REFERENCES entries(id) ON DELETE CASCADE,
+    FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+  );
+`;
+
+export const CREATE_ENTRY_TAGS_INDEXES = `
+  CREATE INDEX IF NOT EXISTS idx_entry_tags_tag ON entry_tags(tag_id);
+`;
+
+/**
+ * Exchange Rates Table (VERSION 11)
+ * Offline, user-maintained currency rates (typed in or imported from CSV)
+ * 
+ * - 1 from_currency = rate to_currency
+ * - effective_date: local midnight (epoch ms); a rate applies from that day
+ *   until the next rate for the same pair
+ * - One rate per pair and day is kept by the operations, not by a UNIQUE
+ *   index, so a merged backup can never fail on it
+ * - No soft delete: rates are reference data, not content (no Trash)
+ */
+export const CREATE_EXCHANGE_RATES_TABLE = `
+  CREATE TABLE IF NOT EXISTS exchange_rates (
+    id TEXT PRIMARY KEY NOT NULL,
+    from_currency TEXT NOT NULL,
+    to_currency TEXT NOT NULL,
+    rate REAL NOT NULL CHECK(rate > 0),
+    effective_date INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`;
+
+export const CREATE_EXCHANGE_RATES_INDEXES = `
+  CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair ON exchange_rates(from_currency, to_currency, effective_date);
+`;
+
+/**
+ * Import Profiles Table (VERSION 12)
+ * Saved column mappings for CSV bank statements, one per bank
+ * 
+ * - *_column: 0-based column index (NULL = not mapped)
+ * - has_header: first row holds column names, not a transaction
+ * - expenses_negative: statement lists spending as negative amounts
+ *   (positive rows are income and skipped); otherwise the reverse
+ * - default_currency: used when no currency column is mapped (or it's empty)
+ * - No soft delete: settings, not content (no Trash)
+ */
+export const CREATE_IMPORT_PROFILES_TABLE = `
+  CREATE TABLE IF NOT EXISTS import_profiles (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    has_header INTEGER DEFAULT 1 NOT NULL,
+    date_column INTEGER NOT NULL,
+    amount_column INTEGER NOT NULL,
+    merchant_column INTEGER,
+    note_column INTEGER,
+    currency_column INTEGER,
+    default_currency TEXT DEFAULT 'EUR' NOT NULL,
+    expenses_negative INTEGER DEFAULT 1 NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`;
+
+/**
+ * Category Rules Table (VERSION 13)
+ * Auto-categorization: fills category_id / payment_method of new expenses
+ * 
+ * - Conditions (all given ones must match): merchant_contains
+ *   (case-insensitive substring), min_amount / max_amount (inclusive,
+ *   in the expense's own currency)
+ * - Actions: category_id, payment_method (at least one)
+ * - sort_order: priority, the first matching rule wins per field
+ * - No soft delete: settings, not content (no Trash)
+ */
+export const CREATE_CATEGORY_RULES_TABLE = `
+  CREATE TABLE IF NOT EXISTS category_rules (
+    id TEXT PRIMARY KEY NOT NULL,
+    merchant_contains TEXT,
+    min_amount REAL,
+    max_amount REAL,
+    category_id TEXT,
+    payment_method TEXT,
+    sort_order INTEGER DEFAULT 0 NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    FOREIGN KEY (category_id) REFERENCES budget_categories(id) ON DELETE CASCADE
+  );
+`;
+
+/**
+ * Recurring Expenses Table (VERSION 14)
+ * Templates that generate expenses as they come due (rent, phone, subscriptions)
+ * 
+ * - repeat_rule: same RRULE subset as tasks (utils/recurrence.ts), e.g.
+ *   FREQ=MONTHLY;BYMONTHDAY=5, FREQ=YEARLY, FREQ=WEEKLY;INTERVAL=2
+ * - next_due_date: local midnight of the next charge; generation moves it
+ *   forward (generateDueRecurringExpenses, run on app start)
+ * - name: merchant_name of the generated expenses
+ * - No soft delete: deleting a template keeps the expenses it generated
+ */
+export const CREATE_RECURRING_EXPENSES_TABLE = `
+  CREATE TABLE IF NOT EXISTS recurring_expenses (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    amount REAL NOT NULL CHECK(amount > 0),
+    currency TEXT DEFAULT 'EUR' NOT NULL,
+    category_id TEXT,
+    payment_method TEXT,
+    repeat_rule TEXT NOT NULL,
+    next_due_date INTEGER NOT NULL,
+    is_paused INTEGER DEFAULT 0 NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    FOREIGN KEY (category_id) REFERENCES budget_categories(id) ON DELETE SET NULL
+  );
+`;
+
+/**
+ * Calendar Feeds Table (VERSION 16)
+ * External calendars imported from .ics files, shown read-only next to tasks
+ * 
+ * - name: X-WR-CALNAME of the file; importing a file with the same name
+ *   replaces the feed's events
+ * - No soft delete: removing a feed removes its events
+ */
+export const CREATE_CALENDAR_FEEDS_TABLE = `
+  CREATE TABLE IF NOT EXISTS calendar_feeds (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`;
+
+/**
+ * Calendar Events Table (VERSION 16)
+ * Events of a calendar feed (read-only: never completed or edited)
+ * 
+ * - start_time / end_time: epoch ms; all-day events start at local
+ *   midnight and end_time is exclusive (NULL: no end given)
+ * - repeat_rule: same RRULE subset as tasks (utils/recurrence.ts);
+ *   occurrences are expanded when read (utils/calendarEvents.ts)
+ * - repeat_until / repeat_count: end of the series (RRULE UNTIL / COUNT)
+ * - exdates: comma-separated starts of occurrences left out
+ */
+export const CREATE_CALENDAR_EVENTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS calendar_events (
+    id TEXT PRIMARY KEY NOT NULL,
+    feed_id TEXT NOT NULL,
+    uid TEXT NOT NULL,
+    title TEXT NOT NULL,
+    notes TEXT,
+    location TEXT,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER,
+    is_all_day INTEGER DEFAULT 0 NOT NULL,
+    repeat_rule TEXT,
+    repeat_until INTEGER,
+    repeat_count INTEGER,
+    exdates TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    FOREIGN KEY (feed_id) REFERENCES calendar_feeds(id) ON DELETE CASCADE
+  );
+`;
+
+export const CREATE_CALENDAR_EVENTS_INDEXES = `
+  CREATE INDEX IF NOT EXISTS idx_calendar_events_feed ON calendar_events(feed_id);
+  CREATE INDEX IF NOT EXISTS idx_calendar_events_start ON calendar_events(start_time);
+`;
+
+/**
+ * Record Values Table (VERSION 18)
+ * Timestamped numeric values of a record entry (entries.type = 'record')
+ * 
+ * - recorded_at: when the value was measured (epoch ms), not when it was typed
+ * - note: optional ("after run", "left arm")
+ * - Soft delete for single values; values of a deleted record stay
+ *   untouched (they come back with it) and are purged with it
+ */
+export const CREATE_RECORD_VALUES_TABLE = `
+  CREATE TABLE IF NOT EXISTS record_values (
+    id TEXT PRIMARY KEY NOT NULL,
+    record_id TEXT NOT NULL,
+    value REAL NOT NULL,
+    recorded_at INTEGER NOT NULL,
+    note TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    deleted_at INTEGER,
+    FOREIGN KEY (record_id) REFERENCES entries(id) ON DELETE CASCADE
+  );
+`;
+
+export const CREATE_RECORD_VALUES_INDEXES = `
+  CREATE INDEX IF NOT EXISTS idx_record_values_record ON record_values(record_id, recorded_at) WHERE deleted_at IS NULL;
 `;
 
 /**
@@ -293,6 +659,22 @@ export const INIT_SCHEMA = [
   CREATE_BUDGET_CATEGORIES_INDEXES,
   CREATE_EXPENSES_TABLE,
   CREATE_EXPENSES_INDEXES,
+  CREATE_SEARCH_INDEX_TABLE,
+  CREATE_SEARCH_INDEX_TRIGGERS,
+  CREATE_TAGS_TABLE,
+  CREATE_TAGS_INDEXES,
+  CREATE_ENTRY_TAGS_TABLE,
+  CREATE_ENTRY_TAGS_INDEXES,
+  CREATE_EXCHANGE_RATES_TABLE,
+  CREATE_EXCHANGE_RATES_INDEXES,
+  CREATE_IMPORT_PROFILES_TABLE,
+  CREATE_CATEGORY_RULES_TABLE,
+  CREATE_RECURRING_EXPENSES_TABLE,
+  CREATE_CALENDAR_FEEDS_TABLE,
+  CREATE_CALENDAR_EVENTS_TABLE,
+  CREATE_CALENDAR_EVENTS_INDEXES,
+  CREATE_RECORD_VALUES_TABLE,
+  CREATE_RECORD_VALUES_INDEXES,
 ];
 
 /**
@@ -473,3 +855,268 @@ export const MIGRATE_V5_TO_V6 = `
     ON entries(collection_id, sort_order) 
     WHERE deleted_at IS NULL;
 `;
+
+/**
+ * Timestamp columns per table (all epoch milliseconds since VERSION 7)
+ * Shared by MIGRATE_V6_TO_V7 and its verification in database.ts
+ */
+export const TIMESTAMP_COLUMNS: Record<string, string[]> = {
+  entries: ['due_date', 'completed_at', 'snoozed_until', 'created_at', 'updated_at', 'deleted_at'],
+  checklist_items: ['created_at', 'updated_at', 'deleted_at'],
+  collections: ['created_at', 'updated_at', 'deleted_at'],
+  collection_items: ['checked_at', 'created_at', 'deleted_at'],
+  reminders: ['trigger_time', 'dismissed_at', 'created_at', 'updated_at', 'deleted_at'],
+  budget_categories: ['created_at', 'updated_at', 'deleted_at'],
+  expenses: ['transaction_date', 'created_at', 'updated_at', 'deleted_at'],
+};
+
+/**
+ * Migration from Schema Version 6 to Version 7
+ * Normalize all timestamps to epoch milliseconds
+ * 
+ * BACKGROUND:
+ * - Some operations wrote datetime('now') ('YYYY-MM-DD HH:MM:SS', UTC TEXT)
+ * - Others wrote Date.now() (INTEGER epoch ms) into the same columns
+ * - Mixed values break sorting, arithmetic (compareTasksByTime) and range queries
+ * 
+ * CHANGES:
+ * 1. Legacy collection deletions become real deletions
+ *    - Before deletion and archiving were separated, deleteCollection set
+ *      is_archived = 1 with a datetime('now') updated_at (TEXT)
+ *    - archiveCollection always wrote Date.now(), so a TEXT updated_at on an
+ *      archived user collection identifies the old delete flow
+ *    - Entries taken down share the same TEXT value as deleted_at
+ *      (must run BEFORE step 2, which converts those values)
+ * 2. Converts every TEXT timestamp to epoch ms (see TIMESTAMP_COLUMNS)
+ *    - Seconds precision (datetime('now') has no milliseconds)
+ *    - Unparseable TEXT is left untouched (reported by verification)
+ * 
+ * PRESERVES:
+ * - All rows (including soft-deleted)
+ * - INTEGER timestamps unchanged
+ */
+export const MIGRATE_V6_TO_V7 = `
+  -- 1. Legacy archive-as-delete collections → deleted_at
+  UPDATE collections
+  SET deleted_at = updated_at, is_archived = 0
+  WHERE is_archived = 1
+    AND is_system = 0
+    AND deleted_at IS NULL
+    AND typeof(updated_at) = 'text';
+  
+  -- 2. TEXT timestamps → epoch milliseconds
+${Object.entries(TIMESTAMP_COLUMNS)
+  .flatMap(([table, columns]) =>
+    columns.map(column => `  UPDATE ${table}
+  SET ${column} = CAST(strftime('%s', ${column}) AS INTEGER) * 1000
+  WHERE typeof(${column}) = 'text' AND strftime('%s', ${column}) IS NOT NULL;`)
+  )
+  .join('\n')}
+`;
+
+/**
+ * Migration from Schema Version 7 to Version 8
+ * Recurring tasks
+ * 
+ * CHANGES:
+ * 1. Adds repeat_rule column (TEXT, nullable) - e.g. 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'
+ * 2. Adds series_id column (TEXT, nullable) - shared by every occurrence of a recurring task
+ * 3. Index on series_id for "is there already a pending occurrence" lookups
+ * 
+ * PRESERVES:
+ * - All rows (including soft-deleted)
+ * - Existing tasks are non-recurring (both columns NULL)
+ */
+export const MIGRATE_V7_TO_V8 = `
+  ALTER TABLE entries ADD COLUMN repeat_rule TEXT;
+  ALTER TABLE entries ADD COLUMN series_id TEXT;
+  
+  CREATE INDEX IF NOT EXISTS idx_entries_series
+    ON entries(series_id)
+    WHERE deleted_at IS NULL AND series_id IS NOT NULL;
+`;
+
+/**
+ * Migration from Schema Version 8 to Version 9
+ * Full-text search
+ * 
+ * CHANGES:
+ * 1. Creates search_index FTS5 table
+ * 2. Creates sync triggers on entries and checklist_items
+ * 3. Indexes every existing entry and checklist item (soft-deleted included,
+ *    see CREATE_SEARCH_INDEX_TABLE)
+ * 
+ * PRESERVES:
+ * - All existing tables and rows unchanged
+ * 
+ * VERIFICATION:
+ * - Index row count = entries + checklist_items
+ */
+export const MIGRATE_V8_TO_V9 = `
+${CREATE_SEARCH_INDEX_TABLE}
+${CREATE_SEARCH_INDEX_TRIGGERS}
+  DELETE FROM search_index;
+
+  INSERT INTO search_index (title, body, entry_id, item_id)
+  SELECT title, COALESCE(notes, ''), id, NULL FROM entries;
+
+  INSERT INTO search_index (title, body, entry_id, item_id)
+  SELECT title, '', checklist_id, id FROM checklist_items;
+`;
+
+/**
+ * Migration from Schema Version 9 to Version 10
+ * Tags
+ * 
+ * CHANGES:
+ * 1. Creates tags table (unique name)
+ * 2. Creates entry_tags join table
+ * 
+ * PRESERVES:
+ * - All existing tables and rows unchanged (no entry is tagged yet)
+ * 
+ * NOTES:
+ * - Inline #tags already typed into titles are NOT converted; they are
+ *   parsed when a title is next saved (utils/tags.ts)
+ */
+export const MIGRATE_V9_TO_V10 = [
+  CREATE_TAGS_TABLE,
+  CREATE_TAGS_INDEXES,
+  CREATE_ENTRY_TAGS_TABLE,
+  CREATE_ENTRY_TAGS_INDEXES,
+].join('\n');
+
+/**
+ * Migration from Schema Version 10 to Version 11
+ * Exchange rates
+ * 
+ * CHANGES:
+ * 1. Creates exchange_rates table
+ * 
+ * PRESERVES:
+ * - All existing tables and rows unchanged
+ * 
+ * NOTES:
+ * - The base currency is a setting (app_metadata key 'base_currency'),
+ *   not a column; until it is set, totals use EUR
+ */
+export const MIGRATE_V10_TO_V11 = [
+  CREATE_EXCHANGE_RATES_TABLE,
+  CREATE_EXCHANGE_RATES_INDEXES,
+].join('\n');
+
+/**
+ * Migration from Schema Version 11 to Version 12
+ * Statement import profiles
+ * 
+ * CHANGES:
+ * 1. Creates import_profiles table
+ * 
+ * PRESERVES:
+ * - All existing tables and rows unchanged
+ */
+export const MIGRATE_V11_TO_V12 = CREATE_IMPORT_PROFILES_TABLE;
+
+/**
+ * Migration from Schema Version 12 to Version 13
+ * Auto-categorization rules
+ * 
+ * CHANGES:
+ * 1. Creates category_rules table
+ * 
+ * PRESERVES:
+ * - All existing tables and rows unchanged
+ * - Existing expenses keep their category (rules apply to new ones,
+ *   or on demand with applyRulesToUncategorized)
+ */
+export const MIGRATE_V12_TO_V13 = CREATE_CATEGORY_RULES_TABLE;
+
+/**
+ * Migration from Schema Version 13 to Version 14
+ * Recurring expenses
+ * 
+ * CHANGES:
+ * 1. Creates recurring_expenses table
+ * 2. Adds recurring_expense_id column to expenses (TEXT, nullable)
+ * 3. Index on recurring_expense_id
+ * 
+ * PRESERVES:
+ * - All expenses (including soft-deleted); existing ones were entered
+ *   by hand (recurring_expense_id NULL)
+ */
+export const MIGRATE_V13_TO_V14 = `
+${CREATE_RECURRING_EXPENSES_TABLE}
+  ALTER TABLE expenses ADD COLUMN recurring_expense_id TEXT;
+
+  CREATE INDEX IF NOT EXISTS idx_expenses_recurring
+    ON expenses(recurring_expense_id)
+    WHERE recurring_expense_id IS NOT NULL;
+`;
+
+/**
+ * Migration from Schema Version 14 to Version 15
+ * Calendar (.ics) import
+ * 
+ * CHANGES:
+ * 1. Adds ics_uid column to entries (TEXT, nullable)
+ * 2. Index on ics_uid (re-imports look tasks up by UID)
+ * 
+ * PRESERVES:
+ * - All entries (including soft-deleted); none were imported (ics_uid NULL)
+ */
+export const MIGRATE_V14_TO_V15 = `
+  ALTER TABLE entries ADD COLUMN ics_uid TEXT;
+
+  CREATE INDEX IF NOT EXISTS idx_entries_ics_uid
+    ON entries(ics_uid)
+    WHERE ics_uid IS NOT NULL;
+`;
+
+/**
+ * Migration from Schema Version 15 to Version 16
+ * External calendars (read-only events from .ics files)
+ * 
+ * CHANGES:
+ * 1. Creates calendar_feeds table
+ * 2. Creates calendar_events table and its indexes
+ * 
+ * PRESERVES:
+ * - All existing data (new tables only)
+ */
+export const MIGRATE_V15_TO_V16 = `
+${CREATE_CALENDAR_FEEDS_TABLE}
+${CREATE_CALENDAR_EVENTS_TABLE}
+${CREATE_CALENDAR_EVENTS_INDEXES}
+`;
+
+/**
+ * Migration from Schema Version 16 to Version 17
+ * Simple list mode for collections
+ * 
+ * CHANGES:
+ * 1. Adds is_simple_list column to collections (INTEGER, default 0)
+ * 
+ * PRESERVES:
+ * - All collections keep showing their entries (is_simple_list = 0)
+ * - collection_items table already exists (VERSION 5), untouched
+ */
+export const MIGRATE_V16_TO_V17 = `
+  ALTER TABLE collections ADD COLUMN is_simple_list INTEGER DEFAULT 0 NOT NULL;
+`;
+
+/**
+ * Migration from Schema Version 17 to Version 18
+ * Records (named series of numeric values)
+ * 
+ * CHANGES:
+ * 1. Adds unit column to entries (TEXT, nullable)
+ * 2. Creates record_values table and its index
+ * 
+ * PRESERVES:
+ * - All entries (including soft-deleted); none are records yet (unit NULL)
+ */
+export const MIGRATE_V17_TO_V18 = `
+  ALTER TABLE entries ADD COLUMN unit TEXT;
+${CREATE_RECORD_VALUES_TABLE}
+${CREATE_RECORD_VALUES_INDEXES}
+`;
@@ -0,0 +1,74 @@
+/**
+ * useUndo
+ *
+ * State behind the Undo snackbar. Screens call showUndo with the snapshot
+ * returned by a delete / complete / move operation; the snackbar offers
+ * Undo for UNDO_DURATION_MS. Only the latest change can be undone — a new
+ * one replaces the previous snackbar.
+ *
+ * USAGE:
+ *   // In App.tsx — provide
+ *   const undo = useUndo();
+ *   <UndoContext.Provider value={undo}>
+ *
+ *   // In a screen — after the change
+ *   const snapshot = await deleteNote(note.id);
+ *   showUndo('Note deleted', snapshot, loadEntries);
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Alert } from 'react-native';
+import { undoChange } from '../db/operations';
+import type { UndoSnapshot } from '../types/models';
+
+export const UNDO_DURATION_MS = 5000;
+
+export interface PendingUndo {
+  message: string;
+  snapshot: UndoSnapshot;
+  // Reload whatever the screen shows
+  onUndone?: () => void;
+}
+
+export interface UndoValue {
+  pending: PendingUndo | null;
+  showUndo: (message: string, snapshot: UndoSnapshot, onUndone?: () => void) => void;
+  undo: () => Promise<void>;
+  dismiss: () => void;
+}
+
+export function useUndo(): UndoValue {
+  const [pending, setPending] = useState<PendingUndo | null>(null);
+
+  // Restarts for every new change
+  useEffect(() => {
+    if (!pending) return;
+
+    const timer = setTimeout(() => setPending(null), UNDO_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [pending]);
+
+  const showUndo = useCallback(
+    (message: string, snapshot: UndoSnapshot, onUndone?: () => void) => {
+      setPending({ message, snapshot, onUndone });
+    },
+    []
+  );
+
+  const dismiss = useCallback(() => setPending(null), []);
+
+  const undo = useCallback(async () => {
+    if (!pending) return;
+
+    setPending(null);
+    try {
+      await undoChange(pending.snapshot);
+      pending.onUndone?.();
+    } catch (error) {
+      console.error('Failed to undo:', error);
+      Alert.alert('Error', 'Failed to undo');
+    }
+  }, [pending]);
+
+  return { pending, showUndo, undo, dismiss };
+}
@@ -0,0 +1,131 @@
+import { createReminderScheduler } from '../scheduler';
+import { createFakeClock, createFakeNotificationDriver } from '../fakeNotificationDriver';
+import type { Reminder } from '../../types/models';
+
+// The default (expo) driver isn't used here; keep the native module out
+jest.mock('../expoNotificationDriver', () => ({ expoNotificationDriver: {} }));
+
+const NOW = new Date(2026, 9, 19, 9, 0).getTime();
+const MINUTE = 60 * 1000;
+
+function makeReminder(overrides: Partial<Reminder> = {}): Reminder {
+  return {
+    id: 'reminder-1',
+    title: 'Call the dentist',
+    trigger_time: NOW + 30 * MINUTE,
+    is_dismissed: false,
+    task_id: 'task-1',
+    created_at: NOW,
+    updated_at: NOW,
+    ...overrides,
+  };
+}
+
+function setup() {
+  const driver = createFakeNotificationDriver();
+  const clock = createFakeClock(NOW);
+  const scheduler = createReminderScheduler(driver, clock);
+  return { driver, clock, scheduler };
+}
+
+describe('schedule', () => {
+  it('schedules a pending reminder in the future', async () => {
+    const { driver, scheduler } = setup();
+
+    await expect(scheduler.schedule(makeReminder())).resolves.toBe(true);
+    expect(await driver.getScheduled()).toEqual([
+      { reminderId: 'reminder-1', triggerAt: NOW + 30 * MINUTE },
+    ]);
+  });
+
+  it('does not schedule a reminder whose time has passed', async () => {
+    const { driver, clock, scheduler } = setup();
+    clock.advance(31 * MINUTE);
+
+    await expect(scheduler.schedule(makeReminder())).resolves.toBe(false);
+    expect(await driver.getScheduled()).toEqual([]);
+  });
+
+  it('does not schedule a dismissed reminder', async () => {
+    const { driver, scheduler } = setup();
+
+    await expect(scheduler.schedule(makeReminder({ is_dismissed: true }))).resolves.toBe(false);
+    expect(await driver.getScheduled()).toEqual([]);
+  });
+
+  it('reports reminders due at the clock time', () => {
+    const { clock, scheduler } = setup();
+    const reminders = [
+      makeReminder(),
+      makeReminder({ id: 'reminder-2', trigger_time: NOW + 60 * MINUTE }),
+    ];
+
+    expect(scheduler.getDue(reminders)).toEqual([]);
+    clock.advance(30 * MINUTE);
+    expect(scheduler.getDue(reminders).map(reminder => reminder.id)).toEqual(['reminder-1']);
+  });
+});
+
+describe('reconcile', () => {
+  it('reschedules a snoozed reminder at its new time', async () => {
+    const { driver, clock, scheduler } = setup();
+    const reminder = makeReminder();
+    await scheduler.reconcile([reminder]);
+
+    // Fired, then snoozed for 10 minutes (snoozeReminder moves trigger_time)
+    clock.advance(30 * MINUTE);
+    const snoozed = { ...reminder, trigger_time: clock.now() + 10 * MINUTE, snooze_minutes: 10 };
+    driver.calls.length = 0;
+    await scheduler.reconcile([snoozed]);
+
+    expect(driver.calls).toEqual([
+      { type: 'schedule', reminderId: 'reminder-1', triggerAt: NOW + 40 * MINUTE },
+    ]);
+    expect(await driver.getScheduled()).toEqual([
+      { reminderId: 'reminder-1', triggerAt: NOW + 40 * MINUTE },
+    ]);
+  });
+
+  it('leaves unchanged reminders alone', async () => {
+    const { driver, scheduler } = setup();
+    await scheduler.reconcile([makeReminder()]);
+
+    driver.calls.length = 0;
+    await scheduler.reconcile([makeReminder()]);
+
+    expect(driver.calls).toEqual([]);
+  });
+
+  it('cancels reminders that are no longer pending', async () => {
+    const { driver, scheduler } = setup();
+    await scheduler.reconcile([
+      makeReminder(),
+      makeReminder({ id: 'reminder-2', trigger_time: NOW + 60 * MINUTE }),
+    ]);
+
+    // reminder-1 dismissed, reminder-2 deleted with its task
+    await scheduler.reconcile([makeReminder({ is_dismissed: true, dismissed_at: NOW })]);
+
+    expect(await driver.getScheduled()).toEqual([]);
+    expect(driver.calls.filter(call => call.type === 'cancel').map(call => call.reminderId).sort())
+      .toEqual(['reminder-1', 'reminder-2']);
+  });
+});
+
+describe('cancel', () => {
+  it('removes the scheduled notification', async () => {
+    const { driver, scheduler } = setup();
+    await scheduler.schedule(makeReminder());
+
+    await scheduler.cancel('reminder-1');
+
+    expect(await driver.getScheduled()).toEqual([]);
+  });
+
+  it('is a no-op for a reminder that is not scheduled', async () => {
+    const { driver, scheduler } = setup();
+
+    await expect(scheduler.cancel('missing')).resolves.toBeUndefined();
+    expect(await driver.getScheduled()).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * expo-notifications implementation of NotificationDriver
+ *
+ * - Notification identifier = reminder id (one notification per reminder)
+ * - content.data carries reminderId/taskId/triggerAt so scheduled
+ *   notifications can be matched back to reminders (see reconcile)
+ * - "Snooze" and "Dismiss" actions via the REMINDER_CATEGORY category
+ */
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import type { NotificationDriver, ScheduledNotification } from './scheduler';
+
+export const REMINDER_CATEGORY = 'reminder';
+export const REMINDER_CHANNEL = 'reminders';
+
+export type ReminderAction = 'open' | 'snooze' | 'dismiss';
+
+export const expoNotificationDriver: NotificationDriver = {
+  async schedule(reminder) {
+    // Replaces any notification already scheduled for this reminder
+    await Notifications.cancelScheduledNotificationAsync(reminder.id);
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.id,
+      content: {
+        title: reminder.title,
+        categoryIdentifier: REMINDER_CATEGORY,
+        data: {
+          reminderId: reminder.id,
+          taskId: reminder.task_id ?? null,
+          triggerAt: reminder.trigger_time,
+        },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: reminder.trigger_time,
+        channelId: REMINDER_CHANNEL,
+      },
+    });
+  },
+
+  async cancel(reminderId) {
+    await Notifications.cancelScheduledNotificationAsync(reminderId);
+  },
+
+  async getScheduled() {
+    const requests = await Notifications.getAllScheduledNotificationsAsync();
+
+    return requests
+      .filter(request => typeof request.content.data?.reminderId === 'string')
+      .map((request): ScheduledNotification => ({
+        reminderId: request.content.data.reminderId as string,
+        triggerAt: Number(request.content.data.triggerAt),
+      }));
+  },
+};
+
+/**
+ * One-time setup: foreground presentation, Android channel, action buttons
+ * and permission prompt. Returns false if notifications are not permitted.
+ */
+export async function configureNotifications(): Promise<boolean> {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL, {
+      name: 'Reminders',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+
+  await Notifications.setNotificationCategoryAsync(REMINDER_CATEGORY, [
+    { identifier: 'snooze', buttonTitle: 'Snooze 10 min', options: { opensAppToForeground: false } },
+    { identifier: 'dismiss', buttonTitle: 'Dismiss', options: { opensAppToForeground: false } },
+  ]);
+
+  const existing = await Notifications.getPermissionsAsync();
+  if (existing.granted) {
+    return true;
+  }
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+/**
+ * Listen for taps and action buttons on reminder notifications
+ * Returns an unsubscribe function
+ */
+export function addReminderResponseListener(
+  listener: (reminderId: string, action: ReminderAction) => void
+): () => void {
+  const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+    const reminderId = response.notification.request.content.data?.reminderId;
+    if (typeof reminderId !== 'string') return;
+
+    const action: ReminderAction =
+      response.actionIdentifier === 'snooze' ? 'snooze'
+      : response.actionIdentifier === 'dismiss' ? 'dismiss'
+      : 'open';
+
+    listener(reminderId, action);
+  });
+
+  return () => subscription.remove();
+}
@@ -0,0 +1,62 @@
+/**
+ * In-memory NotificationDriver and Clock for tests
+ *
+ * The driver keeps scheduled notifications in a Map keyed by reminder id,
+ * the way expo-notifications keys them by identifier, and logs every call
+ * so tests can check what was (re)scheduled or cancelled.
+ */
+
+import type { Clock, NotificationDriver, ScheduledNotification } from './scheduler';
+
+export interface FakeClock extends Clock {
+  set(time: number): void;
+  advance(ms: number): void;
+}
+
+export function createFakeClock(start: number): FakeClock {
+  let time = start;
+
+  return {
+    now: () => time,
+    set: (next: number) => {
+      time = next;
+    },
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+export type FakeDriverCall =
+  | { type: 'schedule'; reminderId: string; triggerAt: number }
+  | { type: 'cancel'; reminderId: string };
+
+export interface FakeNotificationDriver extends NotificationDriver {
+  calls: FakeDriverCall[];
+  // Scheduled notifications, as the platform would list them
+  notifications: Map<string, ScheduledNotification>;
+}
+
+export function createFakeNotificationDriver(): FakeNotificationDriver {
+  const calls: FakeDriverCall[] = [];
+  const notifications = new Map<string, ScheduledNotification>();
+
+  return {
+    calls,
+    notifications,
+
+    async schedule(reminder) {
+      calls.push({ type: 'schedule', reminderId: reminder.id, triggerAt: reminder.trigger_time });
+      notifications.set(reminder.id, { reminderId: reminder.id, triggerAt: reminder.trigger_time });
+    },
+
+    async cancel(reminderId) {
+      calls.push({ type: 'cancel', reminderId });
+      notifications.delete(reminderId);
+    },
+
+    async getScheduled() {
+      return [...notifications.values()];
+    },
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Reminder scheduling layer
+ *
+ * Keeps OS notifications in sync with the reminders table.
+ * Pure logic: the platform API (NotificationDriver) and time source (Clock)
+ * are injected, so tests can drive it with a fake driver and a fake clock
+ * (fakeNotificationDriver.ts, see __tests__/scheduler.test.ts).
+ *
+ * The app uses the expo-notifications driver and the system clock
+ * (getReminderScheduler). Tests swap both via setReminderScheduler.
+ *
+ * RULES:
+ * - Only pending reminders are scheduled (not dismissed, not deleted)
+ * - Reminders whose trigger_time has passed are not scheduled (already fired
+ *   while the app was closed, or missed)
+ * - reconcile() is idempotent: safe to call after every reminder change
+ */
+
+import type { Reminder } from '../types/models';
+import { getCurrentTimestamp } from '../utils/uuid';
+import { expoNotificationDriver } from './expoNotificationDriver';
+
+/**
+ * Time source
+ */
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => getCurrentTimestamp(),
+};
+
+/**
+ * A notification currently scheduled with the platform
+ */
+export interface ScheduledNotification {
+  reminderId: string;
+  triggerAt: number;
+}
+
+/**
+ * Platform notification API (expo-notifications in the app, fake in tests)
+ */
+export interface NotificationDriver {
+  schedule(reminder: Pick<Reminder, 'id' | 'title' | 'trigger_time' | 'task_id'>): Promise<void>;
+  cancel(reminderId: string): Promise<void>;
+  getScheduled(): Promise<ScheduledNotification[]>;
+}
+
+export interface ReminderScheduler {
+  /** Schedule (or reschedule) one reminder. Returns false if it was not scheduled. */
+  schedule(reminder: Reminder): Promise<boolean>;
+  /** Cancel one reminder's notification (no-op if not scheduled) */
+  cancel(reminderId: string): Promise<void>;
+  /** Make scheduled notifications match the given pending reminders exactly */
+  reconcile(pending: Reminder[]): Promise<void>;
+  /** Reminders due at the current clock time (trigger_time reached, still pending) */
+  getDue(reminders: Reminder[]): Reminder[];
+}
+
+function isPending(reminder: Reminder): boolean {
+  return !reminder.is_dismissed && !reminder.deleted_at;
+}
+
+export function createReminderScheduler(
+  driver: NotificationDriver,
+  clock: Clock = systemClock
+): ReminderScheduler {
+  const schedule = async (reminder: Reminder): Promise<boolean> => {
+    if (!isPending(reminder) || reminder.trigger_time <= clock.now()) {
+      await driver.cancel(reminder.id);
+      return false;
+    }
+
+    await driver.schedule(reminder);
+    return true;
+  };
+
+  const cancel = async (reminderId: string): Promise<void> => {
+    await driver.cancel(reminderId);
+  };
+
+  const reconcile = async (pending: Reminder[]): Promise<void> => {
+    const scheduled = await driver.getScheduled();
+    const scheduledById = new Map(scheduled.map(item => [item.reminderId, item]));
+    const wanted = pending.filter(reminder => isPending(reminder) && reminder.trigger_time > clock.now());
+    const wantedIds = new Set(wanted.map(reminder => reminder.id));
+
+    // Cancel notifications for reminders that were dismissed, deleted or fired
+    for (const item of scheduled) {
+      if (!wantedIds.has(item.reminderId)) {
+        await driver.cancel(item.reminderId);
+      }
+    }
+
+    // Schedule new reminders and reschedule moved ones (snoozed, due date changed)
+    for (const reminder of wanted) {
+      const existing = scheduledById.get(reminder.id);
+      if (!existing || existing.triggerAt !== reminder.trigger_time) {
+        await driver.schedule(reminder);
+      }
+    }
+  };
+
+  const getDue = (reminders: Reminder[]): Reminder[] => {
+    const now = clock.now();
+    return reminders.filter(reminder => isPending(reminder) && reminder.trigger_time <= now);
+  };
+
+  return { schedule, cancel, reconcile, getDue };
+}
+
+// ========== ACTIVE SCHEDULER ==========
+
+let activeScheduler: ReminderScheduler | null = null;
+
+/**
+ * Scheduler used by the app (expo-notifications + system clock by default)
+ */
+export function getReminderScheduler(): ReminderScheduler {
+  if (!activeScheduler) {
+    activeScheduler = createReminderScheduler(expoNotificationDriver, systemClock);
+  }
+  return activeScheduler;
+}
+
+/**
+ * Replace the active scheduler (tests, or null to restore the default)
+ */
+export function setReminderScheduler(scheduler: ReminderScheduler | null): void {
+  activeScheduler = scheduler;
+}
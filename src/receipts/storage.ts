@@ -0,0 +1,144 @@
+/**
+ * Receipt files (expo-file-system, expo-document-picker, expo-sharing)
+ *
+ * Picked images and PDFs are copied into the document directory under
+ * a name derived from the expense id (utils/receipts.ts), so they survive
+ * the picker's cache being cleared. The database side (receipt_photo_path,
+ * purge, backups) is in db/operations.ts.
+ */
+
+import { Directory, File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { RECEIPTS_DIRECTORY, getReceiptPath, isPdfReceipt, isReceiptPath } from '../utils/receipts';
+
+export interface PickedReceipt {
+  uri: string;
+  name: string;
+  mimeType?: string;
+}
+
+function getReceiptsDirectory(): Directory {
+  const directory = new Directory(Paths.document, RECEIPTS_DIRECTORY);
+  if (!directory.exists) {
+    directory.create({ idempotent: true });
+  }
+  return directory;
+}
+
+/**
+ * Let the user pick an image or PDF
+ * @returns The picked file (in the picker's cache), or null if cancelled
+ */
+export async function pickReceiptFile(): Promise<PickedReceipt | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['image/*', 'application/pdf'],
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  return { uri: asset.uri, name: asset.name, mimeType: asset.mimeType };
+}
+
+/**
+ * file:// URI of a stored receipt (for <Image> and sharing)
+ */
+export function getReceiptUri(path: string): string {
+  return new File(Paths.document, path).uri;
+}
+
+/**
+ * Copy a picked file into receipt storage for an expense
+ * @returns The receipt_photo_path to store
+ */
+export function saveReceiptFile(expenseId: string, picked: PickedReceipt): string {
+  getReceiptsDirectory();
+
+  const path = getReceiptPath(expenseId, picked.name, picked.mimeType);
+  const destination = new File(Paths.document, path);
+  if (destination.exists) {
+    destination.delete();
+  }
+
+  new File(picked.uri).copy(destination);
+  return path;
+}
+
+/**
+ * Delete a stored receipt (missing files are ignored)
+ */
+export function deleteReceiptFile(path: string): void {
+  try {
+    const file = new File(Paths.document, path);
+    if (file.exists) {
+      file.delete();
+    }
+  } catch (error) {
+    console.error('Failed to delete receipt file:', error);
+  }
+}
+
+/**
+ * Open a receipt in the share sheet (preview, save, print...)
+ * @throws Error if sharing is not available on this device
+ */
+export async function openReceipt(path: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  await Sharing.shareAsync(getReceiptUri(path), {
+    mimeType: isPdfReceipt(path) ? 'application/pdf' : undefined,
+    dialogTitle: 'Receipt',
+  });
+}
+
+/**
+ * Read receipts for a backup
+ * @returns base64 content by path; missing files are left out
+ */
+export async function readReceiptFiles(paths: string[]): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+
+  for (const path of paths) {
+    const file = new File(Paths.document, path);
+    if (isReceiptPath(path) && file.exists) {
+      files[path] = await file.base64();
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Write receipts restored from a backup (overwrites files with the same path)
+ */
+export function writeReceiptFiles(files: Record<string, string>): void {
+  getReceiptsDirectory();
+
+  for (const [path, content] of Object.entries(files)) {
+    if (!isReceiptPath(path)) continue;
+
+    const file = new File(Paths.document, path);
+    file.create({ overwrite: true });
+    file.write(content, { encoding: 'base64' });
+  }
+}
+
+/**
+ * Delete stored receipts no expense points at (after a replace restore)
+ */
+export function deleteUnusedReceiptFiles(usedPaths: Set<string>): void {
+  const directory = getReceiptsDirectory();
+
+  for (const item of directory.list()) {
+    const path = `${RECEIPTS_DIRECTORY}/${item.name}`;
+    if (item instanceof File && !usedPaths.has(path)) {
+      deleteReceiptFile(path);
+    }
+  }
+}
@@ -0,0 +1,434 @@
+/**
+ * BudgetCategoriesScreen
+ *
+ * Manage expense categories. Opened from BudgetScreen.
+ *
+ * - Create, edit (name, icon, parent, monthly limit), reorder among siblings
+ * - Subcategories are listed under their parent (one level deep)
+ * - Archive: hidden from pickers, kept on past expenses and in past months
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  Alert,
+  Platform,
+  ActionSheetIOS,
+} from 'react-native';
+import ActionMenu, { ActionMenuItem } from '../components/ActionMenu';
+import BudgetCategoryModal, { BudgetCategoryPayload } from '../components/BudgetCategoryModal';
+import {
+  getBudgetCategories,
+  createBudgetCategory,
+  updateBudgetCategory,
+  setBudgetCategoryArchived,
+  reorderBudgetCategories,
+} from '../db/operations';
+import { formatCurrency } from '../utils/formatting';
+import {
+  colors,
+  spacing,
+  typography,
+  borderRadius,
+  elevation,
+  sizes,
+} from '../theme/tokens';
+import type { BudgetCategory } from '../types/models';
+
+interface BudgetCategoriesScreenProps {
+  onBack: () => void;
+}
+
+type CategoryRow =
+  | { kind: 'category'; category: BudgetCategory; isChild: boolean }
+  | { kind: 'header'; title: string };
+
+function getCategoryLabel(category: BudgetCategory): string {
+  return category.icon ? `${category.icon} ${category.name}` : category.name;
+}
+
+function getLimitLabel(category: BudgetCategory): string {
+  return category.monthly_limit
+    ? `${formatCurrency(category.monthly_limit, category.limit_currency)} / month`
+    : 'No limit';
+}
+
+/**
+ * Active categories as parent, children, parent, children...
+ * then archived ones under their own header
+ */
+function buildRows(categories: BudgetCategory[]): CategoryRow[] {
+  const active = categories.filter(category => !category.is_archived);
+  const archived = categories.filter(category => category.is_archived);
+  const activeIds = new Set(active.map(category => category.id));
+  const rows: CategoryRow[] = [];
+
+  for (const parent of active) {
+    if (parent.parent_category_id && activeIds.has(parent.parent_category_id)) continue;
+
+    rows.push({ kind: 'category', category: parent, isChild: false });
+    for (const child of active.filter(category => category.parent_category_id === parent.id)) {
+      rows.push({ kind: 'category', category: child, isChild: true });
+    }
+  }
+
+  if (archived.length > 0) {
+    rows.push({ kind: 'header', title: 'ARCHIVED' });
+    for (const category of archived) {
+      rows.push({ kind: 'category', category, isChild: false });
+    }
+  }
+
+  return rows;
+}
+
+export default function BudgetCategoriesScreen({ onBack }: BudgetCategoriesScreenProps) {
+  const [categories, setCategories] = useState<BudgetCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<BudgetCategory | null>(null);
+  const [actionMenuCategory, setActionMenuCategory] = useState<BudgetCategory | null>(null);
+
+  const loadCategories = useCallback(async () => {
+    try {
+      setCategories(await getBudgetCategories({ includeArchived: true }));
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+      Alert.alert('Error', 'Unable to load categories');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  const activeCategories = categories.filter(category => !category.is_archived);
+
+  const getSiblings = (category: BudgetCategory) =>
+    activeCategories.filter(
+      other => (other.parent_category_id ?? null) === (category.parent_category_id ?? null)
+    );
+
+  const handleSubmit = async (payload: BudgetCategoryPayload) => {
+    try {
+      if (editingCategory) {
+        await updateBudgetCategory({ id: editingCategory.id, ...payload });
+      } else {
+        await createBudgetCategory({
+          ...payload,
+          monthly_limit: payload.monthly_limit ?? undefined,
+        });
+      }
+      await loadCategories();
+    } catch (error: any) {
+      console.error('Failed to save category:', error);
+      Alert.alert('Error', error?.message ?? 'Unable to save category. Please try again.');
+    }
+  };
+
+  const handleMove = async (category: BudgetCategory, offset: number) => {
+    const ids = getSiblings(category).map(sibling => sibling.id);
+    const from = ids.indexOf(category.id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= ids.length) return;
+
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+
+    try {
+      await reorderBudgetCategories(ids);
+      await loadCategories();
+    } catch (error) {
+      console.error('Failed to reorder categories:', error);
+      Alert.alert('Error', 'Unable to reorder categories. Please try again.');
+    }
+  };
+
+  const handleArchive = async (category: BudgetCategory, archived: boolean) => {
+    try {
+      await setBudgetCategoryArchived(category.id, archived);
+      await loadCategories();
+    } catch (error) {
+      console.error('Failed to archive category:', error);
+      Alert.alert('Error', 'Unable to update category. Please try again.');
+    }
+  };
+
+  const getCategoryActionItems = (category: BudgetCategory): ActionMenuItem[] => {
+    if (category.is_archived) {
+      return [{ label: 'Unarchive', onPress: () => handleArchive(category, false) }];
+    }
+
+    const siblings = getSiblings(category);
+    const index = siblings.findIndex(sibling => sibling.id === category.id);
+    const hasChildren = activeCategories.some(other => other.parent_category_id === category.id);
+
+    const items: ActionMenuItem[] = [
+      {
+        label: 'Edit',
+        onPress: () => {
+          setEditingCategory(category);
+          setModalVisible(true);
+        },
+      },
+    ];
+
+    if (index > 0) {
+      items.push({ label: 'Move Up', onPress: () => handleMove(category, -1) });
+    }
+
+    if (index < siblings.length - 1) {
+      items.push({ label: 'Move Down', onPress: () => handleMove(category, 1) });
+    }
+
+    items.push({
+      label: hasChildren ? 'Archive with Subcategories' : 'Archive',
+      onPress: () => handleArchive(category, true),
+    });
+
+    return items;
+  };
+
+  const handleCategoryPress = (category: BudgetCategory) => {
+    if (Platform.OS === 'ios') {
+      const items = getCategoryActionItems(category);
+
+      ActionSheetIOS.showActionSheetWithOptions(
+        {
+          title: getCategoryLabel(category),
+          options: ['Cancel', ...items.map(item => item.label)],
+          cancelButtonIndex: 0,
+        },
+        (buttonIndex) => {
+          if (buttonIndex > 0 && buttonIndex <= items.length) {
+            items[buttonIndex - 1].onPress();
+          }
+        }
+      );
+    } else {
+      // Android: Use custom ActionMenu (Alert is limited to 3 buttons)
+      setActionMenuCategory(category);
+    }
+  };
+
+  const renderItem = ({ item }: { item: CategoryRow }) => {
+    if (item.kind === 'header') {
+      return <Text style={styles.sectionHeader}>{item.title}</Text>;
+    }
+
+    const { category, isChild } = item;
+
+    return (
+      <TouchableOpacity
+        style={[styles.row, isChild && styles.childRow, category.is_archived && styles.archivedRow]}
+        onPress={() => handleCategoryPress(category)}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel={`${category.name}, ${getLimitLabel(category)}`}
+      >
+        <Text style={styles.rowTitle} numberOfLines={1}>
+          {getCategoryLabel(category)}
+        </Text>
+        <Text style={styles.rowMeta}>{getLimitLabel(category)}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyText}>No categories yet</Text>
+      <Text style={styles.emptySubtext}>Tap + to create one</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Categories</Text>
+        <Text style={styles.subtitle}>Subcategories count towards their parent's limit</Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading…</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={buildRows(categories)}
+          keyExtractor={row => (row.kind === 'header' ? row.title : row.category.id)}
+          renderItem={renderItem}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+
+      <TouchableOpacity
+        style={styles.fab}
+        onPress={() => {
+          setEditingCategory(null);
+          setModalVisible(true);
+        }}
+        activeOpacity={0.8}
+        accessibilityLabel="New category"
+      >
+        <Text style={styles.fabText}>+</Text>
+      </TouchableOpacity>
+
+      {actionMenuCategory && (
+        <ActionMenu
+          visible={!!actionMenuCategory}
+          onClose={() => setActionMenuCategory(null)}
+          title={getCategoryLabel(actionMenuCategory)}
+          items={getCategoryActionItems(actionMenuCategory)}
+        />
+      )}
+
+      <BudgetCategoryModal
+        visible={modalVisible}
+        onClose={() => {
+          setModalVisible(false);
+          setEditingCategory(null);
+        }}
+        onSubmit={handleSubmit}
+        categories={activeCategories}
+        category={editingCategory}
+      />
+    </View>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.paperBackground,
+  },
+
+  header: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 12,
+    paddingBottom: 16,
+  },
+
+  backButton: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+
+  backButtonText: {
+    fontSize: 16,
+    color: colors.accentPrimary,
+    fontWeight: '600',
+  },
+
+  title: {
+    ...typography.pageTitle,
+    color: colors.textPrimary,
+  },
+
+  subtitle: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  loadingText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+
+  listContent: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingBottom: 100,
+  },
+
+  sectionHeader: {
+    ...typography.sectionTitle,
+    color: colors.textSecondary,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 8,
+    minHeight: spacing.minTouchTarget,
+  },
+
+  childRow: {
+    marginLeft: 24,
+  },
+
+  archivedRow: {
+    opacity: 0.6,
+  },
+
+  rowTitle: {
+    ...typography.body,
+    flex: 1,
+    fontWeight: '500',
+    color: colors.textPrimary,
+    marginRight: 12,
+  },
+
+  rowMeta: {
+    ...typography.meta,
+    color: colors.textSecondary,
+  },
+
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+  },
+
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textMuted,
+    marginBottom: 8,
+  },
+
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.textMuted,
+    textAlign: 'center',
+  },
+
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    ...sizes.fab,
+    borderRadius: borderRadius.fab,
+    backgroundColor: colors.fabBackground,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...elevation.fab,
+  },
+
+  fabText: {
+    ...typography.fabIcon,
+    color: colors.fabIcon,
+  },
+});
@@ -0,0 +1,416 @@
+/**
+ * BudgetScreen
+ *
+ * Monthly budget: spent versus monthly limit for each category
+ * (see buildMonthlyBudget). Opened from ExpensesScreen.
+ *
+ * - Subcategories are rolled up into their parent and listed under it
+ * - Categories over their limit, or near it (NEAR_LIMIT_RATIO), are flagged
+ * - Past months keep their history: archived categories still show
+ *   for months they had spending in
+ * - Spending and limits are converted to the base currency with the rate
+ *   of each day (utils/currency.ts); a converted limit shows its original too
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import BudgetCategoriesScreen from './BudgetCategoriesScreen';
+import CategoryRulesScreen from './CategoryRulesScreen';
+import {
+  getBudgetCategories,
+  getCategorySpending,
+  getBaseCurrency,
+  getExchangeRates,
+} from '../db/operations';
+import { formatCurrency } from '../utils/formatting';
+import { convertCategoryLimits, convertSpending } from '../utils/currency';
+import { buildMonthlyBudget, BudgetLine, BudgetStatus, MonthlyBudget } from '../utils/budget';
+import { addMonths, formatMonthLabel, formatTotals, getMonthRange, startOfMonth } from '../utils/expenses';
+import { colors, spacing, typography, borderRadius } from '../theme/tokens';
+import type { BudgetCategory } from '../types/models';
+
+interface BudgetScreenProps {
+  onBack: () => void;
+  initialMonth?: number;
+}
+
+const STATUS_LABELS: Record<BudgetStatus, string> = {
+  over: 'Over limit',
+  near: 'Near limit',
+  ok: '',
+  none: '',
+};
+
+function getStatusColor(status: BudgetStatus): string {
+  switch (status) {
+    case 'over':
+      return colors.accentUrgent;
+    case 'near':
+      return colors.unsortedIndicator;
+    default:
+      return colors.accentPrimary;
+  }
+}
+
+/**
+ * "€85.00 of €100.00 (limit $110.00)" - original limit when it was converted
+ */
+function getSpentLabel(line: BudgetLine, original?: BudgetCategory): string {
+  const spent = formatCurrency(line.spent, line.category.limit_currency);
+  const other = line.other.length > 0 ? ` + ${formatTotals(line.other)}` : '';
+
+  if (!line.limit) {
+    return `${spent}${other}`;
+  }
+
+  const originalLimit =
+    original?.monthly_limit && original.limit_currency !== line.category.limit_currency
+      ? ` (limit ${formatCurrency(original.monthly_limit, original.limit_currency)})`
+      : '';
+
+  return `${spent} of ${formatCurrency(line.limit, line.category.limit_currency)}${originalLimit}${other}`;
+}
+
+function BudgetRow({
+  line,
+  original,
+  isChild,
+}: {
+  line: BudgetLine;
+  original?: BudgetCategory;
+  isChild?: boolean;
+}) {
+  const { category, status } = line;
+  const statusColor = getStatusColor(status);
+
+  return (
+    <View style={[styles.row, isChild && styles.childRow]}>
+      <View style={styles.rowHeader}>
+        <Text style={[styles.rowTitle, category.is_archived && styles.archived]} numberOfLines={1}>
+          {category.icon ? `${category.icon} ${category.name}` : category.name}
+        </Text>
+        {STATUS_LABELS[status] ? (
+          <Text style={[styles.statusLabel, { color: statusColor }]}>{STATUS_LABELS[status]}</Text>
+        ) : null}
+      </View>
+
+      <Text style={styles.rowMeta}>{getSpentLabel(line, original)}</Text>
+
+      {line.ratio !== undefined && (
+        <View style={styles.progressTrack}>
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${Math.min(line.ratio, 1) * 100}%`, backgroundColor: statusColor },
+            ]}
+          />
+        </View>
+      )}
+    </View>
+  );
+}
+
+export default function BudgetScreen({ onBack, initialMonth }: BudgetScreenProps) {
+  const [month, setMonth] = useState(() => startOfMonth(initialMonth ?? Date.now()));
+  const [budget, setBudget] = useState<MonthlyBudget | null>(null);
+  const [originals, setOriginals] = useState<Map<string, BudgetCategory>>(new Map());
+  const [showCategories, setShowCategories] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+
+  const loadBudget = useCallback(async () => {
+    try {
+      const range = getMonthRange(month);
+      const [categories, spending, base, rates] = await Promise.all([
+        getBudgetCategories({ includeArchived: true }),
+        getCategorySpending(range),
+        getBaseCurrency(),
+        getExchangeRates(),
+      ]);
+
+      // Limits are converted at the rate of the month's last day (today for the current month)
+      const limitDate = Math.min(range.to - 1, Date.now());
+
+      setOriginals(new Map(categories.map(category => [category.id, category])));
+      setBudget(
+        buildMonthlyBudget(
+          convertCategoryLimits(categories, base, rates, limitDate),
+          convertSpending(spending, base, rates)
+        )
+      );
+    } catch (error) {
+      console.error('Failed to load budget:', error);
+      Alert.alert('Error', 'Unable to load budget');
+    }
+  }, [month]);
+
+  useEffect(() => {
+    if (!showCategories && !showRules) {
+      loadBudget();
+    }
+  }, [loadBudget, showCategories, showRules]);
+
+  if (showCategories) {
+    return <BudgetCategoriesScreen onBack={() => setShowCategories(false)} />;
+  }
+
+  if (showRules) {
+    return <CategoryRulesScreen onBack={() => setShowRules(false)} />;
+  }
+
+  const isCurrentMonth = month === startOfMonth(Date.now());
+  const flagged = (budget?.lines ?? [])
+    .flatMap(line => [line, ...line.children])
+    .filter(line => line.status === 'over' || line.status === 'near');
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Budget</Text>
+
+        <View style={styles.monthRow}>
+          <TouchableOpacity
+            style={styles.monthButton}
+            onPress={() => setMonth(addMonths(month, -1))}
+            accessibilityLabel="Previous month"
+          >
+            <Text style={styles.monthButtonText}>‹</Text>
+          </TouchableOpacity>
+
+          <View style={styles.monthCenter}>
+            <Text style={styles.monthLabel}>{formatMonthLabel(month)}</Text>
+            {flagged.length > 0 && (
+              <Text style={styles.monthFlag}>
+                {flagged.length === 1 ? '1 category needs attention' : `${flagged.length} categories need attention`}
+              </Text>
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.monthButton, isCurrentMonth && styles.monthButtonDisabled]}
+            onPress={() => setMonth(addMonths(month, 1))}
+            disabled={isCurrentMonth}
+            accessibilityLabel="Next month"
+          >
+            <Text style={styles.monthButtonText}>›</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.listContent}>
+        {budget && budget.lines.length === 0 && (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>No categories yet</Text>
+            <Text style={styles.emptySubtext}>Create categories to track spending against a limit</Text>
+          </View>
+        )}
+
+        {budget?.lines.map(line => (
+          <View key={line.category.id}>
+            <BudgetRow line={line} original={originals.get(line.category.id)} />
+            {line.children.map(child => (
+              <BudgetRow
+                key={child.category.id}
+                line={child}
+                original={originals.get(child.category.id)}
+                isChild
+              />
+            ))}
+          </View>
+        ))}
+
+        {budget && budget.uncategorized.length > 0 && (
+          <View style={styles.row}>
+            <Text style={styles.rowTitle}>Uncategorized</Text>
+            <Text style={styles.rowMeta}>{formatTotals(budget.uncategorized)}</Text>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={styles.manageButton}
+          onPress={() => setShowCategories(true)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.manageButtonText}>Manage Categories</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.manageButton}
+          onPress={() => setShowRules(true)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.manageButtonText}>Categorization Rules</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.paperBackground,
+  },
+
+  header: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 12,
+    paddingBottom: 8,
+  },
+
+  backButton: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+
+  backButtonText: {
+    fontSize: 16,
+    color: colors.accentPrimary,
+    fontWeight: '600',
+  },
+
+  title: {
+    ...typography.pageTitle,
+    color: colors.textPrimary,
+    marginBottom: 12,
+  },
+
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    paddingVertical: 8,
+  },
+
+  monthButton: {
+    width: spacing.minTouchTarget,
+    height: spacing.minTouchTarget,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  monthButtonDisabled: {
+    opacity: 0.3,
+  },
+
+  monthButtonText: {
+    fontSize: 28,
+    color: colors.accentPrimary,
+  },
+
+  monthCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+
+  monthLabel: {
+    ...typography.cardTitle,
+    color: colors.textPrimary,
+  },
+
+  monthFlag: {
+    ...typography.meta,
+    color: colors.accentUrgent,
+    marginTop: 2,
+  },
+
+  listContent: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 8,
+    paddingBottom: 100,
+  },
+
+  row: {
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 8,
+  },
+
+  childRow: {
+    marginLeft: 24,
+  },
+
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+
+  rowTitle: {
+    ...typography.body,
+    flex: 1,
+    fontWeight: '500',
+    color: colors.textPrimary,
+    marginRight: 12,
+  },
+
+  archived: {
+    color: colors.textMuted,
+  },
+
+  statusLabel: {
+    ...typography.meta,
+    fontWeight: '600',
+  },
+
+  rowMeta: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.badgeNormalBackground,
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+
+  progressFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textMuted,
+    marginBottom: 8,
+  },
+
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.textMuted,
+    textAlign: 'center',
+  },
+
+  manageButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+
+  manageButtonText: {
+    ...typography.link,
+    color: colors.accentPrimary,
+  },
+});
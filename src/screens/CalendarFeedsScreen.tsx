@@ -0,0 +1,314 @@
+/**
+ * CalendarFeedsScreen
+ *
+ * External calendars imported from .ics files. Opened from CalendarScreen.
+ *
+ * - Events are read-only: they show in the calendar day views and in
+ *   Focus Today, but can't be completed or edited
+ * - Importing a file whose calendar name (X-WR-CALNAME) is already here
+ *   replaces that calendar's events, so re-exporting and importing again
+ *   keeps it up to date
+ * - Tap a calendar to remove it with its events
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  Alert,
+} from 'react-native';
+import {
+  getCalendarFeeds,
+  importCalendarFeed,
+  deleteCalendarFeed,
+  CalendarFeedWithCount,
+} from '../db/operations';
+import { pickIcsText } from '../backup/files';
+import { parseIcsEvents } from '../utils/ics';
+import { formatExpenseDay } from '../utils/expenses';
+import {
+  colors,
+  spacing,
+  typography,
+  borderRadius,
+  elevation,
+  sizes,
+} from '../theme/tokens';
+
+// Used when the file doesn't name its calendar
+const DEFAULT_FEED_NAME = 'Imported calendar';
+
+interface CalendarFeedsScreenProps {
+  onBack: () => void;
+}
+
+export default function CalendarFeedsScreen({ onBack }: CalendarFeedsScreenProps) {
+  const [feeds, setFeeds] = useState<CalendarFeedWithCount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const loadFeeds = useCallback(async () => {
+    try {
+      setFeeds(await getCalendarFeeds());
+    } catch (error) {
+      console.error('Failed to load calendars:', error);
+      Alert.alert('Error', 'Unable to load calendars');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFeeds();
+  }, [loadFeeds]);
+
+  const handleImport = async () => {
+    let parsed;
+    try {
+      const text = await pickIcsText();
+      if (text === null) return;
+      parsed = parseIcsEvents(text);
+    } catch (error) {
+      Alert.alert('Cannot Import', error instanceof Error ? error.message : 'Unable to read this file.');
+      return;
+    }
+
+    if (parsed.events.length === 0) {
+      Alert.alert('Nothing to Import', 'This file has no events.');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = await importCalendarFeed(parsed.name ?? DEFAULT_FEED_NAME, parsed.events);
+      const count = `${result.events} ${result.events === 1 ? 'event' : 'events'}`;
+      Alert.alert(
+        result.replaced ? 'Calendar Updated' : 'Calendar Imported',
+        result.replaced
+          ? `"${result.name}" now has ${count}.`
+          : `"${result.name}" added with ${count}.`
+      );
+      await loadFeeds();
+    } catch (error) {
+      console.error('Failed to import calendar:', error);
+      Alert.alert('Error', 'Unable to import calendar. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = (feed: CalendarFeedWithCount) => {
+    Alert.alert(
+      'Remove Calendar',
+      `Remove "${feed.name}" and its ${feed.event_count} ${feed.event_count === 1 ? 'event' : 'events'}? Your tasks are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCalendarFeed(feed.id);
+              await loadFeeds();
+            } catch (error) {
+              console.error('Failed to remove calendar:', error);
+              Alert.alert('Error', 'Unable to remove calendar. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: CalendarFeedWithCount }) => (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={() => handleRemove(item)}
+      activeOpacity={0.7}
+      accessibilityHint="Offers to remove this calendar"
+    >
+      <View style={styles.rowBar} />
+      <View style={styles.rowText}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{item.name}</Text>
+        <Text style={styles.rowMeta}>
+          {item.event_count} {item.event_count === 1 ? 'event' : 'events'} · Imported {formatExpenseDay(item.updated_at)}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyText}>No calendars</Text>
+      <Text style={styles.emptySubtext}>
+        Export your calendar as an .ics file and tap +;{'\n'}its events show next to your tasks
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Calendars</Text>
+        <Text style={styles.subtitle}>Read-only events from .ics files</Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading…</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={feeds}
+          keyExtractor={feed => feed.id}
+          renderItem={renderItem}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+
+      <TouchableOpacity
+        style={[styles.fab, busy && styles.fabBusy]}
+        onPress={handleImport}
+        disabled={busy}
+        activeOpacity={0.8}
+        accessibilityLabel="Import calendar"
+      >
+        <Text style={styles.fabText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.paperBackground,
+  },
+
+  header: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 12,
+    paddingBottom: 16,
+  },
+
+  backButton: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+
+  backButtonText: {
+    fontSize: 16,
+    color: colors.accentPrimary,
+    fontWeight: '600',
+  },
+
+  title: {
+    ...typography.pageTitle,
+    color: colors.textPrimary,
+  },
+
+  subtitle: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  loadingText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+
+  listContent: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingBottom: 100,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 8,
+    minHeight: spacing.minTouchTarget,
+  },
+
+  rowBar: {
+    width: 4,
+    alignSelf: 'stretch',
+    borderRadius: 2,
+    backgroundColor: colors.calendarEvent,
+    marginRight: 12,
+  },
+
+  rowText: {
+    flex: 1,
+  },
+
+  rowTitle: {
+    ...typography.body,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+
+  rowMeta: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+  },
+
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textMuted,
+    marginBottom: 8,
+  },
+
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.textMuted,
+    textAlign: 'center',
+  },
+
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    ...sizes.fab,
+    borderRadius: borderRadius.fab,
+    backgroundColor: colors.fabBackground,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...elevation.fab,
+  },
+
+  fabBusy: {
+    opacity: 0.5,
+  },
+
+  fabText: {
+    ...typography.fabIcon,
+    color: colors.fabIcon,
+  },
+});
@@ -1,24 +1,872 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+/**
+ * CalendarScreen
+ *
+ * Dated tasks (due_date) on a calendar.
+ *
+ * - Month: grid of days, each with a dot per task coloured like the
+ *   priority circles (focus / normal / low / completed); tap a day to list
+ *   its tasks below the grid
+ * - Week: agenda of the 7 days, timed tasks first (utils/calendar.ts)
+ * - Reschedule: long-press a task in the week view and drag it onto
+ *   another day; the time of day is kept and reminders follow (updateTask)
+ * - Tap a task's circle to complete / reopen it
+ * - Events of imported calendars (CalendarFeedsScreen) are listed above the
+ *   day's tasks with a teal bar: read-only, no circle, not draggable
+ */
+
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  Animated,
+  PanResponder,
+  LayoutChangeEvent,
+} from 'react-native';
+import Chip from '../components/Chip';
+import CalendarFeedsScreen from './CalendarFeedsScreen';
+import {
+  getAllActiveTasks,
+  getCalendarOccurrences,
+  updateTask,
+  TaskWithCollectionName,
+} from '../db/operations';
+import {
+  CalendarView,
+  MAX_DAY_DOTS,
+  TaskDotKind,
+  addDays,
+  formatDayHeading,
+  formatTaskTime,
+  formatWeekRange,
+  getMonthGrid,
+  getTaskDotKind,
+  getWeekDays,
+  groupTasksByDay,
+  moveToDay,
+  startOfWeek,
+} from '../utils/calendar';
+import { formatOccurrenceTime, groupOccurrencesByDay } from '../utils/calendarEvents';
+import { addMonths, formatMonthLabel, startOfDay, startOfMonth } from '../utils/expenses';
+import { colors, spacing, typography, borderRadius, sizes } from '../theme/tokens';
+import type { CalendarOccurrence } from '../types/models';
+
+interface CalendarScreenProps {
+  isActive?: boolean;
+}
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Task being dragged in the week view
+interface DragState {
+  task: TaskWithCollectionName;
+  day: number;
+  // Centre of the row, in ScrollView content coordinates
+  originY: number;
+}
+
+function getDotStyle(kind: TaskDotKind) {
+  switch (kind) {
+    case 'focus':
+      return styles.dotFocus;
+    case 'low':
+      return styles.dotLow;
+    case 'completed':
+      return styles.dotCompleted;
+    default:
+      return styles.dotNormal;
+  }
+}
+
+function TaskRow({
+  task,
+  onToggle,
+  onLongPress,
+  onPressOut,
+}: {
+  task: TaskWithCollectionName;
+  onToggle: () => void;
+  onLongPress?: () => void;
+  onPressOut?: () => void;
+}) {
+  const time = task.due_date ? formatTaskTime(task.due_date) : '';
+
+  return (
+    <TouchableOpacity
+      style={styles.taskRow}
+      onLongPress={onLongPress}
+      onPressOut={onPressOut}
+      disabled={!onLongPress}
+      activeOpacity={0.7}
+    >
+      <TouchableOpacity
+        style={styles.circleButton}
+        onPress={onToggle}
+        accessibilityRole="checkbox"
+        accessibilityState={{ checked: task.completed }}
+        accessibilityLabel={task.completed ? 'Mark as not done' : 'Mark as done'}
+      >
+        <View style={[styles.priorityCircle, getDotStyle(getTaskDotKind(task))]} />
+      </TouchableOpacity>
+
+      <Text
+        style={[styles.taskTitle, task.completed && styles.taskTitleCompleted]}
+        numberOfLines={2}
+      >
+        {task.title}
+      </Text>
+
+      {!!time && <Text style={styles.taskTime}>{time}</Text>}
+    </TouchableOpacity>
+  );
+}
+
+function EventRow({ occurrence }: { occurrence: CalendarOccurrence }) {
+  const time = formatOccurrenceTime(occurrence);
+  const meta = [occurrence.feed_name, occurrence.location].filter(Boolean).join(' · ');
+
+  return (
+    <View
+      style={styles.eventRow}
+      accessible
+      accessibilityLabel={`${occurrence.title}, ${time}${occurrence.feed_name ? `, ${occurrence.feed_name}` : ''}`}
+    >
+      <View style={styles.eventBar} />
+      <View style={styles.eventText}>
+        <Text style={styles.taskTitle} numberOfLines={2}>{occurrence.title}</Text>
+        {!!meta && <Text style={styles.eventMeta} numberOfLines={1}>{meta}</Text>}
+      </View>
+      <Text style={styles.taskTime}>{time}</Text>
+    </View>
+  );
+}
+
+export default function CalendarScreen({ isActive = true }: CalendarScreenProps) {
+  const [view, setView] = useState<CalendarView>('month');
+  // Any day of the month / week shown
+  const [anchor, setAnchor] = useState(() => startOfDay(Date.now()));
+  const [selectedDay, setSelectedDay] = useState<number | null>(() => startOfDay(Date.now()));
+  const [tasks, setTasks] = useState<TaskWithCollectionName[]>([]);
+  const [occurrences, setOccurrences] = useState<CalendarOccurrence[]>([]);
+  const [showFeeds, setShowFeeds] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropDay, setDropDay] = useState<number | null>(null);
+
+  const dragY = useRef(new Animated.Value(0)).current;
+  const dragRef = useRef<DragState | null>(null);
+  const dragGrantedRef = useRef(false);
+  const dropDayRef = useRef<number | null>(null);
+  // Week view layout: day section → position in the ScrollView,
+  // task row → position in its section
+  const dayLayouts = useRef(new Map<number, { y: number; height: number }>());
+  const rowLayouts = useRef(new Map<string, { y: number; height: number }>());
+
+  const loadTasks = useCallback(async () => {
+    try {
+      setTasks(await getAllActiveTasks());
+    } catch (error) {
+      console.error('Failed to load calendar:', error);
+      Alert.alert('Error', 'Unable to load tasks');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isActive) {
+      loadTasks();
+    }
+  }, [isActive, loadTasks]);
+
+  const today = startOfDay(Date.now());
+  const month = startOfMonth(anchor);
+  const weekStart = startOfWeek(anchor);
+
+  // Days on screen: the whole month grid, or the week
+  const monthGrid = useMemo(() => getMonthGrid(month), [month]);
+  const rangeFrom = view === 'month' ? monthGrid[0][0] : weekStart;
+  const rangeTo = view === 'month' ? addDays(monthGrid[monthGrid.length - 1][6], 1) : addDays(weekStart, 7);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setOccurrences(await getCalendarOccurrences({ from: rangeFrom, to: rangeTo }));
+    } catch (error) {
+      console.error('Failed to load calendar events:', error);
+    }
+  }, [rangeFrom, rangeTo]);
+
+  useEffect(() => {
+    if (isActive) {
+      loadEvents();
+    }
+  }, [isActive, loadEvents]);
+
+  const tasksByDay = useMemo(() => groupTasksByDay(tasks), [tasks]);
+  const eventsByDay = useMemo(() => groupOccurrencesByDay(occurrences), [occurrences]);
+
+  const goToToday = () => {
+    setAnchor(today);
+    setSelectedDay(today);
+  };
+
+  const goBack = () => {
+    setAnchor(view === 'month' ? addMonths(month, -1) : addDays(weekStart, -7));
+    if (view === 'month') setSelectedDay(null);
+  };
+
+  const goForward = () => {
+    setAnchor(view === 'month' ? addMonths(month, 1) : addDays(weekStart, 7));
+    if (view === 'month') setSelectedDay(null);
+  };
+
+  const switchView = (next: CalendarView) => {
+    // The week view opens on the selected day's week
+    if (next === 'week' && selectedDay !== null) setAnchor(selectedDay);
+    setView(next);
+  };
+
+  const openWeek = (day: number) => {
+    setAnchor(day);
+    setView('week');
+  };
+
+  const handleToggle = async (task: TaskWithCollectionName) => {
+    try {
+      await updateTask({ id: task.id, completed: !task.completed });
+      await loadTasks();
+    } catch (error) {
+      console.error('Failed to update task:', error);
+      Alert.alert('Error', 'Unable to update task');
+    }
+  };
+
+  const reschedule = async (task: TaskWithCollectionName, day: number) => {
+    if (!task.due_date) return;
+
+    const dueDate = moveToDay(task.due_date, day);
+
+    // Show the move right away; the reload picks up moved reminders etc.
+    setTasks(current => current.map(t => (t.id === task.id ? { ...t, due_date: dueDate } : t)));
+
+    try {
+      await updateTask({ id: task.id, due_date: dueDate });
+    } catch (error) {
+      console.error('Failed to reschedule task:', error);
+      Alert.alert('Error', 'Unable to move task');
+    } finally {
+      await loadTasks();
+    }
+  };
+
+  // ─── Drag to reschedule (week view) ───
+
+  const getDayAt = (y: number): number | null => {
+    for (const [day, layout] of dayLayouts.current) {
+      if (y >= layout.y && y < layout.y + layout.height) return day;
+    }
+    return null;
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+    dragGrantedRef.current = false;
+    dropDayRef.current = null;
+    dragY.setValue(0);
+    setDraggingId(null);
+    setDropDay(null);
+  };
+
+  const startDrag = (task: TaskWithCollectionName, day: number) => {
+    const section = dayLayouts.current.get(day);
+    const row = rowLayouts.current.get(task.id);
+    if (!section || !row) return;
+
+    dragRef.current = { task, day, originY: section.y + row.y + row.height / 2 };
+    dragGrantedRef.current = false;
+    dropDayRef.current = day;
+    setDraggingId(task.id);
+    setDropDay(day);
+  };
+
+  // A long press that ends without moving doesn't hand over to the responder
+  const handlePressOut = () => {
+    if (dragRef.current && !dragGrantedRef.current) endDrag();
+  };
+
+  // Handlers read refs only, so the responder is created once
+  const handlersRef = useRef({ getDayAt, endDrag, reschedule });
+  handlersRef.current = { getDayAt, endDrag, reschedule };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponderCapture: () => !!dragRef.current,
+      onPanResponderGrant: () => {
+        dragGrantedRef.current = true;
+      },
+      onPanResponderMove: (_, gesture) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+
+        dragY.setValue(gesture.dy);
+
+        const day = handlersRef.current.getDayAt(drag.originY + gesture.dy);
+        if (day !== dropDayRef.current) {
+          dropDayRef.current = day;
+          setDropDay(day);
+        }
+      },
+      onPanResponderRelease: (_, gesture) => {
+        const drag = dragRef.current;
+        const { getDayAt: dayAt, endDrag: end, reschedule: move } = handlersRef.current;
+        const day = drag ? dayAt(drag.originY + gesture.dy) : null;
+
+        end();
+
+        if (drag && day !== null && day !== drag.day) {
+          move(drag.task, day);
+        }
+      },
+      onPanResponderTerminate: () => handlersRef.current.endDrag(),
+      onPanResponderTerminationRequest: () => false,
+    })
+  ).current;
+
+  // ─── Rendering ───
+
+  const renderDayTasks = (dayTasks: TaskWithCollectionName[], day: number, draggable: boolean) => {
+    const dayEvents = eventsByDay.get(day) ?? [];
+
+    if (dayTasks.length === 0 && dayEvents.length === 0) {
+      return <Text style={styles.emptyDayText}>Nothing planned</Text>;
+    }
+
+    const eventRows = dayEvents.map(occurrence => (
+      <EventRow key={occurrence.key} occurrence={occurrence} />
+    ));
+
+    const taskRows = dayTasks.map(task => {
+      const isDragging = task.id === draggingId;
+
+      return (
+        <Animated.View
+          key={task.id}
+          onLayout={(event: LayoutChangeEvent) => {
+            const { y, height } = event.nativeEvent.layout;
+            rowLayouts.current.set(task.id, { y, height });
+          }}
+          style={[
+            isDragging && styles.taskRowDragging,
+            isDragging && { transform: [{ translateY: dragY }] },
+          ]}
+        >
+          <TaskRow
+            task={task}
+            onToggle={() => handleToggle(task)}
+            onLongPress={draggable && task.due_date ? () => startDrag(task, day) : undefined}
+            onPressOut={draggable ? handlePressOut : undefined}
+          />
+        </Animated.View>
+      );
+    });
+
+    return [...eventRows, ...taskRows];
+  };
+
+  const renderMonth = () => {
+    const weeks = monthGrid;
+    const selectedTasks = selectedDay !== null ? tasksByDay.get(selectedDay) ?? [] : [];
+
+    return (
+      <ScrollView contentContainerStyle={styles.listContent}>
+        <View style={styles.card}>
+          <View style={styles.weekRow}>
+            {WEEKDAY_LABELS.map(label => (
+              <Text key={label} style={styles.weekdayLabel}>{label}</Text>
+            ))}
+          </View>
+
+          {weeks.map(week => (
+            <View key={week[0]} style={styles.weekRow}>
+              {week.map(day => {
+                const dayTasks = tasksByDay.get(day) ?? [];
+                const dayEvents = eventsByDay.get(day) ?? [];
+                const dots = [
+                  ...dayEvents.map(occurrence => ({ key: occurrence.key, style: styles.dotEvent })),
+                  ...dayTasks.map(task => ({ key: task.id, style: getDotStyle(getTaskDotKind(task)) })),
+                ];
+                const isOtherMonth = startOfMonth(day) !== month;
+                const isSelected = day === selectedDay;
+
+                return (
+                  <TouchableOpacity
+                    key={day}
+                    style={[styles.dayCell, isSelected && styles.dayCellSelected]}
+                    onPress={() => setSelectedDay(day)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${formatDayHeading(day)}, ${dayTasks.length} ${dayTasks.length === 1 ? 'task' : 'tasks'}${dayEvents.length > 0 ? `, ${dayEvents.length} ${dayEvents.length === 1 ? 'event' : 'events'}` : ''}`}
+                    accessibilityState={{ selected: isSelected }}
+                  >
+                    <View style={[styles.dayNumber, day === today && styles.dayNumberToday]}>
+                      <Text
+                        style={[
+                          styles.dayNumberText,
+                          isOtherMonth && styles.dayNumberTextOther,
+                          day === today && styles.dayNumberTextToday,
+                        ]}
+                      >
+                        {new Date(day).getDate()}
+                      </Text>
+                    </View>
+
+                    <View style={styles.dotRow}>
+                      {dots.slice(0, MAX_DAY_DOTS).map(dot => (
+                        <View key={dot.key} style={[styles.dot, dot.style]} />
+                      ))}
+                      {dots.length > MAX_DAY_DOTS && <Text style={styles.moreDots}>+</Text>}
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ))}
+        </View>
+
+        {selectedDay === null ? (
+          <Text style={styles.hint}>Tap a day to see its tasks</Text>
+        ) : (
+          <View style={styles.card}>
+            <View style={styles.dayHeader}>
+              <Text style={styles.cardTitle}>{formatDayHeading(selectedDay)}</Text>
+              <TouchableOpacity onPress={() => openWeek(selectedDay)}>
+                <Text style={styles.linkText}>Week</Text>
+              </TouchableOpacity>
+            </View>
+            {renderDayTasks(selectedTasks, selectedDay, false)}
+          </View>
+        )}
+      </ScrollView>
+    );
+  };
+
+  const renderWeek = () => (
+    <View style={styles.flex} {...panResponder.panHandlers}>
+      <ScrollView contentContainerStyle={styles.listContent} scrollEnabled={draggingId === null}>
+        {getWeekDays(weekStart).map(day => {
+          const dayTasks = tasksByDay.get(day) ?? [];
+          const hasDragged = dayTasks.some(task => task.id === draggingId);
+
+          return (
+            <View
+              key={day}
+              onLayout={(event: LayoutChangeEvent) => {
+                const { y, height } = event.nativeEvent.layout;
+                dayLayouts.current.set(day, { y, height });
+              }}
+              style={[
+                styles.card,
+                // Keep the dragged row above the days after it
+                hasDragged && styles.cardRaised,
+                draggingId !== null && day === dropDay && styles.cardDropTarget,
+              ]}
+            >
+              <Text style={[styles.cardTitle, day === today && styles.cardTitleToday]}>
+                {day === today ? `Today · ${formatDayHeading(day)}` : formatDayHeading(day)}
+              </Text>
+              {renderDayTasks(dayTasks, day, true)}
+            </View>
+          );
+        })}
+
+        <Text style={styles.hint}>Long-press a task and drag it to another day</Text>
+      </ScrollView>
+    </View>
+  );
+
+  if (showFeeds) {
+    return (
+      <CalendarFeedsScreen
+        onBack={() => {
+          setShowFeeds(false);
+          loadEvents();
+        }}
+      />
+    );
+  }
 
-export default function CalendarScreen() {
   return (
     <View style={styles.container}>
-      <View style={styles.center}>
-        <Text style={styles.emoji}>📅</Text>
-        <Text style={styles.title}>Calendar coming soon</Text>
-        <Text style={styles.subtitle}>
-          Read-only mirror of your device calendar
-        </Text>
+      <View style={styles.header}>
+        <View style={styles.headerTop}>
+          <View>
+            <Text style={styles.title}>Calendar</Text>
+            <Text style={styles.subtitle}>Dated tasks and imported calendars</Text>
+          </View>
+          <View style={styles.headerLinks}>
+            <TouchableOpacity onPress={() => setShowFeeds(true)}>
+              <Text style={styles.linkText}>Calendars</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={goToToday}>
+              <Text style={styles.linkText}>Today</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.chipRow}>
+          <Chip label="Month" selected={view === 'month'} onPress={() => switchView('month')} />
+          <Chip label="Week" selected={view === 'week'} onPress={() => switchView('week')} />
+        </View>
+
+        <View style={styles.periodRow}>
+          <TouchableOpacity
+            style={styles.periodButton}
+            onPress={goBack}
+            accessibilityLabel={view === 'month' ? 'Previous month' : 'Previous week'}
+          >
+            <Text style={styles.periodButtonText}>‹</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.periodLabel}>
+            {view === 'month' ? formatMonthLabel(month) : formatWeekRange(weekStart)}
+          </Text>
+
+          <TouchableOpacity
+            style={styles.periodButton}
+            onPress={goForward}
+            accessibilityLabel={view === 'month' ? 'Next month' : 'Next week'}
+          >
+            <Text style={styles.periodButtonText}>›</Text>
+          </TouchableOpacity>
+        </View>
       </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading...</Text>
+        </View>
+      ) : view === 'month' ? (
+        renderMonth()
+      ) : (
+        renderWeek()
+      )}
     </View>
   );
 }
 
+// ─── Styles ───
+
 const styles = StyleSheet.create({
-  container: { flex: 1, backgroundColor: '#f9fafb' },
-  center: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 32 },
-  emoji: { fontSize: 64, marginBottom: 16 },
-  title: { fontSize: 20, fontWeight: '600', marginBottom: 8 },
-  subtitle: { color: '#6b7280', textAlign: 'center' },
+  container: {
+    flex: 1,
+    backgroundColor: colors.paperBackground,
+  },
+
+  flex: {
+    flex: 1,
+  },
+
+  header: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 12,
+    paddingBottom: 8,
+  },
+
+  headerTop: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+
+  title: {
+    ...typography.pageTitle,
+    color: colors.textPrimary,
+  },
+
+  subtitle: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  headerLinks: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+
+  linkText: {
+    ...typography.link,
+    color: colors.accentPrimary,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+  },
+
+  periodButton: {
+    width: spacing.minTouchTarget,
+    height: spacing.minTouchTarget,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  periodButtonText: {
+    fontSize: 28,
+    color: colors.accentPrimary,
+  },
+
+  periodLabel: {
+    ...typography.cardTitle,
+    flex: 1,
+    textAlign: 'center',
+    color: colors.textPrimary,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  loadingText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+
+  listContent: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 8,
+    paddingBottom: 100,
+  },
+
+  card: {
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+
+  cardRaised: {
+    zIndex: 1,
+    elevation: 1,
+  },
+
+  cardDropTarget: {
+    borderColor: colors.accentPrimary,
+  },
+
+  cardTitle: {
+    ...typography.cardTitle,
+    color: colors.textPrimary,
+    marginBottom: 6,
+  },
+
+  cardTitleToday: {
+    color: colors.accentPrimary,
+  },
+
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+
+  hint: {
+    ...typography.meta,
+    color: colors.textMuted,
+    textAlign: 'center',
+    marginVertical: 8,
+  },
+
+  // Month grid
+
+  weekRow: {
+    flexDirection: 'row',
+  },
+
+  weekdayLabel: {
+    ...typography.metaSmall,
+    flex: 1,
+    textAlign: 'center',
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+
+  dayCell: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 4,
+    minHeight: spacing.minTouchTarget,
+    borderRadius: borderRadius.badge,
+  },
+
+  dayCellSelected: {
+    backgroundColor: colors.divider,
+  },
+
+  dayNumber: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  dayNumberToday: {
+    backgroundColor: colors.accentPrimary,
+  },
+
+  dayNumberText: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+
+  dayNumberTextOther: {
+    color: colors.textLight,
+  },
+
+  dayNumberTextToday: {
+    color: colors.textOnDark,
+    fontWeight: '600',
+  },
+
+  dotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    height: 8,
+    marginTop: 2,
+  },
+
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+
+  moreDots: {
+    fontSize: 10,
+    lineHeight: 10,
+    color: colors.textSecondary,
+  },
+
+  // Same scheme as the priority circles (SmartSectionCard)
+
+  dotFocus: {
+    backgroundColor: colors.priorityFocus,
+  },
+
+  dotNormal: {
+    backgroundColor: 'transparent',
+    borderWidth: 1.5,
+    borderColor: colors.priorityNormalBorder,
+  },
+
+  dotLow: {
+    backgroundColor: colors.priorityLow,
+  },
+
+  dotCompleted: {
+    backgroundColor: colors.priorityCompleted,
+  },
+
+  dotEvent: {
+    backgroundColor: colors.calendarEvent,
+  },
+
+  // Task rows
+
+  emptyDayText: {
+    ...typography.meta,
+    color: colors.textMuted,
+  },
+
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: spacing.minTouchTarget,
+    backgroundColor: colors.backgroundCard,
+  },
+
+  taskRowDragging: {
+    zIndex: 1,
+    elevation: 4,
+    opacity: 0.9,
+  },
+
+  circleButton: {
+    width: spacing.minTouchTarget,
+    height: spacing.minTouchTarget,
+    marginLeft: -14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  priorityCircle: {
+    ...sizes.priorityCircle,
+    borderRadius: borderRadius.circle,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+
+  taskTitle: {
+    ...typography.body,
+    flex: 1,
+    color: colors.textPrimary,
+  },
+
+  taskTitleCompleted: {
+    color: colors.textMuted,
+    textDecorationLine: 'line-through',
+  },
+
+  taskTime: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginLeft: 8,
+  },
+
+  // Event rows (imported calendars, read-only)
+
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: spacing.minTouchTarget,
+    marginBottom: 4,
+    paddingVertical: 6,
+    paddingRight: 8,
+    borderRadius: borderRadius.small,
+    backgroundColor: colors.calendarEventBackground,
+  },
+
+  eventBar: {
+    width: 4,
+    alignSelf: 'stretch',
+    borderRadius: 2,
+    backgroundColor: colors.calendarEvent,
+    marginRight: 12,
+  },
+
+  eventText: {
+    flex: 1,
+  },
+
+  eventMeta: {
+    ...typography.metaSmall,
+    color: colors.calendarEvent,
+  },
 });
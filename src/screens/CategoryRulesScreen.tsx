@@ -0,0 +1,422 @@
+/**
+ * CategoryRulesScreen
+ *
+ * Auto-categorization rules. Opened from BudgetScreen.
+ *
+ * - A rule matches a merchant and/or an amount range and sets a category
+ *   and/or a payment method (utils/rules.ts)
+ * - Rules run top to bottom on new expenses and statement imports;
+ *   Move Up / Move Down changes the priority
+ * - "Apply to Uncategorized" runs the rules over existing expenses
+ * - Rules are also learned when an expense is moved to another category
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  Alert,
+  Platform,
+  ActionSheetIOS,
+} from 'react-native';
+import ActionMenu, { ActionMenuItem } from '../components/ActionMenu';
+import CategoryRuleModal from '../components/CategoryRuleModal';
+import {
+  getCategoryRules,
+  saveCategoryRule,
+  deleteCategoryRule,
+  reorderCategoryRules,
+  applyRulesToUncategorized,
+  getBudgetCategories,
+} from '../db/operations';
+import { describeRuleAction, describeRuleCondition } from '../utils/rules';
+import {
+  colors,
+  spacing,
+  typography,
+  borderRadius,
+  elevation,
+  sizes,
+} from '../theme/tokens';
+import type { BudgetCategory, CategoryRule, CreateCategoryRule } from '../types/models';
+
+interface CategoryRulesScreenProps {
+  onBack: () => void;
+}
+
+export default function CategoryRulesScreen({ onBack }: CategoryRulesScreenProps) {
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [categories, setCategories] = useState<BudgetCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategoryRule | null>(null);
+  const [actionMenuRule, setActionMenuRule] = useState<CategoryRule | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const [allRules, allCategories] = await Promise.all([
+        getCategoryRules(),
+        getBudgetCategories({ includeArchived: true }),
+      ]);
+      setRules(allRules);
+      setCategories(allCategories);
+    } catch (error) {
+      console.error('Failed to load rules:', error);
+      Alert.alert('Error', 'Unable to load rules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const activeCategories = categories.filter(category => !category.is_archived);
+
+  const getCategory = (rule: CategoryRule) =>
+    categories.find(category => category.id === rule.category_id);
+
+  // Rules for archived categories are kept but don't run
+  const isInactive = (rule: CategoryRule) => !!rule.category_id && !!getCategory(rule)?.is_archived;
+
+  const getActionLabel = (rule: CategoryRule): string => {
+    const category = getCategory(rule);
+    const categoryLabel = category
+      ? category.icon ? `${category.icon} ${category.name}` : category.name
+      : undefined;
+    return describeRuleAction(rule, categoryLabel);
+  };
+
+  const handleSubmit = async (payload: CreateCategoryRule) => {
+    try {
+      await saveCategoryRule({ ...payload, id: editingRule?.id });
+      await loadRules();
+    } catch (error: any) {
+      console.error('Failed to save rule:', error);
+      Alert.alert('Error', error?.message ?? 'Unable to save rule. Please try again.');
+    }
+  };
+
+  const handleMove = async (rule: CategoryRule, offset: number) => {
+    const ids = rules.map(other => other.id);
+    const from = ids.indexOf(rule.id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= ids.length) return;
+
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+
+    try {
+      await reorderCategoryRules(ids);
+      await loadRules();
+    } catch (error) {
+      console.error('Failed to reorder rules:', error);
+      Alert.alert('Error', 'Unable to reorder rules. Please try again.');
+    }
+  };
+
+  const handleDelete = async (rule: CategoryRule) => {
+    try {
+      await deleteCategoryRule(rule.id);
+      await loadRules();
+    } catch (error) {
+      console.error('Failed to delete rule:', error);
+      Alert.alert('Error', 'Unable to delete rule. Please try again.');
+    }
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      const count = await applyRulesToUncategorized();
+      Alert.alert(
+        'Rules Applied',
+        count === 0
+          ? 'No uncategorized expenses matched a rule.'
+          : `${count} ${count === 1 ? 'expense was' : 'expenses were'} categorized.`
+      );
+    } catch (error) {
+      console.error('Failed to apply rules:', error);
+      Alert.alert('Error', 'Unable to apply rules. Please try again.');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const getRuleActionItems = (rule: CategoryRule): ActionMenuItem[] => {
+    const index = rules.findIndex(other => other.id === rule.id);
+
+    const items: ActionMenuItem[] = [
+      {
+        label: 'Edit',
+        onPress: () => {
+          setEditingRule(rule);
+          setModalVisible(true);
+        },
+      },
+    ];
+
+    if (index > 0) {
+      items.push({ label: 'Move Up', onPress: () => handleMove(rule, -1) });
+    }
+
+    if (index < rules.length - 1) {
+      items.push({ label: 'Move Down', onPress: () => handleMove(rule, 1) });
+    }
+
+    items.push({ label: 'Delete', onPress: () => handleDelete(rule), destructive: true });
+
+    return items;
+  };
+
+  const handleRulePress = (rule: CategoryRule) => {
+    if (Platform.OS === 'ios') {
+      const items = getRuleActionItems(rule);
+      ActionSheetIOS.showActionSheetWithOptions(
+        {
+          title: describeRuleCondition(rule),
+          options: ['Cancel', ...items.map(item => item.label)],
+          cancelButtonIndex: 0,
+          destructiveButtonIndex: items.length,
+        },
+        (buttonIndex) => {
+          if (buttonIndex > 0 && buttonIndex <= items.length) {
+            items[buttonIndex - 1].onPress();
+          }
+        }
+      );
+    } else {
+      // Android: Use custom ActionMenu (Alert is limited to 3 buttons)
+      setActionMenuRule(rule);
+    }
+  };
+
+  const renderHeader = () => (
+    <TouchableOpacity
+      style={styles.applyButton}
+      onPress={handleApply}
+      disabled={applying || rules.length === 0}
+      accessibilityRole="button"
+    >
+      <Text style={[styles.applyButtonText, (applying || rules.length === 0) && styles.disabled]}>
+        Apply to Uncategorized
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderItem = ({ item }: { item: CategoryRule }) => (
+    <TouchableOpacity
+      style={[styles.row, isInactive(item) && styles.inactiveRow]}
+      onPress={() => handleRulePress(item)}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityLabel={`${describeRuleCondition(item)}, sets ${getActionLabel(item)}`}
+    >
+      <Text style={styles.rowTitle}>{describeRuleCondition(item)}</Text>
+      <Text style={styles.rowMeta}>
+        → {getActionLabel(item)}
+        {isInactive(item) ? ' (archived, not applied)' : ''}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyText}>No rules yet</Text>
+      <Text style={styles.emptySubtext}>
+        Tap + to create one, or change the category{'\n'}of an expense to learn one
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Rules</Text>
+        <Text style={styles.subtitle}>Fill in the category of new expenses, first match wins</Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading…</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={rules}
+          keyExtractor={rule => rule.id}
+          renderItem={renderItem}
+          ListHeaderComponent={rules.length > 0 ? renderHeader : undefined}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+
+      <TouchableOpacity
+        style={styles.fab}
+        onPress={() => {
+          setEditingRule(null);
+          setModalVisible(true);
+        }}
+        activeOpacity={0.8}
+        accessibilityLabel="New rule"
+      >
+        <Text style={styles.fabText}>+</Text>
+      </TouchableOpacity>
+
+      {actionMenuRule && (
+        <ActionMenu
+          visible={!!actionMenuRule}
+          onClose={() => setActionMenuRule(null)}
+          title={describeRuleCondition(actionMenuRule)}
+          items={getRuleActionItems(actionMenuRule)}
+        />
+      )}
+
+      <CategoryRuleModal
+        visible={modalVisible}
+        onClose={() => {
+          setModalVisible(false);
+          setEditingRule(null);
+        }}
+        onSubmit={handleSubmit}
+        categories={activeCategories}
+        rule={editingRule}
+      />
+    </View>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.paperBackground,
+  },
+
+  header: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 12,
+    paddingBottom: 16,
+  },
+
+  backButton: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+
+  backButtonText: {
+    fontSize: 16,
+    color: colors.accentPrimary,
+    fontWeight: '600',
+  },
+
+  title: {
+    ...typography.pageTitle,
+    color: colors.textPrimary,
+  },
+
+  subtitle: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  loadingText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+
+  listContent: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingBottom: 100,
+  },
+
+  applyButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+
+  applyButtonText: {
+    ...typography.link,
+    color: colors.accentPrimary,
+  },
+
+  disabled: {
+    opacity: 0.4,
+  },
+
+  row: {
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 8,
+    minHeight: spacing.minTouchTarget,
+  },
+
+  inactiveRow: {
+    opacity: 0.6,
+  },
+
+  rowTitle: {
+    ...typography.body,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+
+  rowMeta: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+  },
+
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textMuted,
+    marginBottom: 8,
+  },
+
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.textMuted,
+    textAlign: 'center',
+  },
+
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    ...sizes.fab,
+    borderRadius: borderRadius.fab,
+    backgroundColor: colors.fabBackground,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...elevation.fab,
+  },
+
+  fabText: {
+    ...typography.fabIcon,
+    color: colors.fabIcon,
+  },
+});
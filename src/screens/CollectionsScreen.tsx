@@ -1,13 +1,22 @@
 import DatePickerButton from '../components/DatePickerButton';
+import ReminderButton from '../components/ReminderButton';
 import NoteEditor from '../components/NoteEditor';
 import ChecklistScreen from './ChecklistScreen';
+import SimpleListScreen from './SimpleListScreen';
+import RecordScreen from './RecordScreen';
 import ActionMenu, { ActionMenuItem } from '../components/ActionMenu';
 import SelectionMenu, { SelectionOption } from '../components/SelectionMenu';
 import InputModal from '../components/InputModal';
+import SubtaskList, { formatSubtaskProgress } from '../components/SubtaskList';
 import MoveToCollectionModal from '../components/MoveToCollectionModal';
 import CreateEntryModal, { CreateEntryPayload } from '../components/CreateEntryModal';
 import NotebookLayer from '../components/NotebookLayer';
+import TagChips from '../components/TagChips';
+import Sparkline from '../components/Sparkline';
+import TagFilterBar from '../components/TagFilterBar';
+import EditTagsModal from '../components/EditTagsModal';
 import { useNotebookModeContext } from '../context/NotebookModeContext';
+import { useUndoContext } from '../context/UndoContext';
 import { colors } from '../theme/tokens';
 import { EntryType } from '../components/TypeSelector';
 import { Priority } from '../components/PrioritySelector';
@@ -27,18 +36,28 @@ import {
   ScrollView,
   Animated,
   AccessibilityInfo,
+  Share,
 } from 'react-native';
 import DraggableFlatList, { RenderItemParams, ScaleDecorator } from 'react-native-draggable-flatlist';
-import { getAllCollections, createCollection, deleteCollection, getActiveEntriesCountByCollectionId, archiveCollection, moveEntryToCollection, toggleCollectionPin, updateCollectionSortOrders, renameCollection, updateEntrySortOrders } from '../db/operations';
-import { getTasksByCollectionId, createTask, deleteTask, updateTask } from '../db/operations';
+import type { FlatList } from 'react-native-gesture-handler';
+import { getAllCollections, createCollection, deleteCollection, getActiveEntriesCountByCollectionId, archiveCollection, unarchiveCollection, moveEntryToCollection, toggleCollectionPin, setCollectionSimpleList, updateCollectionSortOrders, renameCollection, updateEntrySortOrders } from '../db/operations';
+import { getTasksByCollectionId, createTask, createSubtask, deleteTask, updateTask, setTaskReminder } from '../db/operations';
 import { getNotesByCollectionId, createNote, deleteNote, updateNote } from '../db/operations';
-import { getChecklistsByCollectionId, createChecklist, createChecklistWithItems, deleteChecklist } from '../db/operations';
-import type { Collection, Task, Note, ChecklistWithStats } from '../types/models';
+import { getChecklistsByCollectionId, createChecklist, createChecklistWithItems, deleteChecklist, updateChecklist } from '../db/operations';
+import { getRecordsByCollectionId, createRecord, deleteRecord, updateRecord } from '../db/operations';
+import { getCollectionExport } from '../db/operations';
+import type { Collection, Task, Note, ChecklistWithStats, RecordWithStats, EntryLink } from '../types/models';
 import { getPriorityLabel, getPriorityStyle } from '../utils/formatting';
+import { selectNextOccurrences } from '../utils/timeClassification';
+import { describeRepeatRule } from '../utils/recurrence';
+import { collectTags, hasTag } from '../utils/tags';
+import { collectionToMarkdown } from '../utils/markdown';
+import { formatRecordValue } from '../utils/records';
+import { formatExpenseDay } from '../utils/expenses';
 import { getUserFriendlyError, VALIDATION, normalizeNameCanonical } from '../utils/validation';
 import { patterns } from '../animations/motion';
 
-type CollectionEntry = Task | Note | ChecklistWithStats;
+type CollectionEntry = Task | Note | ChecklistWithStats | RecordWithStats;
 type MoveModalMode = 'select-collection' | 'new-collection';
 
 // TICKET 11A: Flattened data model for drag & drop
@@ -50,14 +69,20 @@ export default function CollectionsScreen({
   initialCollectionId,
   onCollectionIdChange,
   onBack,
+  entryToOpen,
+  onEntryOpened,
   isActive = true,
 }: {
   initialCollectionId?: string;
   onCollectionIdChange?: (collectionId: string | undefined) => void;
+  entryToOpen?: EntryLink | null;
+  onEntryOpened?: () => void;
   onBack?: () => void;
   isActive?: boolean;
 }) {
   const [collections, setCollections] = useState<Collection[]>([]);
+  const [archivedCollections, setArchivedCollections] = useState<Collection[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
   const [flatData, setFlatData] = useState<FlatCollectionItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [initialLoad, setInitialLoad] = useState(true); // TICKET 17F.1
@@ -66,10 +91,17 @@ export default function CollectionsScreen({
   
   // TICKET 18A: Notebook mode
   const { mode: notebookMode } = useNotebookModeContext();
+  const { showUndo } = useUndoContext();
 
   const [selectedCollection, setSelectedCollection] = useState<Collection | null>(null);
   const [entries, setEntries] = useState<CollectionEntry[]>([]);
+  const [subtasksByParent, setSubtasksByParent] = useState<Record<string, Task[]>>({});
+  // Collection the current `entries` were loaded for (entryToOpen waits for it)
+  const [entriesCollectionId, setEntriesCollectionId] = useState<string | null>(null);
+  const [highlightedEntryId, setHighlightedEntryId] = useState<string | null>(null);
+  const entriesListRef = useRef<FlatList<CollectionEntry>>(null);
   const [loadingEntries, setLoadingEntries] = useState(false);
+  const [tagFilterId, setTagFilterId] = useState<string | null>(null);
   
   const [entryModalVisible, setEntryModalVisible] = useState(false);
 
@@ -85,6 +117,9 @@ export default function CollectionsScreen({
   // Checklist navigation state
   const [selectedChecklist, setSelectedChecklist] = useState<ChecklistWithStats | null>(null);
 
+  // Record history navigation state
+  const [selectedRecord, setSelectedRecord] = useState<RecordWithStats | null>(null);
+
   const [refreshing, setRefreshing] = useState(false);
 
   // TICKET 9D: Move to Collection state
@@ -106,6 +141,15 @@ export default function CollectionsScreen({
   const [actionMenuCollection, setActionMenuCollection] = useState<Collection | null>(null);
   const [priorityMenuVisible, setPriorityMenuVisible] = useState(false);
   const [selectedTaskForPriority, setSelectedTaskForPriority] = useState<Task | null>(null);
+  const [actionMenuTask, setActionMenuTask] = useState<Task | null>(null);
+  const [actionMenuEntry, setActionMenuEntry] = useState<Note | ChecklistWithStats | RecordWithStats | null>(null);
+
+  // Tags: entry whose tags are being edited
+  const [tagEditEntry, setTagEditEntry] = useState<CollectionEntry | null>(null);
+
+  // Subtasks: parent task being added to
+  const [subtaskParent, setSubtaskParent] = useState<Task | null>(null);
+  const [subtaskTitle, setSubtaskTitle] = useState('');
 
   // TICKET 17F.1: Mount animation and scroll preservation
   const [reduceMotion, setReduceMotion] = useState(false);
@@ -173,6 +217,58 @@ export default function CollectionsScreen({
     }
   }, [initialCollectionId, collections]);
 
+  // Open an entry requested from outside (search results):
+  // select its collection, wait for its entries, then open or highlight it
+  useEffect(() => {
+    if (!entryToOpen) return;
+
+    if (selectedCollection?.id !== entryToOpen.collection_id) {
+      const collection = [...collections, ...archivedCollections].find(
+        c => c.id === entryToOpen.collection_id
+      );
+      if (collection) {
+        setSelectedChecklist(null);
+        setSelectedRecord(null);
+        setEditingNote(null);
+        setSelectedCollection(collection);
+      } else if (!loading) {
+        // Collection not listed (e.g. Unsorted while archived) - nothing to open
+        onEntryOpened?.();
+      }
+      return;
+    }
+
+    if (entriesCollectionId !== entryToOpen.collection_id) return;
+
+    const entry = entries.find(e => e.id === entryToOpen.entry_id);
+    setTagFilterId(null);
+    if (entry?.type === 'checklist') {
+      setSelectedChecklist(entry);
+    } else if (entry?.type === 'record') {
+      setSelectedRecord(entry);
+    } else if (entry?.type === 'note') {
+      setEditingNote(entry);
+    } else if (entry) {
+      setSelectedChecklist(null);
+      setSelectedRecord(null);
+      setEditingNote(null);
+      setHighlightedEntryId(entry.id);
+      const index = entries.indexOf(entry);
+      requestAnimationFrame(() => {
+        entriesListRef.current?.scrollToIndex({ index, viewPosition: 0.3, animated: true });
+      });
+    }
+
+    onEntryOpened?.();
+  }, [entryToOpen, collections, archivedCollections, selectedCollection, entriesCollectionId, entries, loading]);
+
+  // Search highlight fades after a moment
+  useEffect(() => {
+    if (!highlightedEntryId) return;
+    const timer = setTimeout(() => setHighlightedEntryId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedEntryId]);
+
   const loadCollections = async () => {
     try {
       setLoading(true);
@@ -187,6 +283,13 @@ export default function CollectionsScreen({
       
       setCollections(activeCollections);
       
+      // Archived user collections are listed separately (Unsorted auto-archives, never shown)
+      setArchivedCollections(
+        allCollections
+          .filter(collection => collection.is_archived && !collection.is_system)
+          .sort((a, b) => a.sort_order - b.sort_order)
+      );
+      
       // TICKET 11A: Build flattened data structure
       buildFlatData(activeCollections);
     } catch (error) {
@@ -289,7 +392,7 @@ export default function CollectionsScreen({
   const handleDeleteCollection = (collection: Collection) => {
     Alert.alert(
       'Delete Collection',
-      `Delete "${collection.name}"?`,
+      `Delete "${collection.name}" and everything in it? You can restore it from Trash for 30 days.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -312,6 +415,30 @@ export default function CollectionsScreen({
     );
   };
 
+  // Archive hides a collection and its entries without deleting anything
+  const handleArchiveCollection = async (collection: Collection) => {
+    try {
+      await archiveCollection(collection.id);
+      if (selectedCollection?.id === collection.id) {
+        setSelectedCollection(null);
+      }
+      await loadCollections();
+    } catch (error) {
+      console.error('Failed to archive collection:', error);
+      Alert.alert('Error', 'Unable to archive collection. Please try again.');
+    }
+  };
+
+  const handleUnarchiveCollection = async (collection: Collection) => {
+    try {
+      await unarchiveCollection(collection.id);
+      await loadCollections();
+    } catch (error) {
+      console.error('Failed to unarchive collection:', error);
+      Alert.alert('Error', 'Unable to unarchive collection. Please try again.');
+    }
+  };
+
   const handleTogglePin = async (collection: Collection) => {
     try {
       await toggleCollectionPin(collection.id, !collection.is_pinned);
@@ -322,6 +449,16 @@ export default function CollectionsScreen({
     }
   };
 
+  const handleToggleSimpleList = async (collection: Collection) => {
+    try {
+      await setCollectionSimpleList(collection.id, !collection.is_simple_list);
+      await loadCollections();
+    } catch (error) {
+      console.error('Failed to switch list mode:', error);
+      Alert.alert('Error', 'Unable to switch list mode. Please try again.');
+    }
+  };
+
   // TICKET 13: Rename Collection handlers
   const handleOpenRenameModal = (collection: Collection) => {
     setRenamingCollection(collection);
@@ -405,17 +542,37 @@ export default function CollectionsScreen({
       const options = ['Cancel'];
       const actions: (() => void)[] = [];
       
-      // TICKET 13: Rename option (not available for system collections)
-      if (!collection.is_system) {
-        options.push('Rename');
-        actions.push(() => handleOpenRenameModal(collection));
+      if (collection.is_archived) {
+        options.push('Unarchive');
+        actions.push(() => handleUnarchiveCollection(collection));
+      } else {
+        // TICKET 13: Rename option (not available for system collections)
+        if (!collection.is_system) {
+          options.push('Rename');
+          actions.push(() => handleOpenRenameModal(collection));
+        }
+        
+        // Pin/Unpin option (not available for system collections)
+        if (!collection.is_system) {
+          options.push(collection.is_pinned ? 'Unpin' : 'Pin to Top');
+          actions.push(() => handleTogglePin(collection));
+        }
+        
+        // Simple list mode (not available for system collections)
+        if (!collection.is_system) {
+          options.push(collection.is_simple_list ? 'Show Entries' : 'Use as Simple List');
+          actions.push(() => handleToggleSimpleList(collection));
+        }
+        
+        // Archive option (not available for system collections)
+        if (!collection.is_system) {
+          options.push('Archive');
+          actions.push(() => handleArchiveCollection(collection));
+        }
       }
       
-      // Pin/Unpin option (not available for system collections)
-      if (!collection.is_system) {
-        options.push(collection.is_pinned ? 'Unpin' : 'Pin to Top');
-        actions.push(() => handleTogglePin(collection));
-      }
+      options.push('Export as Markdown');
+      actions.push(() => handleExportCollection(collection));
       
       // Delete option
       options.push('Delete Collection');
@@ -440,15 +597,28 @@ export default function CollectionsScreen({
     }
   };
 
+  // Markdown goes to the share sheet as text (paste into docs and chats)
+  const handleExportCollection = async (collection: Collection) => {
+    try {
+      const markdown = collectionToMarkdown(await getCollectionExport(collection));
+      await Share.share({ title: collection.name, message: markdown });
+    } catch (error) {
+      console.error('Failed to export collection:', error);
+      Alert.alert('Error', 'Unable to export collection. Please try again.');
+    }
+  };
+
   const handleSelectCollection = (collection: Collection) => {
     setEditingEntryId(null);
     setEditingEntryTitle('');
+    setTagFilterId(null);
     setSelectedCollection(collection);
   };
 
   const handleBackToCollections = async () => {
     setSelectedCollection(null);
     setEntries([]);
+    setTagFilterId(null);
     setEditingEntryId(null);
     setEditingEntryTitle('');
     // Notify parent that we've returned to collections view
@@ -467,19 +637,41 @@ export default function CollectionsScreen({
     try {
       setLoadingEntries(true);
       
-      const [tasks, notes, checklists] = await Promise.all([
+      const [tasks, notes, checklists, records] = await Promise.all([
         getTasksByCollectionId(collectionId),
         getNotesByCollectionId(collectionId),
         getChecklistsByCollectionId(collectionId),
+        getRecordsByCollectionId(collectionId),
       ]);
 
+      // Subtasks render inside their parent's row, not as entries of their own
+      // (a subtask whose parent is gone is shown as a normal task)
+      const taskIds = new Set(tasks.map(task => task.id));
+      const subtasks: Record<string, Task[]> = {};
+      const topLevelTasks = tasks.filter(task => {
+        if (task.parent_task_id && taskIds.has(task.parent_task_id)) {
+          (subtasks[task.parent_task_id] ??= []).push(task);
+          return false;
+        }
+        return true;
+      });
+      for (const list of Object.values(subtasks)) {
+        list.sort((a, b) => a.sort_order - b.sort_order);
+      }
+
       // CRITICAL: Merge all entry types and sort by sort_order
       // Without this, tasks always appear first, then notes, then checklists
-      const mixed: CollectionEntry[] = [...tasks, ...notes, ...checklists].sort(
-        (a, b) => a.sort_order - b.sort_order
-      );
-
+      // Recurring tasks: only the next pending occurrence is shown
+      const mixed: CollectionEntry[] = [
+        ...selectNextOccurrences(topLevelTasks),
+        ...notes,
+        ...checklists,
+        ...records,
+      ].sort((a, b) => a.sort_order - b.sort_order);
+
+      setSubtasksByParent(subtasks);
       setEntries(mixed);
+      setEntriesCollectionId(collectionId);
     } catch (error) {
       console.error('Failed to load entries:', error);
       Alert.alert('Error', 'Unable to load items. Please try again.');
@@ -595,19 +787,31 @@ export default function CollectionsScreen({
           title: payload.title,
           collection_id: selectedCollection.id,
           due_date: payload.dueDate ?? undefined,
+          repeat_rule: payload.repeatRule,
+          reminder_time: payload.reminderTime,
           calm_priority: payload.priority ?? Priority.NORMAL,
+          tags: payload.tags,
         });
       } else if (payload.type === EntryType.NOTE) {
         await createNote({
           title: payload.title,
           notes: payload.noteBody || undefined,
           collection_id: selectedCollection.id,
+          tags: payload.tags,
         });
       } else if (payload.type === EntryType.CHECKLIST) {
         await createChecklistWithItems({
           title: payload.title,
           collection_id: selectedCollection.id,
           items: payload.checklistItems || [],
+          tags: payload.tags,
+        });
+      } else if (payload.type === EntryType.RECORD) {
+        await createRecord({
+          title: payload.title,
+          unit: payload.recordUnit,
+          collection_id: selectedCollection.id,
+          tags: payload.tags,
         });
       }
 
@@ -618,20 +822,46 @@ export default function CollectionsScreen({
     }
   };
 
-  const handleToggleTask = async (task: Task) => {
+  const handleToggleTask = (task: Task) => {
     if (editingEntryId === task.id) {
       return;
     }
 
+    const openSubtasks = (task.subtask_count ?? 0) - (task.subtask_completed_count ?? 0);
+
+    // Completing a parent: offer to complete its open subtasks too
+    if (!task.completed && openSubtasks > 0) {
+      Alert.alert(
+        'Complete subtasks?',
+        `"${task.title}" has ${openSubtasks} open subtask${openSubtasks === 1 ? '' : 's'}.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Only This Task', onPress: () => toggleTaskCompletion(task, false) },
+          { text: 'Complete All', onPress: () => toggleTaskCompletion(task, true) },
+        ],
+        { cancelable: true }
+      );
+      return;
+    }
+
+    toggleTaskCompletion(task, false);
+  };
+
+  const toggleTaskCompletion = async (task: Task, includeSubtasks: boolean) => {
     try {
       const wasCompleted = task.completed;
       const isUnsorted = selectedCollection?.is_system === true;
       
-      await updateTask({
+      const snapshot = await updateTask({
         id: task.id,
         completed: !task.completed,
         completed_at: !task.completed ? Date.now() : undefined,
+        include_subtasks: includeSubtasks,
       });
+
+      if (snapshot && !wasCompleted) {
+        showUndo('Task completed', snapshot, () => reloadAfterUndo(selectedCollection));
+      }
       
       // Special handling for Unsorted tasks
       if (isUnsorted && !wasCompleted && selectedCollection) {
@@ -665,58 +895,100 @@ export default function CollectionsScreen({
     }
   };
 
+  const getTaskActionItems = (task: Task): ActionMenuItem[] => {
+    const items: ActionMenuItem[] = [];
+
+    if (!task.parent_task_id) {
+      if (!task.completed) {
+        items.push({
+          label: 'Add Subtask',
+          onPress: () => handleOpenAddSubtask(task),
+        });
+      }
+
+      items.push({
+        label: 'Move to Collection',
+        onPress: () => handleOpenMoveModal(task),
+      });
+
+      items.push({
+        label: 'Change Priority',
+        onPress: () => {
+          setSelectedTaskForPriority(task);
+          setPriorityMenuVisible(true);
+        },
+      });
+    }
+
+    items.push({
+      label: 'Edit Tags',
+      onPress: () => setTagEditEntry(task),
+    });
+
+    items.push({
+      label: 'Delete Task',
+      onPress: () => handleDeleteEntry(task),
+      destructive: true,
+    });
+
+    return items;
+  };
+
   const handleTaskLongPress = (task: Task) => {
     if (Platform.OS === 'ios') {
+      const items = getTaskActionItems(task);
+
       ActionSheetIOS.showActionSheetWithOptions(
         {
-          options: ['Cancel', 'Move to Collection', 'Change Priority', 'Delete Task'],
-          destructiveButtonIndex: 3,
+          options: ['Cancel', ...items.map(item => item.label)],
+          destructiveButtonIndex: items.length,
           cancelButtonIndex: 0,
         },
         (buttonIndex) => {
-          if (buttonIndex === 1) {
-            handleOpenMoveModal(task);
-          } else if (buttonIndex === 2) {
-              setSelectedTaskForPriority(task);
-              setPriorityMenuVisible(true);
-          } else if (buttonIndex === 3) {
-            handleDeleteEntry(task);
+          if (buttonIndex > 0 && buttonIndex <= items.length) {
+            items[buttonIndex - 1].onPress();
           }
         }
       );
     } else {
-      Alert.alert(
-        task.title,
-        'What would you like to do?',
-        [
-          { text: 'Cancel', style: 'cancel' },
-          { 
-            text: 'Delete Task', 
-            onPress: () => handleDeleteEntry(task),
-            style: 'destructive'
-          },
-          { 
-            text: 'Move to Collection', 
-            onPress: () => handleOpenMoveModal(task)
-          },
-          { 
-            text: 'Change Priority', 
-            onPress: () => {
-              Alert.alert(
-                'Set Priority',
-                'Choose priority level',
-                [
-                  { text: '🔵 Focus', onPress: () => handleSetPriority(task, 1) },
-                  { text: '⚪ Normal', onPress: () => handleSetPriority(task, 2) },
-                  { text: '⚫ Low key', onPress: () => handleSetPriority(task, 3) },
-                ],
-                { cancelable: true }
-              );
-            }
-          },
-        ],
-        { cancelable: true }
-      );
+      // Android: Use custom ActionMenu (Alert is limited to 3 buttons)
+      setActionMenuTask(task);
+    }
+  };
+
+  const handleOpenAddSubtask = (task: Task) => {
+    setSubtaskTitle('');
+    setSubtaskParent(task);
+  };
+
+  const handleCreateSubtask = async () => {
+    const title = subtaskTitle.trim();
+    if (!subtaskParent || !title) return;
+
+    try {
+      await createSubtask({ parent_task_id: subtaskParent.id, title });
+      setSubtaskParent(null);
+      setSubtaskTitle('');
+
+      if (selectedCollection) {
+        await loadEntries(selectedCollection.id);
+      }
+    } catch (error) {
+      console.error('Failed to create subtask:', error);
+      Alert.alert('Error', 'Unable to add subtask. Please try again.');
+    }
+  };
+
+  const handleToggleSubtask = async (subtask: Task) => {
+    try {
+      await updateTask({ id: subtask.id, completed: !subtask.completed });
+
+      if (selectedCollection) {
+        await loadEntries(selectedCollection.id);
+      }
+    } catch (error) {
+      console.error('Failed to toggle subtask:', error);
+      Alert.alert('Error', 'Unable to update task. Please try again.');
     }
   };
 
@@ -735,81 +1007,66 @@ export default function CollectionsScreen({
     }
   };
 
-  const handleNoteLongPress = (note: Note) => {
+  const getEntryActionItems = (entry: Note | ChecklistWithStats | RecordWithStats): ActionMenuItem[] => [
+    {
+      label: 'Move to Collection',
+      onPress: () => handleOpenMoveModal(entry),
+    },
+    {
+      label: 'Edit Tags',
+      onPress: () => setTagEditEntry(entry),
+    },
+    {
+      label: entry.type === 'note' ? 'Delete Note' : entry.type === 'record' ? 'Delete Record' : 'Delete Checklist',
+      onPress: () => handleDeleteEntry(entry),
+      destructive: true,
+    },
+  ];
+
+  const handleEntryLongPress = (entry: Note | ChecklistWithStats | RecordWithStats) => {
     if (Platform.OS === 'ios') {
+      const items = getEntryActionItems(entry);
+
       ActionSheetIOS.showActionSheetWithOptions(
         {
-          options: ['Cancel', 'Move to Collection', 'Delete Note'],
-          destructiveButtonIndex: 2,
+          options: ['Cancel', ...items.map(item => item.label)],
+          destructiveButtonIndex: items.length,
           cancelButtonIndex: 0,
         },
         (buttonIndex) => {
-          if (buttonIndex === 1) {
-            handleOpenMoveModal(note);
-          } else if (buttonIndex === 2) {
-            handleDeleteEntry(note);
+          if (buttonIndex > 0 && buttonIndex <= items.length) {
+            items[buttonIndex - 1].onPress();
           }
         }
       );
     } else {
-      Alert.alert(
-        note.title,
-        'What would you like to do?',
-        [
-          { text: 'Cancel', style: 'cancel' },
-          {
-            text: 'Delete Note',
-            onPress: () => handleDeleteEntry(note),
-            style: 'destructive',
-          },
-          {
-            text: 'Move to Collection',
-            onPress: () => handleOpenMoveModal(note),
-          },
-        ],
-        { cancelable: true }
-      );
+      // Android: Use custom ActionMenu (Alert is limited to 3 buttons)
+      setActionMenuEntry(entry);
     }
   };
 
-  const handleChecklistLongPress = (checklist: ChecklistWithStats) => {
-    if (Platform.OS === 'ios') {
-      ActionSheetIOS.showActionSheetWithOptions(
-        {
-          options: ['Cancel', 'Move to Collection', 'Delete Checklist'],
-          destructiveButtonIndex: 2,
-          cancelButtonIndex: 0,
-        },
-        (buttonIndex) => {
-          if (buttonIndex === 1) {
-            handleOpenMoveModal(checklist);
-          } else if (buttonIndex === 2) {
-            handleDeleteEntry(checklist);
-          }
-        }
-      );
-    } else {
-      Alert.alert(
-        checklist.title,
-        'What would you like to do?',
-        [
-          { text: 'Cancel', style: 'cancel' },
-          {
-            text: 'Delete Checklist',
-            onPress: () => handleDeleteEntry(checklist),
-            style: 'destructive',
-          },
-          {
-            text: 'Move to Collection',
-            onPress: () => handleOpenMoveModal(checklist),
-          },
-        ],
-        { cancelable: true }
-      );
+  const handleSaveTags = async (names: string[]) => {
+    const entry = tagEditEntry;
+    if (!entry || !selectedCollection) return;
+
+    try {
+      if (entry.type === 'task') {
+        await updateTask({ id: entry.id, tags: names });
+      } else if (entry.type === 'note') {
+        await updateNote({ id: entry.id, tags: names });
+      } else if (entry.type === 'record') {
+        await updateRecord({ id: entry.id, tags: names });
+      } else {
+        await updateChecklist({ id: entry.id, tags: names });
+      }
+      await loadEntries(selectedCollection.id);
+    } catch (error) {
+      console.error('Failed to update tags:', error);
+      Alert.alert('Error', 'Unable to update tags. Please try again.');
     }
   };
 
-  const handleSaveNote = async (title: string, body: string) => {
+  const handleSaveNote = async (title: string, body: string, tags: string[]) => {
     if (!editingNote || !selectedCollection) return;
 
     try {
@@ -817,6 +1074,7 @@ export default function CollectionsScreen({
         id: editingNote.id,
         title,
         notes: body || undefined,
+        tags,
       });
 
       setEditingNote(null);
@@ -831,8 +1089,22 @@ export default function CollectionsScreen({
     setEditingNote(null);
   };
 
+  // Undo puts entries back, and Unsorted if it was archived
+  const reloadAfterUndo = async (collection: Collection | null) => {
+    await loadCollections();
+    if (collection) {
+      await loadEntries(collection.id);
+    }
+  };
+
+  const getEntryLabel = (entry: CollectionEntry) =>
+    entry.type === 'task' ? 'Task'
+      : entry.type === 'note' ? 'Note'
+      : entry.type === 'record' ? 'Record'
+      : 'Checklist';
+
   const handleDeleteEntry = (entry: CollectionEntry) => {
-    const entryLabel = entry.type === 'task' ? 'Task' : entry.type === 'note' ? 'Note' : 'Checklist';
+    const entryLabel = getEntryLabel(entry);
     
     Alert.alert(
       `Delete ${entryLabel}`,
@@ -844,13 +1116,13 @@ export default function CollectionsScreen({
           style: 'destructive',
           onPress: async () => {
             try {
-              if (entry.type === 'task') {
-                await deleteTask(entry.id);
-              } else if (entry.type === 'note') {
-                await deleteNote(entry.id);
-              } else if (entry.type === 'checklist') {
-                await deleteChecklist(entry.id);
-              }
+              const snapshot = entry.type === 'task' ? await deleteTask(entry.id)
+                : entry.type === 'note' ? await deleteNote(entry.id)
+                : entry.type === 'record' ? await deleteRecord(entry.id)
+                : await deleteChecklist(entry.id);
+
+              const collection = selectedCollection;
+              showUndo(`${entryLabel} deleted`, snapshot, () => reloadAfterUndo(collection));
               
               if (selectedCollection) {
                 await loadEntries(selectedCollection.id);
@@ -997,7 +1269,7 @@ export default function CollectionsScreen({
     if (!entryToMove || !moveTargetCollection) return;
 
     try {
-      await moveEntryToCollection({
+      const snapshot = await moveEntryToCollection({
         entryId: entryToMove.id,
         newCollectionId: moveTargetCollection.id,
         sourceCollectionId: selectedCollection?.id,
@@ -1024,9 +1296,12 @@ export default function CollectionsScreen({
       // Refresh collections (in case Unsorted was archived)
       await loadCollections();
 
-      // Show success message
-      const entryTypeLabel = entryToMove.type === 'task' ? 'Task' : entryToMove.type === 'note' ? 'Note' : 'Checklist';
-      Alert.alert('Moved', `${entryTypeLabel} moved to ${moveTargetCollection.name}`);
+      const collection = selectedCollection;
+      showUndo(
+        `${getEntryLabel(entryToMove)} moved to ${moveTargetCollection.name}`,
+        snapshot,
+        () => reloadAfterUndo(collection)
+      );
     } catch (error) {
       console.error('Failed to move entry:', error);
       Alert.alert('Error', 'Unable to move item. Please try again.');
@@ -1093,6 +1368,55 @@ export default function CollectionsScreen({
     );
   };
 
+  // Archived collections - collapsed footer below the draggable list
+  const renderArchivedSection = () => {
+    if (archivedCollections.length === 0) {
+      return null;
+    }
+
+    return (
+      <View>
+        <TouchableOpacity
+          style={styles.sectionHeader}
+          onPress={() => setShowArchived(!showArchived)}
+          accessibilityRole="button"
+          accessibilityState={{ expanded: showArchived }}
+        >
+          <Text style={styles.sectionHeaderText}>
+            {showArchived ? '▾' : '▸'} ARCHIVED ({archivedCollections.length})
+          </Text>
+        </TouchableOpacity>
+
+        {showArchived && archivedCollections.map(collection => (
+          <TouchableOpacity
+            key={collection.id}
+            style={[styles.collectionRow, styles.collectionRowArchived]}
+            onPress={() => handleSelectCollection(collection)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.collectionIcon}>
+              <Text style={styles.collectionIconText}>{collection.icon || '📋'}</Text>
+            </View>
+            <View style={styles.collectionContent}>
+              <Text style={styles.collectionName}>{collection.name}</Text>
+              <Text style={styles.collectionSubtext}>Archived • Tap to open</Text>
+            </View>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={(e) => {
+                e.stopPropagation();
+                handleShowActionMenu(collection);
+              }}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Text style={styles.actionButtonText}>⋯</Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
   const renderEntry = ({ 
     item, 
     drag, 
@@ -1125,10 +1449,11 @@ export default function CollectionsScreen({
                 {note.notes}
               </Text>
             )}
+            <TagChips tags={note.tags} />
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.entryMenuButton}
-            onPress={() => handleNoteLongPress(note)}
+            onPress={() => handleEntryLongPress(note)}
             activeOpacity={0.7}
           >
             <Text style={styles.entryMenuIcon}>•••</Text>
@@ -1161,11 +1486,56 @@ export default function CollectionsScreen({
               <Text style={styles.checklistStats}>
                 {checklist.checked_count} / {checklist.total_count} completed
               </Text>
+              <TagChips tags={checklist.tags} />
             </View>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.entryMenuButton}
-            onPress={() => handleChecklistLongPress(checklist)}
+            onPress={() => handleEntryLongPress(checklist)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.entryMenuIcon}>•••</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (item.type === 'record') {
+      const record = item;
+      return (
+        <View style={styles.entryWithMenu}>
+          <TouchableOpacity
+            style={[
+              styles.recordCard,
+              { flex: 1 },
+              isActive && styles.entryDragging
+            ]}
+            onPress={() => setSelectedRecord(record)}
+            onLongPress={drag}
+            disabled={isActive}
+            delayLongPress={200}
+            activeOpacity={0.7}
+          >
+            <View style={styles.checkcollectionIcon}>
+              <Text style={styles.checkcollectionIconText}>📈</Text>
+            </View>
+            <View style={styles.checkcollectionContent}>
+              <Text style={styles.checkcollectionTitle}>{record.title}</Text>
+              {record.latest_value !== undefined && record.latest_recorded_at !== undefined ? (
+                <Text style={styles.recordLatest}>
+                  <Text style={styles.recordLatestValue}>{formatRecordValue(record.latest_value, record.unit)}</Text>
+                  {' · '}{formatExpenseDay(record.latest_recorded_at)}
+                </Text>
+              ) : (
+                <Text style={styles.recordLatest}>No values yet</Text>
+              )}
+              <TagChips tags={record.tags} />
+            </View>
+            <Sparkline values={record.recent_values} width={72} height={32} style={styles.recordSparkline} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.entryMenuButton}
+            onPress={() => handleEntryLongPress(record)}
             activeOpacity={0.7}
           >
             <Text style={styles.entryMenuIcon}>•••</Text>
@@ -1177,6 +1547,8 @@ export default function CollectionsScreen({
     const task = item;
     const isEditing = editingEntryId === task.id;
     const priorityStyle = !task.completed ? getPriorityStyle(task.calm_priority) : {};
+    const subtasks = subtasksByParent[task.id] ?? [];
+    const subtaskProgress = formatSubtaskProgress(task);
 
     const handleDateChange = async (timestamp: number | null) => {
       try {
@@ -1194,7 +1566,20 @@ export default function CollectionsScreen({
       }
     };
 
-    return (
+    const handleReminderChange = async (timestamp: number | null) => {
+      try {
+        await setTaskReminder(task.id, timestamp);
+
+        if (selectedCollection) {
+          await loadEntries(selectedCollection.id);
+        }
+      } catch (error) {
+        console.error('Failed to update reminder:', error);
+        Alert.alert('Error', 'Unable to update reminder. Please try again.');
+      }
+    };
+
+    const taskRow = (
       <View style={styles.entryWithMenu}>
         <View style={[
           styles.taskRow, 
@@ -1237,7 +1622,14 @@ export default function CollectionsScreen({
                 <Text style={[styles.taskTitle, task.completed && styles.taskTitleCompleted]}>
                   {task.title}
                 </Text>
+                {subtaskProgress && (
+                  <Text style={styles.subtaskProgress}>{subtaskProgress}</Text>
+                )}
                 {task.notes && <Text style={styles.taskNotes}>{task.notes}</Text>}
+                {task.repeat_rule && !task.completed && (
+                  <Text style={styles.taskRepeat}>🔁 {describeRepeatRule(task.repeat_rule)}</Text>
+                )}
+                <TagChips tags={task.tags} />
               </TouchableOpacity>
             )}
 
@@ -1248,6 +1640,14 @@ export default function CollectionsScreen({
                   onChange={handleDateChange}
                   disabled={isEditing}
                 />
+                {task.due_date && (
+                  <ReminderButton
+                    value={task.reminder_time}
+                    dueDate={task.due_date}
+                    onChange={handleReminderChange}
+                    disabled={isEditing}
+                  />
+                )}
               </View>
             )}
           </View>
@@ -1274,6 +1674,25 @@ export default function CollectionsScreen({
         </TouchableOpacity>
       </View>
     );
+
+    if (subtasks.length === 0) {
+      return taskRow;
+    }
+
+    // Subtasks hang under the parent's card and move with it when dragged
+    return (
+      <View>
+        {taskRow}
+        <View style={styles.subtaskCard}>
+          <SubtaskList
+            subtasks={subtasks}
+            onToggle={handleToggleSubtask}
+            onLongPress={handleTaskLongPress}
+            onAdd={!task.completed ? () => handleOpenAddSubtask(task) : undefined}
+          />
+        </View>
+      </View>
+    );
   };
 
   const renderEmptyCollections = () => (
@@ -1296,6 +1715,17 @@ export default function CollectionsScreen({
     </View>
   );
 
+  // Tag filter: only tags used in this collection are offered
+  // (a filter whose tag disappeared after an edit falls back to "All")
+  const collectionTags = collectTags([...entries, ...Object.values(subtasksByParent).flat()]);
+  const activeTagId = collectionTags.some(tag => tag.id === tagFilterId) ? tagFilterId : null;
+  const visibleEntries = activeTagId
+    ? entries.filter(entry =>
+        hasTag(entry, activeTagId) ||
+        (subtasksByParent[entry.id] ?? []).some(subtask => hasTag(subtask, activeTagId))
+      )
+    : entries;
+
   const renderCollectionDetail = () => (
     <View style={styles.container}>
       <View style={styles.detailHeader}>
@@ -1312,6 +1742,14 @@ export default function CollectionsScreen({
         </View>
       </View>
 
+      {!loadingEntries && (
+        <TagFilterBar
+          tags={collectionTags}
+          selectedTagId={activeTagId}
+          onSelect={setTagFilterId}
+        />
+      )}
+
       {loadingEntries ? (
         <View style={styles.loadingContainer}>
           <Text style={styles.loadingText}>Loading…</Text>
@@ -1332,11 +1770,22 @@ export default function CollectionsScreen({
         </ScrollView>
       ) : (
         <DraggableFlatList
-          data={entries}
+          ref={entriesListRef}
+          data={visibleEntries}
+          onScrollToIndexFailed={(info) => {
+            entriesListRef.current?.scrollToOffset({
+              offset: info.averageItemLength * info.index,
+              animated: true,
+            });
+          }}
           renderItem={({ item, drag, isActive }) => (
             <ScaleDecorator>
-              <View style={[isActive && styles.entryDragging]}>
-                {renderEntry({ item, drag, isActive })}
+              <View style={[
+                isActive && styles.entryDragging,
+                item.id === highlightedEntryId && styles.entryHighlighted,
+              ]}>
+                {/* Reordering a filtered list would scramble hidden entries */}
+                {renderEntry({ item, drag: activeTagId ? undefined : drag, isActive })}
               </View>
             </ScaleDecorator>
           )}
@@ -1383,6 +1832,21 @@ export default function CollectionsScreen({
     );
   }
 
+  // Record history screen (full screen)
+  if (selectedRecord) {
+    return (
+      <RecordScreen
+        recordId={selectedRecord.id}
+        onBack={() => {
+          setSelectedRecord(null);
+          if (selectedCollection) {
+            loadEntries(selectedCollection.id);
+          }
+        }}
+      />
+    );
+  }
+
   // Note editor (full screen)
   if (editingNote) {
     return (
@@ -1394,6 +1858,16 @@ export default function CollectionsScreen({
     );
   }
 
+  // Simple list mode (full screen, replaces the entries list)
+  if (selectedCollection?.is_simple_list) {
+    return (
+      <SimpleListScreen
+        collection={selectedCollection}
+        onBack={handleBackToCollections}
+      />
+    );
+  }
+
   if (selectedCollection) {
     return (
       <>
@@ -1422,6 +1896,25 @@ export default function CollectionsScreen({
           onConfirmMove={handleConfirmMove}
           onCreateNewCollection={handleCreateNewCollectionForMove}
         />
+
+        {/* Edit Tags Modal */}
+        <EditTagsModal
+          visible={!!tagEditEntry}
+          onClose={() => setTagEditEntry(null)}
+          onSave={handleSaveTags}
+          initialTags={tagEditEntry?.tags?.map(tag => tag.name) ?? []}
+          entryTitle={tagEditEntry?.title}
+        />
+
+        {/* Note / Checklist Action Menu (Android) */}
+        {actionMenuEntry && (
+          <ActionMenu
+            visible={!!actionMenuEntry}
+            onClose={() => setActionMenuEntry(null)}
+            title={actionMenuEntry.title}
+            items={getEntryActionItems(actionMenuEntry)}
+          />
+        )}
       </>
     );
   }
@@ -1437,7 +1930,7 @@ export default function CollectionsScreen({
         </View>
       ) : (
         <>
-          {collections.length === 0 ? (
+          {collections.length === 0 && archivedCollections.length === 0 ? (
             renderEmptyCollections()
             ) : (
             <Animated.View style={{
@@ -1454,6 +1947,7 @@ export default function CollectionsScreen({
                 onDragEnd={handleDragEnd}
                 activationDistance={10}
                 contentContainerStyle={styles.collectionContainer}
+                ListFooterComponent={renderArchivedSection()}
               />
             </Animated.View>
           )}
@@ -1498,6 +1992,28 @@ export default function CollectionsScreen({
         selectTextOnFocus
       />
 
+      {/* Add Subtask Modal */}
+      <InputModal
+        visible={!!subtaskParent}
+        onClose={() => setSubtaskParent(null)}
+        title="Add Subtask"
+        placeholder={subtaskParent ? `Subtask of "${subtaskParent.title}"` : ''}
+        value={subtaskTitle}
+        onChangeText={setSubtaskTitle}
+        onSubmit={handleCreateSubtask}
+        submitLabel="Add"
+      />
+
+      {/* Task Action Menu (Android) */}
+      {actionMenuTask && (
+        <ActionMenu
+          visible={!!actionMenuTask}
+          onClose={() => setActionMenuTask(null)}
+          title={actionMenuTask.title}
+          items={getTaskActionItems(actionMenuTask)}
+        />
+      )}
+
       {/* TICKET 13 FIX: Custom Action Menu (Android) */}
       {actionMenuCollection && (
         <ActionMenu
@@ -1512,21 +2028,49 @@ export default function CollectionsScreen({
             
             const items: ActionMenuItem[] = [];
             
-            // Rename (user collections only)
-            if (!actionMenuCollection.is_system) {
+            if (actionMenuCollection.is_archived) {
               items.push({
-                label: 'Rename',
-                onPress: () => handleOpenRenameModal(actionMenuCollection),
+                label: 'Unarchive',
+                onPress: () => handleUnarchiveCollection(actionMenuCollection),
               });
+            } else {
+              // Rename (user collections only)
+              if (!actionMenuCollection.is_system) {
+                items.push({
+                  label: 'Rename',
+                  onPress: () => handleOpenRenameModal(actionMenuCollection),
+                });
+              }
+              
+              // Pin/Unpin (user collections only)
+              if (!actionMenuCollection.is_system) {
+                items.push({
+                  label: actionMenuCollection.is_pinned ? 'Unpin' : 'Pin to Top',
+                  onPress: () => handleTogglePin(actionMenuCollection),
+                });
+              }
+              
+              // Simple list mode (user collections only)
+              if (!actionMenuCollection.is_system) {
+                items.push({
+                  label: actionMenuCollection.is_simple_list ? 'Show Entries' : 'Use as Simple List',
+                  onPress: () => handleToggleSimpleList(actionMenuCollection),
+                });
+              }
+              
+              // Archive (user collections only)
+              if (!actionMenuCollection.is_system) {
+                items.push({
+                  label: 'Archive',
+                  onPress: () => handleArchiveCollection(actionMenuCollection),
+                });
+              }
             }
             
-            // Pin/Unpin (user collections only)
-            if (!actionMenuCollection.is_system) {
-              items.push({
-                label: actionMenuCollection.is_pinned ? 'Unpin' : 'Pin to Top',
-                onPress: () => handleTogglePin(actionMenuCollection),
-              });
-            }
+            items.push({
+              label: 'Export as Markdown',
+              onPress: () => handleExportCollection(actionMenuCollection),
+            });
             
             // Delete (always available)
             items.push({
@@ -1598,6 +2142,9 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 2,
   },
+  collectionRowArchived: {
+    opacity: 0.6,
+  },
   // TICKET 11A: Drag feedback
   collectionRowDragging: {
     opacity: 0.9,
@@ -1704,6 +2251,16 @@ const styles = StyleSheet.create({
   taskTitle: { fontSize: 16, color: '#1a1a1a', marginBottom: 4 },
   taskTitleCompleted: { textDecorationLine: 'line-through', color: '#9ca3af' },
   taskNotes: { fontSize: 14, color: '#6b7280' },
+  taskRepeat: { fontSize: 12, color: '#6b7280', marginTop: 2 },
+  subtaskProgress: { fontSize: 12, color: '#6b7280', marginBottom: 4 },
+  subtaskCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    marginTop: -20,
+    marginBottom: 12,
+    paddingBottom: 8,
+    paddingRight: 16,
+  },
   taskEditInput: {
     fontSize: 16,
     color: '#1a1a1a',
@@ -1820,6 +2377,31 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#92400e',
   },
+  recordCard: {
+    backgroundColor: '#f0fdfa',
+    borderRadius: 12,
+    padding: 16,
+    paddingRight: 44,
+    marginBottom: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 64,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  recordLatest: {
+    fontSize: 14,
+    color: '#0f766e',
+  },
+  recordLatestValue: {
+    fontWeight: '600',
+  },
+  recordSparkline: {
+    marginLeft: 12,
+  },
   chevron: {
     fontSize: 24,
     color: '#9ca3af',
@@ -2029,6 +2611,11 @@ const styles = StyleSheet.create({
   moveConfirmText: { color: '#fff', fontSize: 16, fontWeight: '600' },
   
   // TICKET 16: Drag & drop styling (industry standard: subtle lift + no transparency)
+  entryHighlighted: {
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: '#3b82f6',
+  },
   entryDragging: {
     transform: [{ scale: 1.03 }],
     shadowColor: '#000',
@@ -0,0 +1,404 @@
+/**
+ * ExchangeRatesScreen
+ *
+ * Base currency and the offline exchange-rate table. Opened from SettingsScreen.
+ *
+ * - Base currency: monthly totals and budgets are converted to it
+ * - Rates apply from their date until the next rate for the pair
+ *   (utils/currency.ts); add one by hand or import a CSV file
+ * - Tap a rate to delete it
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  Alert,
+} from 'react-native';
+import Chip from '../components/Chip';
+import ExchangeRateModal from '../components/ExchangeRateModal';
+import {
+  getBaseCurrency,
+  setBaseCurrency,
+  getExchangeRates,
+  saveExchangeRate,
+  deleteExchangeRate,
+  importExchangeRates,
+} from '../db/operations';
+import { pickCsvText } from '../backup/files';
+import { parseRatesCsv, ExchangeRateInput } from '../utils/currency';
+import { EXPENSE_CURRENCIES, DEFAULT_CURRENCY } from '../utils/expenses';
+import { formatDate } from '../utils/formatting';
+import {
+  colors,
+  spacing,
+  typography,
+  borderRadius,
+  elevation,
+  sizes,
+} from '../theme/tokens';
+import type { ExchangeRate } from '../types/models';
+
+interface ExchangeRatesScreenProps {
+  onBack: () => void;
+}
+
+function getRateLabel(rate: ExchangeRate): string {
+  return `1 ${rate.from_currency} = ${rate.rate} ${rate.to_currency}`;
+}
+
+export default function ExchangeRatesScreen({ onBack }: ExchangeRatesScreenProps) {
+  const [baseCurrency, setBaseCurrencyState] = useState(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [modalVisible, setModalVisible] = useState(false);
+
+  const loadRates = useCallback(async () => {
+    try {
+      const [base, allRates] = await Promise.all([getBaseCurrency(), getExchangeRates()]);
+      setBaseCurrencyState(base);
+      setRates(allRates);
+    } catch (error) {
+      console.error('Failed to load exchange rates:', error);
+      Alert.alert('Error', 'Unable to load exchange rates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  const handleBaseCurrency = async (currency: string) => {
+    try {
+      await setBaseCurrency(currency);
+      setBaseCurrencyState(currency);
+    } catch (error) {
+      console.error('Failed to set base currency:', error);
+      Alert.alert('Error', 'Unable to change the base currency. Please try again.');
+    }
+  };
+
+  const handleAdd = async (rate: ExchangeRateInput) => {
+    try {
+      await saveExchangeRate(rate);
+      await loadRates();
+    } catch (error: any) {
+      console.error('Failed to save exchange rate:', error);
+      Alert.alert('Error', error?.message ?? 'Unable to save the rate. Please try again.');
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const text = await pickCsvText();
+      if (text === null) return;
+
+      const { rates: parsed, invalidRows } = parseRatesCsv(text);
+      if (parsed.length === 0) {
+        Alert.alert(
+          'Nothing to Import',
+          'No rates found. Each line should read: date,from,to,rate (e.g. 2025-03-01,EUR,USD,1.08).'
+        );
+        return;
+      }
+
+      const result = await importExchangeRates(parsed);
+      await loadRates();
+
+      const lines = [`${result.added} added, ${result.updated} replaced.`];
+      if (invalidRows.length > 0) {
+        lines.push(`Skipped ${invalidRows.length === 1 ? 'row' : 'rows'} ${invalidRows.slice(0, 10).join(', ')}${invalidRows.length > 10 ? '…' : ''}.`);
+      }
+      Alert.alert('Rates Imported', lines.join('\n'));
+    } catch (error) {
+      console.error('Failed to import exchange rates:', error);
+      Alert.alert('Import Failed', 'Unable to read the rates file. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleRatePress = (rate: ExchangeRate) => {
+    Alert.alert(
+      'Delete Rate',
+      `Delete ${getRateLabel(rate)} (from ${formatDate(rate.effective_date)})?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteExchangeRate(rate.id);
+              await loadRates();
+            } catch (error) {
+              console.error('Failed to delete exchange rate:', error);
+              Alert.alert('Error', 'Unable to delete the rate. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const currencies = EXPENSE_CURRENCIES.includes(baseCurrency)
+    ? EXPENSE_CURRENCIES
+    : [...EXPENSE_CURRENCIES, baseCurrency];
+
+  const renderHeader = () => (
+    <View>
+      <Text style={styles.sectionHeader}>BASE CURRENCY</Text>
+      <View style={styles.card}>
+        <Text style={styles.cardDescription}>
+          Monthly totals and budgets are converted to this currency.
+        </Text>
+        <View style={styles.chipRow}>
+          {currencies.map(code => (
+            <Chip
+              key={code}
+              label={code}
+              selected={baseCurrency === code}
+              onPress={() => handleBaseCurrency(code)}
+            />
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.ratesHeader}>
+        <Text style={styles.sectionHeader}>RATES</Text>
+        <TouchableOpacity onPress={handleImport} disabled={importing}>
+          <Text style={[styles.importLink, importing && styles.disabled]}>Import CSV</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderItem = ({ item }: { item: ExchangeRate }) => (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={() => handleRatePress(item)}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityLabel={`${getRateLabel(item)}, from ${formatDate(item.effective_date)}`}
+    >
+      <Text style={styles.rowTitle} numberOfLines={1}>
+        {getRateLabel(item)}
+      </Text>
+      <Text style={styles.rowMeta}>from {formatDate(item.effective_date)}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyText}>No rates yet</Text>
+      <Text style={styles.emptySubtext}>
+        Add a rate or import a CSV file (date,from,to,rate).{'\n'}
+        Amounts without a rate are shown in their own currency.
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Currencies</Text>
+        <Text style={styles.subtitle}>Rates are kept on this device, no network needed</Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading…</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={rates}
+          keyExtractor={rate => rate.id}
+          renderItem={renderItem}
+          ListHeaderComponent={renderHeader}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+
+      <TouchableOpacity
+        style={styles.fab}
+        onPress={() => setModalVisible(true)}
+        activeOpacity={0.8}
+        accessibilityLabel="Add exchange rate"
+      >
+        <Text style={styles.fabText}>+</Text>
+      </TouchableOpacity>
+
+      <ExchangeRateModal
+        visible={modalVisible}
+        onClose={() => setModalVisible(false)}
+        onSubmit={handleAdd}
+        baseCurrency={baseCurrency}
+      />
+    </View>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.paperBackground,
+  },
+
+  header: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 12,
+    paddingBottom: 16,
+  },
+
+  backButton: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+
+  backButtonText: {
+    fontSize: 16,
+    color: colors.accentPrimary,
+    fontWeight: '600',
+  },
+
+  title: {
+    ...typography.pageTitle,
+    color: colors.textPrimary,
+  },
+
+  subtitle: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  loadingText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+
+  listContent: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingBottom: 100,
+  },
+
+  sectionHeader: {
+    ...typography.sectionTitle,
+    color: colors.textSecondary,
+    paddingTop: 8,
+    paddingBottom: 8,
+  },
+
+  card: {
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 16,
+  },
+
+  cardDescription: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+
+  ratesHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+
+  importLink: {
+    ...typography.link,
+    color: colors.accentPrimary,
+  },
+
+  disabled: {
+    opacity: 0.4,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 8,
+    minHeight: spacing.minTouchTarget,
+  },
+
+  rowTitle: {
+    ...typography.body,
+    flex: 1,
+    fontWeight: '500',
+    color: colors.textPrimary,
+    marginRight: 12,
+  },
+
+  rowMeta: {
+    ...typography.meta,
+    color: colors.textSecondary,
+  },
+
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 48,
+  },
+
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textMuted,
+    marginBottom: 8,
+  },
+
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.textMuted,
+    textAlign: 'center',
+  },
+
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    ...sizes.fab,
+    borderRadius: borderRadius.fab,
+    backgroundColor: colors.fabBackground,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...elevation.fab,
+  },
+
+  fabText: {
+    ...typography.fabIcon,
+    color: colors.fabIcon,
+  },
+});
@@ -1,41 +1,644 @@
-import { View, Text, StyleSheet } from 'react-native';
+/**
+ * ExpensesScreen
+ *
+ * One month of expenses at a time, grouped by day (newest first).
+ *
+ * - Header: month navigator and the month's total in the base currency
+ *   (each expense converted with the rate of its day, utils/currency.ts),
+ *   with the original per-currency totals beside it when they differ
+ * - Day headers show that day's total; foreign amounts show their conversion
+ * - Tap an expense to edit it, long press to delete it
+ * - A receipt (photo or PDF) can be attached in the expense modal
+ * - Deleted expenses go to Trash, like entries
+ * - Moving an expense to another category offers to remember it as a rule
+ *   for that merchant (utils/rules.ts)
+ * - Budget: spending against category limits (BudgetScreen)
+ * - Reports: breakdowns, trends and CSV/JSON export (ReportsScreen)
+ * - Import: bank statement CSV into expenses (StatementImportScreen)
+ * - Recurring: templates that log rent, subscriptions... as they come due
+ *   (SubscriptionsScreen); due charges are generated on load
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SectionList,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import ExpenseModal, { ExpensePayload } from '../components/ExpenseModal';
+import BudgetScreen from './BudgetScreen';
+import StatementImportScreen from './StatementImportScreen';
+import SubscriptionsScreen from './SubscriptionsScreen';
+import ReportsScreen from './ReportsScreen';
+import {
+  getExpenses,
+  createExpense,
+  updateExpense,
+  deleteExpense,
+  getBudgetCategories,
+  getBaseCurrency,
+  getExchangeRates,
+  getCategoryRules,
+  generateDueRecurringExpenses,
+  learnCategoryRule,
+  setExpenseReceipt,
+  removeExpenseReceipt,
+} from '../db/operations';
+import type { ExpenseWithCategory } from '../db/operations';
+import { formatCurrency } from '../utils/formatting';
+import { convertAmount, formatConvertedTotal, sumInCurrency } from '../utils/currency';
+import { getRuleSuggestion } from '../utils/rules';
+import {
+  DEFAULT_CURRENCY,
+  addMonths,
+  formatMonthLabel,
+  formatTotals,
+  getMonthRange,
+  getPaymentMethodLabel,
+  groupExpensesByDay,
+  startOfMonth,
+  sumByCurrency,
+} from '../utils/expenses';
+import {
+  colors,
+  spacing,
+  typography,
+  borderRadius,
+  elevation,
+  sizes,
+} from '../theme/tokens';
+import type { BudgetCategory, ExchangeRate } from '../types/models';
+
+interface ExpensesScreenProps {
+  isActive?: boolean;
+}
+
+function getExpenseTitle(expense: ExpenseWithCategory): string {
+  return expense.merchant_name || expense.note || expense.category_name || 'Expense';
+}
+
+function getExpenseMeta(expense: ExpenseWithCategory): string {
+  const parts: string[] = [];
+
+  if (expense.category_name) {
+    parts.push(expense.category_name);
+  }
+
+  if (expense.payment_method) {
+    parts.push(getPaymentMethodLabel(expense.payment_method));
+  }
+
+  // The note is the title when there's no merchant
+  if (expense.merchant_name && expense.note) {
+    parts.push(expense.note);
+  }
+
+  if (expense.recurring_expense_id) {
+    parts.push('Recurring');
+  }
+
+  if (expense.receipt_photo_path) {
+    parts.push('Receipt');
+  }
+
+  return parts.join(' · ');
+}
+
+export default function ExpensesScreen({ isActive = true }: ExpensesScreenProps) {
+  const [month, setMonth] = useState(() => startOfMonth(Date.now()));
+  const [expenses, setExpenses] = useState<ExpenseWithCategory[]>([]);
+  const [categories, setCategories] = useState<BudgetCategory[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<ExpenseWithCategory | null>(null);
+  const [showBudget, setShowBudget] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showSubscriptions, setShowSubscriptions] = useState(false);
+  const [showReports, setShowReports] = useState(false);
+
+  const loadExpenses = useCallback(async () => {
+    try {
+      // Charges that came due since the last load (the app can stay open for days)
+      await generateDueRecurringExpenses();
+
+      const [monthExpenses, activeCategories, base, allRates] = await Promise.all([
+        getExpenses(getMonthRange(month)),
+        getBudgetCategories(),
+        getBaseCurrency(),
+        getExchangeRates(),
+      ]);
+      setExpenses(monthExpenses);
+      setCategories(activeCategories);
+      setBaseCurrency(base);
+      setRates(allRates);
+    } catch (error) {
+      console.error('Failed to load expenses:', error);
+      Alert.alert('Error', 'Unable to load expenses');
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  // Reload when the tab is shown (expenses can come back from Trash or a backup)
+  // and when coming back from a sub-screen (budget, import, recurring, reports)
+  useEffect(() => {
+    if (isActive && !showBudget && !showImport && !showSubscriptions && !showReports) {
+      loadExpenses();
+    }
+  }, [isActive, showBudget, showImport, showSubscriptions, showReports, loadExpenses]);
+
+  const sections = useMemo(() => groupExpensesByDay(expenses), [expenses]);
+  const monthTotals = useMemo(() => sumByCurrency(expenses), [expenses]);
+  const monthConverted = useMemo(
+    () => sumInCurrency(expenses, baseCurrency, rates),
+    [expenses, baseCurrency, rates]
+  );
+  const hasForeignCurrency = monthTotals.some(total => total.currency !== baseCurrency);
+  const isCurrentMonth = month === startOfMonth(Date.now());
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadExpenses();
+    setRefreshing(false);
+  };
+
+  const openCreate = () => {
+    setEditingExpense(null);
+    setModalVisible(true);
+  };
+
+  const openEdit = (expense: ExpenseWithCategory) => {
+    setEditingExpense(expense);
+    setModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditingExpense(null);
+  };
+
+  // Moved to another category by hand: offer a rule so the merchant lands there next time
+  const offerRule = async (payload: ExpensePayload) => {
+    const suggestion = getRuleSuggestion(await getCategoryRules(), payload, payload.category_id);
+    const category = categories.find(other => other.id === payload.category_id);
+    if (!suggestion || !category) return;
+
+    Alert.alert(
+      'Create Rule?',
+      `Always put "${suggestion.merchant_contains}" in ${category.name}?`,
+      [
+        { text: 'Not Now', style: 'cancel' },
+        {
+          text: 'Create Rule',
+          onPress: async () => {
+            try {
+              await learnCategoryRule(suggestion);
+            } catch (error) {
+              console.error('Failed to create rule:', error);
+              Alert.alert('Error', 'Unable to create the rule. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSubmit = async (payload: ExpensePayload) => {
+    const { receipt, ...fields } = payload;
+
+    try {
+      if (editingExpense) {
+        await updateExpense({ id: editingExpense.id, ...fields });
+        if (receipt) {
+          await setExpenseReceipt(editingExpense.id, receipt);
+        } else if (receipt === null) {
+          await removeExpenseReceipt(editingExpense.id);
+        }
+        if (payload.category_id && payload.category_id !== (editingExpense.category_id ?? '')) {
+          await offerRule(payload);
+        }
+      } else {
+        const expenseId = await createExpense(fields);
+        if (receipt) {
+          await setExpenseReceipt(expenseId, receipt);
+        }
+        // Show the month the new expense landed in
+        setMonth(startOfMonth(payload.transaction_date));
+      }
+      await loadExpenses();
+    } catch (error) {
+      console.error('Failed to save expense:', error);
+      Alert.alert('Error', 'Unable to save expense. Please try again.');
+    }
+  };
+
+  const handleDelete = (expense: ExpenseWithCategory) => {
+    Alert.alert(
+      'Delete Expense',
+      `Delete ${formatCurrency(expense.amount, expense.currency)} · ${getExpenseTitle(expense)}? You can restore it from Trash.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              closeModal();
+              await deleteExpense(expense.id);
+              await loadExpenses();
+            } catch (error) {
+              console.error('Failed to delete expense:', error);
+              Alert.alert('Error', 'Unable to delete expense. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: ExpenseWithCategory }) => {
+    const meta = getExpenseMeta(item);
+    const converted = item.currency === baseCurrency
+      ? null
+      : convertAmount(item.amount, item.currency, baseCurrency, item.transaction_date, rates);
+
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => openEdit(item)}
+        onLongPress={() => handleDelete(item)}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel={`${getExpenseTitle(item)}, ${formatCurrency(item.amount, item.currency)}`}
+      >
+        <Text style={styles.rowIcon}>{item.category_icon ?? '💳'}</Text>
+        <View style={styles.rowText}>
+          <Text style={styles.rowTitle} numberOfLines={1}>
+            {getExpenseTitle(item)}
+          </Text>
+          {meta ? (
+            <Text style={styles.rowMeta} numberOfLines={1}>
+              {meta}
+            </Text>
+          ) : null}
+        </View>
+        <View style={styles.rowAmounts}>
+          <Text style={styles.rowAmount}>{formatCurrency(item.amount, item.currency)}</Text>
+          {converted !== null && (
+            <Text style={styles.rowConverted}>≈ {formatCurrency(converted, baseCurrency)}</Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (showBudget) {
+    return <BudgetScreen onBack={() => setShowBudget(false)} initialMonth={month} />;
+  }
+
+  if (showImport) {
+    return <StatementImportScreen onBack={() => setShowImport(false)} />;
+  }
+
+  if (showSubscriptions) {
+    return <SubscriptionsScreen onBack={() => setShowSubscriptions(false)} />;
+  }
+
+  if (showReports) {
+    return <ReportsScreen onBack={() => setShowReports(false)} initialMonth={month} />;
+  }
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyText}>No expenses this month</Text>
+      <Text style={styles.emptySubtext}>Tap + to log one</Text>
+    </View>
+  );
 
-export default function ExpensesScreen() {
   return (
     <View style={styles.container}>
-      <Text style={styles.title}>Records</Text>
-      <Text style={styles.emptyText}>Nothing tracked yet</Text>
-      <Text style={styles.emptySubtext}>
-        Log expenses, measurements,{'\n'}or other records here
-      </Text>
+      <View style={styles.header}>
+        <Text style={styles.title}>Expenses</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => setShowReports(true)}
+            accessibilityRole="button"
+          >
+            <Text style={styles.headerButtonText}>Reports</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => setShowSubscriptions(true)}
+            accessibilityRole="button"
+          >
+            <Text style={styles.headerButtonText}>Recurring</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => setShowImport(true)}
+            accessibilityRole="button"
+          >
+            <Text style={styles.headerButtonText}>Import</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => setShowBudget(true)}
+            accessibilityRole="button"
+          >
+            <Text style={styles.headerButtonText}>Budget</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.monthRow}>
+          <TouchableOpacity
+            style={styles.monthButton}
+            onPress={() => setMonth(addMonths(month, -1))}
+            accessibilityLabel="Previous month"
+          >
+            <Text style={styles.monthButtonText}>‹</Text>
+          </TouchableOpacity>
+
+          <View style={styles.monthCenter}>
+            <Text style={styles.monthLabel}>{formatMonthLabel(month)}</Text>
+            <Text style={styles.monthTotal}>{formatConvertedTotal(monthConverted)}</Text>
+            {hasForeignCurrency && (
+              <Text style={styles.monthOriginal}>{formatTotals(monthTotals)}</Text>
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.monthButton, isCurrentMonth && styles.monthButtonDisabled]}
+            onPress={() => setMonth(addMonths(month, 1))}
+            disabled={isCurrentMonth}
+            accessibilityLabel="Next month"
+          >
+            <Text style={styles.monthButtonText}>›</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading…</Text>
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={expense => expense.id}
+          renderItem={renderItem}
+          renderSectionHeader={({ section }) => (
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>{section.title}</Text>
+              <Text style={styles.sectionTotal}>
+                {formatConvertedTotal(sumInCurrency(section.data, baseCurrency, rates))}
+              </Text>
+            </View>
+          )}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.listContent}
+          stickySectionHeadersEnabled={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              tintColor={colors.accentPrimary}
+              colors={[colors.accentPrimary]}
+            />
+          }
+        />
+      )}
+
+      <TouchableOpacity
+        style={styles.fab}
+        onPress={openCreate}
+        activeOpacity={0.8}
+        accessibilityLabel="Add expense"
+      >
+        <Text style={styles.fabText}>+</Text>
+      </TouchableOpacity>
+
+      <ExpenseModal
+        visible={modalVisible}
+        onClose={closeModal}
+        onSubmit={handleSubmit}
+        categories={categories}
+        expense={editingExpense}
+        onDelete={editingExpense ? () => handleDelete(editingExpense) : undefined}
+        defaultCurrency={expenses[0]?.currency}
+      />
     </View>
   );
 }
 
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
 const styles = StyleSheet.create({
-  container: { 
-    flex: 1, 
-    alignItems: 'center', 
+  container: {
+    flex: 1,
+    backgroundColor: colors.paperBackground,
+  },
+
+  header: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 12,
+    paddingBottom: 8,
+  },
+
+  title: {
+    ...typography.pageTitle,
+    color: colors.textPrimary,
+    marginBottom: 8,
+  },
+
+  headerActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+
+  headerButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: borderRadius.button,
+    backgroundColor: colors.badgeNormalBackground,
+  },
+
+  headerButtonText: {
+    ...typography.link,
+    color: colors.accentPrimary,
+  },
+
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    paddingVertical: 8,
+  },
+
+  monthButton: {
+    width: spacing.minTouchTarget,
+    height: spacing.minTouchTarget,
+    alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: '#f9fafb',
-    padding: 24,
   },
-  title: { 
-    fontSize: 32, 
-    fontWeight: 'bold',
-    marginBottom: 24,
-    color: '#1a1a1a',
+
+  monthButtonDisabled: {
+    opacity: 0.3,
+  },
+
+  monthButtonText: {
+    fontSize: 28,
+    color: colors.accentPrimary,
+  },
+
+  monthCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+
+  monthLabel: {
+    ...typography.cardTitle,
+    color: colors.textPrimary,
   },
-  emptyText: { 
-    fontSize: 18, 
+
+  monthTotal: {
+    ...typography.body,
     fontWeight: '600',
-    marginBottom: 12,
-    color: '#9ca3af',
+    color: colors.accentPrimary,
+    marginTop: 2,
+  },
+
+  monthOriginal: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  loadingText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+
+  listContent: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingBottom: 100,
+  },
+
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+
+  sectionTitle: {
+    ...typography.sectionTitle,
+    color: colors.textSecondary,
+  },
+
+  sectionTotal: {
+    ...typography.meta,
+    color: colors.textSecondary,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 8,
+    minHeight: spacing.minTouchTarget,
+  },
+
+  rowIcon: {
+    fontSize: 20,
+    marginRight: 12,
+  },
+
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+
+  rowTitle: {
+    ...typography.body,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+
+  rowMeta: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+
+  rowAmounts: {
+    alignItems: 'flex-end',
+  },
+
+  rowAmount: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.textPrimary,
   },
-  emptySubtext: { 
-    fontSize: 14, 
-    color: '#9ca3af',
+
+  rowConverted: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+  },
+
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textMuted,
+    marginBottom: 8,
+  },
+
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.textMuted,
     textAlign: 'center',
-    lineHeight: 20,
   },
-});
\ No newline at end of file
+
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    ...sizes.fab,
+    borderRadius: borderRadius.fab,
+    backgroundColor: colors.fabBackground,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...elevation.fab,
+  },
+
+  fabText: {
+    ...typography.fabIcon,
+    color: colors.fabIcon,
+  },
+});
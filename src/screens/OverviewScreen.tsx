@@ -3,6 +3,7 @@ import CreateEntryModal, { CreateEntryPayload } from '../components/CreateEntryM
 import InputModal from '../components/InputModal';
 import SelectionMenu, { SelectionOption } from '../components/SelectionMenu';
 import SmartSectionCard from '../components/SmartSectionCard';
+import SnoozeMenu from '../components/SnoozeMenu';
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   View,
@@ -16,11 +17,13 @@ import {
   AccessibilityInfo,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { getAllActiveTasks, getAllCollections, createTask, createNote, getOrCreateUnsortedCollection, createCollection } from '../db/operations';
-import { createChecklistWithItems } from '../db/operations';
+import { getAllActiveTasks, getAllCollections, createTask, createNote, getOrCreateUnsortedCollection, createCollection, updateTask, getCalendarOccurrences } from '../db/operations';
+import { createChecklistWithItems, createRecord } from '../db/operations';
 import type { TaskWithCollectionName } from '../db/operations';
-import type { Collection } from '../types/models';
+import type { Collection, CalendarOccurrence } from '../types/models';
 import { groupTasksByTime } from '../utils/timeClassification';
+import { addDays } from '../utils/calendar';
+import { startOfDay } from '../utils/expenses';
 import { getPriorityLabel } from '../utils/formatting';
 import type { TaskFilter } from '../types/filters';
 import { colors, spacing, typography, elevation, borderRadius, sizes, opacity } from '../theme/tokens';
@@ -38,6 +41,7 @@ export default function OverviewScreen({
   isActive?: boolean;
 }) {
   const [tasks, setTasks] = useState<TaskWithCollectionName[]>([]);
+  const [todayEvents, setTodayEvents] = useState<CalendarOccurrence[]>([]);
   const [pinnedCollections, setPinnedCollections] = useState<Collection[]>([]);
   const [loading, setLoading] = useState(true);
   const [initialLoad, setInitialLoad] = useState(true); // TICKET 17F.1: Track if first load
@@ -54,6 +58,10 @@ export default function OverviewScreen({
   
   // New collection creation
   const [newCollectionName, setNewCollectionName] = useState('');
+
+  // Snooze from card previews
+  const [snoozeMenuVisible, setSnoozeMenuVisible] = useState(false);
+  const [taskToSnooze, setTaskToSnooze] = useState<TaskWithCollectionName | null>(null);
   
   // TICKET 17D: Animation state
   const [reduceMotion, setReduceMotion] = useState(false);
@@ -185,8 +193,15 @@ export default function OverviewScreen({
       if (!refreshing) {
         setLoading(true);
       }
-      const allTasks = await getAllActiveTasks();
+      // Tree mode: subtasks are not counted as tasks of their own
+      const today = startOfDay(Date.now());
+      const [allTasks, events] = await Promise.all([
+        getAllActiveTasks({ tree: true }),
+        // Imported calendars: read-only, shown in Focus Today
+        getCalendarOccurrences({ from: today, to: addDays(today, 1) }),
+      ]);
       setTasks(allTasks);
+      setTodayEvents(events);
     } catch (error) {
       console.error('Failed to load tasks:', error);
     } finally {
@@ -330,7 +345,10 @@ export default function OverviewScreen({
           title: payload.title,
           collection_id: collectionId,
           due_date: payload.dueDate ?? undefined,
+          repeat_rule: payload.repeatRule,
+          reminder_time: payload.reminderTime,
           calm_priority: payload.priority ?? 2,
+          tags: payload.tags,
           completed: false,
         });
       } else if (payload.type === 'note') {
@@ -338,12 +356,21 @@ export default function OverviewScreen({
           title: payload.title,
           notes: payload.noteBody || undefined,
           collection_id: collectionId,
+          tags: payload.tags,
         });
       } else if (payload.type === 'checklist') {
         await createChecklistWithItems({
           title: payload.title,
           collection_id: collectionId,
           items: payload.checklistItems || [],
+          tags: payload.tags,
+        });
+      } else if (payload.type === 'record') {
+        await createRecord({
+          title: payload.title,
+          unit: payload.recordUnit,
+          collection_id: collectionId,
+          tags: payload.tags,
         });
       }
       
@@ -356,6 +383,27 @@ export default function OverviewScreen({
     }
   };
 
+  const handleOpenSnooze = (taskId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (task) {
+      setTaskToSnooze(task);
+      setSnoozeMenuVisible(true);
+    }
+  };
+
+  const handleSnoozeTask = async (until: number | null) => {
+    if (!taskToSnooze) return;
+
+    try {
+      await updateTask({ id: taskToSnooze.id, snoozed_until: until });
+      setTaskToSnooze(null);
+      await loadTasks();
+    } catch (error) {
+      console.error('Failed to snooze task:', error);
+      Alert.alert('Error', 'Unable to snooze task. Please try again.');
+    }
+  };
+
   const grouped = groupTasksByTime(tasks);
 
   // TICKET 17C.1: Organize section logic - NO DUPLICATION
@@ -430,6 +478,7 @@ export default function OverviewScreen({
               tasks={grouped.overdue}
               filter="overdue"
               onPress={onViewTasks}
+              onSnoozeTask={handleOpenSnooze}
               accent="urgent"
               emptyMessage="All clear. Nothing overdue."
             />
@@ -455,6 +504,8 @@ export default function OverviewScreen({
             tasks={grouped.today}
             filter="today"
             onPress={onViewTasks}
+            onSnoozeTask={handleOpenSnooze}
+            events={todayEvents}
             emptyMessage="Nothing scheduled for today."
           />
         </Animated.View>
@@ -478,6 +529,7 @@ export default function OverviewScreen({
             tasks={grouped.upcoming}
             filter="upcoming"
             onPress={onViewTasks}
+            onSnoozeTask={handleOpenSnooze}
             emptyMessage="No upcoming tasks yet."
           />
         </Animated.View>
@@ -611,6 +663,14 @@ export default function OverviewScreen({
         />
       )}
 
+      {/* Snooze Menu (card previews) */}
+      <SnoozeMenu
+        visible={snoozeMenuVisible}
+        onClose={() => setSnoozeMenuVisible(false)}
+        taskTitle={taskToSnooze?.title}
+        onSelect={handleSnoozeTask}
+      />
+
       {/* Collection Picker Modal */}
       <SelectionMenu
         visible={collectionPickerVisible}
@@ -0,0 +1,471 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+  RefreshControl,
+  LayoutChangeEvent,
+} from 'react-native';
+import Sparkline from '../components/Sparkline';
+import RecordValueModal, { RecordValuePayload } from '../components/RecordValueModal';
+import {
+  getRecord,
+  getRecordValues,
+  addRecordValue,
+  updateRecordValue,
+  deleteRecordValue,
+} from '../db/operations';
+import { shareRecordCsv } from '../backup/files';
+import { formatExpenseDay } from '../utils/expenses';
+import {
+  buildRecordCsv,
+  formatRecordChange,
+  formatRecordValue,
+  getRecordCsvFileName,
+} from '../utils/records';
+import type { RecordEntry, RecordValue } from '../types/models';
+
+interface RecordScreenProps {
+  recordId: string;
+  onBack: () => void;
+}
+
+const CHART_HEIGHT = 96;
+
+/**
+ * RecordScreen
+ *
+ * History of a record (weight, blood pressure, mileage): every value,
+ * newest first, under a trend line of the whole series
+ *
+ * Features:
+ * - + adds a value (now by default; date, time and note can be changed)
+ * - Tap a value to edit or delete it
+ * - "Export CSV" shares the values as date, time, value, unit, note
+ *
+ * Navigation:
+ * - Opened from a record card in CollectionsScreen
+ * - Back button returns to the collection (its card shows the new latest value)
+ */
+export default function RecordScreen({ recordId, onBack }: RecordScreenProps) {
+  const [record, setRecord] = useState<RecordEntry | null>(null);
+  const [values, setValues] = useState<RecordValue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [chartWidth, setChartWidth] = useState(0);
+
+  // Value modal: open with null to add, with a value to edit it
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingValue, setEditingValue] = useState<RecordValue | null>(null);
+
+  const loadRecord = useCallback(async () => {
+    try {
+      const [recordData, valueData] = await Promise.all([
+        getRecord(recordId),
+        getRecordValues(recordId),
+      ]);
+      setRecord(recordData);
+      setValues(valueData);
+    } catch (error) {
+      console.error('Failed to load record:', error);
+      Alert.alert('Error', 'Unable to load record');
+    } finally {
+      setLoading(false);
+    }
+  }, [recordId]);
+
+  useEffect(() => {
+    loadRecord();
+  }, [loadRecord]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadRecord();
+    setRefreshing(false);
+  };
+
+  const handleOpenAdd = () => {
+    setEditingValue(null);
+    setModalVisible(true);
+  };
+
+  const handleOpenEdit = (value: RecordValue) => {
+    setEditingValue(value);
+    setModalVisible(true);
+  };
+
+  const handleCloseModal = () => {
+    setModalVisible(false);
+    setEditingValue(null);
+  };
+
+  const handleSubmitValue = async (payload: RecordValuePayload) => {
+    try {
+      if (editingValue) {
+        await updateRecordValue({ id: editingValue.id, ...payload });
+      } else {
+        await addRecordValue({ record_id: recordId, ...payload });
+      }
+      await loadRecord();
+    } catch (error) {
+      console.error('Failed to save value:', error);
+      Alert.alert('Error', 'Unable to save value. Please try again.');
+    }
+  };
+
+  const handleDeleteValue = () => {
+    const value = editingValue;
+    if (!value) return;
+
+    Alert.alert(
+      'Delete Value',
+      `Delete ${formatRecordValue(value.value, record?.unit)} from ${formatExpenseDay(value.recorded_at)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            handleCloseModal();
+            try {
+              await deleteRecordValue(value.id);
+              await loadRecord();
+            } catch (error) {
+              console.error('Failed to delete value:', error);
+              Alert.alert('Error', 'Unable to delete value. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleExport = async () => {
+    if (!record) return;
+
+    try {
+      await shareRecordCsv(
+        getRecordCsvFileName(record.title, Date.now()),
+        buildRecordCsv(record, values)
+      );
+    } catch (error) {
+      console.error('Failed to export values:', error);
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'Unable to export values.');
+    }
+  };
+
+  const handleChartLayout = (event: LayoutChangeEvent) => {
+    setChartWidth(event.nativeEvent.layout.width);
+  };
+
+  const renderValue = ({ item, index }: { item: RecordValue; index: number }) => {
+    // values are newest first: the previous measurement is the next row
+    const previous = values[index + 1];
+    const time = new Date(item.recorded_at).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+
+    return (
+      <TouchableOpacity
+        style={styles.valueRow}
+        onPress={() => handleOpenEdit(item)}
+        activeOpacity={0.7}
+        accessibilityHint="Edit or delete this value"
+      >
+        <View style={styles.valueContent}>
+          <Text style={styles.valueDate}>
+            {formatExpenseDay(item.recorded_at)} · {time}
+          </Text>
+          {item.note ? (
+            <Text style={styles.valueNote} numberOfLines={2}>{item.note}</Text>
+          ) : null}
+        </View>
+        <View style={styles.valueNumbers}>
+          <Text style={styles.valueText}>{formatRecordValue(item.value, record?.unit)}</Text>
+          {previous && (
+            <Text style={styles.valueChange}>
+              {formatRecordChange(item.value, previous.value, record?.unit)}
+            </Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyText}>No values yet</Text>
+      <Text style={styles.emptySubtext}>Tap + to log the first one</Text>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading…</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (!record) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={onBack}>
+            <Text style={styles.backButtonText}>← Back</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>This record was deleted</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const latest = values[0];
+  const series = [...values].reverse().map(value => value.value);
+  const lowest = series.length > 0 ? Math.min(...series) : undefined;
+  const highest = series.length > 0 ? Math.max(...series) : undefined;
+
+  return (
+    <View style={styles.container}>
+      {/* Header with back button and export action */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+
+        <View style={styles.titleRow}>
+          <Text style={styles.title} numberOfLines={1}>
+            {record.title}
+            {record.unit ? <Text style={styles.titleUnit}> ({record.unit})</Text> : null}
+          </Text>
+          {values.length > 0 && (
+            <TouchableOpacity onPress={handleExport} style={styles.exportButton}>
+              <Text style={styles.exportButtonText}>Export CSV</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {latest && (
+          <Text style={styles.subtitle}>
+            {values.length} {values.length === 1 ? 'value' : 'values'} · latest {formatRecordValue(latest.value, record.unit)}
+          </Text>
+        )}
+      </View>
+
+      {series.length >= 2 && lowest !== undefined && highest !== undefined && (
+        <View style={styles.chartCard}>
+          <Text style={styles.chartLabel}>{formatRecordValue(highest, record.unit)}</Text>
+          <View style={styles.chart} onLayout={handleChartLayout}>
+            {chartWidth > 0 && (
+              <Sparkline values={series} width={chartWidth} height={CHART_HEIGHT} strokeWidth={2.5} />
+            )}
+          </View>
+          <Text style={styles.chartLabel}>{formatRecordValue(lowest, record.unit)}</Text>
+        </View>
+      )}
+
+      <FlatList
+        data={values}
+        renderItem={renderValue}
+        keyExtractor={item => item.id}
+        style={styles.list}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={renderEmpty}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor="#3b82f6"
+            colors={['#3b82f6']}
+          />
+        }
+      />
+
+      <TouchableOpacity
+        style={styles.fab}
+        onPress={handleOpenAdd}
+        activeOpacity={0.8}
+        accessibilityLabel="Add value"
+      >
+        <Text style={styles.fabText}>+</Text>
+      </TouchableOpacity>
+
+      <RecordValueModal
+        visible={modalVisible}
+        onClose={handleCloseModal}
+        onSubmit={handleSubmitValue}
+        unit={record.unit}
+        recordValue={editingValue}
+        onDelete={handleDeleteValue}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    flex: 1,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  titleUnit: {
+    fontSize: 18,
+    fontWeight: 'normal',
+    color: '#6b7280',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  exportButton: {
+    paddingVertical: 8,
+    paddingLeft: 12,
+  },
+  exportButtonText: {
+    fontSize: 15,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  chartCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    marginVertical: 4,
+  },
+  chartLabel: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  valueRow: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    marginBottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 56,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  valueContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  valueDate: {
+    fontSize: 15,
+    color: '#1a1a1a',
+  },
+  valueNote: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  valueNumbers: {
+    alignItems: 'flex-end',
+  },
+  valueText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  valueChange: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#9ca3af',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#3b82f6',
+    alignItems: 'center',
+    justifyContent: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  fabText: {
+    fontSize: 28,
+    color: '#fff',
+    fontWeight: '300',
+  },
+});
@@ -0,0 +1,585 @@
+/**
+ * ReportsScreen
+ *
+ * Where the money went over 1, 3 or 12 months (buildExpenseReport).
+ * Opened from ExpensesScreen.
+ *
+ * - Total for the period, compared with the period just before it
+ * - Monthly trend (bars drawn with plain views)
+ * - Spend by category and by payment method, with the change against
+ *   the previous period, and the top merchants
+ * - Amounts are in the base currency; expenses without a rate for their
+ *   day are listed apart
+ * - Export: the period's expenses as CSV, or the report as JSON
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import Chip from '../components/Chip';
+import {
+  getExpenses,
+  getBaseCurrency,
+  getExchangeRates,
+  ExpenseWithCategory,
+} from '../db/operations';
+import { shareReport } from '../backup/files';
+import {
+  REPORT_PERIODS,
+  ReportLine,
+  buildExpenseReport,
+  buildReportCsv,
+  buildReportJson,
+  formatChange,
+  formatReportPeriod,
+  getChange,
+  getReportFileName,
+  getReportRanges,
+} from '../utils/reports';
+import { addMonths, formatMonthLabel, formatTotals, startOfMonth, DEFAULT_CURRENCY } from '../utils/expenses';
+import { formatCurrency } from '../utils/formatting';
+import { colors, spacing, typography, borderRadius } from '../theme/tokens';
+import type { ExchangeRate } from '../types/models';
+
+interface ReportsScreenProps {
+  onBack: () => void;
+  initialMonth?: number;
+}
+
+// Height of the tallest trend bar
+const TREND_HEIGHT = 96;
+
+/**
+ * More spending is shown in the urgent colour, less in the brand colour
+ */
+function ChangeLabel({ current, previous }: { current: number; previous: number }) {
+  const change = getChange(current, previous);
+  if (change === null) return null;
+
+  return (
+    <Text style={[styles.change, change > 0 ? styles.changeUp : styles.changeDown]}>
+      {formatChange(change)}
+    </Text>
+  );
+}
+
+function BreakdownRow({
+  line,
+  max,
+  currency,
+  showCount,
+}: {
+  line: ReportLine;
+  max: number;
+  currency: string;
+  showCount?: boolean;
+}) {
+  const meta = showCount
+    ? `${line.count} ${line.count === 1 ? 'expense' : 'expenses'}`
+    : line.previous > 0 ? `was ${formatCurrency(line.previous, currency)}` : '';
+
+  return (
+    <View style={styles.breakdownRow}>
+      <View style={styles.breakdownHeader}>
+        <Text style={styles.breakdownLabel} numberOfLines={1}>{line.label}</Text>
+        <Text style={styles.breakdownAmount}>{formatCurrency(line.total, currency)}</Text>
+      </View>
+
+      <View style={styles.barTrack}>
+        <View style={[styles.barFill, { width: `${max > 0 ? (line.total / max) * 100 : 0}%` }]} />
+      </View>
+
+      <View style={styles.breakdownMeta}>
+        <Text style={styles.breakdownMetaText}>{meta}</Text>
+        <ChangeLabel current={line.total} previous={line.previous} />
+      </View>
+    </View>
+  );
+}
+
+function BreakdownSection({
+  title,
+  lines,
+  currency,
+  showCount,
+}: {
+  title: string;
+  lines: ReportLine[];
+  currency: string;
+  showCount?: boolean;
+}) {
+  if (lines.length === 0) return null;
+
+  const max = Math.max(...lines.map(line => line.total));
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{title}</Text>
+      {lines.map(line => (
+        <BreakdownRow
+          key={line.key}
+          line={line}
+          max={max}
+          currency={currency}
+          showCount={showCount}
+        />
+      ))}
+    </View>
+  );
+}
+
+export default function ReportsScreen({ onBack, initialMonth }: ReportsScreenProps) {
+  const [month, setMonth] = useState(() => startOfMonth(initialMonth ?? Date.now()));
+  const [months, setMonths] = useState(1);
+  const [expenses, setExpenses] = useState<ExpenseWithCategory[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const ranges = useMemo(() => getReportRanges(month, months), [month, months]);
+
+  const loadReport = useCallback(async () => {
+    try {
+      const [periodExpenses, base, allRates] = await Promise.all([
+        getExpenses(ranges.fetch),
+        getBaseCurrency(),
+        getExchangeRates(),
+      ]);
+      setExpenses(periodExpenses);
+      setBaseCurrency(base);
+      setRates(allRates);
+    } catch (error) {
+      console.error('Failed to load report:', error);
+      Alert.alert('Error', 'Unable to load report');
+    } finally {
+      setLoading(false);
+    }
+  }, [ranges]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const report = useMemo(
+    () => buildExpenseReport(expenses, ranges, baseCurrency, rates),
+    [expenses, ranges, baseCurrency, rates]
+  );
+
+  const isCurrentMonth = month === startOfMonth(Date.now());
+  const hasExpenses = report.count > 0 || report.unconverted.length > 0;
+  const trendMax = Math.max(...report.trend.map(entry => entry.total), 0);
+  // Month-over-month: the last month of the period against the one before
+  const [trendPrevious, trendLast] = report.trend.slice(-2);
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      const content = format === 'csv'
+        ? buildReportCsv(expenses, ranges.current, baseCurrency, rates)
+        : buildReportJson(report);
+      await shareReport(getReportFileName(ranges.current, format), content);
+    } catch (error: any) {
+      console.error('Failed to export report:', error);
+      Alert.alert('Error', error?.message ?? 'Unable to export report. Please try again.');
+    }
+  };
+
+  const openExport = () => {
+    Alert.alert(
+      'Export Report',
+      formatReportPeriod(ranges.current),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Expenses (CSV)', onPress: () => handleExport('csv') },
+        { text: 'Report (JSON)', onPress: () => handleExport('json') },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerTop}>
+          <TouchableOpacity style={styles.backButton} onPress={onBack}>
+            <Text style={styles.backButtonText}>← Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={openExport}
+            disabled={!hasExpenses}
+            accessibilityRole="button"
+          >
+            <Text style={[styles.exportText, !hasExpenses && styles.disabled]}>Export</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.title}>Reports</Text>
+
+        <View style={styles.chipRow}>
+          {REPORT_PERIODS.map(period => (
+            <Chip
+              key={period.months}
+              label={period.label}
+              selected={months === period.months}
+              onPress={() => setMonths(period.months)}
+            />
+          ))}
+        </View>
+
+        <View style={styles.monthRow}>
+          <TouchableOpacity
+            style={styles.monthButton}
+            onPress={() => setMonth(addMonths(month, -1))}
+            accessibilityLabel="Previous month"
+          >
+            <Text style={styles.monthButtonText}>‹</Text>
+          </TouchableOpacity>
+
+          <View style={styles.monthCenter}>
+            <Text style={styles.monthLabel}>{formatReportPeriod(ranges.current)}</Text>
+            <View style={styles.totalRow}>
+              <Text style={styles.monthTotal}>{formatCurrency(report.total, report.currency)}</Text>
+              <ChangeLabel current={report.total} previous={report.previousTotal} />
+            </View>
+            {report.previousTotal > 0 && (
+              <Text style={styles.monthMeta}>
+                Previous {months === 1 ? 'month' : `${months} months`}:{' '}
+                {formatCurrency(report.previousTotal, report.currency)}
+              </Text>
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.monthButton, isCurrentMonth && styles.monthButtonDisabled]}
+            onPress={() => setMonth(addMonths(month, 1))}
+            disabled={isCurrentMonth}
+            accessibilityLabel="Next month"
+          >
+            <Text style={styles.monthButtonText}>›</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading…</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.listContent}>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Monthly Trend</Text>
+            <View style={styles.trendChart}>
+              {report.trend.map(entry => {
+                const inPeriod = entry.month >= ranges.current.from;
+                return (
+                  <View key={entry.month} style={styles.trendColumn}>
+                    <View
+                      style={[
+                        styles.trendBar,
+                        inPeriod && styles.trendBarCurrent,
+                        { height: trendMax > 0 ? Math.max((entry.total / trendMax) * TREND_HEIGHT, 2) : 2 },
+                      ]}
+                    />
+                    <Text style={styles.trendLabel}>
+                      {new Date(entry.month).toLocaleDateString('en-GB', { month: 'narrow' })}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+            {trendLast && (
+              <View style={styles.trendSummary}>
+                <Text style={styles.trendMeta}>
+                  {formatMonthLabel(trendLast.month)}: {formatCurrency(trendLast.total, report.currency)}
+                </Text>
+                <ChangeLabel current={trendLast.total} previous={trendPrevious.total} />
+              </View>
+            )}
+          </View>
+
+          {report.count === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>No expenses in this period</Text>
+            </View>
+          ) : (
+            <>
+              <BreakdownSection title="By Category" lines={report.byCategory} currency={report.currency} />
+              <BreakdownSection
+                title="By Payment Method"
+                lines={report.byPaymentMethod}
+                currency={report.currency}
+              />
+              <BreakdownSection
+                title="Top Merchants"
+                lines={report.topMerchants}
+                currency={report.currency}
+                showCount
+              />
+            </>
+          )}
+
+          {report.unconverted.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Not Included</Text>
+              <Text style={styles.breakdownMetaText}>
+                {formatTotals(report.unconverted)} (no exchange rate to {report.currency} on their day)
+              </Text>
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.paperBackground,
+  },
+
+  header: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 12,
+    paddingBottom: 8,
+  },
+
+  headerTop: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+
+  backButton: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+
+  backButtonText: {
+    fontSize: 16,
+    color: colors.accentPrimary,
+    fontWeight: '600',
+  },
+
+  exportText: {
+    ...typography.link,
+    color: colors.accentPrimary,
+  },
+
+  disabled: {
+    opacity: 0.4,
+  },
+
+  title: {
+    ...typography.pageTitle,
+    color: colors.textPrimary,
+    marginBottom: 12,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    paddingVertical: 8,
+  },
+
+  monthButton: {
+    width: spacing.minTouchTarget,
+    height: spacing.minTouchTarget,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  monthButtonDisabled: {
+    opacity: 0.3,
+  },
+
+  monthButtonText: {
+    fontSize: 28,
+    color: colors.accentPrimary,
+  },
+
+  monthCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+
+  monthLabel: {
+    ...typography.cardTitle,
+    color: colors.textPrimary,
+  },
+
+  totalRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 8,
+    marginTop: 2,
+  },
+
+  monthTotal: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.accentPrimary,
+  },
+
+  monthMeta: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+
+  change: {
+    ...typography.meta,
+    fontWeight: '600',
+  },
+
+  changeUp: {
+    color: colors.accentUrgent,
+  },
+
+  changeDown: {
+    color: colors.accentPrimary,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  loadingText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+
+  listContent: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 8,
+    paddingBottom: 100,
+  },
+
+  card: {
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 12,
+  },
+
+  cardTitle: {
+    ...typography.cardTitle,
+    color: colors.textPrimary,
+    marginBottom: 12,
+  },
+
+  trendChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 4,
+  },
+
+  trendColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+
+  trendBar: {
+    width: '70%',
+    borderRadius: 3,
+    backgroundColor: colors.badgeNormalBackground,
+  },
+
+  trendBarCurrent: {
+    backgroundColor: colors.accentPrimary,
+  },
+
+  trendLabel: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  trendSummary: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 8,
+    marginTop: 12,
+  },
+
+  trendMeta: {
+    ...typography.meta,
+    color: colors.textSecondary,
+  },
+
+  breakdownRow: {
+    marginBottom: 12,
+  },
+
+  breakdownHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+
+  breakdownLabel: {
+    ...typography.body,
+    flex: 1,
+    color: colors.textPrimary,
+    marginRight: 12,
+  },
+
+  breakdownAmount: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+
+  barTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.badgeNormalBackground,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+
+  barFill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.accentPrimary,
+  },
+
+  breakdownMeta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+
+  breakdownMetaText: {
+    ...typography.meta,
+    color: colors.textSecondary,
+  },
+
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textMuted,
+  },
+});
@@ -0,0 +1,458 @@
+/**
+ * SearchScreen
+ *
+ * Full-text search across tasks, notes, checklists and checklist items
+ * (search_index, FTS5 - see searchEntries). Reached from the tab bar.
+ *
+ * - Results are ranked (title matches first) and matched words highlighted
+ * - Filters: entry type, collection, completion
+ * - Tapping a result opens it in its collection (checklists and checklist
+ *   items open in ChecklistScreen, notes in the note editor)
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  Keyboard,
+} from 'react-native';
+import SelectionMenu, { SelectionOption } from '../components/SelectionMenu';
+import { searchEntries, getAllCollections } from '../db/operations';
+import { parseHighlight } from '../utils/search';
+import { colors, spacing, typography, borderRadius } from '../theme/tokens';
+import type { Collection, EntryType, SearchFilters, SearchResult } from '../types/models';
+
+interface SearchScreenProps {
+  onOpenResult: (result: SearchResult) => void;
+  isActive?: boolean;
+}
+
+type Completion = NonNullable<SearchFilters['completion']>;
+
+// Wait for typing to pause before querying
+const SEARCH_DEBOUNCE_MS = 200;
+const ALL_COLLECTIONS = 'all';
+
+const TYPE_FILTERS: { label: string; value: EntryType | undefined }[] = [
+  { label: 'All', value: undefined },
+  { label: 'Tasks', value: 'task' },
+  { label: 'Notes', value: 'note' },
+  { label: 'Checklists', value: 'checklist' },
+  { label: 'Records', value: 'record' },
+];
+
+const COMPLETION_FILTERS: { label: string; value: Completion }[] = [
+  { label: 'Any', value: 'all' },
+  { label: 'Open', value: 'open' },
+  { label: 'Done', value: 'done' },
+];
+
+const TYPE_ICONS: Record<EntryType, string> = {
+  task: '☐',
+  note: '📝',
+  checklist: '☑️',
+  record: '📈',
+};
+
+function HighlightedText({
+  marked,
+  style,
+  numberOfLines,
+}: {
+  marked: string;
+  style: any;
+  numberOfLines?: number;
+}) {
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {parseHighlight(marked).map((segment, index) => (
+        <Text key={index} style={segment.match ? styles.match : undefined}>
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+function getResultMeta(result: SearchResult): string {
+  const parts: string[] = [];
+
+  if (result.item_id) {
+    parts.push(`Item in ${result.checklist_title ?? 'checklist'}`);
+  } else if (result.parent_task_id) {
+    parts.push('Subtask');
+  } else {
+    parts.push(result.entry_type.charAt(0).toUpperCase() + result.entry_type.slice(1));
+  }
+
+  if (result.collection_name) {
+    parts.push(result.collection_name);
+  }
+
+  if (result.completed) {
+    parts.push(result.item_id ? 'Checked' : 'Completed');
+  }
+
+  return parts.join(' · ');
+}
+
+export default function SearchScreen({ onOpenResult, isActive = true }: SearchScreenProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [entryType, setEntryType] = useState<EntryType | undefined>(undefined);
+  const [completion, setCompletion] = useState<Completion>('all');
+  const [collectionId, setCollectionId] = useState<string | undefined>(undefined);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [collectionPickerVisible, setCollectionPickerVisible] = useState(false);
+
+  // Ignore responses to queries that were superseded while running
+  const latestSearch = useRef(0);
+
+  // Collections for the filter (refreshed each time the tab is shown)
+  useEffect(() => {
+    if (!isActive) return;
+
+    getAllCollections()
+      .then(setCollections)
+      .catch(error => console.error('Failed to load collections:', error));
+  }, [isActive]);
+
+  useEffect(() => {
+    const searchId = ++latestSearch.current;
+
+    if (!query.trim()) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const hits = await searchEntries(query, {
+          entry_type: entryType,
+          collection_id: collectionId,
+          completion,
+        });
+        if (searchId === latestSearch.current) {
+          setResults(hits);
+        }
+      } catch (error) {
+        console.error('Search failed:', error);
+        if (searchId === latestSearch.current) {
+          setResults([]);
+        }
+      } finally {
+        if (searchId === latestSearch.current) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, entryType, completion, collectionId, isActive]);
+
+  const selectedCollection = collections.find(collection => collection.id === collectionId);
+
+  const collectionOptions: SelectionOption[] = [
+    { label: 'All collections', value: ALL_COLLECTIONS },
+    ...collections.map(collection => ({
+      label: `${collection.icon || '📋'} ${collection.name}`,
+      value: collection.id,
+      description: collection.is_archived ? 'Archived' : undefined,
+    })),
+  ];
+
+  const handleOpen = (result: SearchResult) => {
+    Keyboard.dismiss();
+    onOpenResult(result);
+  };
+
+  const renderResult = ({ item }: { item: SearchResult }) => (
+    <TouchableOpacity
+      style={styles.resultRow}
+      onPress={() => handleOpen(item)}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+    >
+      <Text style={styles.resultIcon}>{TYPE_ICONS[item.entry_type]}</Text>
+      <View style={styles.resultContent}>
+        <HighlightedText
+          marked={item.title}
+          style={[styles.resultTitle, item.completed && styles.resultTitleCompleted]}
+          numberOfLines={2}
+        />
+        {item.snippet && (
+          <HighlightedText marked={item.snippet} style={styles.resultSnippet} numberOfLines={2} />
+        )}
+        <Text style={styles.resultMeta}>{getResultMeta(item)}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => {
+    if (!query.trim()) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>Search everything</Text>
+          <Text style={styles.emptySubtext}>Tasks, notes, checklists and their items</Text>
+        </View>
+      );
+    }
+
+    if (searching) {
+      return null;
+    }
+
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyText}>No matches</Text>
+        <Text style={styles.emptySubtext}>Try fewer words or clear the filters</Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Search</Text>
+        <View style={styles.searchBox}>
+          <TextInput
+            style={styles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search tasks, notes, checklists…"
+            placeholderTextColor={colors.textMuted}
+            returnKeyType="search"
+            autoCorrect={false}
+            clearButtonMode="while-editing"
+            accessibilityLabel="Search"
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')} accessibilityLabel="Clear search">
+              <Text style={styles.clearText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterRow}
+          keyboardShouldPersistTaps="handled"
+        >
+          {TYPE_FILTERS.map(filter => (
+            <TouchableOpacity
+              key={filter.label}
+              style={[styles.chip, entryType === filter.value && styles.chipActive]}
+              onPress={() => setEntryType(filter.value)}
+            >
+              <Text style={[styles.chipText, entryType === filter.value && styles.chipTextActive]}>
+                {filter.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          <View style={styles.chipDivider} />
+
+          {COMPLETION_FILTERS.map(filter => (
+            <TouchableOpacity
+              key={filter.value}
+              style={[styles.chip, completion === filter.value && styles.chipActive]}
+              onPress={() => setCompletion(filter.value)}
+            >
+              <Text style={[styles.chipText, completion === filter.value && styles.chipTextActive]}>
+                {filter.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          <View style={styles.chipDivider} />
+
+          <TouchableOpacity
+            style={[styles.chip, collectionId && styles.chipActive]}
+            onPress={() => setCollectionPickerVisible(true)}
+          >
+            <Text style={[styles.chipText, collectionId && styles.chipTextActive]}>
+              {selectedCollection ? selectedCollection.name : 'All collections'} ▾
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+
+      <FlatList
+        data={results}
+        keyExtractor={item => `${item.entry_id}:${item.item_id ?? ''}`}
+        renderItem={renderResult}
+        ListEmptyComponent={renderEmpty}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        keyboardDismissMode="on-drag"
+      />
+
+      <SelectionMenu
+        visible={collectionPickerVisible}
+        onClose={() => setCollectionPickerVisible(false)}
+        title="Search in"
+        options={collectionOptions}
+        selectedValue={collectionId ?? ALL_COLLECTIONS}
+        onSelect={(value) => setCollectionId(value === ALL_COLLECTIONS ? undefined : value)}
+      />
+    </View>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.paperBackground,
+  },
+
+  header: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+
+  title: {
+    ...typography.pageTitle,
+    color: colors.textPrimary,
+    marginBottom: 12,
+  },
+
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    paddingHorizontal: 14,
+    minHeight: spacing.minTouchTarget,
+  },
+
+  searchInput: {
+    flex: 1,
+    ...typography.body,
+    color: colors.textPrimary,
+    paddingVertical: 10,
+  },
+
+  clearText: {
+    fontSize: 14,
+    color: colors.textMuted,
+    paddingHorizontal: 4,
+  },
+
+  filterRow: {
+    alignItems: 'center',
+    paddingTop: 12,
+    paddingBottom: 4,
+  },
+
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: borderRadius.badge,
+    backgroundColor: colors.backgroundCard,
+    marginRight: 8,
+  },
+
+  chipActive: {
+    backgroundColor: colors.accentPrimary,
+  },
+
+  chipText: {
+    ...typography.meta,
+    color: colors.textSecondary,
+  },
+
+  chipTextActive: {
+    color: colors.textOnDark,
+    fontWeight: '600',
+  },
+
+  chipDivider: {
+    width: 1,
+    height: 20,
+    backgroundColor: colors.divider,
+    marginRight: 8,
+  },
+
+  listContent: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingBottom: 100,
+  },
+
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 8,
+    minHeight: spacing.minTouchTarget,
+  },
+
+  resultIcon: {
+    fontSize: 16,
+    width: 24,
+    marginRight: 8,
+    color: colors.textSecondary,
+  },
+
+  resultContent: {
+    flex: 1,
+  },
+
+  resultTitle: {
+    ...typography.body,
+    fontWeight: '500',
+    color: colors.textPrimary,
+    marginBottom: 2,
+  },
+
+  resultTitleCompleted: {
+    color: colors.completedText,
+  },
+
+  resultSnippet: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginBottom: 2,
+  },
+
+  resultMeta: {
+    ...typography.meta,
+    color: colors.textMuted,
+  },
+
+  match: {
+    backgroundColor: colors.badgeNormalBackground,
+    color: colors.accentPrimary,
+    fontWeight: '600',
+  },
+
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: 60,
+  },
+
+  emptyText: {
+    ...typography.cardTitle,
+    color: colors.textPrimary,
+    marginBottom: 6,
+  },
+
+  emptySubtext: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
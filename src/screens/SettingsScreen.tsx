@@ -5,23 +5,209 @@
  *
  * Contains the notebook mode toggle (Abstract / Classic).
  * Changing the mode updates Context only — no remounting, no scroll reset.
+ *
+ * Data section links to Trash, Tags and Currencies (full-screen swap, same pattern as ChecklistScreen),
+ * exports / imports JSON backups of the whole database, exports the
+ * notebook as Markdown, and exports / imports dated tasks as .ics calendars.
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
   TouchableOpacity,
   StyleSheet,
   ScrollView,
+  Alert,
 } from 'react-native';
 import NotebookLayer from '../components/NotebookLayer';
+import TrashScreen from './TrashScreen';
+import TagsScreen from './TagsScreen';
+import ExchangeRatesScreen from './ExchangeRatesScreen';
+import IcsImportModal from '../components/IcsImportModal';
 import { useNotebookModeContext } from '../context/NotebookModeContext';
+import {
+  exportBackup,
+  importBackup,
+  getNotebookExport,
+  getAllActiveTasks,
+  getAllCollections,
+  importIcsTasks,
+} from '../db/operations';
+import { shareBackup, shareMarkdown, shareIcs, pickBackupText, pickIcsText } from '../backup/files';
+import { parseBackup, countBackupRows } from '../utils/backup';
+import { notebookToMarkdown, getMarkdownFileName } from '../utils/markdown';
+import { buildIcs, getIcsFileName, parseIcs, IcsParseResult } from '../utils/ics';
+import { getCurrentTimestamp } from '../utils/uuid';
+import { formatDate } from '../utils/formatting';
 import { colors, spacing, typography, borderRadius } from '../theme/tokens';
 import type { NotebookMode } from '../components/NotebookLayer';
+import type { BackupDocument, BackupImportMode, Collection } from '../types/models';
 
 export default function SettingsScreen() {
   const { mode, setMode } = useNotebookModeContext();
+  const [showTrash, setShowTrash] = useState(false);
+  const [showTags, setShowTags] = useState(false);
+  const [showCurrencies, setShowCurrencies] = useState(false);
+  const [backupBusy, setBackupBusy] = useState(false);
+  // Parsed .ics file waiting for a collection (IcsImportModal)
+  const [icsImport, setIcsImport] = useState<IcsParseResult | null>(null);
+  const [icsCollections, setIcsCollections] = useState<Collection[]>([]);
+
+  const handleExport = async () => {
+    setBackupBusy(true);
+    try {
+      await shareBackup(await exportBackup());
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+      Alert.alert('Export Failed', 'Unable to create the backup. Please try again.');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleExportMarkdown = async () => {
+    setBackupBusy(true);
+    try {
+      const exportedAt = getCurrentTimestamp();
+      const markdown = notebookToMarkdown(await getNotebookExport(), exportedAt);
+      await shareMarkdown(getMarkdownFileName(exportedAt), markdown);
+    } catch (error) {
+      console.error('Failed to export Markdown:', error);
+      Alert.alert('Export Failed', 'Unable to export the notebook. Please try again.');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleExportIcs = async () => {
+    setBackupBusy(true);
+    try {
+      const tasks = (await getAllActiveTasks()).filter(task => !!task.due_date);
+      if (tasks.length === 0) {
+        Alert.alert('Nothing to Export', 'No tasks have a due date.');
+        return;
+      }
+
+      const exportedAt = getCurrentTimestamp();
+      await shareIcs(getIcsFileName(exportedAt), buildIcs(tasks, exportedAt));
+    } catch (error) {
+      console.error('Failed to export calendar:', error);
+      Alert.alert('Export Failed', 'Unable to export the calendar. Please try again.');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleImportIcs = async () => {
+    try {
+      const text = await pickIcsText();
+      if (text === null) return;
+
+      const parsed = parseIcs(text);
+      if (parsed.tasks.length === 0) {
+        Alert.alert('Nothing to Import', 'This file has no to-dos or events.');
+        return;
+      }
+
+      const collections = await getAllCollections();
+      setIcsCollections(collections.filter(collection => !collection.is_archived));
+      setIcsImport(parsed);
+    } catch (error) {
+      Alert.alert('Cannot Import', error instanceof Error ? error.message : 'Unable to read this file.');
+    }
+  };
+
+  const runIcsImport = async (collectionId: string) => {
+    if (!icsImport) return;
+
+    setBackupBusy(true);
+    try {
+      const result = await importIcsTasks(icsImport.tasks, collectionId);
+      Alert.alert(
+        'Calendar Imported',
+        result.duplicates > 0
+          ? `${result.imported} tasks imported, ${result.duplicates} already imported before.`
+          : `${result.imported} tasks imported.`
+      );
+    } catch (error) {
+      console.error('Failed to import calendar:', error);
+      Alert.alert('Import Failed', 'Nothing was changed. Please try again.');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const runImport = async (doc: BackupDocument, importMode: BackupImportMode) => {
+    setBackupBusy(true);
+    try {
+      const result = await importBackup(doc, importMode);
+      Alert.alert(
+        'Backup Imported',
+        result.mode === 'merge' && result.skipped > 0
+          ? `${result.imported} items imported, ${result.skipped} already up to date.`
+          : `${result.imported} items imported.`
+      );
+    } catch (error) {
+      console.error('Failed to import backup:', error);
+      Alert.alert('Import Failed', 'Nothing was changed. Please try again.');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    let doc: BackupDocument;
+    try {
+      const text = await pickBackupText();
+      if (text === null) return;
+      doc = parseBackup(text);
+    } catch (error) {
+      Alert.alert('Cannot Import', error instanceof Error ? error.message : 'Unable to read this file.');
+      return;
+    }
+
+    const summary = [
+      `${countBackupRows(doc, 'collections')} collections`,
+      `${countBackupRows(doc, 'entries')} entries`,
+      `${countBackupRows(doc, 'expenses')} expenses`,
+    ].join(', ');
+
+    Alert.alert(
+      'Import Backup',
+      `${doc.exported_at ? `Backup from ${formatDate(doc.exported_at)}: ` : ''}${summary}.\n\n` +
+        'Merge adds new items and updates older ones. Replace deletes everything on this device first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => runImport(doc, 'merge') },
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: () =>
+            Alert.alert(
+              'Replace All Data?',
+              'Everything on this device, including Trash, is replaced by the backup. This cannot be undone.',
+              [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Replace', style: 'destructive', onPress: () => runImport(doc, 'replace') },
+              ]
+            ),
+        },
+      ]
+    );
+  };
+
+  if (showTrash) {
+    return <TrashScreen onBack={() => setShowTrash(false)} />;
+  }
+
+  if (showTags) {
+    return <TagsScreen onBack={() => setShowTags(false)} />;
+  }
+
+  if (showCurrencies) {
+    return <ExchangeRatesScreen onBack={() => setShowCurrencies(false)} />;
+  }
 
   return (
     <View style={styles.container}>
@@ -65,7 +251,83 @@ export default function SettingsScreen() {
             </View>
           </View>
         </View>
+
+        {/* Data */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>DATA</Text>
+
+          <View style={styles.card}>
+            <LinkRow
+              title="Trash"
+              description="Restore items deleted in the last 30 days."
+              onPress={() => setShowTrash(true)}
+            />
+            <View style={styles.linkDivider} />
+            <LinkRow
+              title="Tags"
+              description="Rename, merge or delete tags."
+              onPress={() => setShowTags(true)}
+            />
+            <View style={styles.linkDivider} />
+            <LinkRow
+              title="Currencies"
+              description="Base currency and exchange rates for expenses."
+              onPress={() => setShowCurrencies(true)}
+            />
+          </View>
+        </View>
+
+        {/* Backup & export */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>BACKUP & EXPORT</Text>
+
+          <View style={styles.card}>
+            <LinkRow
+              title="Export Backup"
+              description="Save everything to a JSON file."
+              onPress={handleExport}
+              disabled={backupBusy}
+            />
+            <View style={styles.linkDivider} />
+            <LinkRow
+              title="Import Backup"
+              description="Restore a backup or bring data from another phone."
+              onPress={handleImport}
+              disabled={backupBusy}
+            />
+            <View style={styles.linkDivider} />
+            <LinkRow
+              title="Export as Markdown"
+              description="All collections as a readable document."
+              onPress={handleExportMarkdown}
+              disabled={backupBusy}
+            />
+            <View style={styles.linkDivider} />
+            <LinkRow
+              title="Export Calendar"
+              description="Tasks with a due date as an .ics file for other calendar apps."
+              onPress={handleExportIcs}
+              disabled={backupBusy}
+            />
+            <View style={styles.linkDivider} />
+            <LinkRow
+              title="Import Calendar"
+              description="Add to-dos and events from an .ics file as tasks."
+              onPress={handleImportIcs}
+              disabled={backupBusy}
+            />
+          </View>
+        </View>
       </ScrollView>
+
+      <IcsImportModal
+        visible={icsImport !== null}
+        onClose={() => setIcsImport(null)}
+        onSubmit={runIcsImport}
+        collections={icsCollections}
+        itemCount={icsImport?.tasks.length ?? 0}
+        skipped={icsImport?.skipped ?? 0}
+      />
     </View>
   );
 }
@@ -108,6 +370,35 @@ function ModeOption({ label, description, value, selected, onSelect }: ModeOptio
   );
 }
 
+// ─── Link Row Component ─────────────────────────────────────────────────────
+
+interface LinkRowProps {
+  title: string;
+  description: string;
+  onPress: () => void;
+  disabled?: boolean;
+}
+
+function LinkRow({ title, description, onPress, disabled }: LinkRowProps) {
+  return (
+    <TouchableOpacity
+      style={[styles.linkRow, disabled && styles.linkRowDisabled]}
+      onPress={onPress}
+      disabled={disabled}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityLabel={title}
+      accessibilityState={{ disabled }}
+    >
+      <View style={styles.linkRowText}>
+        <Text style={styles.linkRowTitle}>{title}</Text>
+        <Text style={styles.linkRowDescription}>{description}</Text>
+      </View>
+      <Text style={styles.linkRowChevron}>›</Text>
+    </TouchableOpacity>
+  );
+}
+
 // ─── Mode Preview Thumbnail ─────────────────────────────────────────────────
 
 function ModePreview({ mode }: { mode: NotebookMode }) {
@@ -258,6 +549,45 @@ const styles = StyleSheet.create({
     backgroundColor: colors.accentPrimary,
   },
 
+  // Link rows (Data section)
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 44,
+  },
+
+  linkRowDisabled: {
+    opacity: 0.5,
+  },
+
+  linkRowText: {
+    flex: 1,
+  },
+
+  linkDivider: {
+    height: 1,
+    backgroundColor: colors.divider,
+    marginVertical: 8,
+  },
+
+  linkRowTitle: {
+    ...typography.cardTitle,
+    color: colors.textPrimary,
+    marginBottom: 2,
+  },
+
+  linkRowDescription: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+
+  linkRowChevron: {
+    fontSize: 22,
+    color: colors.textMuted,
+    marginLeft: 12,
+  },
+
   // Preview thumbnail
   previewContainer: {
     width: 56,
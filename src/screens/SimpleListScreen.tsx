@@ -0,0 +1,475 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import DraggableFlatList, { RenderItemParams, ScaleDecorator } from 'react-native-draggable-flatlist';
+import {
+  getCollectionItems,
+  createCollectionItem,
+  toggleCollectionItem,
+  updateCollectionItemText,
+  updateCollectionItemPositions,
+  deleteCollectionItem,
+  clearCheckedCollectionItems,
+} from '../db/operations';
+import { VALIDATION } from '../utils/validation';
+import type { Collection, CollectionItem } from '../types/models';
+
+interface SimpleListScreenProps {
+  collection: Collection;
+  onBack: () => void;
+}
+
+/**
+ * SimpleListScreen
+ *
+ * A collection in simple list mode (is_simple_list): one-line items for
+ * shopping and packing lists, without creating task entries
+ *
+ * Features:
+ * - Add items from the input at the bottom (stays focused for quick entry)
+ * - Tap the circle to check / uncheck an item
+ * - Tap the text to edit it inline; saving it empty removes the item
+ * - Long-press an item and drag to reorder (collection_items.position)
+ * - "Clear checked" removes every checked item
+ *
+ * Navigation:
+ * - Shown by CollectionsScreen instead of the entries list
+ * - The collection's entries are kept; switch back from its ⋯ menu
+ */
+export default function SimpleListScreen({ collection, onBack }: SimpleListScreenProps) {
+  const [items, setItems] = useState<CollectionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Item editing
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [editingItemText, setEditingItemText] = useState('');
+
+  // New item input
+  const [newItemText, setNewItemText] = useState('');
+
+  const loadItems = useCallback(async () => {
+    try {
+      setItems(await getCollectionItems(collection.id));
+    } catch (error) {
+      console.error('Failed to load list items:', error);
+      Alert.alert('Error', 'Unable to load list');
+    } finally {
+      setLoading(false);
+    }
+  }, [collection.id]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadItems();
+    setRefreshing(false);
+  };
+
+  const checkedCount = items.filter(item => item.checked).length;
+
+  const handleToggleItem = async (item: CollectionItem) => {
+    // Check off right away; shopping lists are ticked quickly
+    setItems(current =>
+      current.map(i => (i.id === item.id ? { ...i, checked: !item.checked } : i))
+    );
+
+    try {
+      await toggleCollectionItem(item.id, item.checked);
+    } catch (error) {
+      console.error('Failed to toggle list item:', error);
+      Alert.alert('Error', 'Unable to update item');
+      await loadItems();
+    }
+  };
+
+  const handleStartEditItem = (item: CollectionItem) => {
+    setEditingItemId(item.id);
+    setEditingItemText(item.text);
+  };
+
+  const handleSaveEditItem = async (item: CollectionItem) => {
+    const trimmed = editingItemText.trim();
+    setEditingItemId(null);
+    setEditingItemText('');
+
+    if (trimmed === item.text) return;
+
+    try {
+      if (trimmed) {
+        await updateCollectionItemText(item.id, trimmed);
+      } else {
+        await deleteCollectionItem(item.id);
+      }
+      await loadItems();
+    } catch (error) {
+      console.error('Failed to update list item:', error);
+      Alert.alert('Error', 'Unable to update item');
+    }
+  };
+
+  const handleAddItem = async () => {
+    const trimmed = newItemText.trim();
+
+    if (!trimmed) {
+      return; // Silently ignore empty input
+    }
+
+    try {
+      await createCollectionItem(collection.id, trimmed);
+      setNewItemText('');
+      await loadItems();
+    } catch (error) {
+      console.error('Failed to add list item:', error);
+      Alert.alert('Error', 'Unable to add item');
+    }
+  };
+
+  const handleClearChecked = () => {
+    Alert.alert(
+      'Clear Checked',
+      `Remove ${checkedCount} checked ${checkedCount === 1 ? 'item' : 'items'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await clearCheckedCollectionItems(collection.id);
+              await loadItems();
+            } catch (error) {
+              console.error('Failed to clear checked items:', error);
+              Alert.alert('Error', 'Unable to clear checked items');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDragEnd = async ({ data, from, to }: {
+    data: CollectionItem[];
+    from: number;
+    to: number;
+  }) => {
+    // No change if dropped in same position
+    if (from === to) {
+      return;
+    }
+
+    // Optimistically update UI
+    setItems(data);
+
+    try {
+      await updateCollectionItemPositions(
+        data.map((item, index) => ({ id: item.id, position: index }))
+      );
+    } catch (error) {
+      console.error('❌ Failed to persist list order:', error);
+      Alert.alert('Error', 'Unable to save new order. Changes reverted.');
+      await loadItems();
+    }
+  };
+
+  const renderItem = ({ item, drag, isActive }: RenderItemParams<CollectionItem>) => {
+    if (editingItemId === item.id) {
+      return (
+        <View style={styles.itemRow}>
+          <View style={styles.checkboxPlaceholder} />
+          <TextInput
+            style={styles.editInput}
+            value={editingItemText}
+            onChangeText={setEditingItemText}
+            onBlur={() => handleSaveEditItem(item)}
+            onSubmitEditing={() => handleSaveEditItem(item)}
+            autoFocus
+            returnKeyType="done"
+          />
+        </View>
+      );
+    }
+
+    return (
+      <ScaleDecorator>
+        <TouchableOpacity
+          style={[styles.itemRow, isActive && styles.itemRowDragging]}
+          onLongPress={drag}
+          delayLongPress={VALIDATION.DELAYS.LONG_PRESS_DRAG}
+          disabled={isActive}
+          activeOpacity={1}
+        >
+          {/* Checkbox - tap to toggle */}
+          <TouchableOpacity
+            style={[styles.checkbox, item.checked && styles.checkboxChecked]}
+            onPress={() => handleToggleItem(item)}
+            activeOpacity={0.7}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: item.checked }}
+            accessibilityLabel={item.text}
+          >
+            {item.checked && <Text style={styles.checkmark}>✓</Text>}
+          </TouchableOpacity>
+
+          {/* Text - tap to edit, long press to drag */}
+          <TouchableOpacity
+            style={styles.itemContent}
+            onPress={() => handleStartEditItem(item)}
+            onLongPress={drag}
+            delayLongPress={VALIDATION.DELAYS.LONG_PRESS_DRAG}
+            activeOpacity={0.7}
+          >
+            <Text
+              style={[styles.itemText, item.checked && styles.itemTextChecked]}
+              numberOfLines={1}
+            >
+              {item.text}
+            </Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </ScaleDecorator>
+    );
+  };
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyText}>No items yet</Text>
+      <Text style={styles.emptySubtext}>Add items below to get started</Text>
+    </View>
+  );
+
+  const title = `${collection.icon ? `${collection.icon} ` : ''}${collection.name}`;
+
+  return (
+    <View style={styles.container}>
+      {/* Header with back button and clear action */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+
+        <View style={styles.titleRow}>
+          <Text style={styles.title} numberOfLines={1}>{title}</Text>
+          {checkedCount > 0 && (
+            <TouchableOpacity onPress={handleClearChecked} style={styles.clearButton}>
+              <Text style={styles.clearButtonText}>Clear checked</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {items.length > 0 && (
+          <Text style={styles.subtitle}>
+            {checkedCount} of {items.length} checked
+          </Text>
+        )}
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading…</Text>
+        </View>
+      ) : (
+        <DraggableFlatList
+          data={items}
+          renderItem={renderItem}
+          keyExtractor={item => item.id}
+          onDragEnd={handleDragEnd}
+          containerStyle={styles.list}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={renderEmpty}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              tintColor="#3b82f6"
+              colors={['#3b82f6']}
+            />
+          }
+        />
+      )}
+
+      {/* Add item input */}
+      <View style={styles.addItemContainer}>
+        <TextInput
+          style={styles.addItemInput}
+          placeholder="+ Add item"
+          value={newItemText}
+          onChangeText={setNewItemText}
+          onSubmitEditing={handleAddItem}
+          submitBehavior="submit"
+          returnKeyType="done"
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    flex: 1,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  clearButton: {
+    paddingVertical: 8,
+    paddingLeft: 12,
+  },
+  clearButtonText: {
+    fontSize: 15,
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  itemRow: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginBottom: 6,
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 48,
+  },
+  itemRowDragging: {
+    backgroundColor: '#eff6ff',
+    elevation: 4,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#d1d5db',
+    marginRight: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: '#10b981',
+    borderColor: '#10b981',
+  },
+  checkboxPlaceholder: {
+    width: 24,
+    height: 24,
+    marginRight: 12,
+  },
+  checkmark: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  itemContent: {
+    flex: 1,
+    alignSelf: 'stretch',
+    justifyContent: 'center',
+  },
+  itemText: {
+    fontSize: 16,
+    color: '#1a1a1a',
+  },
+  itemTextChecked: {
+    textDecorationLine: 'line-through',
+    color: '#9ca3af',
+  },
+  editInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#3b82f6',
+    borderRadius: 6,
+    padding: 8,
+    marginVertical: 4,
+    backgroundColor: '#fff',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#9ca3af',
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+  addItemContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    padding: 16,
+  },
+  addItemInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    minHeight: 48,
+  },
+});
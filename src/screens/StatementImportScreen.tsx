@@ -0,0 +1,698 @@
+/**
+ * StatementImportScreen
+ *
+ * Import a bank statement CSV into expenses. Opened from ExpensesScreen.
+ *
+ * - Pick a file, then map its columns (guessed from the header row)
+ * - Saved profiles keep one bank's mapping: tap to apply, long press to delete
+ * - The preview shows what will be imported; rows already in expenses
+ *   (same day, amount and merchant) are dimmed and skipped
+ * - Income rows are skipped by sign (utils/statement.ts)
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import Chip from '../components/Chip';
+import InputModal from '../components/InputModal';
+import SelectionMenu, { SelectionOption } from '../components/SelectionMenu';
+import {
+  getImportProfiles,
+  saveImportProfile,
+  deleteImportProfile,
+  getExpenses,
+  getBaseCurrency,
+  importStatementExpenses,
+} from '../db/operations';
+import { pickCsvText } from '../backup/files';
+import { parseCsv } from '../utils/csv';
+import { applyMapping, guessMapping, findDuplicates } from '../utils/statement';
+import { EXPENSE_CURRENCIES, DEFAULT_CURRENCY, formatExpenseDay } from '../utils/expenses';
+import { formatCurrency } from '../utils/formatting';
+import {
+  colors,
+  spacing,
+  typography,
+  borderRadius,
+} from '../theme/tokens';
+import type { ImportProfile, StatementMapping } from '../types/models';
+
+interface StatementImportScreenProps {
+  onBack: () => void;
+}
+
+type ColumnField = 'date_column' | 'amount_column' | 'merchant_column' | 'note_column' | 'currency_column';
+
+// Mapping while it's being edited - date and amount may not be picked yet
+type DraftMapping = Omit<StatementMapping, 'date_column' | 'amount_column'> & {
+  date_column?: number;
+  amount_column?: number;
+};
+
+const COLUMN_FIELDS: { field: ColumnField; label: string; required: boolean }[] = [
+  { field: 'date_column', label: 'Date', required: true },
+  { field: 'amount_column', label: 'Amount', required: true },
+  { field: 'merchant_column', label: 'Merchant', required: false },
+  { field: 'note_column', label: 'Note', required: false },
+  { field: 'currency_column', label: 'Currency', required: false },
+];
+
+// Preview is for checking the mapping, not for reading the whole statement
+const PREVIEW_LIMIT = 50;
+
+const NOT_MAPPED = -1;
+
+export default function StatementImportScreen({ onBack }: StatementImportScreenProps) {
+  const [csvRows, setCsvRows] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<DraftMapping>({
+    has_header: true,
+    default_currency: DEFAULT_CURRENCY,
+    expenses_negative: true,
+  });
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [existing, setExisting] = useState<{ transaction_date: number; amount: number; merchant_name?: string }[]>([]);
+  const [pickingField, setPickingField] = useState<ColumnField | null>(null);
+  const [profileModalVisible, setProfileModalVisible] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      setProfiles(await getImportProfiles());
+    } catch (error) {
+      console.error('Failed to load import profiles:', error);
+      Alert.alert('Error', 'Unable to load import profiles');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  // Statements without a currency column are usually in the base currency
+  useEffect(() => {
+    getBaseCurrency()
+      .then(base => setMapping(prev => ({ ...prev, default_currency: base })))
+      .catch(error => console.error('Failed to load base currency:', error));
+  }, []);
+
+  const isMapped = mapping.date_column !== undefined && mapping.amount_column !== undefined;
+
+  const parsed = useMemo(() => {
+    if (!csvRows || mapping.date_column === undefined || mapping.amount_column === undefined) {
+      return null;
+    }
+    return applyMapping(csvRows, {
+      ...mapping,
+      date_column: mapping.date_column,
+      amount_column: mapping.amount_column,
+    });
+  }, [csvRows, mapping]);
+
+  // Load the expenses the statement could overlap, for the duplicate preview
+  useEffect(() => {
+    if (!parsed || parsed.rows.length === 0) {
+      setExisting([]);
+      return;
+    }
+
+    const dates = parsed.rows.map(row => row.transaction_date);
+    getExpenses({ from: Math.min(...dates), to: Math.max(...dates) + 24 * 60 * 60 * 1000 })
+      .then(setExisting)
+      .catch(error => console.error('Failed to load expenses for duplicate check:', error));
+  }, [parsed]);
+
+  const duplicates = useMemo(
+    () => (parsed ? findDuplicates(parsed.rows, existing) : new Set<number>()),
+    [parsed, existing]
+  );
+
+  const newCount = parsed ? parsed.rows.length - duplicates.size : 0;
+  const incomeCount = parsed ? parsed.skipped.filter(row => row.reason === 'income').length : 0;
+  const invalidCount = parsed ? parsed.skipped.filter(row => row.reason === 'invalid').length : 0;
+
+  const columnCount = csvRows ? Math.max(0, ...csvRows.map(row => row.length)) : 0;
+
+  const getColumnLabel = (column: number): string => {
+    const name = mapping.has_header ? csvRows?.[0]?.[column] : undefined;
+    return name || `Column ${column + 1}`;
+  };
+
+  const handlePickFile = async () => {
+    setBusy(true);
+    try {
+      const text = await pickCsvText();
+      if (text === null) return;
+
+      const rows = parseCsv(text);
+      if (rows.length === 0) {
+        Alert.alert('Nothing to Import', 'The file has no rows.');
+        return;
+      }
+
+      setCsvRows(rows);
+
+      // A chosen profile keeps its mapping; otherwise guess from the header
+      if (!profileId) {
+        const guess = guessMapping(rows[0]);
+        const hasHeader = guess.date_column !== undefined || guess.amount_column !== undefined;
+        setMapping(prev => ({
+          ...prev,
+          ...(hasHeader ? guess : {}),
+          has_header: hasHeader,
+        }));
+      }
+    } catch (error) {
+      console.error('Failed to read statement:', error);
+      Alert.alert('Import Failed', 'Unable to read the file. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSelectProfile = (profile: ImportProfile) => {
+    if (profileId === profile.id) {
+      setProfileId(null);
+      return;
+    }
+
+    setProfileId(profile.id);
+    setMapping({
+      has_header: profile.has_header,
+      date_column: profile.date_column,
+      amount_column: profile.amount_column,
+      merchant_column: profile.merchant_column,
+      note_column: profile.note_column,
+      currency_column: profile.currency_column,
+      default_currency: profile.default_currency,
+      expenses_negative: profile.expenses_negative,
+    });
+  };
+
+  const handleDeleteProfile = (profile: ImportProfile) => {
+    Alert.alert(
+      'Delete Profile',
+      `Delete the "${profile.name}" mapping?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteImportProfile(profile.id);
+              if (profileId === profile.id) {
+                setProfileId(null);
+              }
+              await loadProfiles();
+            } catch (error) {
+              console.error('Failed to delete import profile:', error);
+              Alert.alert('Error', 'Unable to delete the profile. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleOpenSaveProfile = () => {
+    setProfileName(profiles.find(profile => profile.id === profileId)?.name ?? '');
+    setProfileModalVisible(true);
+  };
+
+  // Saving under the selected profile's name updates it; a new name adds a profile
+  const handleSaveProfile = async () => {
+    if (mapping.date_column === undefined || mapping.amount_column === undefined) return;
+
+    const selected = profiles.find(profile => profile.id === profileId);
+    const name = profileName.trim();
+
+    try {
+      const id = await saveImportProfile({
+        ...mapping,
+        date_column: mapping.date_column,
+        amount_column: mapping.amount_column,
+        id: selected && selected.name === name ? selected.id : undefined,
+        name,
+      });
+      setProfileId(id);
+      setProfileModalVisible(false);
+      await loadProfiles();
+    } catch (error: any) {
+      console.error('Failed to save import profile:', error);
+      Alert.alert('Error', error?.message ?? 'Unable to save the profile. Please try again.');
+    }
+  };
+
+  const handleSelectColumn = (value: number) => {
+    if (!pickingField) return;
+
+    setMapping(prev => ({
+      ...prev,
+      [pickingField]: value === NOT_MAPPED ? undefined : value,
+    }));
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+
+    setBusy(true);
+    try {
+      const result = await importStatementExpenses(parsed.rows);
+
+      const lines = [`${result.imported} ${result.imported === 1 ? 'expense' : 'expenses'} added.`];
+      if (result.duplicates > 0) {
+        lines.push(`${result.duplicates} already imported, skipped.`);
+      }
+      Alert.alert('Statement Imported', lines.join('\n'), [{ text: 'OK', onPress: onBack }]);
+    } catch (error) {
+      console.error('Failed to import statement:', error);
+      Alert.alert('Import Failed', 'Nothing was imported. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const columnOptions: SelectionOption[] = [
+    ...(COLUMN_FIELDS.find(({ field }) => field === pickingField)?.required
+      ? []
+      : [{ label: 'Not used', value: NOT_MAPPED }]),
+    ...Array.from({ length: columnCount }, (_, column) => ({
+      label: getColumnLabel(column),
+      value: column,
+      description: csvRows?.[mapping.has_header ? 1 : 0]?.[column] || undefined,
+    })),
+  ];
+
+  const currencies = EXPENSE_CURRENCIES.includes(mapping.default_currency)
+    ? EXPENSE_CURRENCIES
+    : [...EXPENSE_CURRENCIES, mapping.default_currency];
+
+  const renderProfiles = () => (
+    <View>
+      <Text style={styles.sectionHeader}>PROFILES</Text>
+      <View style={styles.card}>
+        {profiles.length === 0 ? (
+          <Text style={styles.cardDescription}>
+            Save a mapping as a profile to reuse it for next month's statement.
+          </Text>
+        ) : (
+          <View style={styles.chipRow}>
+            {profiles.map(profile => (
+              <Chip
+                key={profile.id}
+                label={profile.name}
+                selected={profileId === profile.id}
+                onPress={() => handleSelectProfile(profile)}
+                onLongPress={() => handleDeleteProfile(profile)}
+              />
+            ))}
+          </View>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderMapping = () => (
+    <View>
+      <View style={styles.sectionRow}>
+        <Text style={styles.sectionHeader}>COLUMNS</Text>
+        <TouchableOpacity onPress={handleOpenSaveProfile} disabled={!isMapped}>
+          <Text style={[styles.link, !isMapped && styles.disabled]}>Save as Profile</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        {COLUMN_FIELDS.map(({ field, label }) => {
+          const column = mapping[field];
+          return (
+            <TouchableOpacity
+              key={field}
+              style={styles.mappingRow}
+              onPress={() => setPickingField(field)}
+              accessibilityRole="button"
+            >
+              <Text style={styles.mappingLabel}>{label}</Text>
+              <Text style={[styles.mappingValue, column === undefined && styles.mappingUnset]}>
+                {column === undefined ? 'Not used' : getColumnLabel(column)} ›
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+
+        <Text style={styles.optionLabel}>First row</Text>
+        <View style={styles.chipRow}>
+          <Chip
+            label="Column names"
+            selected={mapping.has_header}
+            onPress={() => setMapping(prev => ({ ...prev, has_header: true }))}
+          />
+          <Chip
+            label="A transaction"
+            selected={!mapping.has_header}
+            onPress={() => setMapping(prev => ({ ...prev, has_header: false }))}
+          />
+        </View>
+
+        <Text style={styles.optionLabel}>Spending is shown as</Text>
+        <View style={styles.chipRow}>
+          <Chip
+            label="−12.50"
+            selected={mapping.expenses_negative}
+            onPress={() => setMapping(prev => ({ ...prev, expenses_negative: true }))}
+          />
+          <Chip
+            label="12.50"
+            selected={!mapping.expenses_negative}
+            onPress={() => setMapping(prev => ({ ...prev, expenses_negative: false }))}
+          />
+        </View>
+
+        <Text style={styles.optionLabel}>
+          {mapping.currency_column === undefined ? 'Currency' : 'Currency when the column is empty'}
+        </Text>
+        <View style={styles.chipRow}>
+          {currencies.map(code => (
+            <Chip
+              key={code}
+              label={code}
+              selected={mapping.default_currency === code}
+              onPress={() => setMapping(prev => ({ ...prev, default_currency: code }))}
+            />
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+
+  const renderPreview = () => {
+    if (!parsed) {
+      return (
+        <Text style={styles.hint}>Pick the date and amount columns to see the preview.</Text>
+      );
+    }
+
+    const summary = [`${newCount} new`];
+    if (duplicates.size > 0) summary.push(`${duplicates.size} already imported`);
+    if (incomeCount > 0) summary.push(`${incomeCount} income`);
+    if (invalidCount > 0) summary.push(`${invalidCount} unreadable`);
+
+    return (
+      <View>
+        <Text style={styles.sectionHeader}>PREVIEW</Text>
+        <Text style={styles.summary}>{summary.join(' · ')}</Text>
+
+        {parsed.rows.slice(0, PREVIEW_LIMIT).map(row => {
+          const isDuplicate = duplicates.has(row.line);
+          return (
+            <View key={row.line} style={[styles.row, isDuplicate && styles.rowDuplicate]}>
+              <View style={styles.rowContent}>
+                <Text style={styles.rowTitle} numberOfLines={1}>
+                  {row.merchant_name || row.note || 'Expense'}
+                </Text>
+                <Text style={styles.rowMeta}>
+                  {formatExpenseDay(row.transaction_date)}
+                  {isDuplicate ? ' · already imported' : ''}
+                </Text>
+              </View>
+              <Text style={styles.rowAmount}>{formatCurrency(row.amount, row.currency)}</Text>
+            </View>
+          );
+        })}
+
+        {parsed.rows.length > PREVIEW_LIMIT && (
+          <Text style={styles.hint}>+{parsed.rows.length - PREVIEW_LIMIT} more</Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Import Statement</Text>
+        <Text style={styles.subtitle}>CSV export from your bank</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.listContent}>
+        <TouchableOpacity
+          style={[styles.fileButton, busy && styles.disabled]}
+          onPress={handlePickFile}
+          disabled={busy}
+          accessibilityRole="button"
+        >
+          <Text style={styles.fileButtonText}>
+            {csvRows ? `${csvRows.length} rows · Choose Another File` : 'Choose CSV File'}
+          </Text>
+        </TouchableOpacity>
+
+        {renderProfiles()}
+        {csvRows && renderMapping()}
+        {csvRows && renderPreview()}
+      </ScrollView>
+
+      {csvRows && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.importButton, (busy || newCount === 0) && styles.disabled]}
+            onPress={handleImport}
+            disabled={busy || newCount === 0}
+            accessibilityRole="button"
+          >
+            <Text style={styles.importButtonText}>
+              Import {newCount} {newCount === 1 ? 'Expense' : 'Expenses'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <SelectionMenu
+        visible={pickingField !== null}
+        onClose={() => setPickingField(null)}
+        title={COLUMN_FIELDS.find(({ field }) => field === pickingField)?.label}
+        options={columnOptions}
+        onSelect={handleSelectColumn}
+        selectedValue={pickingField ? mapping[pickingField] ?? NOT_MAPPED : undefined}
+      />
+
+      <InputModal
+        visible={profileModalVisible}
+        onClose={() => setProfileModalVisible(false)}
+        title="Save Profile"
+        placeholder="Bank name"
+        value={profileName}
+        onChangeText={setProfileName}
+        onSubmit={handleSaveProfile}
+        selectTextOnFocus
+      />
+    </View>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.paperBackground,
+  },
+
+  header: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 12,
+    paddingBottom: 16,
+  },
+
+  backButton: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+
+  backButtonText: {
+    fontSize: 16,
+    color: colors.accentPrimary,
+    fontWeight: '600',
+  },
+
+  title: {
+    ...typography.pageTitle,
+    color: colors.textPrimary,
+  },
+
+  subtitle: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  listContent: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingBottom: 100,
+  },
+
+  fileButton: {
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 16,
+    minHeight: spacing.minTouchTarget,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  fileButtonText: {
+    ...typography.link,
+    color: colors.accentPrimary,
+  },
+
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+
+  sectionHeader: {
+    ...typography.sectionTitle,
+    color: colors.textSecondary,
+    paddingTop: 8,
+    paddingBottom: 8,
+  },
+
+  link: {
+    ...typography.link,
+    color: colors.accentPrimary,
+  },
+
+  disabled: {
+    opacity: 0.4,
+  },
+
+  card: {
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 16,
+  },
+
+  cardDescription: {
+    ...typography.meta,
+    color: colors.textSecondary,
+  },
+
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+
+  mappingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    minHeight: spacing.minTouchTarget,
+  },
+
+  mappingLabel: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+
+  mappingValue: {
+    ...typography.body,
+    color: colors.accentPrimary,
+    flexShrink: 1,
+    marginLeft: 12,
+  },
+
+  mappingUnset: {
+    color: colors.textMuted,
+  },
+
+  optionLabel: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+
+  summary: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+
+  hint: {
+    ...typography.meta,
+    color: colors.textMuted,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 8,
+  },
+
+  rowDuplicate: {
+    opacity: 0.4,
+  },
+
+  rowContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+
+  rowTitle: {
+    ...typography.body,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+
+  rowMeta: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+
+  rowAmount: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+
+  footer: {
+    position: 'absolute',
+    left: spacing.screenPadding,
+    right: spacing.screenPadding,
+    bottom: 20,
+  },
+
+  importButton: {
+    backgroundColor: colors.accentPrimary,
+    borderRadius: borderRadius.button,
+    paddingVertical: 14,
+    alignItems: 'center',
+    minHeight: spacing.minTouchTarget,
+    justifyContent: 'center',
+  },
+
+  importButtonText: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.backgroundCard,
+  },
+});
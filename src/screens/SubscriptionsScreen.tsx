@@ -0,0 +1,467 @@
+/**
+ * SubscriptionsScreen
+ *
+ * Recurring expenses (rent, phone, streaming...). Opened from ExpensesScreen.
+ *
+ * - Each template logs an expense on its charge dates; charges missed while
+ *   the app was closed are caught up on start (generateDueRecurringExpenses)
+ * - Header: what the active templates cost per month and per year, in the
+ *   base currency (templates without a rate keep their own currency)
+ * - Rows: schedule, next charge date, monthly / annual cost
+ * - Paused templates log nothing; resuming skips the missed charges
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  Alert,
+  Platform,
+  ActionSheetIOS,
+} from 'react-native';
+import ActionMenu, { ActionMenuItem } from '../components/ActionMenu';
+import RecurringExpenseModal from '../components/RecurringExpenseModal';
+import {
+  getRecurringExpenses,
+  saveRecurringExpense,
+  setRecurringExpensePaused,
+  deleteRecurringExpense,
+  generateDueRecurringExpenses,
+  getBudgetCategories,
+  getBaseCurrency,
+  getExchangeRates,
+  RecurringExpenseWithCategory,
+} from '../db/operations';
+import { getAnnualCost, getMonthlyCost } from '../utils/subscriptions';
+import { describeRepeatRule } from '../utils/recurrence';
+import { sumInCurrency, formatConvertedTotal } from '../utils/currency';
+import { DEFAULT_CURRENCY, formatExpenseDay } from '../utils/expenses';
+import { formatCurrency } from '../utils/formatting';
+import {
+  colors,
+  spacing,
+  typography,
+  borderRadius,
+  elevation,
+  sizes,
+} from '../theme/tokens';
+import type { BudgetCategory, CreateRecurringExpense, ExchangeRate } from '../types/models';
+
+interface SubscriptionsScreenProps {
+  onBack: () => void;
+}
+
+export default function SubscriptionsScreen({ onBack }: SubscriptionsScreenProps) {
+  const [templates, setTemplates] = useState<RecurringExpenseWithCategory[]>([]);
+  const [categories, setCategories] = useState<BudgetCategory[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<RecurringExpenseWithCategory | null>(null);
+  const [actionMenuTemplate, setActionMenuTemplate] = useState<RecurringExpenseWithCategory | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const [allTemplates, activeCategories, base, allRates] = await Promise.all([
+        getRecurringExpenses(),
+        getBudgetCategories(),
+        getBaseCurrency(),
+        getExchangeRates(),
+      ]);
+      setTemplates(allTemplates);
+      setCategories(activeCategories);
+      setBaseCurrency(base);
+      setRates(allRates);
+    } catch (error) {
+      console.error('Failed to load recurring expenses:', error);
+      Alert.alert('Error', 'Unable to load recurring expenses');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  // Costs of the active templates, converted with today's rates
+  const totals = useMemo(() => {
+    const now = Date.now();
+    const active = templates.filter(template => !template.is_paused);
+    const toItems = (getCost: (amount: number, rule: string) => number) =>
+      active.map(template => ({
+        amount: getCost(template.amount, template.repeat_rule),
+        currency: template.currency,
+        transaction_date: now,
+      }));
+
+    return {
+      monthly: sumInCurrency(toItems(getMonthlyCost), baseCurrency, rates),
+      annual: sumInCurrency(toItems(getAnnualCost), baseCurrency, rates),
+    };
+  }, [templates, baseCurrency, rates]);
+
+  const handleSubmit = async (payload: CreateRecurringExpense) => {
+    try {
+      await saveRecurringExpense({ ...payload, id: editingTemplate?.id });
+      // A first charge today or earlier is logged right away
+      await generateDueRecurringExpenses();
+      await loadTemplates();
+    } catch (error: any) {
+      console.error('Failed to save recurring expense:', error);
+      Alert.alert('Error', error?.message ?? 'Unable to save recurring expense. Please try again.');
+    }
+  };
+
+  const handleTogglePaused = async (template: RecurringExpenseWithCategory) => {
+    try {
+      await setRecurringExpensePaused(template.id, !template.is_paused);
+      await generateDueRecurringExpenses();
+      await loadTemplates();
+    } catch (error) {
+      console.error('Failed to pause recurring expense:', error);
+      Alert.alert('Error', 'Unable to update recurring expense. Please try again.');
+    }
+  };
+
+  const handleDelete = (template: RecurringExpenseWithCategory) => {
+    Alert.alert(
+      'Delete Recurring Expense',
+      `Stop logging "${template.name}"? Expenses already logged are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteRecurringExpense(template.id);
+              await loadTemplates();
+            } catch (error) {
+              console.error('Failed to delete recurring expense:', error);
+              Alert.alert('Error', 'Unable to delete recurring expense. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const getTemplateActionItems = (template: RecurringExpenseWithCategory): ActionMenuItem[] => [
+    {
+      label: 'Edit',
+      onPress: () => {
+        setEditingTemplate(template);
+        setModalVisible(true);
+      },
+    },
+    {
+      label: template.is_paused ? 'Resume' : 'Pause',
+      onPress: () => handleTogglePaused(template),
+    },
+    { label: 'Delete', onPress: () => handleDelete(template), destructive: true },
+  ];
+
+  const handleTemplatePress = (template: RecurringExpenseWithCategory) => {
+    if (Platform.OS === 'ios') {
+      const items = getTemplateActionItems(template);
+      ActionSheetIOS.showActionSheetWithOptions(
+        {
+          title: template.name,
+          options: ['Cancel', ...items.map(item => item.label)],
+          cancelButtonIndex: 0,
+          destructiveButtonIndex: items.length,
+        },
+        (buttonIndex) => {
+          if (buttonIndex > 0 && buttonIndex <= items.length) {
+            items[buttonIndex - 1].onPress();
+          }
+        }
+      );
+    } else {
+      // Android: Use custom ActionMenu (Alert is limited to 3 buttons)
+      setActionMenuTemplate(template);
+    }
+  };
+
+  const renderHeader = () => (
+    <View style={styles.totalsCard}>
+      <View style={styles.totalsColumn}>
+        <Text style={styles.totalsLabel}>Per month</Text>
+        <Text style={styles.totalsValue}>{formatConvertedTotal(totals.monthly)}</Text>
+      </View>
+      <View style={styles.totalsColumn}>
+        <Text style={styles.totalsLabel}>Per year</Text>
+        <Text style={styles.totalsValue}>{formatConvertedTotal(totals.annual)}</Text>
+      </View>
+    </View>
+  );
+
+  const renderItem = ({ item }: { item: RecurringExpenseWithCategory }) => {
+    const meta = [
+      describeRepeatRule(item.repeat_rule),
+      item.category_name ? `${item.category_icon ? `${item.category_icon} ` : ''}${item.category_name}` : null,
+    ].filter(Boolean).join(' · ');
+
+    return (
+      <TouchableOpacity
+        style={[styles.row, item.is_paused && styles.pausedRow]}
+        onPress={() => handleTemplatePress(item)}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel={`${item.name}, ${formatCurrency(item.amount, item.currency)}, ${describeRepeatRule(item.repeat_rule)}`}
+      >
+        <View style={styles.rowText}>
+          <Text style={styles.rowTitle} numberOfLines={1}>{item.name}</Text>
+          <Text style={styles.rowMeta} numberOfLines={1}>{meta}</Text>
+          <Text style={styles.rowMeta}>
+            {item.is_paused ? 'Paused' : `Next charge ${formatExpenseDay(item.next_due_date)}`}
+          </Text>
+        </View>
+        <View style={styles.rowAmounts}>
+          <Text style={styles.rowAmount}>{formatCurrency(item.amount, item.currency)}</Text>
+          <Text style={styles.rowCost}>
+            {formatCurrency(getMonthlyCost(item.amount, item.repeat_rule), item.currency)} / mo
+          </Text>
+          <Text style={styles.rowCost}>
+            {formatCurrency(getAnnualCost(item.amount, item.repeat_rule), item.currency)} / yr
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyText}>No recurring expenses</Text>
+      <Text style={styles.emptySubtext}>
+        Tap + to add rent, bills or a subscription;{'\n'}they are logged as they come due
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Recurring</Text>
+        <Text style={styles.subtitle}>Subscriptions and bills, logged on their charge dates</Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading…</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={templates}
+          keyExtractor={template => template.id}
+          renderItem={renderItem}
+          ListHeaderComponent={templates.length > 0 ? renderHeader : undefined}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+
+      <TouchableOpacity
+        style={styles.fab}
+        onPress={() => {
+          setEditingTemplate(null);
+          setModalVisible(true);
+        }}
+        activeOpacity={0.8}
+        accessibilityLabel="New recurring expense"
+      >
+        <Text style={styles.fabText}>+</Text>
+      </TouchableOpacity>
+
+      {actionMenuTemplate && (
+        <ActionMenu
+          visible={!!actionMenuTemplate}
+          onClose={() => setActionMenuTemplate(null)}
+          title={actionMenuTemplate.name}
+          items={getTemplateActionItems(actionMenuTemplate)}
+        />
+      )}
+
+      <RecurringExpenseModal
+        visible={modalVisible}
+        onClose={() => {
+          setModalVisible(false);
+          setEditingTemplate(null);
+        }}
+        onSubmit={handleSubmit}
+        categories={categories}
+        template={editingTemplate}
+        defaultCurrency={baseCurrency}
+      />
+    </View>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.paperBackground,
+  },
+
+  header: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 12,
+    paddingBottom: 16,
+  },
+
+  backButton: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+
+  backButtonText: {
+    fontSize: 16,
+    color: colors.accentPrimary,
+    fontWeight: '600',
+  },
+
+  title: {
+    ...typography.pageTitle,
+    color: colors.textPrimary,
+  },
+
+  subtitle: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  loadingText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+
+  listContent: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingBottom: 100,
+  },
+
+  totalsCard: {
+    flexDirection: 'row',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 16,
+    gap: 16,
+  },
+
+  totalsColumn: {
+    flex: 1,
+  },
+
+  totalsLabel: {
+    ...typography.meta,
+    color: colors.textSecondary,
+  },
+
+  totalsValue: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginTop: 4,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 8,
+    minHeight: spacing.minTouchTarget,
+  },
+
+  pausedRow: {
+    opacity: 0.6,
+  },
+
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+
+  rowTitle: {
+    ...typography.body,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+
+  rowMeta: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  rowAmounts: {
+    alignItems: 'flex-end',
+  },
+
+  rowAmount: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+
+  rowCost: {
+    ...typography.meta,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+  },
+
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textMuted,
+    marginBottom: 8,
+  },
+
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.textMuted,
+    textAlign: 'center',
+  },
+
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    ...sizes.fab,
+    borderRadius: borderRadius.fab,
+    backgroundColor: colors.fabBackground,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...elevation.fab,
+  },
+
+  fabText: {
+    ...typography.fabIcon,
+    color: colors.fabIcon,
+  },
+});
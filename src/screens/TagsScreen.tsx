@@ -0,0 +1,388 @@
+/**
+ * TagsScreen
+ *
+ * Lists every tag with the number of entries using it. Opened from SettingsScreen.
+ *
+ * - Rename: every entry using the tag shows the new name
+ *   (renaming to an existing tag's name offers to merge the two)
+ * - Merge into…: entries move to another tag, this one is removed
+ * - Delete: the tag is removed from its entries, the entries stay
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  Alert,
+  Platform,
+  ActionSheetIOS,
+  RefreshControl,
+} from 'react-native';
+import ActionMenu, { ActionMenuItem } from '../components/ActionMenu';
+import SelectionMenu from '../components/SelectionMenu';
+import InputModal from '../components/InputModal';
+import { getAllTags, renameTag, mergeTags, deleteTag } from '../db/operations';
+import { formatTag, normalizeTagName } from '../utils/tags';
+import { colors, spacing, typography, borderRadius } from '../theme/tokens';
+import type { Tag } from '../types/models';
+
+interface TagsScreenProps {
+  onBack: () => void;
+}
+
+function getUsageLabel(tag: Tag): string {
+  const count = tag.usage_count ?? 0;
+  if (count === 0) return 'Not used';
+  return count === 1 ? '1 entry' : `${count} entries`;
+}
+
+export default function TagsScreen({ onBack }: TagsScreenProps) {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [actionMenuTag, setActionMenuTag] = useState<Tag | null>(null);
+  const [renamingTag, setRenamingTag] = useState<Tag | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [mergeSourceTag, setMergeSourceTag] = useState<Tag | null>(null);
+
+  const loadTags = useCallback(async () => {
+    try {
+      setTags(await getAllTags());
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+      Alert.alert('Error', 'Unable to load tags');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadTags();
+    setRefreshing(false);
+  };
+
+  const handleMerge = async (source: Tag, target: Tag) => {
+    try {
+      await mergeTags(source.id, target.id);
+      await loadTags();
+    } catch (error) {
+      console.error('Failed to merge tags:', error);
+      Alert.alert('Error', 'Unable to merge tags. Please try again.');
+    }
+  };
+
+  const handleRename = async () => {
+    const tag = renamingTag;
+    if (!tag) return;
+
+    const name = normalizeTagName(renameValue);
+    if (!name) {
+      Alert.alert('Empty Name', 'Please enter a name for the tag.');
+      return;
+    }
+
+    setRenamingTag(null);
+    if (name === tag.name) return;
+
+    // Same name as another tag: renaming would collide, merging is what's meant
+    const existing = tags.find(other => other.name === name && other.id !== tag.id);
+    if (existing) {
+      Alert.alert(
+        'Tag Exists',
+        `${formatTag(name)} already exists. Merge ${formatTag(tag.name)} into it?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Merge', onPress: () => handleMerge(tag, existing) },
+        ]
+      );
+      return;
+    }
+
+    try {
+      await renameTag(tag.id, name);
+      await loadTags();
+    } catch (error) {
+      console.error('Failed to rename tag:', error);
+      Alert.alert('Error', 'Unable to rename tag. Please try again.');
+    }
+  };
+
+  const handleDelete = (tag: Tag) => {
+    const count = tag.usage_count ?? 0;
+
+    Alert.alert(
+      'Delete Tag',
+      count > 0
+        ? `Remove ${formatTag(tag.name)} from ${count === 1 ? '1 entry' : `${count} entries`}? The entries are kept.`
+        : `Delete ${formatTag(tag.name)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTag(tag.id);
+              await loadTags();
+            } catch (error) {
+              console.error('Failed to delete tag:', error);
+              Alert.alert('Error', 'Unable to delete tag. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const getTagActionItems = (tag: Tag): ActionMenuItem[] => {
+    const items: ActionMenuItem[] = [
+      {
+        label: 'Rename',
+        onPress: () => {
+          setRenameValue(tag.name);
+          setRenamingTag(tag);
+        },
+      },
+    ];
+
+    if (tags.length > 1) {
+      items.push({
+        label: 'Merge into…',
+        onPress: () => setMergeSourceTag(tag),
+      });
+    }
+
+    items.push({
+      label: 'Delete Tag',
+      onPress: () => handleDelete(tag),
+      destructive: true,
+    });
+
+    return items;
+  };
+
+  const handleTagPress = (tag: Tag) => {
+    if (Platform.OS === 'ios') {
+      const items = getTagActionItems(tag);
+
+      ActionSheetIOS.showActionSheetWithOptions(
+        {
+          title: formatTag(tag.name),
+          options: ['Cancel', ...items.map(item => item.label)],
+          destructiveButtonIndex: items.length,
+          cancelButtonIndex: 0,
+        },
+        (buttonIndex) => {
+          if (buttonIndex > 0 && buttonIndex <= items.length) {
+            items[buttonIndex - 1].onPress();
+          }
+        }
+      );
+    } else {
+      // Android: Use custom ActionMenu (Alert is limited to 3 buttons)
+      setActionMenuTag(tag);
+    }
+  };
+
+  const renderItem = ({ item }: { item: Tag }) => (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={() => handleTagPress(item)}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityLabel={`${formatTag(item.name)}, ${getUsageLabel(item)}`}
+    >
+      <Text style={styles.rowTitle} numberOfLines={1}>
+        {formatTag(item.name)}
+      </Text>
+      <Text style={styles.rowMeta}>{getUsageLabel(item)}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyText}>No tags yet</Text>
+      <Text style={styles.emptySubtext}>
+        Add tags when creating an entry, or type #tag in a title
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Tags</Text>
+        <Text style={styles.subtitle}>
+          Changes apply to every entry using the tag
+        </Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading…</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={tags}
+          keyExtractor={tag => tag.id}
+          renderItem={renderItem}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              tintColor={colors.accentPrimary}
+              colors={[colors.accentPrimary]}
+            />
+          }
+        />
+      )}
+
+      {actionMenuTag && (
+        <ActionMenu
+          visible={!!actionMenuTag}
+          onClose={() => setActionMenuTag(null)}
+          title={formatTag(actionMenuTag.name)}
+          items={getTagActionItems(actionMenuTag)}
+        />
+      )}
+
+      <InputModal
+        visible={!!renamingTag}
+        onClose={() => setRenamingTag(null)}
+        title="Rename Tag"
+        placeholder="Tag name"
+        value={renameValue}
+        onChangeText={setRenameValue}
+        onSubmit={handleRename}
+        submitLabel="Save"
+        selectTextOnFocus
+      />
+
+      <SelectionMenu
+        visible={!!mergeSourceTag}
+        onClose={() => setMergeSourceTag(null)}
+        title="Merge into…"
+        subtitle={mergeSourceTag ? `${formatTag(mergeSourceTag.name)} will be removed` : undefined}
+        options={tags
+          .filter(tag => tag.id !== mergeSourceTag?.id)
+          .map(tag => ({ label: formatTag(tag.name), value: tag.id, description: getUsageLabel(tag) }))}
+        onSelect={(targetId) => {
+          const target = tags.find(tag => tag.id === targetId);
+          if (mergeSourceTag && target) {
+            handleMerge(mergeSourceTag, target);
+          }
+          setMergeSourceTag(null);
+        }}
+      />
+    </View>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.paperBackground,
+  },
+
+  header: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 12,
+    paddingBottom: 16,
+  },
+
+  backButton: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+
+  backButtonText: {
+    fontSize: 16,
+    color: colors.accentPrimary,
+    fontWeight: '600',
+  },
+
+  title: {
+    ...typography.pageTitle,
+    color: colors.textPrimary,
+  },
+
+  subtitle: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  loadingText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+
+  listContent: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingBottom: 100,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 8,
+    minHeight: spacing.minTouchTarget,
+  },
+
+  rowTitle: {
+    ...typography.body,
+    flex: 1,
+    fontWeight: '500',
+    color: colors.accentPrimary,
+    marginRight: 12,
+  },
+
+  rowMeta: {
+    ...typography.meta,
+    color: colors.textSecondary,
+  },
+
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+  },
+
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textMuted,
+    marginBottom: 8,
+  },
+
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.textMuted,
+    textAlign: 'center',
+  },
+});
@@ -1,7 +1,16 @@
 import DatePickerButton from '../components/DatePickerButton';
+import ReminderButton from '../components/ReminderButton';
 import SelectionMenu, { SelectionOption } from '../components/SelectionMenu';
+import ActionMenu, { ActionMenuItem } from '../components/ActionMenu';
+import SnoozeMenu from '../components/SnoozeMenu';
+import SubtaskList, { formatSubtaskProgress } from '../components/SubtaskList';
+import InputModal from '../components/InputModal';
+import TagChips from '../components/TagChips';
+import TagFilterBar from '../components/TagFilterBar';
+import EditTagsModal from '../components/EditTagsModal';
 import NotebookLayer from '../components/NotebookLayer';
 import { useNotebookModeContext } from '../context/NotebookModeContext';
+import { useUndoContext } from '../context/UndoContext';
 import { colors } from '../theme/tokens';
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
@@ -15,9 +24,12 @@ import {
   Platform,
   ActionSheetIOS,
 } from 'react-native';
-import { getAllActiveTasks, updateTask, deleteTask, getCollectionByName, getActiveEntriesCountByCollectionId, archiveCollection, unarchiveCollection } from '../db/operations';
+import { getAllActiveTasks, updateTask, deleteTask, createSubtask, setTaskReminder, getCollectionByName, getActiveEntriesCountByCollectionId, archiveCollection, unarchiveCollection } from '../db/operations';
 import type { TaskWithCollectionName } from '../db/operations';
-import { groupTasksByTime } from '../utils/timeClassification';
+import { groupTasksByTime, isSnoozed } from '../utils/timeClassification';
+import { formatSnoozeTime } from '../utils/snooze';
+import { describeRepeatRule } from '../utils/recurrence';
+import { collectTags, hasTag } from '../utils/tags';
 import { getPriorityStyle } from '../utils/formatting';
 import type { TaskFilter } from '../types/filters';
 import { applyTaskFilter, getFilterLabel } from '../utils/taskFilters';
@@ -46,12 +58,21 @@ export default function TasksScreen({
   const [initialLoad, setInitialLoad] = useState(true); // TICKET 17F.1
   const [refreshing, setRefreshing] = useState(false);
   const [completedCollapsed, setCompletedCollapsed] = useState(true);
+  const [snoozedCollapsed, setSnoozedCollapsed] = useState(true);
   const [showEmptyState, setShowEmptyState] = useState(fromOverview);
   const [priorityMenuVisible, setPriorityMenuVisible] = useState(false);
   const [selectedTaskForPriority, setSelectedTaskForPriority] = useState<TaskWithCollectionName | null>(null);
+  const [actionMenuTask, setActionMenuTask] = useState<TaskWithCollectionName | null>(null);
+  const [snoozeMenuVisible, setSnoozeMenuVisible] = useState(false);
+  const [selectedTaskForSnooze, setSelectedTaskForSnooze] = useState<TaskWithCollectionName | null>(null);
+  const [subtaskParent, setSubtaskParent] = useState<TaskWithCollectionName | null>(null);
+  const [subtaskTitle, setSubtaskTitle] = useState('');
+  const [tagFilterId, setTagFilterId] = useState<string | null>(null);
+  const [tagEditTask, setTagEditTask] = useState<TaskWithCollectionName | null>(null);
   
   // TICKET 18A: Notebook mode
   const { mode: notebookMode } = useNotebookModeContext();
+  const { showUndo } = useUndoContext();
   
   // TICKET 17A: Centralized filter state
   const [activeFilter, setActiveFilter] = useState<TaskFilter>(initialFilter);
@@ -81,6 +102,21 @@ export default function TasksScreen({
   // Load once from DB, filter locally via useMemo
   const [allTasks, setAllTasks] = useState<TaskWithCollectionName[]>([]);
 
+  // Tag filter applies before the time filters below
+  // (a parent stays visible when one of its subtasks has the tag;
+  // a filter whose tag is no longer used falls back to "All")
+  const availableTags = useMemo(() => {
+    return collectTags(allTasks.flatMap(t => [t, ...(t.subtasks ?? [])]));
+  }, [allTasks]);
+  const activeTagId = availableTags.some(tag => tag.id === tagFilterId) ? tagFilterId : null;
+
+  const taggedTasks = useMemo(() => {
+    if (!activeTagId) return allTasks;
+    return allTasks.filter(t =>
+      hasTag(t, activeTagId) || !!t.subtasks?.some(subtask => hasTag(subtask, activeTagId))
+    );
+  }, [allTasks, activeTagId]);
+
   // TICKET 17A HARDENING: Memoized filtering
   // Filter happens in-memory, instant switching, no DB re-queries
   // CRITICAL: We filter active tasks only, completed tasks handled separately
@@ -91,24 +127,31 @@ export default function TasksScreen({
       // (completed tasks handled separately below)
       return [];
     }
-    const activeTasks = allTasks.filter(t => !t.completed);
+    const activeTasks = taggedTasks.filter(t => !t.completed);
     return applyTaskFilter(activeTasks, activeFilter);
-  }, [allTasks, activeFilter]);
+  }, [taggedTasks, activeFilter]);
 
   // TICKET 17A HARDENING: Get completed tasks separately
   // When filter='completed', show them; otherwise available for 'all' filter
   const completedTasks = useMemo(() => {
-    return allTasks.filter(t => t.completed);
-  }, [allTasks]);
+    return taggedTasks.filter(t => t.completed);
+  }, [taggedTasks]);
+
+  // Snoozed tasks are hidden from every filter except 'snoozed';
+  // the 'all' view lists them in their own collapsed section
+  const snoozedTasks = useMemo(() => {
+    return applyTaskFilter(taggedTasks, 'snoozed');
+  }, [taggedTasks]);
 
   // TICKET 17A HARDENING: Memoized grouping
   // Only recompute sections when visible tasks change
   const groupedTasks = useMemo(() => {
     const grouped = groupTasksByTime(visibleActiveTasks);
-    // Add completed tasks back (they're UI-controlled, not filter-controlled)
+    // Add completed and snoozed tasks back (they're UI-controlled, not filter-controlled)
     grouped.completed = completedTasks;
+    grouped.snoozed = groupTasksByTime(snoozedTasks).snoozed;
     return grouped;
-  }, [visibleActiveTasks, completedTasks]);
+  }, [visibleActiveTasks, completedTasks, snoozedTasks]);
 
   // TICKET 17A: Sync activeFilter when initialFilter prop changes (deep linking)
   // BUG FIX: Track whether this is a prop-driven change so we don't call
@@ -181,6 +224,14 @@ export default function TasksScreen({
             collapsed: false,
           });
         }
+      } else if (activeFilter === 'snoozed') {
+        if (groupedTasks.snoozed.length) {
+          newSections.push({
+            title: `SNOOZED (${groupedTasks.snoozed.length})`,
+            data: groupedTasks.snoozed, // Always expanded when filtered
+            collapsed: false,
+          });
+        }
       } else {
         // Normal filtering: show time-based sections
         if (groupedTasks.overdue.length) {
@@ -196,6 +247,15 @@ export default function TasksScreen({
           newSections.push({ title: 'NO DATE', data: groupedTasks.no_date });
         }
         
+        // Snoozed tasks come back on their own; until then they only show here
+        if (activeFilter === 'all' && groupedTasks.snoozed.length) {
+          newSections.push({
+            title: `SNOOZED (${groupedTasks.snoozed.length})`,
+            data: snoozedCollapsed ? [] : groupedTasks.snoozed,
+            collapsed: snoozedCollapsed,
+          });
+        }
+
         // TICKET 17A BUG FIX: Only show completed section when filter is 'all'
         // In filtered views (today, overdue, etc.), hide completed tasks
         if (activeFilter === 'all' && groupedTasks.completed.length) {
@@ -209,7 +269,7 @@ export default function TasksScreen({
 
       setSections(newSections);
     }
-  }, [groupedTasks, completedCollapsed, activeFilter]);
+  }, [groupedTasks, completedCollapsed, snoozedCollapsed, activeFilter]);
 
   const loadTasks = async () => {
     try {
@@ -217,7 +277,8 @@ export default function TasksScreen({
       
       // TICKET 17A HARDENING: Load all tasks once, store unfiltered
       // Filtering happens via useMemo, not here
-      const tasks = await getAllActiveTasks();
+      // Tree mode: subtasks render under their parent, not as separate rows
+      const tasks = await getAllActiveTasks({ tree: true });
       setAllTasks(tasks);
       
     } catch (error) {
@@ -234,16 +295,42 @@ export default function TasksScreen({
     setRefreshing(false);
   };
 
-  const handleToggleTask = async (task: TaskWithCollectionName) => {
+  const handleToggleTask = (task: TaskWithCollectionName) => {
+    const openSubtasks = (task.subtask_count ?? 0) - (task.subtask_completed_count ?? 0);
+
+    // Completing a parent: offer to complete its open subtasks too
+    if (!task.completed && openSubtasks > 0) {
+      Alert.alert(
+        'Complete subtasks?',
+        `"${task.title}" has ${openSubtasks} open subtask${openSubtasks === 1 ? '' : 's'}.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Only This Task', onPress: () => toggleTaskCompletion(task, false) },
+          { text: 'Complete All', onPress: () => toggleTaskCompletion(task, true) },
+        ],
+        { cancelable: true }
+      );
+      return;
+    }
+
+    toggleTaskCompletion(task, false);
+  };
+
+  const toggleTaskCompletion = async (task: TaskWithCollectionName, includeSubtasks: boolean) => {
     const wasCompleted = task.completed;
     const isUnsorted = task.list_name === 'Unsorted';
     
     // Toggle the task completion
-    await updateTask({ 
+    const snapshot = await updateTask({ 
       id: task.id, 
       completed: !task.completed,
       completed_at: !task.completed ? Date.now() : undefined,
+      include_subtasks: includeSubtasks,
     });
+
+    if (snapshot && !wasCompleted) {
+      showUndo('Task completed', snapshot, loadTasks);
+    }
     
     // Special handling for Unsorted tasks
     if (isUnsorted) {
@@ -273,76 +360,108 @@ export default function TasksScreen({
     await loadTasks();
   };
 
+  const getTaskActionItems = (task: TaskWithCollectionName): ActionMenuItem[] => {
+    const items: ActionMenuItem[] = [
+      {
+        label: 'Change Priority',
+        onPress: () => {
+          setSelectedTaskForPriority(task);
+          setPriorityMenuVisible(true);
+        },
+      },
+    ];
+
+    if (!task.completed && !task.parent_task_id) {
+      items.push({
+        label: 'Add Subtask',
+        onPress: () => {
+          setSubtaskTitle('');
+          setSubtaskParent(task);
+        },
+      });
+    }
+
+    if (!task.completed) {
+      items.push({
+        label: isSnoozed(task) ? 'Change Snooze' : 'Snooze',
+        onPress: () => {
+          setSelectedTaskForSnooze(task);
+          setSnoozeMenuVisible(true);
+        },
+      });
+    }
+
+    items.push({
+      label: 'Edit Tags',
+      onPress: () => setTagEditTask(task),
+    });
+
+    items.push({
+      label: 'Delete Task',
+      onPress: () => handleDeleteTask(task),
+      destructive: true,
+    });
+
+    return items;
+  };
+
   const handleTaskLongPress = (task: TaskWithCollectionName) => {
     if (Platform.OS === 'ios') {
+      const items = getTaskActionItems(task);
+
       ActionSheetIOS.showActionSheetWithOptions(
         {
-          options: ['Cancel', 'Change Priority', 'Delete Task'],
-          destructiveButtonIndex: 2,
+          options: ['Cancel', ...items.map(item => item.label)],
+          destructiveButtonIndex: items.length,
           cancelButtonIndex: 0,
         },
         (buttonIndex) => {
-          if (buttonIndex === 1) {
-            setSelectedTaskForPriority(task);
-            setPriorityMenuVisible(true);
-          } else if (buttonIndex === 2) {
-            Alert.alert(
-              'Delete Task',
-              `Delete "${task.title}"?`,
-              [
-                { text: 'Cancel', style: 'cancel' },
-                {
-                  text: 'Delete',
-                  style: 'destructive',
-                  onPress: async () => {
-                    await deleteTask(task.id);
-                    await loadTasks();
-                  },
-                },
-              ]
-            );
+          if (buttonIndex > 0 && buttonIndex <= items.length) {
+            items[buttonIndex - 1].onPress();
           }
         }
       );
     } else {
-      // FIXED: Android - use SelectionMenu for priority, not Alert
-      Alert.alert(
-        task.title,
-        'What would you like to do?',
-        [
-          { text: 'Cancel', style: 'cancel' },
-          { 
-            text: 'Delete Task', 
-            onPress: () => {
-              Alert.alert(
-                'Delete Task',
-                `Delete "${task.title}"?`,
-                [
-                  { text: 'Cancel', style: 'cancel' },
-                  {
-                    text: 'Delete',
-                    style: 'destructive',
-                    onPress: async () => {
-                      await deleteTask(task.id);
-                      await loadTasks();
-                    },
-                  },
-                ]
-              );
-            },
-            style: 'destructive'
-          },
-          { 
-            text: 'Change Priority', 
-            onPress: () => {
-              // FIXED: Use SelectionMenu instead of nested Alert
-              setSelectedTaskForPriority(task);
-              setPriorityMenuVisible(true);
-            }
-          },
-        ],
-        { cancelable: true }
-      );
+      // Android: Use custom ActionMenu (Alert is limited to 3 buttons)
+      setActionMenuTask(task);
+    }
+  };
+
+  const handleSnoozeTask = async (task: TaskWithCollectionName, until: number | null) => {
+    try {
+      await updateTask({
+        id: task.id,
+        snoozed_until: until,
+      });
+      await loadTasks();
+    } catch (error) {
+      console.error('Failed to snooze task:', error);
+      Alert.alert('Error', 'Unable to snooze task. Please try again.');
+    }
+  };
+
+  const handleToggleSubtask = async (subtask: TaskWithCollectionName) => {
+    try {
+      await updateTask({ id: subtask.id, completed: !subtask.completed });
+      await loadTasks();
+    } catch (error) {
+      console.error('Failed to toggle subtask:', error);
+      Alert.alert('Error', 'Unable to update task. Please try again.');
+    }
+  };
+
+  const handleCreateSubtask = async () => {
+    const title = subtaskTitle.trim();
+    if (!subtaskParent || !title) return;
+
+    try {
+      await createSubtask({ parent_task_id: subtaskParent.id, title });
+      setSubtaskParent(null);
+      setSubtaskTitle('');
+      await loadTasks();
+    } catch (error) {
+      console.error('Failed to create subtask:', error);
+      Alert.alert('Error', 'Unable to add subtask. Please try again.');
     }
   };
 
@@ -359,6 +478,16 @@ export default function TasksScreen({
     }
   };
 
+  const handleSaveTags = async (task: TaskWithCollectionName, names: string[]) => {
+    try {
+      await updateTask({ id: task.id, tags: names });
+      await loadTasks();
+    } catch (error) {
+      console.error('Failed to update tags:', error);
+      Alert.alert('Error', 'Unable to update tags. Please try again.');
+    }
+  };
+
   const handleDeleteTask = (task: TaskWithCollectionName) => {
     Alert.alert('Delete Task', `Delete "${task.title}"?`, [
       { text: 'Cancel', style: 'cancel' },
@@ -366,7 +495,8 @@ export default function TasksScreen({
         text: 'Delete',
         style: 'destructive',
         onPress: async () => {
-          await deleteTask(task.id);
+          const snapshot = await deleteTask(task.id);
+          showUndo('Task deleted', snapshot, loadTasks);
           await loadTasks();
         },
       },
@@ -377,8 +507,13 @@ export default function TasksScreen({
     setCompletedCollapsed(prev => !prev);
   };
 
+  const toggleSnoozedSection = () => {
+    setSnoozedCollapsed(prev => !prev);
+  };
+
   const renderTask = ({ item }: { item: TaskWithCollectionName }) => {
     const priorityStyle = !item.completed ? getPriorityStyle(item.calm_priority) : {};
+    const subtaskProgress = formatSubtaskProgress(item);
 
     const handleDateChange = async (timestamp: number | null) => {
       await updateTask({
@@ -388,6 +523,16 @@ export default function TasksScreen({
       await loadTasks();
     };
 
+    const handleReminderChange = async (timestamp: number | null) => {
+      try {
+        await setTaskReminder(item.id, timestamp);
+        await loadTasks();
+      } catch (error) {
+        console.error('Failed to update reminder:', error);
+        Alert.alert('Error', 'Unable to update reminder. Please try again.');
+      }
+    };
+
     return (
       <View style={styles.taskRowContainer}>
         <TouchableOpacity
@@ -401,14 +546,19 @@ export default function TasksScreen({
           </View>
 
           <View style={styles.taskContent}>
-            <Text
-              style={[
-                styles.taskTitle,
-                item.completed && styles.taskTitleCompleted,
-              ]}
-            >
-              {item.title}
-            </Text>
+            <View style={styles.taskTitleRow}>
+              <Text
+                style={[
+                  styles.taskTitle,
+                  item.completed && styles.taskTitleCompleted,
+                ]}
+              >
+                {item.title}
+              </Text>
+              {subtaskProgress && (
+                <Text style={styles.subtaskProgress}>{subtaskProgress}</Text>
+              )}
+            </View>
 
             {item.list_name && (
               <Text style={styles.listLabel}>{item.list_name}</Text>
@@ -417,6 +567,16 @@ export default function TasksScreen({
             {item.notes && (
               <Text style={styles.taskNotes}>{item.notes}</Text>
             )}
+
+            {item.repeat_rule && !item.completed && (
+              <Text style={styles.repeatLabel}>🔁 {describeRepeatRule(item.repeat_rule)}</Text>
+            )}
+
+            {isSnoozed(item) && (
+              <Text style={styles.repeatLabel}>💤 Snoozed until {formatSnoozeTime(item.snoozed_until!)}</Text>
+            )}
+
+            <TagChips tags={item.tags} />
           </View>
         </TouchableOpacity>
 
@@ -426,8 +586,27 @@ export default function TasksScreen({
               value={item.due_date ?? undefined}
               onChange={handleDateChange}
             />
+            {item.due_date && (
+              <ReminderButton
+                value={item.reminder_time}
+                dueDate={item.due_date}
+                onChange={handleReminderChange}
+              />
+            )}
           </View>
         )}
+
+        {item.subtasks && item.subtasks.length > 0 && (
+          <SubtaskList
+            subtasks={item.subtasks}
+            onToggle={(subtask) => handleToggleSubtask(subtask as TaskWithCollectionName)}
+            onLongPress={(subtask) => handleDeleteTask(subtask as TaskWithCollectionName)}
+            onAdd={!item.completed ? () => {
+              setSubtaskTitle('');
+              setSubtaskParent(item);
+            } : undefined}
+          />
+        )}
       </View>
     );
   };
@@ -454,6 +633,13 @@ export default function TasksScreen({
         </View>
       );
     }
+    if (sectionTitle.startsWith('SNOOZED')) {
+      return (
+        <View style={styles.sectionEmptyContainer}>
+          <Text style={styles.sectionEmptyText}>Nothing snoozed</Text>
+        </View>
+      );
+    }
     if (sectionTitle.startsWith('COMPLETED')) {
       return (
         <View style={styles.sectionEmptyContainer}>
@@ -533,6 +719,8 @@ export default function TasksScreen({
         return { title: 'All current tasks are organized', subtitle: 'Every task has a due date assigned.' };
       case 'completed':
         return { title: 'No completed tasks yet', subtitle: 'Complete some tasks to see them here.' };
+      case 'snoozed':
+        return { title: 'Nothing snoozed', subtitle: 'Snoozed tasks come back on their own when the snooze ends.' };
       default:
         return { title: 'No tasks in this view', subtitle: 'Try a different filter or create new tasks.' };
     }
@@ -611,6 +799,12 @@ export default function TasksScreen({
           </View>
         )}
 
+        <TagFilterBar
+          tags={availableTags}
+          selectedTagId={activeTagId}
+          onSelect={setTagFilterId}
+        />
+
       <SectionList
         ref={scrollViewRef}
         sections={sections}
@@ -621,13 +815,19 @@ export default function TasksScreen({
         scrollEventThrottle={16}
         renderSectionHeader={({ section }) => {
           const isCompleted = section.title.startsWith('COMPLETED');
+          // Snoozed section only collapses in the 'all' view
+          const isSnoozedSection = section.title.startsWith('SNOOZED') && activeFilter === 'all';
           const isEmpty = section.data.length === 0 && !section.collapsed;
           
           return (
             <>
               <TouchableOpacity
                 style={styles.sectionHeader}
-                onPress={isCompleted ? toggleCompletedSection : undefined}
+                onPress={
+                  isCompleted ? toggleCompletedSection
+                  : isSnoozedSection ? toggleSnoozedSection
+                  : undefined
+                }
               >
                 <Text style={styles.sectionHeaderText}>{section.title}</Text>
                 {isCompleted && (
@@ -635,6 +835,11 @@ export default function TasksScreen({
                     {completedCollapsed ? '▼' : '▲'}
                   </Text>
                 )}
+                {isSnoozedSection && (
+                  <Text style={styles.collapseIndicator}>
+                    {snoozedCollapsed ? '▼' : '▲'}
+                  </Text>
+                )}
               </TouchableOpacity>
               {isEmpty && renderSectionEmpty(section.title)}
             </>
@@ -682,6 +887,48 @@ export default function TasksScreen({
             }
           }}
       />
+        {actionMenuTask && (
+          <ActionMenu
+            visible={!!actionMenuTask}
+            onClose={() => setActionMenuTask(null)}
+            title={actionMenuTask.title}
+            items={getTaskActionItems(actionMenuTask)}
+          />
+        )}
+        <InputModal
+          visible={!!subtaskParent}
+          onClose={() => setSubtaskParent(null)}
+          title="Add Subtask"
+          placeholder={subtaskParent ? `Subtask of "${subtaskParent.title}"` : ''}
+          value={subtaskTitle}
+          onChangeText={setSubtaskTitle}
+          onSubmit={handleCreateSubtask}
+          submitLabel="Add"
+        />
+        <EditTagsModal
+          visible={!!tagEditTask}
+          onClose={() => setTagEditTask(null)}
+          onSave={(names) => {
+            if (tagEditTask) {
+              handleSaveTags(tagEditTask, names);
+            }
+          }}
+          initialTags={tagEditTask?.tags?.map(tag => tag.name) ?? []}
+          entryTitle={tagEditTask?.title}
+        />
+        {/* Task stays selected through "Pick a date…" (menu closes before the picker opens) */}
+        <SnoozeMenu
+          visible={snoozeMenuVisible}
+          onClose={() => setSnoozeMenuVisible(false)}
+          taskTitle={selectedTaskForSnooze?.title}
+          isSnoozed={!!selectedTaskForSnooze && isSnoozed(selectedTaskForSnooze)}
+          onSelect={(until) => {
+            if (selectedTaskForSnooze) {
+              handleSnoozeTask(selectedTaskForSnooze, until);
+              setSelectedTaskForSnooze(null);
+            }
+          }}
+        />
         </>
       )}
     </View>
@@ -769,7 +1016,9 @@ const styles = StyleSheet.create({
   checkboxChecked: { backgroundColor: '#3b82f6', borderColor: '#3b82f6' },
   checkmark: { color: '#fff', fontSize: 14, fontWeight: 'bold' },
   taskContent: { flex: 1 },
-  taskTitle: { fontSize: 16, color: '#1a1a1a' },
+  taskTitleRow: { flexDirection: 'row', alignItems: 'flex-start' },
+  taskTitle: { flex: 1, fontSize: 16, color: '#1a1a1a' },
+  subtaskProgress: { fontSize: 12, color: '#6b7280', marginLeft: 8, marginTop: 2 },
   taskTitleCompleted: {
     textDecorationLine: 'line-through',
     color: colors.completedText,
@@ -785,6 +1034,7 @@ const styles = StyleSheet.create({
     alignSelf: 'flex-start',
   },
   taskNotes: { fontSize: 14, color: '#6b7280', marginTop: 4 },
+  repeatLabel: { fontSize: 12, color: '#6b7280', marginTop: 4 },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,457 @@
+/**
+ * TrashScreen
+ *
+ * Lists everything soft-deleted in the last 30 days, grouped by the
+ * collection it was deleted from (expenses in a group of their own).
+ * Opened from SettingsScreen.
+ *
+ * - Tap a row to select it, "Restore" restores a single row
+ * - "Restore all" restores a whole collection group
+ * - Selecting several rows shows a batch restore bar
+ * - Collections and checklists come back together with their contents
+ *
+ * Rows older than the retention window are purged on app startup
+ * (purgeExpiredTrash), so they never show up here.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SectionList,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { getTrashGroups, restoreTrashItems, TRASH_RETENTION_DAYS } from '../db/operations';
+import { formatRelativeDate } from '../utils/formatting';
+import { colors, spacing, typography, borderRadius } from '../theme/tokens';
+import type { TrashGroup, TrashItem } from '../types/models';
+
+interface TrashScreenProps {
+  onBack: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getItemKey(item: TrashItem): string {
+  return `${item.kind}:${item.id}`;
+}
+
+function getItemLabel(item: TrashItem): string {
+  if (item.kind === 'collection') {
+    return item.item_count === 1 ? 'Collection · 1 entry' : `Collection · ${item.item_count ?? 0} entries`;
+  }
+
+  if (item.kind === 'checklist_item') {
+    return item.checklist_title ? `Item in ${item.checklist_title}` : 'Checklist item';
+  }
+
+  if (item.kind === 'expense') {
+    return 'Expense';
+  }
+
+  switch (item.entry_type) {
+    case 'note':
+      return 'Note';
+    case 'record':
+      return 'Record';
+    case 'checklist':
+      return item.item_count === 1 ? 'Checklist · 1 item' : `Checklist · ${item.item_count ?? 0} items`;
+    case 'task':
+    default:
+      if (!item.item_count) return 'Task';
+      return item.item_count === 1 ? 'Task · 1 subtask' : `Task · ${item.item_count} subtasks`;
+  }
+}
+
+function getDaysLeft(item: TrashItem): number {
+  const expiresAt = item.deleted_at + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((expiresAt - Date.now()) / DAY_MS));
+}
+
+export default function TrashScreen({ onBack }: TrashScreenProps) {
+  const [groups, setGroups] = useState<TrashGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const data = await getTrashGroups();
+      setGroups(data);
+
+      // Drop selections that no longer exist
+      const validKeys = new Set(data.flatMap(group => group.items.map(getItemKey)));
+      setSelectedKeys(prev => new Set([...prev].filter(key => validKeys.has(key))));
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+      Alert.alert('Error', 'Unable to load Trash');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadTrash();
+    setRefreshing(false);
+  };
+
+  const restore = async (items: TrashItem[]) => {
+    if (items.length === 0) return;
+
+    try {
+      await restoreTrashItems(items);
+      await loadTrash();
+    } catch (error) {
+      console.error('Failed to restore:', error);
+      Alert.alert('Error', 'Unable to restore. Please try again.');
+    }
+  };
+
+  const toggleSelection = (item: TrashItem) => {
+    const key = getItemKey(item);
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleRestoreSelected = () => {
+    const items = groups
+      .flatMap(group => group.items)
+      .filter(item => selectedKeys.has(getItemKey(item)));
+    restore(items);
+  };
+
+  const renderItem = ({ item }: { item: TrashItem }) => {
+    const selected = selectedKeys.has(getItemKey(item));
+    const daysLeft = getDaysLeft(item);
+
+    return (
+      <TouchableOpacity
+        style={[styles.row, selected && styles.rowSelected]}
+        onPress={() => toggleSelection(item)}
+        activeOpacity={0.7}
+        accessibilityRole="checkbox"
+        accessibilityState={{ checked: selected }}
+        accessibilityLabel={`${getItemLabel(item)}: ${item.title}`}
+      >
+        <View style={[styles.selectCircle, selected && styles.selectCircleSelected]}>
+          {selected && <Text style={styles.selectCheck}>✓</Text>}
+        </View>
+
+        <View style={styles.rowContent}>
+          <Text style={styles.rowTitle} numberOfLines={2}>
+            {item.title}
+          </Text>
+          <Text style={styles.rowMeta}>
+            {getItemLabel(item)} · Deleted {formatRelativeDate(item.deleted_at)}
+          </Text>
+          <Text style={[styles.rowMeta, daysLeft <= 3 && styles.rowMetaUrgent]}>
+            {daysLeft === 1 ? '1 day left' : `${daysLeft} days left`}
+          </Text>
+        </View>
+
+        <TouchableOpacity
+          style={styles.restoreButton}
+          onPress={() => restore([item])}
+          accessibilityRole="button"
+          accessibilityLabel={`Restore ${item.title}`}
+        >
+          <Text style={styles.restoreButtonText}>Restore</Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSectionHeader = ({ section }: { section: TrashGroup & { data: TrashItem[] } }) => (
+    <View style={styles.sectionHeader}>
+      <Text style={styles.sectionLabel} numberOfLines={1}>
+        {section.collection_name.toUpperCase()}
+      </Text>
+      <TouchableOpacity
+        onPress={() => restore(section.items)}
+        accessibilityRole="button"
+        accessibilityLabel={`Restore all from ${section.collection_name}`}
+      >
+        <Text style={styles.sectionAction}>Restore all</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyText}>Trash is empty</Text>
+      <Text style={styles.emptySubtext}>
+        Deleted items stay here for {TRASH_RETENTION_DAYS} days
+      </Text>
+    </View>
+  );
+
+  const sections = groups.map(group => ({ ...group, data: group.items }));
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Trash</Text>
+        <Text style={styles.subtitle}>
+          Items are permanently deleted after {TRASH_RETENTION_DAYS} days
+        </Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading…</Text>
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={getItemKey}
+          renderItem={renderItem}
+          renderSectionHeader={renderSectionHeader}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.listContent}
+          stickySectionHeadersEnabled={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              tintColor={colors.accentPrimary}
+              colors={[colors.accentPrimary]}
+            />
+          }
+        />
+      )}
+
+      {/* Batch restore bar */}
+      {selectedKeys.size > 0 && (
+        <View style={styles.batchBar}>
+          <TouchableOpacity onPress={() => setSelectedKeys(new Set())}>
+            <Text style={styles.batchClear}>Clear</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.batchButton}
+            onPress={handleRestoreSelected}
+            accessibilityRole="button"
+          >
+            <Text style={styles.batchButtonText}>
+              Restore {selectedKeys.size} selected
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.paperBackground,
+  },
+
+  header: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingTop: 12,
+    paddingBottom: 16,
+  },
+
+  backButton: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+
+  backButtonText: {
+    fontSize: 16,
+    color: colors.accentPrimary,
+    fontWeight: '600',
+  },
+
+  title: {
+    ...typography.pageTitle,
+    color: colors.textPrimary,
+  },
+
+  subtitle: {
+    ...typography.meta,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  loadingText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+
+  listContent: {
+    paddingHorizontal: spacing.screenPadding,
+    paddingBottom: 100,
+  },
+
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+    marginBottom: 10,
+  },
+
+  sectionLabel: {
+    flex: 1,
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 0.8,
+    color: colors.textSecondary,
+  },
+
+  sectionAction: {
+    ...typography.link,
+    color: colors.accentPrimary,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: borderRadius.card,
+    padding: 14,
+    marginBottom: 8,
+    minHeight: spacing.minTouchTarget,
+    borderWidth: 1.5,
+    borderColor: 'transparent',
+  },
+
+  rowSelected: {
+    borderColor: colors.accentPrimary,
+  },
+
+  selectCircle: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: colors.textMuted,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+
+  selectCircleSelected: {
+    borderColor: colors.accentPrimary,
+    backgroundColor: colors.accentPrimary,
+  },
+
+  selectCheck: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.textOnDark,
+  },
+
+  rowContent: {
+    flex: 1,
+  },
+
+  rowTitle: {
+    ...typography.body,
+    fontWeight: '500',
+    color: colors.textPrimary,
+    marginBottom: 2,
+  },
+
+  rowMeta: {
+    ...typography.meta,
+    color: colors.textSecondary,
+  },
+
+  rowMetaUrgent: {
+    color: colors.accentUrgent,
+  },
+
+  restoreButton: {
+    paddingVertical: 8,
+    paddingHorizontal: spacing.touchTargetPadding,
+    marginLeft: 8,
+    borderRadius: borderRadius.button,
+    backgroundColor: colors.badgeNormalBackground,
+  },
+
+  restoreButtonText: {
+    ...typography.link,
+    color: colors.accentPrimary,
+  },
+
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+  },
+
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textMuted,
+    marginBottom: 8,
+  },
+
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.textMuted,
+  },
+
+  batchBar: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.screenPadding,
+    paddingVertical: 12,
+    backgroundColor: colors.backgroundCard,
+    borderTopWidth: 1,
+    borderTopColor: colors.divider,
+  },
+
+  batchClear: {
+    ...typography.link,
+    color: colors.textSecondary,
+    padding: 8,
+  },
+
+  batchButton: {
+    backgroundColor: colors.accentPrimary,
+    borderRadius: borderRadius.button,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+
+  batchButtonText: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.textOnDark,
+  },
+});
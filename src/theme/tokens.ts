@@ -120,6 +120,10 @@ export const colors = {
   filterBannerText: '#FFFFFF',
   filterBannerButton: '#FFFFFF',
 
+  /** Imported calendar events (read-only, never completable) */
+  calendarEvent: '#0D9488',
+  calendarEventBackground: 'rgba(13, 148, 136, 0.08)',
+
   // ═══════════════════════════════════════════════════════════
   // TICKET 18A — NOTEBOOK IDENTITY SYSTEM
   // ═══════════════════════════════════════════════════════════
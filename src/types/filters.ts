@@ -21,6 +21,7 @@
  * - 'upcoming': Tasks due in the future (tomorrow or later)
  * - 'no-date': Tasks without a due date
  * - 'completed': Completed tasks only (shows completed section expanded)
+ * - 'snoozed': Snoozed tasks (hidden from every other filter until the snooze expires)
  */
 export type TaskFilter = 
   | 'all' 
@@ -28,7 +29,8 @@ export type TaskFilter =
   | 'overdue' 
   | 'upcoming' 
   | 'no-date'
-  | 'completed';
+  | 'completed'
+  | 'snoozed';
 
 /**
  * Task view state
@@ -22,6 +22,39 @@
  * - Renamed List → Collection
  * - Renamed ListItem → CollectionItem
  * - Renamed list_id → collection_id
+ * 
+ * VERSION 8 CHANGES (Recurring Tasks):
+ * - Added repeat_rule and series_id to Entry/Task
+ * 
+ * VERSION 10 CHANGES (Tags):
+ * - Added Tag model
+ * - Added derived tags to Entry/Task/Note/Checklist
+ * 
+ * VERSION 11 CHANGES (Exchange Rates):
+ * - Added ExchangeRate model
+ * 
+ * VERSION 12 CHANGES (Statement Import):
+ * - Added ImportProfile model
+ * 
+ * VERSION 13 CHANGES (Categorization Rules):
+ * - Added CategoryRule model
+ * 
+ * VERSION 14 CHANGES (Recurring Expenses):
+ * - Added RecurringExpense model
+ * - Added recurring_expense_id to Expense
+ * 
+ * VERSION 15 CHANGES (Calendar Import):
+ * - Added ics_uid to Task
+ * 
+ * VERSION 16 CHANGES (External Calendars):
+ * - Added CalendarFeed and CalendarEvent models
+ * 
+ * VERSION 17 CHANGES (Simple Lists):
+ * - Added is_simple_list to Collection
+ * 
+ * VERSION 18 CHANGES (Records):
+ * - Added 'record' entry type (RecordEntry) with unit
+ * - Added RecordValue model (record_values table)
  */
 
 /**
@@ -37,9 +70,9 @@ export interface BaseModel {
 /**
  * Entry types supported by the system
  * VERSION 2.2: 'task', 'note', and 'checklist' active
- * Future: 'record'
+ * VERSION 18: 'record' active
  */
-export type EntryType = 'task' | 'note' | 'checklist'; // | 'record';
+export type EntryType = 'task' | 'note' | 'checklist' | 'record';
 
 /**
  * Entry base interface
@@ -58,8 +91,13 @@ export interface Entry extends BaseModel {
   completed?: boolean;
   completed_at?: number;
   calm_priority?: 1 | 2 | 3;
-  parent_task_id?: string;      // LEGACY: Task-only subtask hierarchy
-  snoozed_until?: number;        // LEGACY: Task-only snooze feature
+  parent_task_id?: string;      // Task-only: parent task of a subtask (one level)
+  snoozed_until?: number;        // Task-only: hidden from time-based views until then (utils/snooze.ts)
+  repeat_rule?: string;          // Task-only: RRULE-style string (utils/recurrence.ts)
+  series_id?: string;            // Task-only: shared by all occurrences of a recurring task
+  // Records only
+  unit?: string;                 // Record-only: unit of its values ("kg", "km")
+  tags?: Tag[];                  // Derived: entry_tags, not a column
 }
 
 /**
@@ -77,6 +115,13 @@ export interface Task extends BaseModel {
   collection_id?: string;
   parent_task_id?: string;
   snoozed_until?: number;
+  repeat_rule?: string;
+  series_id?: string;
+  ics_uid?: string;              // UID from an imported .ics file
+  reminder_time?: number;        // Derived: soonest pending reminder (reminders table), not a column
+  subtask_count?: number;        // Derived: active subtasks (like ChecklistWithStats.total_count)
+  subtask_completed_count?: number; // Derived: completed subtasks
+  tags?: Tag[];                  // Derived: entry_tags, not a column
   sort_order: number;
 }
 
@@ -89,6 +134,7 @@ export interface Note extends BaseModel {
   title: string;
   notes?: string;  // Body text (optional)
   collection_id?: string;
+  tags?: Tag[];    // Derived: entry_tags, not a column
   sort_order: number;
 }
 
@@ -107,7 +153,7 @@ export interface Note extends BaseModel {
  * - due_date (checklists are not scheduled)
  * - calm_priority (checklists don't have priority)
  * - notes/body (checklist title only)
- * - parent_task_id, snoozed_until (task-only legacy fields)
+ * - parent_task_id, snoozed_until (task-only fields)
  * 
  * DEFINITION:
  * A Checklist is a CONTAINER that groups multiple ChecklistItems.
@@ -119,6 +165,7 @@ export interface Checklist extends BaseModel {
   type: 'checklist';
   title: string;
   collection_id?: string;
+  tags?: Tag[];    // Derived: entry_tags, not a column
   sort_order: number;
 }
 
@@ -153,6 +200,74 @@ export interface ChecklistWithStats extends Checklist {
   total_count: number;
 }
 
+/**
+ * Record model (Entry with type='record')
+ * A named series of measurements (weight, blood pressure, mileage)
+ * 
+ * VERSION 18: NEW
+ * 
+ * USES:
+ * - id, type='record', title, unit, collection_id, sort_order
+ * - created_at, updated_at, deleted_at
+ * 
+ * Values are stored in record_values (RecordValue); tapping the card in
+ * CollectionsScreen opens RecordScreen with the full history.
+ * Named RecordEntry so it doesn't shadow TypeScript's Record<K, V>.
+ */
+export interface RecordEntry extends BaseModel {
+  type: 'record';
+  title: string;
+  unit?: string;
+  collection_id?: string;
+  tags?: Tag[];    // Derived: entry_tags, not a column
+  sort_order: number;
+}
+
+/**
+ * RecordValue model
+ * One timestamped value of a record
+ * 
+ * STORED IN: record_values table
+ * 
+ * - recorded_at: when it was measured (epoch ms)
+ * - Values of a deleted record are left as they are: hidden with it,
+ *   restored with it, purged with it
+ */
+export interface RecordValue extends BaseModel {
+  record_id: string;
+  value: number;
+  recorded_at: number;
+  note?: string;
+}
+
+/**
+ * Record with its latest values
+ * Used for the record card in CollectionsScreen
+ */
+export interface RecordWithStats extends RecordEntry {
+  value_count: number;
+  latest_value?: number;
+  latest_recorded_at?: number;
+  recent_values: number[];  // Oldest first, for the sparkline
+}
+
+/**
+ * Tag model
+ * 
+ * VERSION 10: NEW (tags + entry_tags tables)
+ * 
+ * - name: lowercase, without the leading '#' (utils/tags.ts)
+ * - Many-to-many with entries; renaming a tag renames it on every entry
+ * - Hard-deleted (labels, not content - no Trash)
+ */
+export interface Tag {
+  id: string;
+  name: string;
+  created_at: number;
+  updated_at: number;
+  usage_count?: number;          // Derived: active entries using the tag (getAllTags)
+}
+
 /**
  * Collection model (formerly List)
  * 
@@ -167,12 +282,14 @@ export interface Collection extends BaseModel {
   is_pinned: boolean;
   is_archived: boolean;
   is_system: boolean;
+  is_simple_list?: boolean;  // VERSION 17: shows collection_items, not entries
 }
 
 /**
  * Collection Item model (formerly List Item)
  * 
  * VERSION 5: Renamed from ListItem, list_id → collection_id
+ * VERSION 17: Items of a simple-list collection (is_simple_list)
  */
 export interface CollectionItem {
   id: string;
@@ -214,8 +331,21 @@ export interface BudgetCategory extends BaseModel {
   limit_currency: string;
 }
 
+/**
+ * Spending of one category in one currency on one day (getCategorySpending)
+ * category_id is null for uncategorized expenses
+ */
+export interface CategorySpend {
+  category_id: string | null;
+  currency: string;
+  transaction_date: number;      // Day of the spending (rates are looked up per day)
+  total: number;
+}
+
 /**
  * Expense model
+ * 
+ * VERSION 14: Added recurring_expense_id (generated from a template)
  */
 export interface Expense extends BaseModel {
   amount: number;
@@ -226,27 +356,391 @@ export interface Expense extends BaseModel {
   merchant_name?: string;
   payment_method?: string;
   receipt_photo_path?: string;
+  recurring_expense_id?: string;
+}
+
+/**
+ * Recurring expense template (rent, phone, subscriptions)
+ * 
+ * VERSION 14: NEW (recurring_expenses table)
+ * 
+ * - repeat_rule: RRULE subset of utils/recurrence.ts
+ * - next_due_date: local midnight of the next charge
+ * - Hard-deleted; generated expenses are kept
+ */
+export interface RecurringExpense {
+  id: string;
+  name: string;                  // merchant_name of the generated expenses
+  amount: number;
+  currency: string;
+  category_id?: string;
+  payment_method?: string;
+  repeat_rule: string;
+  next_due_date: number;
+  is_paused: boolean;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * External calendar imported from an .ics file (read-only)
+ * 
+ * VERSION 16: NEW (calendar_feeds table)
+ * 
+ * - Importing a file with the same calendar name replaces its events
+ * - Hard-deleted together with its events
+ */
+export interface CalendarFeed {
+  id: string;
+  name: string;
+  created_at: number;
+  updated_at: number;            // Last import
+}
+
+/**
+ * Event of an external calendar (read-only, never completed or edited)
+ * 
+ * VERSION 16: NEW (calendar_events table)
+ * 
+ * - repeat_rule: RRULE subset of utils/recurrence.ts; rules outside it are
+ *   dropped on import and the event shows once
+ * - repeat_until / repeat_count: end of the series (RRULE UNTIL / COUNT)
+ * - exdates: starts of occurrences that are left out (EXDATE, moved or
+ *   cancelled occurrences)
+ * - All-day events start at local midnight; end_time is exclusive
+ */
+export interface CalendarEvent {
+  id: string;
+  feed_id: string;
+  uid: string;
+  title: string;
+  notes?: string;
+  location?: string;
+  start_time: number;
+  end_time?: number;
+  is_all_day: boolean;
+  repeat_rule?: string;
+  repeat_until?: number;
+  repeat_count?: number;
+  exdates: number[];
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * One occurrence of a calendar event in a date window
+ * Derived (utils/calendarEvents.ts), not stored
+ */
+export interface CalendarOccurrence {
+  key: string;                   // event id + start, unique per occurrence
+  event_id: string;
+  feed_name?: string;
+  title: string;
+  location?: string;
+  start: number;
+  end?: number;
+  is_all_day: boolean;
+}
+
+/**
+ * Auto-categorization rule
+ * 
+ * VERSION 13: NEW (category_rules table)
+ * 
+ * - Conditions left undefined match anything; at least one is set
+ * - Amounts are in the expense's own currency, inclusive
+ * - Hard-deleted (settings - no Trash)
+ */
+export interface CategoryRule {
+  id: string;
+  merchant_contains?: string;    // Case-insensitive substring of merchant_name
+  min_amount?: number;
+  max_amount?: number;
+  category_id?: string;
+  payment_method?: string;
+  sort_order: number;            // Priority: lower runs first
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Exchange rate
+ * 
+ * VERSION 11: NEW (exchange_rates table)
+ * 
+ * - 1 from_currency = rate to_currency
+ * - Applies from effective_date (local midnight) until the next rate for the pair
+ * - Hard-deleted (reference data - no Trash)
+ */
+export interface ExchangeRate {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  effective_date: number;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * How the columns of a bank statement CSV map to expense fields
+ * Column indexes are 0-based; optional fields are unmapped when undefined.
+ */
+export interface StatementMapping {
+  has_header: boolean;
+  date_column: number;
+  amount_column: number;
+  merchant_column?: number;
+  note_column?: number;
+  currency_column?: number;
+  default_currency: string;
+  expenses_negative: boolean;    // Spending is negative, positive rows are income (skipped)
+}
+
+/**
+ * Saved statement mapping for one bank
+ * 
+ * VERSION 12: NEW (import_profiles table)
+ * 
+ * - Hard-deleted (settings - no Trash)
+ */
+export interface ImportProfile extends StatementMapping {
+  id: string;
+  name: string;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Result of importing a bank statement (importStatementExpenses)
+ * duplicates: rows matching an existing expense (same day, amount and merchant)
+ */
+export interface StatementImportResult {
+  imported: number;
+  duplicates: number;
+}
+
+/**
+ * Result of importing an .ics calendar file (importIcsTasks)
+ * duplicates: items whose UID matches an active task
+ */
+export interface IcsImportResult {
+  imported: number;
+  duplicates: number;
+}
+
+/**
+ * Result of importing an external calendar (importCalendarFeed)
+ * replaced: a calendar with the same name existed and its events were replaced
+ */
+export interface CalendarFeedImportResult {
+  name: string;
+  events: number;
+  replaced: boolean;
+}
+
+/**
+ * Result of importing exchange rates from CSV (importExchangeRates)
+ * A rate for a pair and day that already has one replaces it.
+ */
+export interface ExchangeRateImportResult {
+  added: number;
+  updated: number;
+}
+
+/**
+ * Trash item (soft-deleted collection, entry or checklist item)
+ *
+ * Read-only projection used by TrashScreen.
+ * deleted_at is always normalized to epoch milliseconds.
+ *
+ * kind='collection':     a deleted collection (item_count = entries it took down)
+ * kind='entry':          a task, note or checklist row from entries
+ * kind='checklist_item': an item deleted on its own (its checklist is still active)
+ * kind='expense':        an expense (title = amount · merchant or note)
+ *
+ * Rows deleted together with their parent (entries with their collection,
+ * items with their checklist, subtasks with their task) are NOT listed separately - they are counted
+ * in the parent's item_count and restored with it.
+ */
+export interface TrashItem {
+  id: string;
+  kind: 'collection' | 'entry' | 'checklist_item' | 'expense';
+  entry_type?: EntryType;        // kind='entry' only
+  title: string;
+  deleted_at: number;
+  collection_id?: string;
+  collection_name?: string;
+  checklist_id?: string;         // kind='checklist_item' only
+  checklist_title?: string;      // kind='checklist_item' only
+  item_count?: number;           // collections, checklists and tasks with subtasks
+}
+
+/**
+ * Trash items grouped by their original collection
+ */
+export interface TrashGroup {
+  collection_id?: string;
+  collection_name: string;
+  items: TrashItem[];
+}
+
+/**
+ * Search filters (SearchScreen)
+ * completion: 'open' = not completed tasks / unchecked items, plus notes and
+ * checklists (not completable); 'done' = completed tasks / checked items
+ */
+export interface SearchFilters {
+  entry_type?: EntryType;
+  collection_id?: string;
+  completion?: 'all' | 'open' | 'done';
+  limit?: number;
+}
+
+/**
+ * One search hit, best match first
+ *
+ * title / snippet carry FTS5 highlight markers (see utils/search.ts).
+ * A hit on a checklist item points at its checklist (entry_id) and the item (item_id).
+ */
+export interface SearchResult {
+  entry_id: string;
+  entry_type: EntryType;
+  item_id?: string;              // Checklist item hits only
+  parent_task_id?: string;       // Subtask hits: opens under the parent
+  title: string;                 // Highlighted title (entry or checklist item)
+  snippet?: string;              // Highlighted body excerpt, only when the body matched
+  checklist_title?: string;      // Checklist item hits only
+  completed: boolean;            // Task completed / item checked
+  collection_id?: string;
+  collection_name?: string;
+}
+
+/**
+ * Reference to an entry to open in CollectionsScreen
+ * (search results); requested_at makes repeated requests distinct
+ */
+export interface EntryLink {
+  collection_id: string;
+  entry_id: string;
+  entry_type: EntryType;
+  requested_at: number;
+}
+
+/**
+ * Everything shown in one collection, for Markdown export (utils/markdown.ts)
+ * tasks holds top-level tasks and subtasks (linked by parent_task_id)
+ */
+export interface CollectionExport {
+  collection: Collection;
+  tasks: Task[];
+  notes: Note[];
+  checklists: (ChecklistWithStats & { items: ChecklistItem[] })[];
+  items: CollectionItem[];  // Simple list items (is_simple_list)
+  records: (RecordWithStats & { values: RecordValue[] })[];
+}
+
+/**
+ * Tables written to a backup, in restore order (parents before children)
+ */
+export type BackupTable =
+  | 'collections'
+  | 'collection_items'
+  | 'entries'
+  | 'checklist_items'
+  | 'record_values'
+  | 'reminders'
+  | 'budget_categories'
+  | 'recurring_expenses'
+  | 'expenses'
+  | 'tags'
+  | 'entry_tags'
+  | 'exchange_rates'
+  | 'import_profiles'
+  | 'category_rules'
+  | 'calendar_feeds'
+  | 'calendar_events'
+  | 'app_metadata';
+
+/**
+ * One table row as stored in SQLite (column → value)
+ */
+export type BackupRow = Record<string, string | number | null>;
+
+/**
+ * JSON backup document (Settings → Export / Import)
+ *
+ * Rows are raw table rows, so an import keeps the original UUIDs.
+ * schema_version is the SCHEMA_VERSION that wrote the backup; older
+ * backups are upgraded when read (see utils/backup.ts).
+ * files holds the receipt files (base64) by their receipt_photo_path;
+ * backups written before receipts were stored have none.
+ */
+export interface BackupDocument {
+  format: 'tetradio-backup';
+  schema_version: number;
+  exported_at: number;
+  tables: Record<BackupTable, BackupRow[]>;
+  files?: Record<string, string>;
+}
+
+/**
+ * merge:   add rows not on this device, update rows the backup has a newer version of
+ * replace: wipe the backed-up tables, then restore the backup as-is
+ */
+export type BackupImportMode = 'merge' | 'replace';
+
+export interface BackupImportResult {
+  mode: BackupImportMode;
+  imported: number;   // Rows inserted or updated
+  skipped: number;    // Rows already up to date (merge only)
+}
+
+/**
+ * Rows an undoable change touched, as they were before it
+ * (deleting an entry, completing a task, moving an entry; see undoChange)
+ *
+ * entries, checklist_items and reminders are full rows of the entry and its
+ * children. Other entries of the collections involved only keep their
+ * position (entry_positions: id, collection_id, sort_order) and collections
+ * only is_archived, so edits made to them meanwhile survive an undo.
+ * series_id is set when a recurring task was completed: the occurrence
+ * that created is removed on undo.
+ */
+export interface UndoSnapshot {
+  taken_at: number;
+  entries: BackupRow[];
+  entry_positions: BackupRow[];
+  checklist_items: BackupRow[];
+  reminders: BackupRow[];
+  collections: BackupRow[];
+  series_id?: string;
 }
 
 /**
  * Create payload types (omit auto-generated fields)
+ * Entry tags are passed as names (tags?: string[]) by the operations, not as Tag rows
  */
-export type CreateTask = Omit<Task, 'id' | 'created_at' | 'updated_at' | 'deleted_at' | 'type'>;
-export type CreateNote = Omit<Note, 'id' | 'created_at' | 'updated_at' | 'deleted_at' | 'type'>;
-export type CreateChecklist = Omit<Checklist, 'id' | 'created_at' | 'updated_at' | 'deleted_at' | 'type'>;
+export type CreateTask = Omit<Task, 'id' | 'created_at' | 'updated_at' | 'deleted_at' | 'type' | 'tags'>;
+export type CreateNote = Omit<Note, 'id' | 'created_at' | 'updated_at' | 'deleted_at' | 'type' | 'tags'>;
+export type CreateChecklist = Omit<Checklist, 'id' | 'created_at' | 'updated_at' | 'deleted_at' | 'type' | 'tags'>;
 export type CreateChecklistItem = Omit<ChecklistItem, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
 export type CreateCollection = Omit<Collection, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
 export type CreateCollectionItem = Omit<CollectionItem, 'id' | 'created_at' | 'deleted_at'>;
 export type CreateReminder = Omit<Reminder, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
 export type CreateBudgetCategory = Omit<BudgetCategory, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
 export type CreateExpense = Omit<Expense, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
+export type CreateCategoryRule = Omit<CategoryRule, 'id' | 'created_at' | 'updated_at' | 'sort_order'>;
+export type CreateRecurringExpense = Omit<RecurringExpense, 'id' | 'created_at' | 'updated_at' | 'is_paused'>;
+
+export type CreateCalendarEvent = Omit<CalendarEvent, 'id' | 'feed_id' | 'created_at' | 'updated_at'>;
 
 /**
  * Update payload types (all fields optional except id)
  */
-export type UpdateTask = Partial<Omit<Task, 'id' | 'created_at' | 'deleted_at' | 'type'>> & { id: string };
-export type UpdateNote = Partial<Omit<Note, 'id' | 'created_at' | 'deleted_at' | 'type'>> & { id: string };
-export type UpdateChecklist = Partial<Omit<Checklist, 'id' | 'created_at' | 'deleted_at' | 'type'>> & { id: string };
+export type UpdateTask = Partial<Omit<Task, 'id' | 'created_at' | 'deleted_at' | 'type' | 'tags'>> & { id: string };
+export type UpdateNote = Partial<Omit<Note, 'id' | 'created_at' | 'deleted_at' | 'type' | 'tags'>> & { id: string };
+export type UpdateChecklist = Partial<Omit<Checklist, 'id' | 'created_at' | 'deleted_at' | 'type' | 'tags'>> & { id: string };
 export type UpdateChecklistItem = Partial<Omit<ChecklistItem, 'id' | 'created_at' | 'deleted_at'>> & { id: string };
 export type UpdateCollection = Partial<Omit<Collection, 'id' | 'created_at' | 'deleted_at'>> & { id: string };
 export type UpdateCollectionItem = Partial<Omit<CollectionItem, 'id' | 'created_at' | 'deleted_at'>> & { id: string };
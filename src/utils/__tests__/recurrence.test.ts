@@ -0,0 +1,45 @@
+import { anchorRepeatRule, getNextOccurrence, getRepeatPresets } from '../recurrence';
+
+const at = (year: number, month: number, day: number) => new Date(year, month - 1, day, 9, 0).getTime();
+
+// Completing each occurrence in turn, the way createNextOccurrence does
+function followSeries(value: string, from: number, count: number): number[] {
+  const dates: number[] = [];
+  let rule = value;
+  let due = from;
+
+  for (let i = 0; i < count; i++) {
+    rule = anchorRepeatRule(rule, due) ?? rule;
+    due = getNextOccurrence(rule, due)!;
+    dates.push(due);
+  }
+
+  return dates;
+}
+
+describe('yearly rules', () => {
+  it('go back to Feb 29 in leap years', () => {
+    expect(followSeries('FREQ=YEARLY', at(2028, 2, 29), 4)).toEqual([
+      at(2029, 2, 28),
+      at(2030, 2, 28),
+      at(2031, 2, 28),
+      at(2032, 2, 29),
+    ]);
+  });
+
+  it('are offered pinned to the due date', () => {
+    const yearly = getRepeatPresets(at(2028, 2, 29)).find(preset => preset.value.startsWith('FREQ=YEARLY'));
+
+    expect(yearly).toEqual({ label: 'Every year on Feb 29', value: 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29' });
+  });
+});
+
+describe('monthly rules', () => {
+  it('go back to the 31st after a short month', () => {
+    expect(followSeries('FREQ=MONTHLY', at(2026, 1, 31), 3)).toEqual([
+      at(2026, 2, 28),
+      at(2026, 3, 31),
+      at(2026, 4, 30),
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Backup document helpers
+ * No side effects, no dependencies on React or Expo
+ *
+ * A backup is a versioned JSON envelope around raw table rows
+ * (see BackupDocument). parseBackup validates a document read from a file
+ * and upgrades it to the current SCHEMA_VERSION; reading and writing the
+ * database lives in db/operations.ts (exportBackup / importBackup).
+ */
+
+import { SCHEMA_VERSION } from '../db/schema';
+import { isReceiptPath } from './receipts';
+import type { BackupDocument, BackupRow, BackupTable } from '../types/models';
+
+export const BACKUP_FORMAT = 'tetradio-backup';
+
+// First schema version that wrote backups
+export const MIN_BACKUP_SCHEMA_VERSION = 10;
+
+// Restore order: parents before children
+export const BACKUP_TABLES: BackupTable[] = [
+  'collections',
+  'collection_items',
+  'entries',
+  'checklist_items',
+  'record_values',
+  'reminders',
+  'budget_categories',
+  'recurring_expenses',
+  'expenses',
+  'tags',
+  'entry_tags',
+  'exchange_rates',
+  'import_profiles',
+  'category_rules',
+  'calendar_feeds',
+  'calendar_events',
+  'app_metadata',
+];
+
+// Tables whose rows are not identified by an `id` column
+const KEYLESS_TABLES: BackupTable[] = ['entry_tags', 'app_metadata'];
+
+/**
+ * Upgrade steps for backups written by older schema versions
+ * Step N turns a version N-1 backup into a version N backup.
+ *
+ * Added columns and tables need no step: missing columns take their
+ * defaults on import and missing tables are read as empty.
+ * Steps are only needed when existing data changes shape.
+ */
+const BACKUP_UPGRADES: Partial<Record<number, (tables: BackupDocument['tables']) => void>> = {};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isBackupRow(value: unknown, keyed: boolean): value is BackupRow {
+  if (!isPlainObject(value)) return false;
+  if (keyed && typeof value.id !== 'string') return false;
+
+  return Object.values(value).every(
+    field => field === null || typeof field === 'string' || typeof field === 'number'
+  );
+}
+
+/**
+ * Read a backup file's text
+ *
+ * - Checks the envelope (format, schema_version, tables)
+ * - Checks every row of the known tables; unknown tables are ignored
+ * - Checks the receipt files (only paths under receipts/ are accepted)
+ * - Upgrades older backups to the current schema version
+ *
+ * @throws Error with a user-facing message if the file can't be imported
+ */
+export function parseBackup(text: string): BackupDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a Tetradio backup.');
+  }
+
+  if (!isPlainObject(data) || data.format !== BACKUP_FORMAT || !isPlainObject(data.tables)) {
+    throw new Error('This file is not a Tetradio backup.');
+  }
+
+  const version = data.schema_version;
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    throw new Error('This backup has no version and cannot be imported.');
+  }
+
+  if (version > SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of Tetradio. Update the app to import it.');
+  }
+
+  if (version < MIN_BACKUP_SCHEMA_VERSION) {
+    throw new Error('This backup is too old to import.');
+  }
+
+  const tables = {} as BackupDocument['tables'];
+
+  for (const table of BACKUP_TABLES) {
+    const rows = data.tables[table] ?? [];
+    const keyed = !KEYLESS_TABLES.includes(table);
+
+    if (!Array.isArray(rows) || !rows.every(row => isBackupRow(row, keyed))) {
+      throw new Error(`This backup is damaged (${table}).`);
+    }
+
+    tables[table] = rows;
+  }
+
+  const files = data.files ?? {};
+  if (
+    !isPlainObject(files) ||
+    !Object.entries(files).every(([path, content]) => isReceiptPath(path) && typeof content === 'string')
+  ) {
+    throw new Error('This backup is damaged (receipts).');
+  }
+
+  for (let step = version + 1; step <= SCHEMA_VERSION; step++) {
+    BACKUP_UPGRADES[step]?.(tables);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    schema_version: SCHEMA_VERSION,
+    exported_at: typeof data.exported_at === 'number' ? data.exported_at : 0,
+    tables,
+    files: files as Record<string, string>,
+  };
+}
+
+/**
+ * File name for a backup: tetradio-backup-2025-03-14.json (local date)
+ */
+export function getBackupFileName(exportedAt: number): string {
+  const date = new Date(exportedAt);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return `${BACKUP_FORMAT}-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.json`;
+}
+
+/**
+ * Live (not deleted) rows of a table - used for the import summary
+ */
+export function countBackupRows(doc: BackupDocument, table: BackupTable): number {
+  return doc.tables[table].filter(row => row.deleted_at === undefined || row.deleted_at === null).length;
+}
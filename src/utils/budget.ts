@@ -0,0 +1,129 @@
+/**
+ * Monthly budget: spent versus monthly_limit per category
+ * No side effects, no dependencies on React or Expo
+ *
+ * - Subcategories roll up into their parent (the parent's spent includes them)
+ * - Spent is counted in the category's limit_currency; spending in other
+ *   currencies is listed separately and never added to it
+ * - Archived categories only show up for months they had spending in,
+ *   so past months keep their history
+ */
+
+import type { BudgetCategory, CategorySpend } from '../types/models';
+import type { CurrencyTotal } from './expenses';
+
+export type BudgetStatus = 'over' | 'near' | 'ok' | 'none';
+
+// Share of the limit from which a category counts as near its limit
+export const NEAR_LIMIT_RATIO = 0.8;
+
+export interface BudgetLine {
+  category: BudgetCategory;
+  spent: number; // in category.limit_currency, subcategories included
+  other: CurrencyTotal[]; // spending in other currencies
+  limit?: number;
+  ratio?: number; // spent / limit
+  status: BudgetStatus;
+  children: BudgetLine[];
+}
+
+export interface MonthlyBudget {
+  lines: BudgetLine[];
+  uncategorized: CurrencyTotal[];
+}
+
+export function getBudgetStatus(spent: number, limit?: number): BudgetStatus {
+  if (!limit) return 'none';
+  if (spent > limit) return 'over';
+  if (spent >= limit * NEAR_LIMIT_RATIO) return 'near';
+  return 'ok';
+}
+
+function addTotals(target: Map<string, number>, totals: Map<string, number> | undefined): void {
+  for (const [currency, total] of totals ?? []) {
+    target.set(currency, (target.get(currency) ?? 0) + total);
+  }
+}
+
+function toLine(
+  category: BudgetCategory,
+  totals: Map<string, number>,
+  children: BudgetLine[]
+): BudgetLine {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const spent = round(totals.get(category.limit_currency) ?? 0);
+  const limit = category.monthly_limit;
+
+  return {
+    category,
+    spent,
+    other: [...totals.entries()]
+      .filter(([currency]) => currency !== category.limit_currency)
+      .map(([currency, total]) => ({ currency, total: round(total) })),
+    limit,
+    ratio: limit ? spent / limit : undefined,
+    status: getBudgetStatus(spent, limit),
+    children,
+  };
+}
+
+/**
+ * Build a month's budget
+ *
+ * @param categories - All categories, archived included, in list order (getBudgetCategories)
+ * @param spending - The month's spending (getCategorySpending)
+ */
+export function buildMonthlyBudget(
+  categories: BudgetCategory[],
+  spending: CategorySpend[]
+): MonthlyBudget {
+  const own = new Map<string, Map<string, number>>();
+  const uncategorized = new Map<string, number>();
+  const known = new Set(categories.map(category => category.id));
+
+  for (const row of spending) {
+    if (row.category_id && known.has(row.category_id)) {
+      const totals = own.get(row.category_id) ?? new Map<string, number>();
+      totals.set(row.currency, (totals.get(row.currency) ?? 0) + row.total);
+      own.set(row.category_id, totals);
+    } else {
+      uncategorized.set(row.currency, (uncategorized.get(row.currency) ?? 0) + row.total);
+    }
+  }
+
+  const isShown = (category: BudgetCategory) => !category.is_archived || own.has(category.id);
+
+  // A child whose parent is gone is listed at the top level
+  const isTopLevel = (category: BudgetCategory) =>
+    !category.parent_category_id || !known.has(category.parent_category_id);
+
+  const lines: BudgetLine[] = [];
+
+  for (const parent of categories.filter(isTopLevel)) {
+    const childCategories = categories.filter(
+      category => category.parent_category_id === parent.id
+    );
+
+    const totals = new Map<string, number>();
+    addTotals(totals, own.get(parent.id));
+
+    const children: BudgetLine[] = [];
+    for (const child of childCategories) {
+      addTotals(totals, own.get(child.id));
+      if (isShown(child)) {
+        children.push(toLine(child, own.get(child.id) ?? new Map(), []));
+      }
+    }
+
+    if (isShown(parent) || children.length > 0) {
+      lines.push(toLine(parent, totals, children));
+    }
+  }
+
+  return {
+    lines,
+    uncategorized: [...uncategorized.entries()]
+      .map(([currency, total]) => ({ currency, total: Math.round(total * 100) / 100 }))
+      .sort((a, b) => b.total - a.total),
+  };
+}
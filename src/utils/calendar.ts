@@ -0,0 +1,163 @@
+/**
+ * Calendar grid and per-day task grouping
+ * No side effects, no dependencies on React or Expo
+ *
+ * - Weeks start on Monday (dates are shown en-GB elsewhere too)
+ * - Days are keyed by their local midnight
+ * - Within a day, timed tasks (hasTimeComponent) come first in time order,
+ *   then date-only tasks by priority
+ */
+
+import type { Task } from '../types/models';
+import { hasTimeComponent } from './timeClassification';
+import { startOfDay } from './expenses';
+
+export type CalendarView = 'month' | 'week';
+
+export type TaskDotKind = 'focus' | 'normal' | 'low' | 'completed';
+
+// Dots drawn in a month cell; more tasks show as "+"
+export const MAX_DAY_DOTS = 3;
+
+/**
+ * Local midnight `days` days away (DST-safe, unlike adding 24h)
+ */
+export function addDays(timestamp: number, days: number): number {
+  const date = new Date(startOfDay(timestamp));
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+/**
+ * Monday of the week of `timestamp` (local midnight)
+ */
+export function startOfWeek(timestamp: number): number {
+  const weekday = new Date(timestamp).getDay();
+  return addDays(timestamp, -((weekday + 6) % 7));
+}
+
+/**
+ * The 7 days of the week of `timestamp`, Monday first
+ */
+export function getWeekDays(timestamp: number): number[] {
+  const monday = startOfWeek(timestamp);
+  return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+}
+
+/**
+ * Weeks (rows of 7 days) covering a month; the first and last rows
+ * include days of the neighbouring months
+ */
+export function getMonthGrid(month: number): number[][] {
+  const first = new Date(month);
+  const firstDay = new Date(first.getFullYear(), first.getMonth(), 1).getTime();
+  const nextMonth = new Date(first.getFullYear(), first.getMonth() + 1, 1).getTime();
+
+  const weeks: number[][] = [];
+  for (let monday = startOfWeek(firstDay); monday < nextMonth; monday = addDays(monday, 7)) {
+    weeks.push(getWeekDays(monday));
+  }
+  return weeks;
+}
+
+/**
+ * Day order: timed tasks first by time, then date-only tasks by priority
+ * (1 before 2 before 3), then oldest first
+ */
+export function compareDayTasks(a: Task, b: Task): number {
+  const aHasTime = !!a.due_date && hasTimeComponent(a.due_date);
+  const bHasTime = !!b.due_date && hasTimeComponent(b.due_date);
+
+  if (aHasTime !== bHasTime) return aHasTime ? -1 : 1;
+  if (aHasTime && a.due_date !== b.due_date) return a.due_date! - b.due_date!;
+
+  const aPriority = a.calm_priority ?? 2;
+  const bPriority = b.calm_priority ?? 2;
+  if (aPriority !== bPriority) return aPriority - bPriority;
+
+  return a.created_at - b.created_at;
+}
+
+/**
+ * Dated tasks grouped by day (local midnight → tasks in day order)
+ * Tasks without a due date are left out.
+ */
+export function groupTasksByDay<T extends Task>(tasks: T[]): Map<number, T[]> {
+  const days = new Map<number, T[]>();
+
+  for (const task of tasks) {
+    if (!task.due_date) continue;
+
+    const day = startOfDay(task.due_date);
+    const list = days.get(day) ?? [];
+    list.push(task);
+    days.set(day, list);
+  }
+
+  for (const list of days.values()) {
+    list.sort(compareDayTasks);
+  }
+
+  return days;
+}
+
+/**
+ * Dot for a task in the month grid (same scheme as the priority circles)
+ */
+export function getTaskDotKind(task: Task): TaskDotKind {
+  if (task.completed) return 'completed';
+  if (task.calm_priority === 1) return 'focus';
+  if (task.calm_priority === 3) return 'low';
+  return 'normal';
+}
+
+/**
+ * New due date when a task is moved to another day (time of day is kept)
+ */
+export function moveToDay(dueDate: number, day: number): number {
+  const time = new Date(dueDate);
+  const target = new Date(day);
+  target.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), 0);
+  return target.getTime();
+}
+
+/**
+ * "14:30" for a timed due date, '' for a date-only one
+ */
+export function formatTaskTime(dueDate: number): string {
+  if (!hasTimeComponent(dueDate)) return '';
+
+  const date = new Date(dueDate);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * "13 – 19 Oct 2026", "29 Sep – 5 Oct 2026", "29 Dec 2025 – 4 Jan 2026"
+ */
+export function formatWeekRange(weekStart: number): string {
+  const first = new Date(weekStart);
+  const last = new Date(addDays(weekStart, 6));
+  const lastLabel = last.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+  if (first.getFullYear() !== last.getFullYear()) {
+    return `${first.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })} – ${lastLabel}`;
+  }
+
+  if (first.getMonth() !== last.getMonth()) {
+    return `${first.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })} – ${lastLabel}`;
+  }
+
+  return `${first.getDate()} – ${lastLabel}`;
+}
+
+/**
+ * "Monday 13 October"
+ */
+export function formatDayHeading(day: number): string {
+  return new Date(day).toLocaleDateString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * Occurrences of external calendar events (read-only, from .ics files)
+ * No side effects, no dependencies on React or Expo
+ *
+ * - A recurring event is expanded with the task recurrence rules
+ *   (utils/recurrence.ts), up to its UNTIL / COUNT and minus its exdates
+ * - An occurrence belongs to every day it overlaps (multi-day events
+ *   show on each of their days)
+ * - Events without an end are points in time at their start
+ */
+
+import type { CalendarEvent, CalendarOccurrence } from '../types/models';
+import { getNextOccurrence } from './recurrence';
+import { addDays } from './calendar';
+import { startOfDay } from './expenses';
+
+// Per event and window, so a daily series can't flood a long range
+export const MAX_OCCURRENCES = 400;
+
+// Days a single occurrence is listed on at most
+const MAX_EVENT_DAYS = 31;
+
+function toOccurrence(event: CalendarEvent, start: number, feedName?: string): CalendarOccurrence {
+  const duration = event.end_time !== undefined ? event.end_time - event.start_time : undefined;
+
+  return {
+    key: `${event.id}:${start}`,
+    event_id: event.id,
+    feed_name: feedName,
+    title: event.title,
+    location: event.location,
+    start,
+    end: duration !== undefined ? start + duration : undefined,
+    is_all_day: event.is_all_day,
+  };
+}
+
+/**
+ * Occurrences of one event that overlap [from, to)
+ */
+export function expandEvent(
+  event: CalendarEvent,
+  from: number,
+  to: number,
+  feedName?: string
+): CalendarOccurrence[] {
+  const duration = event.end_time !== undefined ? event.end_time - event.start_time : 0;
+  const excluded = new Set(event.exdates);
+  const occurrences: CalendarOccurrence[] = [];
+
+  let start: number | null = event.start_time;
+  let index = 0;
+
+  while (start !== null && start < to && occurrences.length < MAX_OCCURRENCES) {
+    if (event.repeat_until !== undefined && start > event.repeat_until) break;
+    if (event.repeat_count !== undefined && index >= event.repeat_count) break;
+
+    const overlaps = duration > 0 ? start + duration > from : start >= from;
+    if (overlaps && !excluded.has(start)) {
+      occurrences.push(toOccurrence(event, start, feedName));
+    }
+
+    if (!event.repeat_rule) break;
+
+    // Without COUNT, occurrences before the window can be skipped in bulk
+    start = event.repeat_count === undefined && start + duration < from
+      ? getNextOccurrence(event.repeat_rule, start, from - duration)
+      : getNextOccurrence(event.repeat_rule, start);
+    index++;
+  }
+
+  return occurrences;
+}
+
+/**
+ * Occurrences of all events that overlap [from, to), all-day first, then
+ * by start
+ */
+export function getEventOccurrences(
+  events: (CalendarEvent & { feed_name?: string })[],
+  from: number,
+  to: number
+): CalendarOccurrence[] {
+  return events
+    .flatMap(event => expandEvent(event, from, to, event.feed_name))
+    .sort((a, b) => Number(b.is_all_day) - Number(a.is_all_day) || a.start - b.start);
+}
+
+/**
+ * Occurrences grouped by each day they overlap (local midnight → list)
+ */
+export function groupOccurrencesByDay(occurrences: CalendarOccurrence[]): Map<number, CalendarOccurrence[]> {
+  const days = new Map<number, CalendarOccurrence[]>();
+
+  for (const occurrence of occurrences) {
+    // end is exclusive: an event ending at midnight doesn't show on that day
+    const last = occurrence.end !== undefined && occurrence.end > occurrence.start
+      ? startOfDay(occurrence.end - 1)
+      : startOfDay(occurrence.start);
+
+    let day = startOfDay(occurrence.start);
+    for (let count = 0; day <= last && count < MAX_EVENT_DAYS; count++) {
+      const list = days.get(day) ?? [];
+      list.push(occurrence);
+      days.set(day, list);
+      day = addDays(day, 1);
+    }
+  }
+
+  return days;
+}
+
+/**
+ * "All day", "14:30", "14:30 – 15:30"
+ */
+export function formatOccurrenceTime(occurrence: CalendarOccurrence): string {
+  if (occurrence.is_all_day) return 'All day';
+
+  const format = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+
+  return occurrence.end !== undefined
+    ? `${format(occurrence.start)} – ${format(occurrence.end)}`
+    : format(occurrence.start);
+}
@@ -0,0 +1,137 @@
+/**
+ * CSV reading and writing helpers
+ * No side effects, no dependencies on React or Expo
+ *
+ * Handles what spreadsheet and bank exports actually contain:
+ * quoted fields ("a, b" and "" escapes), CRLF line ends, a UTF-8 BOM,
+ * and ';' or tab delimiters (European exports use ';').
+ * Written CSV uses ',' and quotes only the fields that need it.
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+/**
+ * Guess the delimiter from the first line (the most frequent one outside quotes)
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/)[0] ?? '';
+  const counts: Record<CsvDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+
+  for (const char of firstLine) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char in counts) {
+      counts[char as CsvDelimiter]++;
+    }
+  }
+
+  return (Object.keys(counts) as CsvDelimiter[]).reduce((best, delimiter) =>
+    counts[delimiter] > counts[best] ? delimiter : best
+  );
+}
+
+/**
+ * Split CSV text into rows of trimmed fields
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field.trim());
+    if (row.some(value => value !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Read a date cell as local midnight (epoch ms)
+ * Accepts 2025-03-14, 2025/03/14, 14/03/2025, 14.03.2025 and 14-03-2025
+ * (day-first: the formats banks outside the US export)
+ * @returns null if the value isn't a valid date
+ */
+export function parseCsvDate(value: string): number | null {
+  const trimmed = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const isoMatch = trimmed.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  const dayFirstMatch = trimmed.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})/);
+
+  if (isoMatch) {
+    [year, month, day] = [Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3])];
+  } else if (dayFirstMatch) {
+    [day, month, year] = [Number(dayFirstMatch[1]), Number(dayFirstMatch[2]), Number(dayFirstMatch[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+
+  return date.getTime();
+}
+
+/**
+ * Local date as written in exports: 2025-03-14 (read back by parseCsvDate)
+ */
+export function formatCsvDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatCsvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows of fields to CSV text (CRLF line ends, as spreadsheets expect)
+ */
+export function formatCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map(row => row.map(formatCsvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,191 @@
+/**
+ * Currency conversion with the offline exchange-rate table
+ * No side effects, no dependencies on React or Expo
+ *
+ * - A rate applies from its effective_date until the next rate for the pair
+ * - A pair can be used both ways (EUR→USD 1.08 also converts USD→EUR)
+ * - No chaining through a third currency: a missing pair means the amount
+ *   stays unconverted and is shown in its own currency
+ *
+ * Rates CSV (importExchangeRates), one rate per line, header optional:
+ *
+ *   date,from,to,rate
+ *   2025-03-01,EUR,USD,1.0812
+ */
+
+import type { BudgetCategory, CategorySpend, ExchangeRate } from '../types/models';
+import type { CurrencyTotal } from './expenses';
+import { formatCurrency } from './formatting';
+import { parseCsv, parseCsvDate } from './csv';
+
+export type ExchangeRateInput = Pick<
+  ExchangeRate,
+  'from_currency' | 'to_currency' | 'rate' | 'effective_date'
+>;
+
+export interface ConvertedTotal {
+  currency: string; // the base currency
+  total: number;
+  unconverted: CurrencyTotal[]; // amounts without a rate on their day
+}
+
+/**
+ * "usd " → "USD"
+ * @returns null unless it's a three-letter code
+ */
+export function normalizeCurrencyCode(value: string): string | null {
+  const code = value.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+/**
+ * Rate to turn `from` into `to` on a day, or null if there is none
+ * The direct pair and the inverted pair are both considered;
+ * the one that took effect last wins.
+ */
+export function findRate(
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  date: number
+): number | null {
+  if (from === to) return 1;
+
+  let best: { rate: number; effective_date: number } | null = null;
+
+  for (const rate of rates) {
+    if (rate.effective_date > date) continue;
+    if (best && rate.effective_date < best.effective_date) continue;
+
+    if (rate.from_currency === from && rate.to_currency === to) {
+      best = { rate: rate.rate, effective_date: rate.effective_date };
+    } else if (rate.from_currency === to && rate.to_currency === from) {
+      best = { rate: 1 / rate.rate, effective_date: rate.effective_date };
+    }
+  }
+
+  return best ? best.rate : null;
+}
+
+/**
+ * Convert an amount with the rate in effect on `date`
+ * @returns The converted amount rounded to cents, or null if there is no rate
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  date: number,
+  rates: ExchangeRate[]
+): number | null {
+  const rate = findRate(rates, from, to, date);
+  return rate === null ? null : Math.round(amount * rate * 100) / 100;
+}
+
+/**
+ * Total of dated amounts in the base currency, each converted on its own day
+ */
+export function sumInCurrency(
+  items: { amount: number; currency: string; transaction_date: number }[],
+  base: string,
+  rates: ExchangeRate[]
+): ConvertedTotal {
+  let total = 0;
+  const unconverted = new Map<string, number>();
+
+  for (const item of items) {
+    const converted = convertAmount(item.amount, item.currency, base, item.transaction_date, rates);
+
+    if (converted === null) {
+      unconverted.set(item.currency, (unconverted.get(item.currency) ?? 0) + item.amount);
+    } else {
+      total += converted;
+    }
+  }
+
+  return {
+    currency: base,
+    total: Math.round(total * 100) / 100,
+    unconverted: [...unconverted.entries()].map(([currency, amount]) => ({
+      currency,
+      total: Math.round(amount * 100) / 100,
+    })),
+  };
+}
+
+/**
+ * "€123.45", or "€123.45 + $5.00" when some amounts had no rate
+ */
+export function formatConvertedTotal(converted: ConvertedTotal): string {
+  return [
+    formatCurrency(converted.total, converted.currency),
+    ...converted.unconverted.map(({ currency, total }) => formatCurrency(total, currency)),
+  ].join(' + ');
+}
+
+/**
+ * Category spending in the base currency (for buildMonthlyBudget)
+ * Rows without a rate keep their own currency.
+ */
+export function convertSpending(
+  spending: CategorySpend[],
+  base: string,
+  rates: ExchangeRate[]
+): CategorySpend[] {
+  return spending.map(row => {
+    const total = convertAmount(row.total, row.currency, base, row.transaction_date, rates);
+    return total === null ? row : { ...row, currency: base, total };
+  });
+}
+
+/**
+ * Categories with their monthly limit in the base currency (for buildMonthlyBudget)
+ * Limits are converted with the rate in effect on `date`; a limit without
+ * a rate keeps its own currency. Categories without a limit count in the base currency.
+ */
+export function convertCategoryLimits(
+  categories: BudgetCategory[],
+  base: string,
+  rates: ExchangeRate[],
+  date: number
+): BudgetCategory[] {
+  return categories.map(category => {
+    if (!category.monthly_limit) {
+      return { ...category, limit_currency: base };
+    }
+
+    const limit = convertAmount(category.monthly_limit, category.limit_currency, base, date, rates);
+    return limit === null ? category : { ...category, monthly_limit: limit, limit_currency: base };
+  });
+}
+
+/**
+ * Read a rates CSV (see the format above)
+ * @returns The valid rates, and the rows (1-based, blank lines not counted)
+ *   that couldn't be read
+ */
+export function parseRatesCsv(text: string): { rates: ExchangeRateInput[]; invalidRows: number[] } {
+  const rows = parseCsv(text);
+  const rates: ExchangeRateInput[] = [];
+  const invalidRows: number[] = [];
+
+  rows.forEach((row, index) => {
+    const [dateValue = '', fromValue = '', toValue = '', rateValue = ''] = row;
+    const effective_date = parseCsvDate(dateValue);
+    const from_currency = normalizeCurrencyCode(fromValue);
+    const to_currency = normalizeCurrencyCode(toValue);
+    const rate = Number(rateValue.replace(',', '.'));
+
+    if (effective_date === null || !from_currency || !to_currency || from_currency === to_currency || !(rate > 0)) {
+      // A header line is expected, not an error
+      if (index > 0 || effective_date !== null) {
+        invalidRows.push(index + 1);
+      }
+      return;
+    }
+
+    rates.push({ from_currency, to_currency, rate, effective_date });
+  });
+
+  return { rates, invalidRows };
+}
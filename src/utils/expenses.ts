@@ -0,0 +1,165 @@
+/**
+ * Expense helpers: amount parsing, day grouping, month ranges and totals
+ * No side effects, no dependencies on React or Expo
+ *
+ * Amounts are never summed across currencies: totals are per currency
+ * ("€42.50 · $12.00").
+ */
+
+import type { Expense } from '../types/models';
+import { formatCurrency, formatDate } from './formatting';
+
+export const DEFAULT_CURRENCY = 'EUR';
+
+// Currencies formatCurrency has a symbol for
+export const EXPENSE_CURRENCIES = ['EUR', 'USD', 'GBP', 'BRL'];
+
+export const PAYMENT_METHODS: { value: string; label: string }[] = [
+  { value: 'card', label: 'Card' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'transfer', label: 'Transfer' },
+];
+
+export interface CurrencyTotal {
+  currency: string;
+  total: number;
+}
+
+export interface ExpenseDay<T extends Expense = Expense> {
+  day: number; // local midnight
+  title: string;
+  totals: CurrencyTotal[];
+  data: T[];
+}
+
+export function getPaymentMethodLabel(method?: string): string {
+  if (!method) return '';
+  return PAYMENT_METHODS.find(option => option.value === method)?.label ?? method;
+}
+
+/**
+ * Read an amount typed by the user ("12.5", "12,50", "€ 3")
+ * @returns The amount rounded to cents, or null if it isn't a positive number
+ */
+export function parseAmount(text: string): number | null {
+  const cleaned = text.replace(/[^\d.,]/g, '').replace(',', '.');
+  if (!/^\d*\.?\d*$/.test(cleaned) || cleaned === '' || cleaned === '.') {
+    return null;
+  }
+
+  const amount = Math.round(parseFloat(cleaned) * 100) / 100;
+  return amount > 0 ? amount : null;
+}
+
+/**
+ * Amount as shown in an input: "12.5" → "12.50", whole amounts stay "12"
+ */
+export function formatAmountInput(amount: number): string {
+  return Number.isInteger(amount) ? String(amount) : amount.toFixed(2);
+}
+
+export function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+export function startOfMonth(timestamp: number): number {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+/**
+ * First day of the month `months` away from the month of `timestamp`
+ */
+export function addMonths(timestamp: number, months: number): number {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth() + months, 1).getTime();
+}
+
+/**
+ * transaction_date window of a month: from (inclusive), to (exclusive)
+ */
+export function getMonthRange(timestamp: number): { from: number; to: number } {
+  return { from: startOfMonth(timestamp), to: addMonths(timestamp, 1) };
+}
+
+/**
+ * "October 2026"
+ */
+export function formatMonthLabel(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString('en-GB', {
+    month: 'long',
+    year: 'numeric',
+  });
+}
+
+/**
+ * "Today", "Yesterday", otherwise "Mon, 12 Oct 2026"
+ */
+export function formatExpenseDay(timestamp: number, now: number = Date.now()): string {
+  const day = startOfDay(timestamp);
+  const today = startOfDay(now);
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  if (day === today) return 'Today';
+  if (day === yesterday.getTime()) return 'Yesterday';
+
+  const weekday = new Date(timestamp).toLocaleDateString('en-GB', { weekday: 'short' });
+  return `${weekday}, ${formatDate(timestamp)}`;
+}
+
+/**
+ * Sum per currency, largest total first
+ */
+export function sumByCurrency(expenses: Expense[]): CurrencyTotal[] {
+  const totals = new Map<string, number>();
+
+  for (const expense of expenses) {
+    totals.set(expense.currency, (totals.get(expense.currency) ?? 0) + expense.amount);
+  }
+
+  return [...totals.entries()]
+    .map(([currency, total]) => ({ currency, total: Math.round(total * 100) / 100 }))
+    .sort((a, b) => b.total - a.total);
+}
+
+/**
+ * "€42.50 · $12.00" (an empty list reads as zero in the default currency)
+ */
+export function formatTotals(totals: CurrencyTotal[]): string {
+  if (totals.length === 0) {
+    return formatCurrency(0, DEFAULT_CURRENCY);
+  }
+
+  return totals.map(({ currency, total }) => formatCurrency(total, currency)).join(' · ');
+}
+
+/**
+ * Group expenses by local day, keeping their order (getExpenses sorts newest first)
+ */
+export function groupExpensesByDay<T extends Expense>(
+  expenses: T[],
+  now: number = Date.now()
+): ExpenseDay<T>[] {
+  const days: ExpenseDay<T>[] = [];
+
+  for (const expense of expenses) {
+    const day = startOfDay(expense.transaction_date);
+    let group = days.find(existing => existing.day === day);
+
+    if (!group) {
+      group = { day, title: formatExpenseDay(day, now), totals: [], data: [] };
+      days.push(group);
+    }
+
+    group.data.push(expense);
+  }
+
+  for (const group of days) {
+    group.totals = sumByCurrency(group.data);
+  }
+
+  return days;
+}
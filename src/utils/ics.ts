@@ -0,0 +1,544 @@
+/**
+ * iCalendar (.ics) export and import of dated tasks
+ * No side effects, no dependencies on React or Expo
+ *
+ * Export: one VTODO per task with a due date
+ *
+ *   BEGIN:VTODO
+ *   UID:<task id>@tetradio        (or the UID the task was imported with)
+ *   SUMMARY:Dentist
+ *   DUE:20261021T073000Z          timed tasks (hasTimeComponent), in UTC
+ *   DUE;VALUE=DATE:20261021       date-only tasks, all-day
+ *   STATUS:COMPLETED              + COMPLETED:<time>, or NEEDS-ACTION
+ *   PRIORITY:1 / 5 / 9            Focus / Normal / Low
+ *   RRULE:FREQ=WEEKLY             repeating tasks (utils/recurrence.ts)
+ *   END:VTODO
+ *
+ * Import: VTODO and VEVENT components
+ * - SUMMARY → title, DESCRIPTION → notes, DUE (VEVENT: DTSTART) → due_date
+ * - Times with a TZID are read as local time (no time zone database here);
+ *   all-day dates become local midnight
+ * - Cancelled items and overrides of a recurring item (RECURRENCE-ID) are
+ *   skipped; RRULEs outside the supported subset are dropped
+ *
+ * External calendars: VEVENTs as read-only events (parseIcsEvents), with
+ * DTEND / DURATION, RRULE with UNTIL / COUNT, EXDATE and moved occurrences;
+ * occurrences are expanded in utils/calendarEvents.ts
+ */
+
+import type { CreateCalendarEvent, Task } from '../types/models';
+import { hasTimeComponent } from './timeClassification';
+import { anchorRepeatRule, formatRepeatRule, parseRepeatRule } from './recurrence';
+
+/**
+ * A task read from an .ics file (parseIcs)
+ */
+export interface IcsTask {
+  uid: string;
+  title: string;
+  notes?: string;
+  due_date?: number;
+  completed: boolean;
+  completed_at?: number;
+  calm_priority?: 1 | 2 | 3;
+  repeat_rule?: string;
+}
+
+export interface IcsParseResult {
+  tasks: IcsTask[];
+  skipped: number; // Cancelled items, recurrence overrides, items without a title
+}
+
+/**
+ * An external calendar read from an .ics file (parseIcsEvents)
+ */
+export interface IcsEventsParseResult {
+  name: string | null; // X-WR-CALNAME
+  events: CreateCalendarEvent[];
+  skipped: number;     // Cancelled events, events without a start
+}
+
+// Lines are folded at 75 octets (RFC 5545 3.1)
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * UID a task is exported with; kept stable so re-imports can skip it
+ */
+export function getTaskIcsUid(task: Pick<Task, 'id' | 'ics_uid'>): string {
+  return task.ics_uid || `${task.id}@tetradio`;
+}
+
+// ─── Writing ───
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Split a content line into 75-octet pieces, never inside a character
+ */
+function foldLine(line: string): string {
+  const pieces: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines start with a space, which counts
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (octets + size > limit) {
+      pieces.push(current);
+      current = '';
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+
+  pieces.push(current);
+  return pieces.join('\r\n ');
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 20261021T073000Z
+function formatUtcDateTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+// 20261021 (local day)
+function formatLocalDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+const PRIORITY_TO_ICS: Record<number, number> = { 1: 1, 2: 5, 3: 9 };
+
+function taskToLines(task: Task, exportedAt: number): string[] {
+  const dueDate = task.due_date!;
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${escapeText(getTaskIcsUid(task))}`,
+    `DTSTAMP:${formatUtcDateTime(exportedAt)}`,
+    `SUMMARY:${escapeText(task.title)}`,
+  ];
+
+  if (task.notes?.trim()) {
+    lines.push(`DESCRIPTION:${escapeText(task.notes)}`);
+  }
+
+  lines.push(
+    hasTimeComponent(dueDate)
+      ? `DUE:${formatUtcDateTime(dueDate)}`
+      : `DUE;VALUE=DATE:${formatLocalDate(dueDate)}`
+  );
+
+  if (task.completed) {
+    lines.push('STATUS:COMPLETED');
+    if (task.completed_at) {
+      lines.push(`COMPLETED:${formatUtcDateTime(task.completed_at)}`);
+    }
+  } else {
+    lines.push('STATUS:NEEDS-ACTION');
+  }
+
+  lines.push(`PRIORITY:${PRIORITY_TO_ICS[task.calm_priority ?? 2] ?? 5}`);
+
+  if (task.repeat_rule) {
+    lines.push(`RRULE:${task.repeat_rule}`);
+  }
+
+  lines.push(`LAST-MODIFIED:${formatUtcDateTime(task.updated_at)}`, 'END:VTODO');
+  return lines;
+}
+
+/**
+ * Build an .ics calendar of the tasks that have a due date
+ */
+export function buildIcs(tasks: Task[], exportedAt: number): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Tetradio//Tetradio//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:Tetradio',
+  ];
+
+  for (const task of tasks) {
+    if (task.due_date) {
+      lines.push(...taskToLines(task, exportedAt));
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * File name for an export: tetradio-tasks-2026-10-19.ics
+ */
+export function getIcsFileName(exportedAt: number): string {
+  const date = new Date(exportedAt);
+  return `tetradio-tasks-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.ics`;
+}
+
+// ─── Reading ───
+
+interface ContentLine {
+  name: string;
+  value: string;
+}
+
+interface IcsComponent {
+  kind: 'VTODO' | 'VEVENT';
+  lines: ContentLine[];
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/**
+ * NAME;PARAM=value;PARAM="quoted":value (parameters are not needed)
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let colon = -1;
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+
+  if (colon <= 0) return null;
+
+  return {
+    name: line.slice(0, colon).split(';')[0].toUpperCase(),
+    value: line.slice(colon + 1),
+  };
+}
+
+/**
+ * The calendar's name (X-WR-CALNAME) and its VTODO / VEVENT components
+ * @throws Error if the text is not an iCalendar file
+ */
+function readIcs(text: string): { name: string | null; components: IcsComponent[] } {
+  // Unfold: a line starting with a space or tab continues the previous one
+  const rawLines = text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  if (!rawLines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('This is not a calendar (.ics) file.');
+  }
+
+  const components: IcsComponent[] = [];
+  let name: string | null = null;
+  let component: (IcsComponent & { depth: number }) | null = null;
+
+  for (const raw of rawLines) {
+    const line = parseContentLine(raw.trim());
+    if (!line) continue;
+
+    const value = line.value.trim().toUpperCase();
+
+    if (!component) {
+      if (line.name === 'BEGIN' && (value === 'VTODO' || value === 'VEVENT')) {
+        component = { kind: value, lines: [], depth: 0 };
+      } else if (line.name === 'X-WR-CALNAME' && name === null) {
+        name = unescapeText(line.value).trim() || null;
+      }
+      continue;
+    }
+
+    // Nested components (VALARM) are ignored
+    if (line.name === 'BEGIN') {
+      component.depth++;
+    } else if (line.name === 'END' && component.depth > 0) {
+      component.depth--;
+    } else if (line.name === 'END') {
+      components.push({ kind: component.kind, lines: component.lines });
+      component = null;
+    } else if (component.depth === 0) {
+      component.lines.push(line);
+    }
+  }
+
+  return { name, components };
+}
+
+function getLine(component: IcsComponent, name: string): ContentLine | undefined {
+  return component.lines.find(line => line.name === name);
+}
+
+// Single-line text property (titles, locations)
+function getInlineText(component: IcsComponent, name: string): string {
+  return unescapeText(getLine(component, name)?.value ?? '').replace(/\s*\n\s*/g, ' ').trim();
+}
+
+/**
+ * DATE (local midnight), DATE-TIME in UTC (…Z) or local / TZID time
+ * @returns null when malformed
+ */
+function parseIcsDate(value: string): number | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match.map(part => part ?? '');
+  const parts = [
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours || 0),
+    Number(minutes || 0),
+    Number(seconds || 0),
+  ] as const;
+
+  const timestamp = utc ? Date.UTC(...parts) : new Date(...parts).getTime();
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+function getDate(component: IcsComponent, name: string): number | undefined {
+  const line = getLine(component, name);
+  return line ? parseIcsDate(line.value) ?? undefined : undefined;
+}
+
+function parsePriority(value: string): 1 | 2 | 3 | undefined {
+  const priority = parseInt(value, 10);
+  if (!Number.isInteger(priority) || priority === 0) return undefined;
+  if (priority <= 4) return 1;
+  if (priority === 5) return 2;
+  return 3;
+}
+
+// A repeating series only if the rule is supported and open-ended
+function parseRule(value: string): string | undefined {
+  if (/(^|;)(COUNT|UNTIL)=/i.test(value)) return undefined;
+
+  const rule = parseRepeatRule(value);
+  return rule ? formatRepeatRule(rule) : undefined;
+}
+
+function componentToTask(component: IcsComponent): IcsTask | null {
+  const title = getInlineText(component, 'SUMMARY');
+  const status = getLine(component, 'STATUS')?.value.trim().toUpperCase();
+
+  if (!title || status === 'CANCELLED' || getLine(component, 'RECURRENCE-ID')) {
+    return null;
+  }
+
+  const isTodo = component.kind === 'VTODO';
+  const dueDate = isTodo
+    ? getDate(component, 'DUE') ?? getDate(component, 'DTSTART')
+    : getDate(component, 'DTSTART');
+  const completedAt = getDate(component, 'COMPLETED');
+  const notes = unescapeText(getLine(component, 'DESCRIPTION')?.value ?? '').trim();
+  const priority = getLine(component, 'PRIORITY');
+  const rrule = getLine(component, 'RRULE');
+
+  return {
+    uid: getLine(component, 'UID')?.value.trim() ?? '',
+    title,
+    notes: notes || undefined,
+    due_date: dueDate,
+    completed: isTodo && (status === 'COMPLETED' || !!getLine(component, 'COMPLETED')),
+    completed_at: completedAt,
+    calm_priority: priority ? parsePriority(priority.value) : undefined,
+    repeat_rule: rrule && dueDate ? parseRule(rrule.value) : undefined,
+  };
+}
+
+/**
+ * Read the to-dos and events of an .ics file as tasks
+ * Items without a UID get one made from their content, so importing the
+ * same file twice still finds them.
+ * @throws Error if the text is not an iCalendar file
+ */
+export function parseIcs(text: string): IcsParseResult {
+  const tasks: IcsTask[] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+
+  for (const component of readIcs(text).components) {
+    const task = componentToTask(component);
+
+    if (!task) {
+      skipped++;
+      continue;
+    }
+
+    if (!task.uid) {
+      task.uid = `${task.title}|${task.due_date ?? ''}`;
+    }
+
+    if (seen.has(task.uid)) {
+      skipped++;
+      continue;
+    }
+
+    seen.add(task.uid);
+    tasks.push(task);
+  }
+
+  return { tasks, skipped };
+}
+
+// ─── External calendars ───
+
+/**
+ * DURATION (P1D, PT1H30M, P1W) in ms
+ */
+function parseDuration(value: string): number | null {
+  const match = /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map(part => Number(part ?? 0));
+  return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+/**
+ * RRULE → supported repeat rule plus the end of the series
+ * Monthly/yearly rules get their day so short months don't shift it.
+ */
+function parseEventRule(
+  value: string,
+  start: number
+): Pick<CreateCalendarEvent, 'repeat_rule' | 'repeat_until' | 'repeat_count'> {
+  const parts = value.trim().replace(/^RRULE:/i, '').split(';');
+  const find = (key: string) =>
+    parts.find(part => part.toUpperCase().startsWith(`${key}=`))?.slice(key.length + 1);
+
+  const rule = anchorRepeatRule(
+    parts.filter(part => !/^(COUNT|UNTIL|WKST)=/i.test(part)).join(';'),
+    start
+  );
+  if (!rule) return {};
+
+  const until = find('UNTIL');
+  const count = parseInt(find('COUNT') ?? '', 10);
+
+  return {
+    repeat_rule: rule,
+    repeat_until: until ? parseIcsDate(until) ?? undefined : undefined,
+    repeat_count: Number.isInteger(count) && count > 0 ? count : undefined,
+  };
+}
+
+function componentToEvent(component: IcsComponent): CreateCalendarEvent | null {
+  const startLine = getLine(component, 'DTSTART');
+  const start = startLine ? parseIcsDate(startLine.value) : null;
+  const status = getLine(component, 'STATUS')?.value.trim().toUpperCase();
+
+  if (!startLine || start === null || status === 'CANCELLED') {
+    return null;
+  }
+
+  const isAllDay = /^\d{8}$/.test(startLine.value.trim());
+  const duration = getLine(component, 'DURATION');
+  const durationMs = duration ? parseDuration(duration.value) : null;
+  const nextDay = new Date(start);
+  nextDay.setDate(nextDay.getDate() + 1);
+
+  const end = getDate(component, 'DTEND')
+    ?? (durationMs !== null ? start + durationMs : undefined)
+    ?? (isAllDay ? nextDay.getTime() : undefined);
+
+  const exdates = component.lines
+    .filter(line => line.name === 'EXDATE')
+    .flatMap(line => line.value.split(','))
+    .map(parseIcsDate)
+    .filter((date): date is number => date !== null);
+
+  const rrule = getLine(component, 'RRULE');
+  const notes = unescapeText(getLine(component, 'DESCRIPTION')?.value ?? '').trim();
+  const location = getInlineText(component, 'LOCATION');
+
+  return {
+    uid: getLine(component, 'UID')?.value.trim() ?? '',
+    title: getInlineText(component, 'SUMMARY') || 'Untitled event',
+    notes: notes || undefined,
+    location: location || undefined,
+    start_time: start,
+    end_time: end !== undefined && end > start ? end : undefined,
+    is_all_day: isAllDay,
+    ...(rrule ? parseEventRule(rrule.value, start) : {}),
+    exdates,
+  };
+}
+
+/**
+ * Read the events of an .ics file as a read-only external calendar
+ * 
+ * - Moved or cancelled occurrences of a recurring event (RECURRENCE-ID)
+ *   are left out of the series; a moved one is kept as an event of its own
+ * - Events without a start, cancelled events and repeated UIDs are skipped
+ * 
+ * @throws Error if the text is not an iCalendar file
+ */
+export function parseIcsEvents(text: string): IcsEventsParseResult {
+  const { name, components } = readIcs(text);
+  const events: CreateCalendarEvent[] = [];
+  const series = new Map<string, CreateCalendarEvent>();
+  const overridden: { uid: string; start: number }[] = [];
+  let skipped = 0;
+
+  for (const component of components) {
+    if (component.kind !== 'VEVENT') continue;
+
+    const uid = getLine(component, 'UID')?.value.trim() ?? '';
+    const recurrenceId = getDate(component, 'RECURRENCE-ID');
+
+    if (recurrenceId !== undefined && uid) {
+      overridden.push({ uid, start: recurrenceId });
+    }
+
+    const event = componentToEvent(component);
+
+    if (!event) {
+      skipped++;
+      continue;
+    }
+
+    if (recurrenceId !== undefined) {
+      // A moved occurrence stands alone
+      event.uid = `${uid}#${recurrenceId}`;
+      event.repeat_rule = undefined;
+      event.repeat_until = undefined;
+      event.repeat_count = undefined;
+    } else if (uid && series.has(uid)) {
+      skipped++;
+      continue;
+    } else if (uid) {
+      series.set(uid, event);
+    }
+
+    events.push(event);
+  }
+
+  for (const { uid, start } of overridden) {
+    series.get(uid)?.exdates.push(start);
+  }
+
+  return { name, events, skipped };
+}
@@ -0,0 +1,160 @@
+/**
+ * Markdown export
+ * No side effects, no dependencies on React or Expo
+ *
+ * Turns collections into human-readable Markdown (for docs, chats, archiving):
+ *
+ *   # 🛒 Groceries
+ *
+ *   - [ ] Buy milk · due 14 Mar 2025 · Focus #weekly
+ *     - [x] Check the fridge
+ *   - Party supplies
+ *     - [x] Balloons
+ *     - [ ] Candles
+ *
+ *   ## Recipe ideas
+ *
+ *   Lasagne, risotto…
+ *
+ * Tasks, checklists and records (latest value only) keep their order in
+ * the collection (one list); notes follow as sections of their own. Recurring tasks show only their
+ * next occurrence, like CollectionsScreen.
+ */
+
+import type { CollectionExport, RecordWithStats, Task, Tag } from '../types/models';
+import { formatDate, getPriorityLabel } from './formatting';
+import { formatRecordValue } from './records';
+import { formatTag } from './tags';
+import { selectNextOccurrences } from './timeClassification';
+
+// Titles are single-line in Markdown lists and headings
+function inline(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+function heading(level: number, text: string): string {
+  return `${'#'.repeat(Math.min(level, 6))} ${inline(text)}`;
+}
+
+function formatTags(tags?: Tag[]): string {
+  return tags && tags.length > 0 ? ' ' + tags.map(tag => formatTag(tag.name)).join(' ') : '';
+}
+
+/**
+ * "- [ ] Title · due 14 Mar 2025 · Focus #tag"
+ * Normal priority (the default) is left out.
+ */
+function taskLine(task: Task, indent: string): string {
+  const details: string[] = [];
+
+  if (task.due_date) {
+    details.push(`due ${formatDate(task.due_date)}`);
+  }
+
+  if (task.calm_priority && task.calm_priority !== 2) {
+    details.push(getPriorityLabel(task.calm_priority));
+  }
+
+  const suffix = details.map(detail => ` · ${detail}`).join('');
+  return `${indent}- [${task.completed ? 'x' : ' '}] ${inline(task.title)}${suffix}${formatTags(task.tags)}`;
+}
+
+/**
+ * "- Weight · 72.4 kg on 14 Mar 2025 #health"
+ */
+function recordLine(record: RecordWithStats): string {
+  const latest = record.latest_value !== undefined && record.latest_recorded_at !== undefined
+    ? ` · ${formatRecordValue(record.latest_value, record.unit)} on ${formatDate(record.latest_recorded_at)}`
+    : '';
+
+  return `- ${inline(record.title)}${latest}${formatTags(record.tags)}`;
+}
+
+/**
+ * Render one collection
+ * @param level Heading level of the collection title (notes go one level below)
+ */
+export function collectionToMarkdown(data: CollectionExport, level: number = 1): string {
+  const { collection } = data;
+  const title = `${collection.icon ? `${collection.icon} ` : ''}${collection.name}`;
+  const blocks: string[] = [heading(level, collection.is_archived ? `${title} (archived)` : title)];
+
+  // Subtasks render under their parent (a subtask whose parent is gone stays top-level)
+  const taskIds = new Set(data.tasks.map(task => task.id));
+  const subtasks = new Map<string, Task[]>();
+  const topLevelTasks = data.tasks.filter(task => {
+    if (task.parent_task_id && taskIds.has(task.parent_task_id)) {
+      subtasks.set(task.parent_task_id, [...(subtasks.get(task.parent_task_id) ?? []), task]);
+      return false;
+    }
+    return true;
+  });
+
+  const listItems = [
+    ...selectNextOccurrences(topLevelTasks).map(task => ({ sort_order: task.sort_order, task })),
+    ...data.checklists.map(checklist => ({ sort_order: checklist.sort_order, checklist })),
+    ...data.records.map(record => ({ sort_order: record.sort_order, record })),
+  ].sort((a, b) => a.sort_order - b.sort_order);
+
+  // Simple list items come first, in list order
+  const lines: string[] = data.items.map(
+    item => `- [${item.checked ? 'x' : ' '}] ${inline(item.text)}`
+  );
+  for (const item of listItems) {
+    if ('task' in item) {
+      lines.push(taskLine(item.task, ''));
+      const children = [...(subtasks.get(item.task.id) ?? [])].sort((a, b) => a.sort_order - b.sort_order);
+      for (const subtask of children) {
+        lines.push(taskLine(subtask, '  '));
+      }
+    } else if ('record' in item) {
+      lines.push(recordLine(item.record));
+    } else {
+      lines.push(`- ${inline(item.checklist.title)}${formatTags(item.checklist.tags)}`);
+      for (const checklistItem of item.checklist.items) {
+        lines.push(`  - [${checklistItem.checked ? 'x' : ' '}] ${inline(checklistItem.title)}`);
+      }
+    }
+  }
+
+  if (lines.length > 0) {
+    blocks.push(lines.join('\n'));
+  }
+
+  const notes = [...data.notes].sort((a, b) => a.sort_order - b.sort_order);
+  for (const note of notes) {
+    blocks.push(heading(level + 1, note.title) + formatTags(note.tags));
+    if (note.notes?.trim()) {
+      blocks.push(note.notes.trim());
+    }
+  }
+
+  if (lines.length === 0 && notes.length === 0) {
+    blocks.push('_Empty_');
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * Render the whole notebook: a title, then every collection one level down
+ */
+export function notebookToMarkdown(collections: CollectionExport[], exportedAt: number): string {
+  const blocks = [
+    heading(1, 'Tetradio'),
+    `_Exported ${formatDate(exportedAt)}_`,
+    ...collections.map(data => collectionToMarkdown(data, 2).trimEnd()),
+  ];
+
+  return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * File name for a notebook export: tetradio-2025-03-14.md (local date)
+ */
+export function getMarkdownFileName(exportedAt: number): string {
+  const date = new Date(exportedAt);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return `tetradio-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.md`;
+}
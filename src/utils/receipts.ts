@@ -0,0 +1,45 @@
+/**
+ * Receipt file naming
+ * No side effects, no dependencies on React or Expo
+ *
+ * Receipts are copied into the app's document directory as
+ * receipts/<expense id>.<ext>; expenses.receipt_photo_path holds that
+ * relative path (the document directory itself can move between installs).
+ * Reading and writing the files lives in receipts/storage.ts.
+ */
+
+export const RECEIPTS_DIRECTORY = 'receipts';
+
+const RECEIPT_PATH_PATTERN = /^receipts\/[A-Za-z0-9-]+\.(jpg|jpeg|png|heic|webp|pdf)$/;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/heic': 'heic',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+};
+
+/**
+ * receipts/<expense id>.<ext> - the extension comes from the picked file
+ * (its name, or else its MIME type; jpg if neither says)
+ */
+export function getReceiptPath(expenseId: string, fileName: string, mimeType?: string): string {
+  const nameExtension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  const extension = RECEIPT_PATH_PATTERN.test(`${RECEIPTS_DIRECTORY}/x.${nameExtension}`)
+    ? nameExtension
+    : MIME_EXTENSIONS[mimeType ?? ''] ?? 'jpg';
+
+  return `${RECEIPTS_DIRECTORY}/${expenseId}.${extension}`;
+}
+
+/**
+ * A path this app wrote (also guards backup files against paths outside receipts/)
+ */
+export function isReceiptPath(path: string): boolean {
+  return RECEIPT_PATH_PATTERN.test(path);
+}
+
+export function isPdfReceipt(path: string): boolean {
+  return path.toLowerCase().endsWith('.pdf');
+}
@@ -0,0 +1,142 @@
+/**
+ * Record helpers: value parsing and formatting, sparkline geometry, CSV export
+ * No side effects, no dependencies on React or Expo
+ *
+ * A record is a named series of numeric values (weight, blood pressure,
+ * mileage) with an optional free-text unit. Values keep up to two decimals
+ * when shown; they are stored as typed.
+ */
+
+import type { RecordEntry, RecordValue } from '../types/models';
+import { formatCsv, formatCsvDate } from './csv';
+
+// Latest values drawn by the card sparkline
+export const RECORD_SPARKLINE_POINTS = 20;
+
+export interface SparklinePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Straight piece of a sparkline, drawn as a View of `length` rotated by
+ * `angle` degrees around its center (cx, cy)
+ */
+export interface SparklineSegment {
+  cx: number;
+  cy: number;
+  length: number;
+  angle: number;
+}
+
+/**
+ * Read a value typed by the user ("72.4", "72,4", "-3", "1 250")
+ * @returns The number, or null if the text isn't one
+ */
+export function parseRecordValue(text: string): number | null {
+  const cleaned = text.replace(/\s/g, '').replace(',', '.');
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(cleaned)) {
+    return null;
+  }
+
+  const value = parseFloat(cleaned);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Value as shown in an input: no trailing zeros ("72.4", "80")
+ */
+export function formatRecordInput(value: number): string {
+  return String(Number(value.toFixed(2)));
+}
+
+/**
+ * "72.4 kg", "12,500 km", "3"
+ */
+export function formatRecordValue(value: number, unit?: string): string {
+  const number = Number(value.toFixed(2)).toLocaleString('en-GB', { maximumFractionDigits: 2 });
+  return unit ? `${number} ${unit}` : number;
+}
+
+/**
+ * Change from the previous value: "+0.4 kg", "−1.2 kg", "No change"
+ */
+export function formatRecordChange(latest: number, previous: number, unit?: string): string {
+  const change = Number((latest - previous).toFixed(2));
+  if (change === 0) return 'No change';
+
+  const sign = change > 0 ? '+' : '−';
+  return `${sign}${formatRecordValue(Math.abs(change), unit)}`;
+}
+
+/**
+ * Points of a sparkline in a width × height box (values oldest first)
+ * The lowest value sits on the bottom edge, the highest on the top edge;
+ * a flat series is drawn across the middle.
+ */
+export function getSparklinePoints(values: number[], width: number, height: number): SparklinePoint[] {
+  if (values.length === 0) return [];
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+
+  return values.map((value, index) => ({
+    x: values.length > 1 ? index * step : width / 2,
+    y: max === min ? height / 2 : height - ((value - min) / (max - min)) * height,
+  }));
+}
+
+/**
+ * Segments joining consecutive sparkline points
+ */
+export function getSparklineSegments(points: SparklinePoint[]): SparklineSegment[] {
+  return points.slice(1).map((point, index) => {
+    const previous = points[index];
+    const dx = point.x - previous.x;
+    const dy = point.y - previous.y;
+
+    return {
+      cx: (previous.x + point.x) / 2,
+      cy: (previous.y + point.y) / 2,
+      length: Math.hypot(dx, dy),
+      angle: (Math.atan2(dy, dx) * 180) / Math.PI,
+    };
+  });
+}
+
+/**
+ * CSV of a record's values, oldest first
+ * Columns: date, time, value, unit, note
+ */
+export function buildRecordCsv(record: Pick<RecordEntry, 'unit'>, values: RecordValue[]): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const rows = [...values]
+    .sort((a, b) => a.recorded_at - b.recorded_at)
+    .map(value => {
+      const date = new Date(value.recorded_at);
+      return [
+        formatCsvDate(value.recorded_at),
+        `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+        value.value,
+        record.unit ?? '',
+        value.note ?? '',
+      ];
+    });
+
+  return formatCsv([['date', 'time', 'value', 'unit', 'note'], ...rows]);
+}
+
+/**
+ * "tetradio-weight-2026-10-19.csv" (title reduced to letters and digits)
+ */
+export function getRecordCsvFileName(title: string, exportedAt: number): string {
+  const slug = title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return `tetradio-${slug || 'record'}-${formatCsvDate(exportedAt)}.csv`;
+}
@@ -0,0 +1,384 @@
+/**
+ * Recurrence rules for repeating tasks
+ * No side effects, no dependencies on React or Expo
+ *
+ * Rules are stored on entries.repeat_rule as a subset of RFC 5545 RRULE:
+ *
+ *   FREQ=DAILY                       every day
+ *   FREQ=DAILY;INTERVAL=3            every 3 days
+ *   FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR every weekday
+ *   FREQ=WEEKLY;INTERVAL=2           every 2 weeks (same weekday as the due date)
+ *   FREQ=MONTHLY;BYMONTHDAY=15       monthly on the 15th
+ *   FREQ=MONTHLY;BYDAY=2TU           monthly on the 2nd Tuesday (-1TU = last Tuesday)
+ *   FREQ=YEARLY                      every year on the due date
+ *   FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29  every year on Feb 29
+ *
+ * Occurrences are anchored to the task's due_date and keep its time of day.
+ * Days that don't exist in a month (31st, Feb 29) fall back to the last day;
+ * rules carry their day (BYMONTHDAY) so the next one goes back to it.
+ */
+
+export type RepeatFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+/**
+ * Parsed form of a repeat rule string
+ *
+ * byDay:       WEEKLY only - weekdays to repeat on (defaults to the due date's weekday)
+ * byMonthDay:  MONTHLY / YEARLY by date - day of month, 1-31
+ * byMonth:     YEARLY only - month, 1-12
+ * byNthDay:    MONTHLY by weekday - ordinal 1-4, or -1 for the last one
+ */
+export interface RepeatRule {
+  freq: RepeatFrequency;
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number;
+  byMonth?: number;
+  byNthDay?: { weekday: Weekday; ordinal: number };
+}
+
+// Indexed like Date.getDay()
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WORKING_WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  SU: 'Sunday',
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Safety net for getNextOccurrence when catching up on missed occurrences
+const MAX_ITERATIONS = 1000;
+
+function isWeekday(value: string): value is Weekday {
+  return (WEEKDAYS as string[]).includes(value);
+}
+
+function getDaysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function getStartOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Parse a repeat rule string
+ * Returns null for empty, unknown or malformed rules
+ */
+export function parseRepeatRule(value?: string | null): RepeatRule | null {
+  if (!value) return null;
+
+  const parts = value.trim().replace(/^RRULE:/i, '').split(';');
+  const fields: Record<string, string> = {};
+
+  for (const part of parts) {
+    const [key, raw] = part.split('=');
+    if (!key || raw === undefined) return null;
+    fields[key.trim().toUpperCase()] = raw.trim().toUpperCase();
+  }
+
+  const freq = fields.FREQ as RepeatFrequency;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    return null;
+  }
+
+  const interval = fields.INTERVAL ? parseInt(fields.INTERVAL, 10) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    return null;
+  }
+
+  const rule: RepeatRule = { freq, interval };
+
+  if (fields.BYMONTHDAY) {
+    const day = parseInt(fields.BYMONTHDAY, 10);
+    if ((freq !== 'MONTHLY' && freq !== 'YEARLY') || !Number.isInteger(day) || day < 1 || day > 31) {
+      return null;
+    }
+    rule.byMonthDay = day;
+  }
+
+  if (fields.BYMONTH) {
+    const month = parseInt(fields.BYMONTH, 10);
+    if (freq !== 'YEARLY' || !Number.isInteger(month) || month < 1 || month > 12) {
+      return null;
+    }
+    rule.byMonth = month;
+  }
+
+  if (fields.BYDAY) {
+    if (freq === 'WEEKLY') {
+      const days = fields.BYDAY.split(',');
+      if (!days.every(isWeekday)) return null;
+      rule.byDay = WEEKDAYS.filter(day => days.includes(day));
+    } else if (freq === 'MONTHLY') {
+      const match = /^(-1|[1-4])(SU|MO|TU|WE|TH|FR|SA)$/.exec(fields.BYDAY);
+      if (!match || rule.byMonthDay) return null;
+      rule.byNthDay = { ordinal: parseInt(match[1], 10), weekday: match[2] as Weekday };
+    } else {
+      return null;
+    }
+  }
+
+  return rule;
+}
+
+/**
+ * Serialize a rule to its canonical string form
+ */
+export function formatRepeatRule(rule: RepeatRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.freq === 'WEEKLY' && rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  }
+  if (rule.freq === 'MONTHLY' && rule.byNthDay) {
+    parts.push(`BYDAY=${rule.byNthDay.ordinal}${rule.byNthDay.weekday}`);
+  } else if (rule.freq === 'MONTHLY' && rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  if (rule.freq === 'YEARLY' && rule.byMonth) {
+    parts.push(`BYMONTH=${rule.byMonth}`);
+  }
+  if (rule.freq === 'YEARLY' && rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+
+  return parts.join(';');
+}
+
+function formatOrdinal(n: number): string {
+  if (n === -1) return 'last';
+  const suffix = n % 10 === 1 && n !== 11 ? 'st'
+    : n % 10 === 2 && n !== 12 ? 'nd'
+    : n % 10 === 3 && n !== 13 ? 'rd'
+    : 'th';
+  return `${n}${suffix}`;
+}
+
+/**
+ * Ordinal of a date's weekday within its month
+ * 1-4, or -1 when it falls in the 5th week (always the last one)
+ */
+export function getWeekdayOrdinal(timestamp: number): number {
+  const ordinal = Math.ceil(new Date(timestamp).getDate() / 7);
+  return ordinal > 4 ? -1 : ordinal;
+}
+
+/**
+ * Human-readable description, e.g. "Every weekday", "Monthly on the 2nd Tuesday"
+ * Returns '' for invalid rules
+ */
+export function describeRepeatRule(value?: string | null): string {
+  const rule = parseRepeatRule(value);
+  if (!rule) return '';
+
+  const { freq, interval } = rule;
+
+  switch (freq) {
+    case 'DAILY':
+      return interval === 1 ? 'Every day' : `Every ${interval} days`;
+    case 'WEEKLY': {
+      const days = rule.byDay ?? [];
+      if (interval === 1 && days.length === WORKING_WEEKDAYS.length && WORKING_WEEKDAYS.every(d => days.includes(d))) {
+        return 'Every weekday';
+      }
+      const base = interval === 1 ? 'Every week' : `Every ${interval} weeks`;
+      if (days.length === 0) return base;
+      return `${base} on ${days.map(d => WEEKDAY_NAMES[d].slice(0, 3)).join(', ')}`;
+    }
+    case 'MONTHLY': {
+      const base = interval === 1 ? 'Monthly' : `Every ${interval} months`;
+      if (rule.byNthDay) {
+        return `${base} on the ${formatOrdinal(rule.byNthDay.ordinal)} ${WEEKDAY_NAMES[rule.byNthDay.weekday]}`;
+      }
+      if (rule.byMonthDay) {
+        return `${base} on the ${formatOrdinal(rule.byMonthDay)}`;
+      }
+      return base;
+    }
+    case 'YEARLY': {
+      const base = interval === 1 ? 'Every year' : `Every ${interval} years`;
+      if (rule.byMonth && rule.byMonthDay) {
+        return `${base} on ${MONTH_NAMES[rule.byMonth - 1]} ${rule.byMonthDay}`;
+      }
+      return base;
+    }
+    default: {
+      const _exhaustive: never = freq;
+      return _exhaustive;
+    }
+  }
+}
+
+/**
+ * Day of month of the nth weekday (ordinal -1 = last)
+ */
+function getNthWeekdayOfMonth(year: number, month: number, weekday: Weekday, ordinal: number): number {
+  const target = WEEKDAYS.indexOf(weekday);
+  const daysInMonth = getDaysInMonth(year, month);
+
+  if (ordinal === -1) {
+    const lastWeekday = new Date(year, month, daysInMonth).getDay();
+    return daysInMonth - ((lastWeekday - target + 7) % 7);
+  }
+
+  const firstWeekday = new Date(year, month, 1).getDay();
+  return 1 + ((target - firstWeekday + 7) % 7) + (ordinal - 1) * 7;
+}
+
+/**
+ * Next occurrence strictly after `from` (a previous occurrence or the anchor)
+ */
+function getFollowingOccurrence(rule: RepeatRule, from: number): number {
+  const base = new Date(from);
+  const hours = base.getHours();
+  const minutes = base.getMinutes();
+
+  const at = (year: number, month: number, day: number) =>
+    new Date(year, month, day, hours, minutes, 0, 0).getTime();
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return at(base.getFullYear(), base.getMonth(), base.getDate() + rule.interval);
+
+    case 'WEEKLY': {
+      if (!rule.byDay || rule.byDay.length === 0) {
+        return at(base.getFullYear(), base.getMonth(), base.getDate() + 7 * rule.interval);
+      }
+
+      // Walk day by day; with INTERVAL > 1 only weeks N, 2N, ... after the anchor's week count
+      const anchorWeekStart = getStartOfDay(from) - base.getDay() * DAY_MS;
+      for (let offset = 1; offset <= 7 * rule.interval + 7; offset++) {
+        const candidate = new Date(base.getFullYear(), base.getMonth(), base.getDate() + offset, hours, minutes);
+        const weekIndex = Math.round((getStartOfDay(candidate.getTime()) - candidate.getDay() * DAY_MS - anchorWeekStart) / (7 * DAY_MS));
+        if (weekIndex % rule.interval === 0 && rule.byDay.includes(WEEKDAYS[candidate.getDay()])) {
+          return candidate.getTime();
+        }
+      }
+      return at(base.getFullYear(), base.getMonth(), base.getDate() + 7 * rule.interval);
+    }
+
+    case 'MONTHLY': {
+      const year = base.getFullYear();
+      const month = base.getMonth() + rule.interval;
+      // Normalize month overflow (e.g. month 13) before looking up month lengths
+      const target = new Date(year, month, 1);
+
+      if (rule.byNthDay) {
+        const day = getNthWeekdayOfMonth(target.getFullYear(), target.getMonth(), rule.byNthDay.weekday, rule.byNthDay.ordinal);
+        return at(target.getFullYear(), target.getMonth(), day);
+      }
+
+      const wanted = rule.byMonthDay ?? base.getDate();
+      const day = Math.min(wanted, getDaysInMonth(target.getFullYear(), target.getMonth()));
+      return at(target.getFullYear(), target.getMonth(), day);
+    }
+
+    case 'YEARLY': {
+      const year = base.getFullYear() + rule.interval;
+      const month = rule.byMonth ? rule.byMonth - 1 : base.getMonth();
+      const wanted = rule.byMonthDay ?? base.getDate();
+      const day = Math.min(wanted, getDaysInMonth(year, month));
+      return at(year, month, day);
+    }
+  }
+}
+
+/**
+ * Pin a monthly/yearly rule without a day to the day of `from`
+ * Those rules clamp short months; computing from the rule's own day makes
+ * "31st" go Jan 31 → Feb 28 → Mar 31 and Feb 29 come back in leap years,
+ * instead of drifting to the 28th.
+ */
+function anchorRule(rule: RepeatRule, from: number): void {
+  const date = new Date(from);
+
+  if (rule.freq === 'MONTHLY' && !rule.byNthDay && !rule.byMonthDay) {
+    rule.byMonthDay = date.getDate();
+  }
+  if (rule.freq === 'YEARLY' && !rule.byMonthDay) {
+    rule.byMonth = rule.byMonth ?? date.getMonth() + 1;
+    rule.byMonthDay = date.getDate();
+  }
+}
+
+/**
+ * Rule string pinned to the day of `from` (see anchorRule)
+ * Stored with each new occurrence so a clamped date doesn't become the
+ * series' new day.
+ * @returns null if the rule is invalid
+ */
+export function anchorRepeatRule(value: string, from: number): string | null {
+  const rule = parseRepeatRule(value);
+  if (!rule) return null;
+
+  anchorRule(rule, from);
+  return formatRepeatRule(rule);
+}
+
+/**
+ * Due date of the occurrence after `from`
+ *
+ * @param value - Repeat rule string
+ * @param from - Due date of the current occurrence
+ * @param notBefore - Skip occurrences before this timestamp (missed ones),
+ *                    e.g. start of today when completing an overdue task
+ * @returns Next due date, or null if the rule is invalid
+ */
+export function getNextOccurrence(value: string, from: number, notBefore?: number): number | null {
+  const rule = parseRepeatRule(value);
+  if (!rule) return null;
+
+  anchorRule(rule, from);
+
+  let next = getFollowingOccurrence(rule, from);
+  let iterations = 0;
+
+  while (notBefore !== undefined && next < notBefore && iterations < MAX_ITERATIONS) {
+    next = getFollowingOccurrence(rule, next);
+    iterations++;
+  }
+
+  return next;
+}
+
+/**
+ * Repeat options offered for a given due date
+ * Monthly/weekly variants are derived from the date itself
+ * (e.g. "Monthly on the 15th" and "Monthly on the 3rd Tuesday" for Tue 15th)
+ */
+export function getRepeatPresets(dueDate: number): { label: string; value: string }[] {
+  const date = new Date(dueDate);
+  const weekday = WEEKDAYS[date.getDay()];
+
+  const rules: RepeatRule[] = [
+    { freq: 'DAILY', interval: 1 },
+    { freq: 'WEEKLY', interval: 1, byDay: [...WORKING_WEEKDAYS] },
+    { freq: 'WEEKLY', interval: 1, byDay: [weekday] },
+    { freq: 'MONTHLY', interval: 1, byMonthDay: date.getDate() },
+    { freq: 'MONTHLY', interval: 1, byNthDay: { weekday, ordinal: getWeekdayOrdinal(dueDate) } },
+    { freq: 'YEARLY', interval: 1, byMonth: date.getMonth() + 1, byMonthDay: date.getDate() },
+  ];
+
+  return rules.map(rule => {
+    const value = formatRepeatRule(rule);
+    return { label: describeRepeatRule(value), value };
+  });
+}
@@ -0,0 +1,325 @@
+/**
+ * Expense reports: breakdowns, month-over-month trend and exports
+ * No side effects, no dependencies on React or Expo
+ *
+ * - A report covers 1, 3 or 12 whole months ending with a chosen month,
+ *   and is compared with the period of the same length just before it
+ * - Everything is summed in the base currency, each expense converted with
+ *   the rate of its day (utils/currency.ts); expenses without a rate are
+ *   left out of the breakdowns and listed in `unconverted`
+ * - Categories are counted as booked (a subcategory is its own line)
+ */
+
+import type { Expense, ExchangeRate } from '../types/models';
+import { CurrencyTotal, addMonths, getPaymentMethodLabel, startOfMonth } from './expenses';
+import { convertAmount } from './currency';
+import { formatCsv, formatCsvDate } from './csv';
+
+export const REPORT_PERIODS: { months: number; label: string }[] = [
+  { months: 1, label: 'Month' },
+  { months: 3, label: '3 Months' },
+  { months: 12, label: '12 Months' },
+];
+
+// Months shown in the trend (more when the period itself is longer)
+export const TREND_MONTHS = 6;
+
+export const TOP_MERCHANTS = 10;
+
+export interface ReportExpense extends Expense {
+  category_name?: string;
+  category_icon?: string;
+}
+
+export interface ReportRange {
+  from: number; // inclusive
+  to: number;   // exclusive
+}
+
+export interface ReportRanges {
+  current: ReportRange;
+  previous: ReportRange;
+  trend: ReportRange;
+  // Everything buildExpenseReport needs, for a single getExpenses call
+  fetch: ReportRange;
+}
+
+export interface ReportLine {
+  key: string;
+  label: string;
+  total: number;    // base currency
+  count: number;
+  previous: number; // same key in the previous period
+}
+
+export interface ReportMonth {
+  month: number; // first day of the month
+  total: number;
+}
+
+export interface ExpenseReport {
+  range: ReportRange;
+  currency: string;
+  total: number;
+  previousTotal: number;
+  count: number;
+  byCategory: ReportLine[];
+  byPaymentMethod: ReportLine[];
+  topMerchants: ReportLine[];
+  trend: ReportMonth[];
+  unconverted: CurrencyTotal[];
+}
+
+/**
+ * Date windows of a report of `months` months ending with `endMonth`
+ */
+export function getReportRanges(endMonth: number, months: number): ReportRanges {
+  const to = addMonths(endMonth, 1);
+  const current = { from: addMonths(endMonth, 1 - months), to };
+  const previous = { from: addMonths(endMonth, 1 - 2 * months), to: current.from };
+  const trend = { from: addMonths(endMonth, 1 - Math.max(TREND_MONTHS, months)), to };
+
+  return {
+    current,
+    previous,
+    trend,
+    fetch: { from: Math.min(previous.from, trend.from), to },
+  };
+}
+
+/**
+ * "October 2026", "Aug – Oct 2026", "Nov 2025 – Oct 2026"
+ */
+export function formatReportPeriod(range: ReportRange): string {
+  const first = new Date(range.from);
+  const last = new Date(range.to - 1);
+
+  if (first.getFullYear() === last.getFullYear() && first.getMonth() === last.getMonth()) {
+    return first.toLocaleDateString('en-GB', { month: 'long', year: 'numeric' });
+  }
+
+  const lastLabel = last.toLocaleDateString('en-GB', { month: 'short', year: 'numeric' });
+  const firstLabel = first.getFullYear() === last.getFullYear()
+    ? first.toLocaleDateString('en-GB', { month: 'short' })
+    : first.toLocaleDateString('en-GB', { month: 'short', year: 'numeric' });
+
+  return `${firstLabel} – ${lastLabel}`;
+}
+
+/**
+ * Relative change from `previous` to `current` (0.25 = +25%)
+ * @returns null when there is nothing to compare with
+ */
+export function getChange(current: number, previous: number): number | null {
+  if (previous <= 0) return null;
+  return (current - previous) / previous;
+}
+
+/**
+ * "+25%", "−10%", "±0%"
+ */
+export function formatChange(change: number): string {
+  const percent = Math.round(change * 100);
+  if (percent === 0) return '±0%';
+  return percent > 0 ? `+${percent}%` : `−${Math.abs(percent)}%`;
+}
+
+function getCategoryLine(expense: ReportExpense): { key: string; label: string } {
+  if (!expense.category_id || !expense.category_name) {
+    return { key: '', label: 'Uncategorized' };
+  }
+
+  return {
+    key: expense.category_id,
+    label: expense.category_icon ? `${expense.category_icon} ${expense.category_name}` : expense.category_name,
+  };
+}
+
+function getPaymentMethodLine(expense: ReportExpense): { key: string; label: string } {
+  return expense.payment_method
+    ? { key: expense.payment_method, label: getPaymentMethodLabel(expense.payment_method) }
+    : { key: '', label: 'Not set' };
+}
+
+// Merchants are grouped case-insensitively; the first spelling seen is shown
+function getMerchantLine(expense: ReportExpense): { key: string; label: string } | null {
+  const merchant = expense.merchant_name?.trim();
+  return merchant ? { key: merchant.toLowerCase(), label: merchant } : null;
+}
+
+type LineTotals = Map<string, ReportLine>;
+
+function addToLine(
+  lines: LineTotals,
+  line: { key: string; label: string } | null,
+  amount: number,
+  isCurrent: boolean
+): void {
+  if (!line) return;
+
+  const existing = lines.get(line.key) ?? { ...line, total: 0, count: 0, previous: 0 };
+  if (isCurrent) {
+    existing.total += amount;
+    existing.count++;
+  } else {
+    existing.previous += amount;
+  }
+  lines.set(line.key, existing);
+}
+
+/**
+ * Largest first; lines with nothing in the current period only when
+ * `withPreviousOnly` (so a category that dropped to zero still shows)
+ */
+function toLineList(lines: LineTotals, withPreviousOnly: boolean): ReportLine[] {
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return [...lines.values()]
+    .filter(line => line.count > 0 || withPreviousOnly)
+    .map(line => ({ ...line, total: round(line.total), previous: round(line.previous) }))
+    .sort((a, b) => b.total - a.total || b.previous - a.previous);
+}
+
+/**
+ * Build a report
+ *
+ * @param expenses - Active expenses in ranges.fetch (getExpenses)
+ * @param base - Currency to report in
+ */
+export function buildExpenseReport(
+  expenses: ReportExpense[],
+  ranges: ReportRanges,
+  base: string,
+  rates: ExchangeRate[]
+): ExpenseReport {
+  const byCategory: LineTotals = new Map();
+  const byPaymentMethod: LineTotals = new Map();
+  const merchants: LineTotals = new Map();
+  const unconverted = new Map<string, number>();
+  const trend = new Map<number, number>();
+  let total = 0;
+  let previousTotal = 0;
+  let count = 0;
+
+  for (let month = ranges.trend.from; month < ranges.trend.to; month = addMonths(month, 1)) {
+    trend.set(month, 0);
+  }
+
+  const isIn = (range: ReportRange, date: number) => date >= range.from && date < range.to;
+
+  for (const expense of expenses) {
+    const date = expense.transaction_date;
+    const isCurrent = isIn(ranges.current, date);
+    const isPrevious = isIn(ranges.previous, date);
+    const amount = convertAmount(expense.amount, expense.currency, base, date, rates);
+
+    if (amount === null) {
+      if (isCurrent) {
+        unconverted.set(expense.currency, (unconverted.get(expense.currency) ?? 0) + expense.amount);
+      }
+      continue;
+    }
+
+    if (isIn(ranges.trend, date)) {
+      const month = startOfMonth(date);
+      trend.set(month, (trend.get(month) ?? 0) + amount);
+    }
+
+    if (!isCurrent && !isPrevious) continue;
+
+    if (isCurrent) {
+      total += amount;
+      count++;
+    } else {
+      previousTotal += amount;
+    }
+
+    addToLine(byCategory, getCategoryLine(expense), amount, isCurrent);
+    addToLine(byPaymentMethod, getPaymentMethodLine(expense), amount, isCurrent);
+    addToLine(merchants, getMerchantLine(expense), amount, isCurrent);
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    range: ranges.current,
+    currency: base,
+    total: round(total),
+    previousTotal: round(previousTotal),
+    count,
+    byCategory: toLineList(byCategory, true),
+    byPaymentMethod: toLineList(byPaymentMethod, true),
+    topMerchants: toLineList(merchants, false).slice(0, TOP_MERCHANTS),
+    trend: [...trend.entries()].map(([month, monthTotal]) => ({ month, total: round(monthTotal) })),
+    unconverted: [...unconverted.entries()]
+      .map(([currency, amount]) => ({ currency, total: round(amount) }))
+      .sort((a, b) => b.total - a.total),
+  };
+}
+
+/**
+ * Expenses of the report period as CSV, oldest first, one per line
+ * with the amount both as booked and in the base currency
+ * (empty when there is no rate)
+ */
+export function buildReportCsv(
+  expenses: ReportExpense[],
+  range: ReportRange,
+  base: string,
+  rates: ExchangeRate[]
+): string {
+  const rows = expenses
+    .filter(expense => expense.transaction_date >= range.from && expense.transaction_date < range.to)
+    .sort((a, b) => a.transaction_date - b.transaction_date)
+    .map(expense => [
+      formatCsvDate(expense.transaction_date),
+      expense.amount.toFixed(2),
+      expense.currency,
+      convertAmount(expense.amount, expense.currency, base, expense.transaction_date, rates)?.toFixed(2),
+      getCategoryLine(expense).key ? expense.category_name : '',
+      expense.merchant_name,
+      getPaymentMethodLabel(expense.payment_method),
+      expense.note,
+    ]);
+
+  return formatCsv([
+    ['date', 'amount', 'currency', `amount_${base.toLowerCase()}`, 'category', 'merchant', 'payment_method', 'note'],
+    ...rows,
+  ]);
+}
+
+/**
+ * The report as JSON (summary and breakdowns, dates as YYYY-MM-DD)
+ */
+export function buildReportJson(report: ExpenseReport): string {
+  const toLines = (lines: ReportLine[]) =>
+    lines.map(({ label, total, count, previous }) => ({ label, total, count, previous }));
+
+  return JSON.stringify(
+    {
+      from: formatCsvDate(report.range.from),
+      to: formatCsvDate(report.range.to - 1),
+      currency: report.currency,
+      total: report.total,
+      previous_total: report.previousTotal,
+      count: report.count,
+      by_category: toLines(report.byCategory),
+      by_payment_method: toLines(report.byPaymentMethod),
+      top_merchants: toLines(report.topMerchants),
+      trend: report.trend.map(({ month, total }) => ({ month: formatCsvDate(month).slice(0, 7), total })),
+      unconverted: report.unconverted,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * File name for an export: tetradio-report-2026-08-to-2026-10.csv
+ */
+export function getReportFileName(range: ReportRange, extension: 'csv' | 'json'): string {
+  const first = formatCsvDate(range.from).slice(0, 7);
+  const last = formatCsvDate(range.to - 1).slice(0, 7);
+
+  return `tetradio-report-${first === last ? first : `${first}-to-${last}`}.${extension}`;
+}
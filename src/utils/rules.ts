@@ -0,0 +1,129 @@
+/**
+ * Auto-categorization rules
+ * No side effects, no dependencies on React or Expo
+ *
+ * - A rule matches when every condition it has matches: merchant contains
+ *   (case-insensitive), amount at least / at most (own currency, inclusive)
+ * - Rules run in sort_order; for each field (category, payment method)
+ *   the first matching rule that sets it wins
+ * - Rules only fill empty fields - a category picked by hand is kept
+ */
+
+import type { CategoryRule, CreateCategoryRule } from '../types/models';
+import { formatAmountInput, getPaymentMethodLabel } from './expenses';
+
+export interface RuleTarget {
+  amount: number;
+  merchant_name?: string | null;
+  category_id?: string | null;
+  payment_method?: string | null;
+}
+
+type RuleFields = Pick<CategoryRule, 'merchant_contains' | 'min_amount' | 'max_amount' | 'category_id' | 'payment_method'>;
+
+export function hasRuleCondition(rule: RuleFields): boolean {
+  return !!rule.merchant_contains?.trim() || rule.min_amount !== undefined || rule.max_amount !== undefined;
+}
+
+export function hasRuleAction(rule: RuleFields): boolean {
+  return !!rule.category_id || !!rule.payment_method;
+}
+
+export function matchesRule(rule: RuleFields, expense: RuleTarget): boolean {
+  if (!hasRuleCondition(rule)) return false;
+
+  const pattern = rule.merchant_contains?.trim().toLowerCase();
+  if (pattern && !(expense.merchant_name ?? '').toLowerCase().includes(pattern)) {
+    return false;
+  }
+
+  if (rule.min_amount !== undefined && expense.amount < rule.min_amount) return false;
+  if (rule.max_amount !== undefined && expense.amount > rule.max_amount) return false;
+
+  return true;
+}
+
+/**
+ * Fields the rules would fill on an expense
+ * @param rules - In priority order
+ * @returns Only the fields that were empty and that a rule sets
+ */
+export function applyRules(
+  rules: RuleFields[],
+  expense: RuleTarget
+): { category_id?: string; payment_method?: string } {
+  const result: { category_id?: string; payment_method?: string } = {};
+
+  for (const rule of rules) {
+    if (!matchesRule(rule, expense)) continue;
+
+    if (!expense.category_id && !result.category_id && rule.category_id) {
+      result.category_id = rule.category_id;
+    }
+
+    if (!expense.payment_method && !result.payment_method && rule.payment_method) {
+      result.payment_method = rule.payment_method;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Rule to offer when an expense is moved to another category by hand
+ * @returns null when there's no merchant to match on, or the rules
+ *   already put this merchant in that category
+ */
+export function getRuleSuggestion(
+  rules: RuleFields[],
+  expense: RuleTarget,
+  categoryId: string
+): CreateCategoryRule | null {
+  const merchant = expense.merchant_name?.trim();
+  if (!merchant || !categoryId) return null;
+
+  if (applyRules(rules, { amount: expense.amount, merchant_name: merchant }).category_id === categoryId) {
+    return null;
+  }
+
+  return { merchant_contains: merchant, category_id: categoryId };
+}
+
+/**
+ * 'Merchant contains "lidl" · 10 – 50'
+ */
+export function describeRuleCondition(rule: RuleFields): string {
+  const parts: string[] = [];
+
+  if (rule.merchant_contains?.trim()) {
+    parts.push(`Merchant contains "${rule.merchant_contains.trim()}"`);
+  }
+
+  if (rule.min_amount !== undefined && rule.max_amount !== undefined) {
+    parts.push(`${formatAmountInput(rule.min_amount)} – ${formatAmountInput(rule.max_amount)}`);
+  } else if (rule.min_amount !== undefined) {
+    parts.push(`${formatAmountInput(rule.min_amount)} or more`);
+  } else if (rule.max_amount !== undefined) {
+    parts.push(`Up to ${formatAmountInput(rule.max_amount)}`);
+  }
+
+  return parts.join(' · ');
+}
+
+/**
+ * "🛒 Groceries · Card"
+ * @param categoryLabel - Label of the rule's category, if it sets one
+ */
+export function describeRuleAction(rule: RuleFields, categoryLabel?: string): string {
+  const parts: string[] = [];
+
+  if (rule.category_id) {
+    parts.push(categoryLabel ?? 'Unknown category');
+  }
+
+  if (rule.payment_method) {
+    parts.push(getPaymentMethodLabel(rule.payment_method));
+  }
+
+  return parts.join(' · ');
+}
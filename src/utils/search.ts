@@ -0,0 +1,74 @@
+/**
+ * Full-text search helpers
+ * No side effects, no dependencies on React or Expo
+ *
+ * The index itself lives in SQLite (search_index, FTS5 - see db/schema.ts);
+ * these helpers turn user input into an FTS5 query and split highlighted
+ * results into segments for rendering.
+ */
+
+// Markers passed to FTS5 highlight()/snippet() as char(1) / char(2)
+export const HIGHLIGHT_START = '\u0001';
+export const HIGHLIGHT_END = '\u0002';
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Build an FTS5 MATCH expression from free text
+ *
+ * - Every word must match (implicit AND)
+ * - Words match as prefixes ("gro" finds "groceries")
+ * - FTS5 syntax in the input is neutralised: each word is quoted,
+ *   so "-", "OR", "NEAR", ":" and quotes are searched literally
+ *
+ * Returns null when there is nothing to search for.
+ */
+export function buildFtsQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .map(term => term.replace(/"/g, '').trim())
+    .filter(term => term.length > 0);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map(term => `"${term}"*`).join(' ');
+}
+
+/**
+ * Split text marked by highlight()/snippet() into plain and matched segments
+ */
+export function parseHighlight(marked: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let match = false;
+  let current = '';
+
+  for (const char of marked) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+      if (current) {
+        segments.push({ text: current, match });
+      }
+      current = '';
+      match = char === HIGHLIGHT_START;
+    } else {
+      current += char;
+    }
+  }
+
+  if (current) {
+    segments.push({ text: current, match });
+  }
+
+  return segments;
+}
+
+/**
+ * True if the marked text contains at least one match
+ */
+export function hasHighlight(marked: string | null | undefined): boolean {
+  return !!marked && marked.includes(HIGHLIGHT_START);
+}
@@ -0,0 +1,72 @@
+/**
+ * Task snoozing helpers
+ * No side effects, no dependencies on React or Expo
+ *
+ * Snoozing sets entries.snoozed_until: the task is hidden from time-based
+ * views until then (classifyTask → 'snoozed') without touching its due_date.
+ */
+
+import { formatRelativeDate } from './timeClassification';
+
+export type SnoozePresetKey = 'later_today' | 'tomorrow_morning' | 'next_week';
+
+export interface SnoozePreset {
+  key: SnoozePresetKey;
+  label: string;
+  until: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hour used for "morning" presets and picked dates
+export const SNOOZE_MORNING_HOUR = 9;
+
+// "Later today" = this many hours from now, rounded up to the hour
+const LATER_TODAY_HOURS = 3;
+
+/**
+ * Snooze until the morning of the given day
+ */
+export function getSnoozeUntilForDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(SNOOZE_MORNING_HOUR, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Preset snooze times relative to `now`
+ * "Later today" is left out when it would fall on tomorrow.
+ */
+export function getSnoozePresets(now: number = Date.now()): SnoozePreset[] {
+  const presets: SnoozePreset[] = [];
+
+  const later = new Date(now + LATER_TODAY_HOURS * HOUR_MS);
+  if (later.getMinutes() > 0 || later.getSeconds() > 0) {
+    later.setHours(later.getHours() + 1, 0, 0, 0);
+  }
+  if (later.toDateString() === new Date(now).toDateString()) {
+    presets.push({ key: 'later_today', label: 'Later today', until: later.getTime() });
+  }
+
+  const tomorrow = new Date(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  presets.push({ key: 'tomorrow_morning', label: 'Tomorrow morning', until: getSnoozeUntilForDay(tomorrow.getTime()) });
+
+  // Next Monday (a full week ahead when today is Monday)
+  const nextWeek = new Date(now);
+  const daysUntilMonday = ((8 - nextWeek.getDay()) % 7) || 7;
+  nextWeek.setDate(nextWeek.getDate() + daysUntilMonday);
+  presets.push({ key: 'next_week', label: 'Next week', until: getSnoozeUntilForDay(nextWeek.getTime()) });
+
+  return presets;
+}
+
+/**
+ * "Tomorrow, 09:00" style label for a snooze time
+ */
+export function formatSnoozeTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const hours = date.getHours().toString().padStart(2, '0');
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  return `${formatRelativeDate(timestamp)}, ${hours}:${minutes}`;
+}
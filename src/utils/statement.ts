@@ -0,0 +1,203 @@
+/**
+ * Bank statement CSV → expense rows
+ * No side effects, no dependencies on React or Expo
+ *
+ * - Columns are mapped by index (StatementMapping), guessed from the header
+ *   on first use and saved per bank as an import profile
+ * - Only spending is imported: income rows (by sign) are skipped
+ * - Duplicates: same day, same amount and same merchant (case-insensitive)
+ *   as an existing expense - re-importing a statement adds nothing
+ */
+
+import type { StatementMapping } from '../types/models';
+import { parseCsvDate } from './csv';
+import { normalizeCurrencyCode } from './currency';
+
+export interface StatementRow {
+  line: number;               // 1-based row in the file (blank lines not counted)
+  transaction_date: number;
+  amount: number;             // positive
+  currency: string;
+  merchant_name?: string;
+  note?: string;
+}
+
+export interface SkippedStatementRow {
+  line: number;
+  reason: 'invalid' | 'income';
+}
+
+/**
+ * Read an amount cell the way banks write them
+ * "-12.50", "12,50", "€ 1.234,56", "1,234.56", "(12.50)", "12.50-"
+ * The last '.' or ',' is the decimal separator unless it's repeated
+ * (then both kinds are thousands separators: "1,234,567").
+ * @returns Signed amount rounded to cents, or null if it isn't a number
+ */
+export function parseStatementAmount(value: string): number | null {
+  let text = value.trim().replace(/\s/g, '');
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  // Currency symbols or codes around the number
+  text = text.replace(/^[^\d.,-]+/, '').replace(/[^\d.,]+$/, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  if (!/^[\d.,]+$/.test(text) || !/\d/.test(text)) return null;
+
+  const lastSeparator = Math.max(text.lastIndexOf('.'), text.lastIndexOf(','));
+  let normalized: string;
+
+  if (lastSeparator === -1) {
+    normalized = text;
+  } else {
+    const separator = text[lastSeparator];
+    const isRepeated = text.indexOf(separator) !== lastSeparator;
+    normalized = isRepeated
+      ? text.replace(/[.,]/g, '')
+      : text.slice(0, lastSeparator).replace(/[.,]/g, '') + '.' + text.slice(lastSeparator + 1);
+  }
+
+  const amount = Number(normalized);
+  if (!Number.isFinite(amount)) return null;
+
+  const rounded = Math.round(amount * 100) / 100;
+  return negative ? -rounded : rounded;
+}
+
+/**
+ * Turn CSV rows into expense rows with a column mapping
+ * @returns Rows to import, and rows that were skipped (income or unreadable)
+ */
+export function applyMapping(
+  rows: string[][],
+  mapping: StatementMapping
+): { rows: StatementRow[]; skipped: SkippedStatementRow[] } {
+  const result: StatementRow[] = [];
+  const skipped: SkippedStatementRow[] = [];
+  const cell = (row: string[], column?: number) => (column === undefined ? '' : row[column] ?? '');
+
+  rows.forEach((row, index) => {
+    if (index === 0 && mapping.has_header) return;
+
+    const line = index + 1;
+    const transaction_date = parseCsvDate(cell(row, mapping.date_column));
+    const signed = parseStatementAmount(cell(row, mapping.amount_column));
+
+    if (transaction_date === null || signed === null || signed === 0) {
+      skipped.push({ line, reason: 'invalid' });
+      return;
+    }
+
+    if (mapping.expenses_negative ? signed > 0 : signed < 0) {
+      skipped.push({ line, reason: 'income' });
+      return;
+    }
+
+    const merchant = cell(row, mapping.merchant_column);
+    const note = cell(row, mapping.note_column);
+
+    result.push({
+      line,
+      transaction_date,
+      amount: Math.abs(signed),
+      currency: normalizeCurrencyCode(cell(row, mapping.currency_column)) ?? mapping.default_currency,
+      merchant_name: merchant || undefined,
+      note: note || undefined,
+    });
+  });
+
+  return { rows: result, skipped };
+}
+
+const HEADER_PATTERNS: Record<'date' | 'amount' | 'merchant' | 'note' | 'currency', RegExp> = {
+  date: /date|datum|fecha|data|booked|posted/i,
+  amount: /amount|betrag|importe|montant|valor|value|debit/i,
+  merchant: /merchant|payee|description|beschreibung|counterparty|name|concept/i,
+  note: /note|memo|reference|details|verwendungszweck/i,
+  currency: /currency|währung|moneda|devise|moeda|^ccy$/i,
+};
+
+/**
+ * First guess at the mapping from a header row (the first match wins,
+ * a column is used once)
+ * @returns Partial mapping - date and amount may still be missing
+ */
+export function guessMapping(header: string[]): Partial<StatementMapping> {
+  const used = new Set<number>();
+  const find = (pattern: RegExp): number | undefined => {
+    const index = header.findIndex((name, i) => !used.has(i) && pattern.test(name));
+    if (index === -1) return undefined;
+    used.add(index);
+    return index;
+  };
+
+  // Currency before amount ("Amount currency" shouldn't take the amount)
+  const currency_column = find(HEADER_PATTERNS.currency);
+  const date_column = find(HEADER_PATTERNS.date);
+  const amount_column = find(HEADER_PATTERNS.amount);
+  const merchant_column = find(HEADER_PATTERNS.merchant);
+  const note_column = find(HEADER_PATTERNS.note);
+
+  return { date_column, amount_column, merchant_column, note_column, currency_column };
+}
+
+/**
+ * Key that identifies the same transaction across imports
+ */
+export function getDuplicateKey(expense: {
+  transaction_date: number;
+  amount: number;
+  merchant_name?: string | null;
+}): string {
+  const date = new Date(expense.transaction_date);
+  const day = `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+  const merchant = (expense.merchant_name ?? '').trim().toLowerCase();
+  return `${day}|${expense.amount.toFixed(2)}|${merchant}`;
+}
+
+/**
+ * Which statement rows already exist as expenses
+ * Count-aware: two identical coffees on a day, one already imported,
+ * means the second one is still new.
+ * @returns Set of StatementRow.line values that are duplicates
+ */
+export function findDuplicates(
+  rows: StatementRow[],
+  existing: { transaction_date: number; amount: number; merchant_name?: string | null }[]
+): Set<number> {
+  const remaining = new Map<string, number>();
+  for (const expense of existing) {
+    const key = getDuplicateKey(expense);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  const duplicates = new Set<number>();
+  for (const row of rows) {
+    const key = getDuplicateKey(row);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      duplicates.add(row.line);
+      remaining.set(key, count - 1);
+    }
+  }
+
+  return duplicates;
+}
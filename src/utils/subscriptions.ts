@@ -0,0 +1,118 @@
+/**
+ * Recurring expense schedules and subscription costs
+ * No side effects, no dependencies on React or Expo
+ *
+ * Templates use the repeat rules of utils/recurrence.ts, limited to:
+ *
+ *   FREQ=MONTHLY;BYMONTHDAY=5    monthly on the 5th
+ *   FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29  every year on the first charge date
+ *   FREQ=WEEKLY;INTERVAL=2       every 2 weeks (same weekday as the first charge)
+ *
+ * Charge dates are local midnights. Costs are per template currency;
+ * converting to the base currency is up to the caller (utils/currency.ts).
+ */
+
+import { getNextOccurrence, parseRepeatRule } from './recurrence';
+import { startOfDay } from './expenses';
+
+export type SubscriptionSchedule = 'monthly' | 'yearly' | 'weekly';
+
+// Most expenses generated for one template in one catch-up (e.g. a weekly
+// template after a long time without opening the app); older ones are skipped
+export const MAX_CATCH_UP_CHARGES = 60;
+
+/**
+ * Repeat rule for a schedule, anchored to the first charge date
+ * @param weeks - WEEKLY only, every N weeks
+ */
+export function buildScheduleRule(
+  schedule: SubscriptionSchedule,
+  firstCharge: number,
+  weeks: number = 1
+): string {
+  switch (schedule) {
+    case 'monthly':
+      return `FREQ=MONTHLY;BYMONTHDAY=${new Date(firstCharge).getDate()}`;
+    case 'yearly': {
+      const date = new Date(firstCharge);
+      return `FREQ=YEARLY;BYMONTH=${date.getMonth() + 1};BYMONTHDAY=${date.getDate()}`;
+    }
+    case 'weekly':
+      return weeks > 1 ? `FREQ=WEEKLY;INTERVAL=${weeks}` : 'FREQ=WEEKLY';
+  }
+}
+
+/**
+ * Schedule and week interval of a rule (for editing a template)
+ * Rules outside the supported subset read as monthly.
+ */
+export function getScheduleFromRule(value: string): { schedule: SubscriptionSchedule; weeks: number } {
+  const rule = parseRepeatRule(value);
+
+  if (rule?.freq === 'YEARLY') return { schedule: 'yearly', weeks: 1 };
+  if (rule?.freq === 'WEEKLY') return { schedule: 'weekly', weeks: rule.interval };
+  return { schedule: 'monthly', weeks: 1 };
+}
+
+/**
+ * What a template costs per year, in its own currency
+ * @returns 0 for invalid rules
+ */
+export function getAnnualCost(amount: number, value: string): number {
+  const rule = parseRepeatRule(value);
+  if (!rule) return 0;
+
+  const perYear =
+    rule.freq === 'DAILY' ? 365
+    : rule.freq === 'WEEKLY' ? 52 * (rule.byDay?.length || 1)
+    : rule.freq === 'MONTHLY' ? 12
+    : 1;
+
+  return Math.round((amount * perYear / rule.interval) * 100) / 100;
+}
+
+/**
+ * What a template costs per month on average (annual cost / 12)
+ */
+export function getMonthlyCost(amount: number, value: string): number {
+  return Math.round((getAnnualCost(amount, value) / 12) * 100) / 100;
+}
+
+/**
+ * Charges that came due up to `now`, and the charge date after them
+ *
+ * @param nextDue - Template's next_due_date
+ * @returns dates: due charge dates, oldest first (at most MAX_CATCH_UP_CHARGES,
+ *   the most recent ones); nextDue: first charge date after today,
+ *   or null if the rule is invalid
+ */
+export function getDueCharges(
+  value: string,
+  nextDue: number,
+  now: number = Date.now()
+): { dates: number[]; nextDue: number | null } {
+  const today = startOfDay(now);
+  const dates: number[] = [];
+  let charge: number | null = startOfDay(nextDue);
+
+  while (charge !== null && charge <= today) {
+    dates.push(charge);
+    if (dates.length > MAX_CATCH_UP_CHARGES) {
+      dates.shift();
+    }
+    charge = getNextOccurrence(value, charge);
+  }
+
+  return { dates, nextDue: charge };
+}
+
+/**
+ * First charge date on or after today (resuming a paused template skips
+ * the charges it missed)
+ */
+export function getNextChargeFrom(value: string, nextDue: number, now: number = Date.now()): number {
+  const today = startOfDay(now);
+  if (nextDue >= today) return nextDue;
+
+  return getNextOccurrence(value, startOfDay(nextDue), today) ?? today;
+}
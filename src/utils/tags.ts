@@ -0,0 +1,102 @@
+/**
+ * Tag helpers
+ * No side effects, no dependencies on React or Expo
+ *
+ * Tags are stored without the leading '#', lowercase ("#Groceries" → "groceries").
+ * Titles may carry inline tags ("Buy milk #groceries"): the operations layer
+ * strips them from the title and attaches them to the entry.
+ */
+
+import type { Tag } from '../types/models';
+
+export const MAX_TAG_LENGTH = 32;
+
+// "#word" at the start of the text or after whitespace
+// (letters, digits, '_' and '-' in any script; "a#b" and "#" alone are not tags)
+const INLINE_TAG_PATTERN = /(^|\s)#([\p{L}\p{N}_-]+)(?=\s|$)/gu;
+
+/**
+ * Normalize user input into a tag name
+ * - Drops leading '#', lowercases, whitespace → '-'
+ * - Keeps letters, digits, '_' and '-' only
+ * Returns null when nothing usable is left.
+ */
+export function normalizeTagName(input: string): string | null {
+  const name = input
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}_-]/gu, '')
+    .slice(0, MAX_TAG_LENGTH);
+
+  return name.length > 0 ? name : null;
+}
+
+/**
+ * Normalize and de-duplicate a list of tag names (first occurrence wins)
+ */
+export function normalizeTagNames(names: string[]): string[] {
+  const result: string[] = [];
+
+  for (const input of names) {
+    const name = normalizeTagName(input);
+    if (name && !result.includes(name)) {
+      result.push(name);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Split inline #tags out of a title
+ *
+ * "Buy milk #groceries #Weekly" → { title: 'Buy milk', tags: ['groceries', 'weekly'] }
+ *
+ * A title made only of tags keeps its text (an entry needs a title);
+ * the tags are still returned.
+ */
+export function extractInlineTags(title: string): { title: string; tags: string[] } {
+  const found: string[] = [];
+
+  const stripped = title
+    .replace(INLINE_TAG_PATTERN, (_match, leading: string, tag: string) => {
+      found.push(tag);
+      return leading;
+    })
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+
+  return {
+    title: stripped.length > 0 ? stripped : title.trim(),
+    tags: normalizeTagNames(found),
+  };
+}
+
+/**
+ * Display form of a tag name
+ */
+export function formatTag(name: string): string {
+  return `#${name}`;
+}
+
+/**
+ * Distinct tags used by a list of entries, by name (tag filter options)
+ */
+export function collectTags(entries: { tags?: Tag[] }[]): Tag[] {
+  const byId = new Map<string, Tag>();
+  for (const entry of entries) {
+    for (const tag of entry.tags ?? []) {
+      byId.set(tag.id, tag);
+    }
+  }
+  return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * True if the entry has the tag
+ */
+export function hasTag(entry: { tags?: Tag[] }, tagId: string): boolean {
+  return !!entry.tags?.some(tag => tag.id === tagId);
+}
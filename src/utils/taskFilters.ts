@@ -58,7 +58,7 @@
 
 import type { Task } from '../types/models';
 import type { TaskFilter } from '../types/filters';
-import { classifyTask, type TaskTimeCategory } from './timeClassification';
+import { classifyTask, isSnoozed, selectNextOccurrences, type TaskTimeCategory } from './timeClassification';
 
 /**
  * Apply a filter to a list of tasks
@@ -77,25 +77,30 @@ import { classifyTask, type TaskTimeCategory } from './timeClassification';
  * - No date logic duplication
  * - Completed tasks filtered separately (not part of filter types)
  * - 'all' means all ACTIVE tasks (completed handled separately in UI)
+ * - Recurring tasks count once: only their next pending occurrence
+ * - Snoozed tasks only match 'snoozed' (classifyTask returns 'snoozed')
  * 
  * TICKET 17A HARDENING:
  * - Added defensive check for invalid filter values
  * - Clarified 'all' semantics with explicit comment
  */
-export function applyTaskFilter(
-  tasks: Task[],
+export function applyTaskFilter<T extends Task>(
+  tasks: T[],
   filter: TaskFilter
-): Task[] {
+): T[] {
+  // Recurring tasks: only the next pending occurrence is visible
+  const candidates = selectNextOccurrences(tasks);
+
   // TICKET 17A HARDENING: 'all' means "all ACTIVE (non-completed) tasks"
   // NOT literally all tasks. Completed tasks are UI-controlled via
   // collapsible section, not part of filter system.
   if (filter === 'all') {
-    return tasks.filter(task => !task.completed);
+    return candidates.filter(task => !task.completed && !isSnoozed(task));
   }
   
   // TICKET 17A FINAL: 'completed' filter shows only completed tasks
   if (filter === 'completed') {
-    return tasks.filter(task => task.completed);
+    return candidates.filter(task => task.completed);
   }
   
   // For other filters: use timeClassification to categorize each task
@@ -105,6 +110,7 @@ export function applyTaskFilter(
     'overdue': 'overdue',
     'upcoming': 'upcoming',
     'no-date': 'no_date',
+    'snoozed': 'snoozed',
   };
   
   const targetCategory = categoryMap[filter];
@@ -114,10 +120,10 @@ export function applyTaskFilter(
   // if filter comes from external source (e.g., URL params, API)
   if (!targetCategory) {
     console.warn(`[applyTaskFilter] Invalid filter "${filter}", defaulting to 'all'`);
-    return tasks.filter(task => !task.completed);
+    return candidates.filter(task => !task.completed && !isSnoozed(task));
   }
   
-  return tasks.filter(task => {
+  return candidates.filter(task => {
     // Skip completed tasks (they're handled separately in UI)
     if (task.completed) {
       return false;
@@ -154,6 +160,8 @@ export function getFilterLabel(filter: TaskFilter): string {
       return 'No Date';
     case 'completed':
       return 'Completed';
+    case 'snoozed':
+      return 'Snoozed';
     default: {
       // TICKET 17A HARDENING: Exhaustiveness check
       // If a new TaskFilter is added, TypeScript will error here
@@ -1,6 +1,6 @@
 import type { Task } from '../types/models';
 
-export type TaskTimeCategory = 'overdue' | 'today' | 'upcoming' | 'no_date' | 'completed';
+export type TaskTimeCategory = 'overdue' | 'today' | 'upcoming' | 'no_date' | 'completed' | 'snoozed';
 
 /**
  * Get start of today (midnight) as timestamp
@@ -28,8 +28,18 @@ export function hasTimeComponent(timestamp: number): boolean {
   return date.getHours() !== 0 || date.getMinutes() !== 0 || date.getSeconds() !== 0;
 }
 
+/**
+ * Check if a task is currently snoozed (hidden until snoozed_until)
+ */
+export function isSnoozed(task: Task, now: number = Date.now()): boolean {
+  return !task.completed && !!task.snoozed_until && task.snoozed_until > now;
+}
+
 /**
  * Classify a task into a time category
+ * 
+ * Snoozed tasks are 'snoozed' until the snooze expires, then fall back
+ * into their normal category (due_date is never changed by snoozing).
  */
 export function classifyTask(task: Task): TaskTimeCategory {
   // Completed tasks always in completed category
@@ -37,6 +47,10 @@ export function classifyTask(task: Task): TaskTimeCategory {
     return 'completed';
   }
 
+  if (isSnoozed(task)) {
+    return 'snoozed';
+  }
+
   // No due date
   if (!task.due_date) {
     return 'no_date';
@@ -78,6 +92,39 @@ export function classifyTask(task: Task): TaskTimeCategory {
   return 'upcoming';
 }
 
+/**
+ * Keep only the next pending occurrence of each recurring series
+ * 
+ * Occurrences of a recurring task share series_id. Normally only one is
+ * pending at a time, but un-completing an old occurrence can leave two;
+ * the one due first wins. Completed occurrences are all kept (history).
+ */
+export function selectNextOccurrences<T extends Task>(tasks: T[]): T[] {
+  const nextBySeries = new Map<string, T>();
+
+  for (const task of tasks) {
+    if (task.completed || !task.series_id) continue;
+
+    const current = nextBySeries.get(task.series_id);
+    if (!current || compareOccurrences(task, current) < 0) {
+      nextBySeries.set(task.series_id, task);
+    }
+  }
+
+  return tasks.filter(task =>
+    task.completed || !task.series_id || nextBySeries.get(task.series_id) === task
+  );
+}
+
+function compareOccurrences(a: Task, b: Task): number {
+  if (a.due_date !== b.due_date) {
+    if (!a.due_date) return 1;
+    if (!b.due_date) return -1;
+    return a.due_date - b.due_date;
+  }
+  return a.created_at - b.created_at;
+}
+
 /**
  * Compare tasks for ordering within a time category
  * Order: timed before date-only → priority (1,2,3) → timestamp
@@ -122,6 +169,7 @@ export interface GroupedTasks {
   upcoming: Task[];
   no_date: Task[];
   completed: Task[];
+  snoozed: Task[];
 }
 
 export function groupTasksByTime(tasks: Task[]): GroupedTasks {
@@ -131,9 +179,11 @@ export function groupTasksByTime(tasks: Task[]): GroupedTasks {
     upcoming: [],
     no_date: [],
     completed: [],
+    snoozed: [],
   };
 
-  tasks.forEach(task => {
+  // Recurring tasks: only the next pending occurrence is shown
+  selectNextOccurrences(tasks).forEach(task => {
     const category = classifyTask(task);
     grouped[category].push(task);
   });
@@ -144,6 +194,9 @@ export function groupTasksByTime(tasks: Task[]): GroupedTasks {
   grouped.upcoming.sort(compareTasksByTime);
   grouped.no_date.sort(compareTasksByTime);
 
+  // Snoozed: the ones coming back first on top
+  grouped.snoozed.sort((a, b) => (a.snoozed_until ?? 0) - (b.snoozed_until ?? 0));
+
   return grouped;
 }
 